@@ -7,13 +7,20 @@ import {
   type DragEndEvent,
 } from "@dnd-kit/core";
 import { AppCompiler } from "@form-builder/compiler";
-import { AppDefinitionSchema, type AppDefinition } from "@form-builder/contracts";
+import {
+  AppDefinitionSchema,
+  readEventStream,
+  type AppDefinition,
+  type ExecutionStreamEvent,
+} from "@form-builder/contracts";
 import { Palette } from "./palette/Palette.js";
 import { Canvas } from "./canvas/Canvas.js";
 import { PromptEditor } from "./prompt-editor/PromptEditor.js";
 import {
+  findUnsupportedAppFeatures,
   getPromptVariables,
   getPromptDiagnosticsForButton,
+  isInputComponentType,
   parseBuilderWorkspaceSnapshot,
   useBuilderStore,
   type BuilderWorkspaceSnapshot,
@@ -22,9 +29,11 @@ import {
   type BuilderComponentType,
 } from "./state/builder-store.js";
 import { toAppDefinition } from "./serializer/to-app-definition.js";
+import { mergeAppDefinitions } from "./serializer/merge-app-definitions.js";
 import {
   DEFAULT_MODEL_POLICY,
   getDefaultModelForProvider,
+  getModelPolicyProviderChain,
   type SupportedModelProvider,
 } from "./prompt-schema/model-policy.js";
 import { DEFAULT_OUTPUT_SCHEMA_JSON } from "./prompt-schema/output-schema.js";
@@ -55,14 +64,30 @@ interface BuilderCompileResponse {
   generatedAt: string;
 }
 
+interface PreviewTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+}
+
 interface BuilderPreviewResponse {
   statePatch: Record<string, unknown>;
   logs: Array<{ at: string; eventId: string; stage: string; message: string }>;
+  usage?: PreviewTokenUsage;
+  estimatedCostUsd?: number;
+  nodeUsage?: Array<{
+    nodeId: string;
+    provider: string;
+    model: string;
+    usage: PreviewTokenUsage;
+    estimatedCostUsd: number | null;
+  }>;
 }
 
 interface ProviderStatusItem {
   available: boolean;
   reason: string | null;
+  capabilities?: { jsonMode: boolean; streaming: boolean; tools: boolean };
 }
 
 interface BuilderProviderStatusResponse {
@@ -160,14 +185,25 @@ function buildBuilderGuardrailDiagnostics(args: {
       });
     }
 
-    const provider = component.modelProvider ?? "mock";
-    const providerStatus = args.providerStatus?.[provider];
-    if (providerStatus && !providerStatus.available) {
+    // A policy is healthy as long as any provider in its fallback chain can answer.
+    const chain = getModelPolicyProviderChain({
+      provider: component.modelProvider,
+      fallbacks: component.modelFallbacks,
+    });
+    const unavailable = chain.filter(
+      (provider) => args.providerStatus?.[provider]?.available === false,
+    );
+    if (unavailable.length === chain.length) {
+      const provider = chain[0] ?? "mock";
+      const providerStatus = args.providerStatus?.[provider];
       diagnostics.push({
         code: "BUILDER_PROVIDER_UNAVAILABLE",
         severity: "warning",
         path: `ui.components.${component.id}.modelProvider`,
-        message: `Provider '${provider}' is unavailable: ${providerStatus.reason ?? "missing credentials."}`,
+        message:
+          chain.length > 1
+            ? `No provider in the fallback chain (${chain.join(" -> ")}) is available.`
+            : `Provider '${provider}' is unavailable: ${providerStatus?.reason ?? "missing credentials."}`,
       });
     }
   }
@@ -175,6 +211,28 @@ function buildBuilderGuardrailDiagnostics(args: {
   return diagnostics;
 }
 
+function formatModelCatalogSummary(
+  providers: BuilderModelCatalogResponse["providers"],
+): string {
+  const counts = Object.entries(providers)
+    .filter(([provider]) => provider !== "mock")
+    .map(([provider, entry]) => `${provider} ${entry?.models?.length ?? 0}`);
+  return `Model catalog ready: ${counts.join(", ")}.`;
+}
+
+function formatPreviewCost(result: BuilderPreviewResponse): string | null {
+  if (!result.usage) {
+    return null;
+  }
+  const unpriced = (result.nodeUsage ?? []).filter((entry) => entry.estimatedCostUsd === null);
+  const cost = `$${(result.estimatedCostUsd ?? 0).toFixed(6)}`;
+  return `Estimated cost ${cost} (${result.usage.inputTokens} input / ${result.usage.outputTokens} output tokens${
+    unpriced.length > 0
+      ? `; no price for ${unpriced.map((entry) => `${entry.provider}/${entry.model}`).join(", ")}`
+      : ""
+  }).`;
+}
+
 type CompileSource = "none" | "api" | "local";
 const AUTOSAVE_STORAGE_KEY = "form-first-builder.autosave.v1";
 const SNAPSHOT_HISTORY_STORAGE_KEY = "form-first-builder.snapshots.v1";
@@ -330,6 +388,11 @@ function buildPreviewState(app: AppDefinition): Record<string, unknown> {
       state[key] = [];
       continue;
     }
+    if (field.type === "file") {
+      // Strings stand in for already-extracted file text.
+      state[key] = `Preview file text for ${key}`;
+      continue;
+    }
     state[key] = null;
   }
 
@@ -495,10 +558,14 @@ function componentSignature(component: BuilderWorkspaceSnapshot["components"][nu
     position: component.position,
   };
 
-  if (component.type === "TextArea") {
+  if (isInputComponentType(component.type)) {
     return JSON.stringify({
       ...base,
       stateKey: component.stateKey ?? "",
+      selectOptions: component.selectOptions ?? "",
+      acceptTypes: component.acceptTypes ?? "",
+      minValue: component.minValue ?? "",
+      maxValue: component.maxValue ?? "",
     });
   }
 
@@ -511,12 +578,14 @@ function componentSignature(component: BuilderWorkspaceSnapshot["components"][nu
       modelProvider: component.modelProvider ?? "",
       modelName: component.modelName ?? "",
       modelTemperature: component.modelTemperature ?? "",
+      modelFallbacks: component.modelFallbacks ?? "",
     });
   }
 
   return JSON.stringify({
     ...base,
     dataKey: component.dataKey ?? "",
+    outputField: component.outputField ?? "",
   });
 }
 
@@ -593,7 +662,7 @@ async function compileViaApi(args: {
   const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
   const response = await fetch(`${apiBase}/builder/compile`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...getBuilderAuthHeaders() },
     body: JSON.stringify({
       app: args.app,
       target: "node-fastify-react",
@@ -625,7 +694,7 @@ async function fetchDeployableTgzViaApi(args: {
   const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
   const response = await fetch(`${apiBase}/builder/bundle`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...getBuilderAuthHeaders() },
     body: JSON.stringify({
       app: args.app,
       target: "node-fastify-react",
@@ -668,37 +737,51 @@ async function previewViaApi(args: {
   app: AppDefinition;
   eventId: string;
   state: Record<string, unknown>;
+  onEvent?: (event: ExecutionStreamEvent) => void;
 }): Promise<BuilderPreviewResponse> {
   const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
-  const response = await fetch(`${apiBase}/builder/preview/events/${args.eventId}/execute`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      app: args.app,
-      state: args.state,
-    }),
-  });
-
-  const body = (await response.json()) as
-    | BuilderPreviewResponse
-    | { error?: string; message?: string };
+  const response = await fetch(
+    `${apiBase}/builder/preview/events/${args.eventId}/execute/stream`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...getBuilderAuthHeaders() },
+      body: JSON.stringify({
+        app: args.app,
+        state: args.state,
+      }),
+    },
+  );
 
   if (!response.ok) {
-    const message =
-      "message" in body && body.message
-        ? body.message
-        : "error" in body && body.error
-          ? body.error
-          : "Preview API failed";
-    throw new Error(message);
+    const body = (await response.json()) as { error?: string; message?: string };
+    throw new Error(body.message ?? body.error ?? "Preview API failed");
   }
 
-  return body as BuilderPreviewResponse;
+  let result: BuilderPreviewResponse | null = null;
+  let failure: string | null = null;
+  await readEventStream(response, (event) => {
+    if (event.type === "result") {
+      result = event.result;
+    } else if (event.type === "error") {
+      failure = event.message;
+    }
+    args.onEvent?.(event);
+  });
+
+  if (failure) {
+    throw new Error(failure);
+  }
+  if (!result) {
+    throw new Error("Preview stream ended without a result.");
+  }
+  return result;
 }
 
 async function fetchProviderStatusViaApi(): Promise<BuilderProviderStatusResponse> {
   const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
-  const response = await fetch(`${apiBase}/builder/providers/status`);
+  const response = await fetch(`${apiBase}/builder/providers/status`, {
+    headers: { ...getBuilderAuthHeaders() },
+  });
   const body = (await response.json()) as
     | BuilderProviderStatusResponse
     | { error?: string; message?: string };
@@ -718,7 +801,9 @@ async function fetchProviderStatusViaApi(): Promise<BuilderProviderStatusRespons
 
 async function fetchModelCatalogViaApi(): Promise<BuilderModelCatalogResponse> {
   const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
-  const response = await fetch(`${apiBase}/builder/models/catalog`);
+  const response = await fetch(`${apiBase}/builder/models/catalog`, {
+    headers: { ...getBuilderAuthHeaders() },
+  });
 
   const body = (await response.json()) as
     | BuilderModelCatalogResponse
@@ -745,21 +830,26 @@ function getBuilderAuthHeaders(): Record<string, string> {
   return { Authorization: `Bearer ${apiKey.trim()}` };
 }
 
-async function listProjectsViaApi(): Promise<{
-  projects: Array<{
-    id: string;
-    name: string;
-    createdAt: string;
-    updatedAt: string;
-    latestVersionId: string;
-  }>;
-}> {
+interface ServerProjectEntry {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  latestVersionId: string;
+  archivedAt?: string;
+  deletedAt?: string;
+}
+
+async function listProjectsViaApi(
+  options: { includeArchived?: boolean } = {},
+): Promise<{ projects: ServerProjectEntry[] }> {
   const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
-  const response = await fetch(`${apiBase}/builder/projects`, {
+  const query = options.includeArchived ? "?includeArchived=true" : "";
+  const response = await fetch(`${apiBase}/builder/projects${query}`, {
     headers: { ...getBuilderAuthHeaders() },
   });
   const body = (await response.json()) as
-    | { projects: Array<{ id: string; name: string; createdAt: string; updatedAt: string; latestVersionId: string }> }
+    | { projects: ServerProjectEntry[] }
     | { error?: string; message?: string };
   if (!response.ok) {
     const message =
@@ -770,7 +860,145 @@ async function listProjectsViaApi(): Promise<{
           : "Project list API failed";
     throw new Error(message);
   }
-  return body as { projects: Array<{ id: string; name: string; createdAt: string; updatedAt: string; latestVersionId: string }> };
+  return body as { projects: ServerProjectEntry[] };
+}
+
+async function listTrashedProjectsViaApi(): Promise<{ projects: ServerProjectEntry[] }> {
+  const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
+  const response = await fetch(`${apiBase}/builder/trash/projects`, {
+    headers: { ...getBuilderAuthHeaders() },
+  });
+  const body = (await response.json()) as
+    | { projects: ServerProjectEntry[] }
+    | { error?: string; message?: string };
+  if (!response.ok) {
+    const message =
+      "message" in body && body.message
+        ? body.message
+        : "error" in body && body.error
+          ? body.error
+          : "Trash list API failed";
+    throw new Error(message);
+  }
+  return body as { projects: ServerProjectEntry[] };
+}
+
+type ProjectLifecycleAction =
+  | { kind: "rename"; projectId: string; name: string }
+  | { kind: "archive"; projectId: string; archived: boolean }
+  | { kind: "duplicate"; projectId: string; targetId: string }
+  | { kind: "delete"; projectId: string }
+  | { kind: "restore"; projectId: string };
+
+async function runProjectLifecycleViaApi(
+  action: ProjectLifecycleAction,
+): Promise<{ project: ServerProjectEntry }> {
+  const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
+  const request: { method: string; path: string; body?: unknown } =
+    action.kind === "rename"
+      ? { method: "PATCH", path: `/builder/projects/${action.projectId}`, body: { name: action.name } }
+      : action.kind === "archive"
+        ? {
+            method: "PATCH",
+            path: `/builder/projects/${action.projectId}`,
+            body: { archived: action.archived },
+          }
+        : action.kind === "duplicate"
+          ? {
+              method: "POST",
+              path: `/builder/projects/${action.projectId}/duplicate`,
+              body: { projectId: action.targetId },
+            }
+          : action.kind === "delete"
+            ? { method: "DELETE", path: `/builder/projects/${action.projectId}` }
+            : { method: "POST", path: `/builder/trash/projects/${action.projectId}/restore` };
+
+  const response = await fetch(`${apiBase}${request.path}`, {
+    method: request.method,
+    headers: {
+      ...(request.body !== undefined ? { "Content-Type": "application/json" } : {}),
+      ...getBuilderAuthHeaders(),
+    },
+    ...(request.body !== undefined ? { body: JSON.stringify(request.body) } : {}),
+  });
+  const body = (await response.json()) as
+    | { project: ServerProjectEntry }
+    | { error?: string; message?: string };
+  if (!response.ok) {
+    const message =
+      "message" in body && body.message
+        ? body.message
+        : "error" in body && body.error
+          ? body.error
+          : "Project API failed";
+    throw new Error(message);
+  }
+  return body as { project: ServerProjectEntry };
+}
+
+class ProjectImportConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectImportConflictError";
+  }
+}
+
+async function exportProjectArchiveViaApi(projectId: string): Promise<Blob> {
+  const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
+  const response = await fetch(`${apiBase}/builder/projects/${projectId}/export`, {
+    headers: { ...getBuilderAuthHeaders() },
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(text || "Project export failed");
+  }
+  return response.blob();
+}
+
+async function importProjectArchiveViaApi(args: {
+  archive: Blob;
+  onConflict: "fail" | "rename";
+}): Promise<{ project: ServerProjectEntry; importedFrom: string; versions: number }> {
+  const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
+  const response = await fetch(`${apiBase}/builder/projects/import?onConflict=${args.onConflict}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/gzip", ...getBuilderAuthHeaders() },
+    body: args.archive,
+  });
+  const body = (await response.json()) as
+    | { project: ServerProjectEntry; importedFrom: string; versions: number }
+    | { error?: string; message?: string };
+  if (response.status === 409 && "error" in body && body.error === "PROJECT_EXISTS") {
+    throw new ProjectImportConflictError(body.message ?? "Project already exists.");
+  }
+  if (!response.ok) {
+    const message =
+      "message" in body && body.message
+        ? body.message
+        : "error" in body && body.error
+          ? body.error
+          : "Project import failed";
+    throw new Error(message);
+  }
+  return body as { project: ServerProjectEntry; importedFrom: string; versions: number };
+}
+
+interface ProjectSaveConflict {
+  baseVersionId: string;
+  latestVersionId: string | null;
+  base: { id: string; appDefinition: AppDefinition } | null;
+  latest: { id: string; savedAt: string; savedBy?: string; appDefinition: AppDefinition } | null;
+}
+
+class ProjectSaveConflictError extends Error {
+  constructor(readonly conflict: ProjectSaveConflict) {
+    super(
+      conflict.latestVersionId
+        ? `Server has newer version ${conflict.latestVersionId} (you started from ${conflict.baseVersionId}).`
+        : "Project was removed on the server.",
+    );
+    this.name = "ProjectSaveConflictError";
+  }
 }
 
 async function upsertProjectViaApi(args: {
@@ -781,6 +1009,7 @@ async function upsertProjectViaApi(args: {
   workspaceSnapshot: BuilderWorkspaceSnapshot;
   previewStateDraft: string;
   previewStateDirty: boolean;
+  baseVersionId?: string;
 }): Promise<{ project: { id: string; latestVersionId: string }; saved: { id: string } }> {
   const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
   const response = await fetch(`${apiBase}/builder/projects/${args.projectId}`, {
@@ -793,11 +1022,15 @@ async function upsertProjectViaApi(args: {
       workspaceSnapshot: args.workspaceSnapshot,
       previewStateDraft: args.previewStateDraft,
       previewStateDirty: args.previewStateDirty,
+      baseVersionId: args.baseVersionId,
     }),
   });
   const body = (await response.json()) as
     | { project: { id: string; latestVersionId: string }; saved: { id: string } }
     | { error?: string; message?: string };
+  if (response.status === 409) {
+    throw new ProjectSaveConflictError(body as unknown as ProjectSaveConflict);
+  }
   if (!response.ok) {
     const message =
       "message" in body && body.message
@@ -818,6 +1051,7 @@ async function fetchProjectViaApi(projectId: string): Promise<{
     previewStateDraft?: string;
     previewStateDirty?: boolean;
   };
+  live: ProjectDeployment | null;
 }> {
   const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
   const response = await fetch(`${apiBase}/builder/projects/${projectId}`, {
@@ -851,12 +1085,68 @@ async function fetchProjectViaApi(projectId: string): Promise<{
       previewStateDraft?: string;
       previewStateDirty?: boolean;
     };
+    live: ProjectDeployment | null;
   };
 }
 
+interface ProjectDeployment {
+  id: string;
+  versionId: string;
+  appId: string;
+  appVersion: string;
+  action: "publish" | "rollback";
+  publishedAt: string;
+}
+
+async function publishProjectVersionViaApi(args: {
+  projectId: string;
+  versionId?: string;
+  rollback?: boolean;
+}): Promise<{ deployment: ProjectDeployment }> {
+  const apiBase = import.meta.env.VITE_BUILDER_API_URL ?? "http://localhost:3000";
+  const url = args.rollback
+    ? `${apiBase}/builder/projects/${args.projectId}/rollback`
+    : `${apiBase}/builder/projects/${args.projectId}/versions/${args.versionId ?? ""}/publish`;
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...getBuilderAuthHeaders() },
+    body: JSON.stringify({}),
+  });
+  const body = (await response.json()) as
+    | { deployment: ProjectDeployment }
+    | { error?: string; message?: string; diagnostics?: CompileDiagnostic[] };
+  if (!response.ok) {
+    const diagnostics = "diagnostics" in body ? (body.diagnostics ?? []) : [];
+    const message =
+      diagnostics.length > 0
+        ? diagnostics.map((item) => `${item.code}: ${item.message}`).join("; ")
+        : "message" in body && body.message
+          ? body.message
+          : "error" in body && body.error
+            ? body.error
+            : "Publish API failed";
+    throw new Error(message);
+  }
+  return body as { deployment: ProjectDeployment };
+}
+
+function formatLiveDeployment(live: ProjectDeployment | null): string {
+  if (!live) {
+    return "Live: not published.";
+  }
+  const action = live.action === "rollback" ? "rolled back to" : "published";
+  return `Live: '${live.appId}' ${live.appVersion} (version ${live.versionId}), ${action} ${new Date(live.publishedAt).toLocaleString()}.`;
+}
+
+function formatUnsupportedAppFeatures(features: string[]): string {
+  return `the builder cannot edit ${features.join(", ")}, and saving from it would remove them. Edit the app definition JSON instead.`;
+}
+
 export function App(): JSX.Element {
   const appId = useBuilderStore((state) => state.appId);
   const version = useBuilderStore((state) => state.version);
+  const security = useBuilderStore((state) => state.security);
+  const setSecurity = useBuilderStore((state) => state.setSecurity);
   const components = useBuilderStore((state) => state.components);
   const connections = useBuilderStore((state) => state.connections);
   const selectedComponentId = useBuilderStore((state) => state.selectedComponentId);
@@ -896,12 +1186,24 @@ export function App(): JSX.Element {
   );
   const [previewSummary, setPreviewSummary] = useState("No preview run yet.");
   const [previewOutput, setPreviewOutput] = useState<BuilderPreviewResponse | null>(null);
+  const previewCostSummary = useMemo(
+    () => (previewOutput ? formatPreviewCost(previewOutput) : null),
+    [previewOutput],
+  );
+  const [previewStreamText, setPreviewStreamText] = useState("");
   const [previewStateDirty, setPreviewStateDirty] = useState(false);
   const [previewStateDraft, setPreviewStateDraft] = useState("{}");
   const [allowPreviewProviderOverride, setAllowPreviewProviderOverride] =
     useState(false);
   const [autosaveReady, setAutosaveReady] = useState(false);
   const [autosaveStatus, setAutosaveStatus] = useState("Autosave not initialized.");
+  const [serverVersionId, setServerVersionId] = useState<string | null>(null);
+  const [liveDeployment, setLiveDeployment] = useState<ProjectDeployment | null>(null);
+  const [serverProjects, setServerProjects] = useState<ServerProjectEntry[] | null>(null);
+  const [trashedProjects, setTrashedProjects] = useState<ServerProjectEntry[]>([]);
+  const [showArchivedProjects, setShowArchivedProjects] = useState(false);
+  const [projectPanelStatus, setProjectPanelStatus] = useState("");
+  const [saveConflict, setSaveConflict] = useState<ProjectSaveConflict | null>(null);
   const [providerStatusSummary, setProviderStatusSummary] = useState(
     "Provider status unavailable.",
   );
@@ -929,10 +1231,11 @@ export function App(): JSX.Element {
       toAppDefinition({
         appId,
         version,
+        security,
         components,
         connections,
       }),
-    [appId, version, components, connections],
+    [appId, version, security, components, connections],
   );
 
   const defaultPreviewStateText = useMemo(
@@ -1137,11 +1440,7 @@ export function App(): JSX.Element {
           return;
         }
         setModelCatalog(catalog.providers);
-        const openaiCount = catalog.providers.openai?.models?.length ?? 0;
-        const anthropicCount = catalog.providers.anthropic?.models?.length ?? 0;
-        setModelCatalogSummary(
-          `Model catalog ready: openai ${openaiCount}, anthropic ${anthropicCount}.`,
-        );
+        setModelCatalogSummary(formatModelCatalogSummary(catalog.providers));
       } catch (error) {
         if (canceled) {
           return;
@@ -1493,7 +1792,7 @@ export function App(): JSX.Element {
           return null;
         }
         const source = components.find(
-          (item) => item.type === "TextArea" && item.stateKey === variable,
+          (item) => isInputComponentType(item.type) && item.stateKey === variable,
         );
         if (!source) {
           return null;
@@ -1771,6 +2070,86 @@ export function App(): JSX.Element {
     localStorage.removeItem(SNAPSHOT_HISTORY_STORAGE_KEY);
   }, []);
 
+  const refreshServerProjects = useCallback(async (): Promise<void> => {
+    try {
+      const [list, trash] = await Promise.all([
+        listProjectsViaApi({ includeArchived: showArchivedProjects }),
+        listTrashedProjectsViaApi(),
+      ]);
+      setServerProjects(list.projects);
+      setTrashedProjects(trash.projects);
+    } catch (error) {
+      setProjectPanelStatus(`Project list failed: ${(error as Error).message}`);
+    }
+  }, [showArchivedProjects]);
+
+  const applyProjectAction = useCallback(
+    async (action: ProjectLifecycleAction): Promise<void> => {
+      try {
+        const { project } = await runProjectLifecycleViaApi(action);
+        const verb = {
+          rename: "Renamed",
+          archive: "Updated",
+          duplicate: "Created",
+          delete: "Moved to trash:",
+          restore: "Restored",
+        }[action.kind];
+        setProjectPanelStatus(`${verb} project '${project.id}' (${project.name}).`);
+        await refreshServerProjects();
+      } catch (error) {
+        setProjectPanelStatus(`Project ${action.kind} failed: ${(error as Error).message}`);
+      }
+    },
+    [refreshServerProjects],
+  );
+
+  const exportServerProject = useCallback(async (projectId: string): Promise<void> => {
+    try {
+      const blob = await exportProjectArchiveViaApi(projectId);
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement("a");
+      anchor.href = url;
+      anchor.download = `${projectId}.ffproj`;
+      anchor.click();
+      URL.revokeObjectURL(url);
+      setProjectPanelStatus(`Exported project '${projectId}'.`);
+    } catch (error) {
+      setProjectPanelStatus(`Project export failed: ${(error as Error).message}`);
+    }
+  }, []);
+
+  const importServerProject = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>): Promise<void> => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) {
+        return;
+      }
+
+      try {
+        let result;
+        try {
+          result = await importProjectArchiveViaApi({ archive: file, onConflict: "fail" });
+        } catch (error) {
+          if (
+            !(error instanceof ProjectImportConflictError) ||
+            !window.confirm(`${error.message} Import it under a new id?`)
+          ) {
+            throw error;
+          }
+          result = await importProjectArchiveViaApi({ archive: file, onConflict: "rename" });
+        }
+        setProjectPanelStatus(
+          `Imported '${result.importedFrom}' as '${result.project.id}' with ${result.versions} versions.`,
+        );
+        await refreshServerProjects();
+      } catch (error) {
+        setProjectPanelStatus(`Project import failed: ${(error as Error).message}`);
+      }
+    },
+    [refreshServerProjects],
+  );
+
   const compileNow = useCallback(async (): Promise<void> => {
     setCompileSummary("Compiling...");
 
@@ -2029,6 +2408,11 @@ export function App(): JSX.Element {
           setCompileSummary(`Import failed: ${message}`);
           return;
         }
+        const unsupported = findUnsupportedAppFeatures(parsed.data);
+        if (unsupported.length > 0) {
+          setCompileSummary(`Import failed: ${formatUnsupportedAppFeatures(unsupported)}`);
+          return;
+        }
 
         loadFromAppDefinition(parsed.data);
         const builderPreferences =
@@ -2097,6 +2481,15 @@ export function App(): JSX.Element {
 
     setPreviewSummary(`Running preview for event '${selectedEventId}'...`);
     setPreviewOutput(null);
+    setPreviewStreamText("");
+
+    // Mirrors previewStreamText so a retried attempt's partial reply can be cut out again.
+    let transcript = "";
+    let partial: { start: number; length: number } | null = null;
+    const showTranscript = (next: string) => {
+      transcript = next;
+      setPreviewStreamText(next);
+    };
 
     try {
       const previewState = parsePreviewStateDraft(previewStateDraft);
@@ -2104,6 +2497,28 @@ export function App(): JSX.Element {
         app: schema,
         eventId: selectedEventId,
         state: previewState,
+        onEvent: (event) => {
+          if (event.type === "node-start") {
+            partial = null;
+            setPreviewSummary(
+              `Running preview for event '${selectedEventId}': ${event.kind} '${event.nodeId}'...`,
+            );
+          } else if (event.type === "token") {
+            partial = partial
+              ? { ...partial, length: partial.length + event.text.length }
+              : { start: transcript.length, length: event.text.length };
+            showTranscript(transcript + event.text);
+          } else if (event.type === "token-reset") {
+            if (partial) {
+              showTranscript(
+                transcript.slice(0, partial.start) + transcript.slice(partial.start + partial.length),
+              );
+            }
+            partial = null;
+          } else if (event.type === "log") {
+            showTranscript(`${transcript}${transcript.length > 0 ? "\n" : ""}[${event.log.stage}] ${event.log.message}\n`);
+          }
+        },
       });
 
       setPreviewOutput(result);
@@ -2232,11 +2647,17 @@ export function App(): JSX.Element {
                       workspaceSnapshot: currentWorkspace,
                       previewStateDraft,
                       previewStateDirty,
+                      ...(serverVersionId ? { baseVersionId: serverVersionId } : {}),
                     });
+                    setServerVersionId(result.saved.id);
+                    setSaveConflict(null);
                     setCompileSummary(
                       `Saved project '${result.project.id}' (version ${result.saved.id}).`,
                     );
                   } catch (error) {
+                    if (error instanceof ProjectSaveConflictError) {
+                      setSaveConflict(error.conflict);
+                    }
                     setCompileSummary(
                       `Save project failed: ${(error as Error).message}`,
                     );
@@ -2254,6 +2675,10 @@ export function App(): JSX.Element {
                     const workspace = loaded.latest.workspaceSnapshot
                       ? parseBuilderWorkspaceSnapshot(loaded.latest.workspaceSnapshot)
                       : null;
+                    const unsupported = findUnsupportedAppFeatures(loaded.latest.appDefinition);
+                    if (unsupported.length > 0) {
+                      throw new Error(formatUnsupportedAppFeatures(unsupported));
+                    }
                     if (workspace) {
                       loadWorkspaceSnapshot(workspace);
                     } else {
@@ -2265,6 +2690,9 @@ export function App(): JSX.Element {
                     } else {
                       setPreviewStateDirty(false);
                     }
+                    setServerVersionId(loaded.project.latestVersionId);
+                    setLiveDeployment(loaded.live);
+                    setSaveConflict(null);
                     setCompileSummary(
                       `Loaded project '${loaded.project.id}' (${loaded.project.name}).`,
                     );
@@ -2278,11 +2706,55 @@ export function App(): JSX.Element {
             >
               Load Server
             </button>
+            <button
+              disabled={!serverVersionId}
+              title={serverVersionId ? undefined : "Save or load a server project first."}
+              onClick={() => {
+                void (async () => {
+                  try {
+                    const result = await publishProjectVersionViaApi({
+                      projectId: appId,
+                      ...(serverVersionId ? { versionId: serverVersionId } : {}),
+                    });
+                    setLiveDeployment(result.deployment);
+                    setCompileSummary(
+                      `Published version ${result.deployment.versionId} as '${result.deployment.appId}'.`,
+                    );
+                  } catch (error) {
+                    setCompileSummary(`Publish failed: ${(error as Error).message}`);
+                  }
+                })();
+              }}
+            >
+              Publish Live
+            </button>
+            <button
+              disabled={!liveDeployment}
+              onClick={() => {
+                void (async () => {
+                  try {
+                    const result = await publishProjectVersionViaApi({
+                      projectId: appId,
+                      rollback: true,
+                    });
+                    setLiveDeployment(result.deployment);
+                    setCompileSummary(
+                      `Rolled back '${result.deployment.appId}' to version ${result.deployment.versionId}.`,
+                    );
+                  } catch (error) {
+                    setCompileSummary(`Rollback failed: ${(error as Error).message}`);
+                  }
+                })();
+              }}
+            >
+              Rollback Live
+            </button>
             <button
               onClick={() => {
                 void (async () => {
                   try {
                     const list = await listProjectsViaApi();
+                    setServerProjects(list.projects);
                     setCompileSummary(
                       list.projects.length > 0
                         ? `Server projects: ${list.projects
@@ -2351,12 +2823,7 @@ export function App(): JSX.Element {
                   try {
                     const catalog = await fetchModelCatalogViaApi();
                     setModelCatalog(catalog.providers);
-                    const openaiCount = catalog.providers.openai?.models?.length ?? 0;
-                    const anthropicCount =
-                      catalog.providers.anthropic?.models?.length ?? 0;
-                    setModelCatalogSummary(
-                      `Model catalog ready: openai ${openaiCount}, anthropic ${anthropicCount}.`,
-                    );
+                    setModelCatalogSummary(formatModelCatalogSummary(catalog.providers));
                   } catch (error) {
                     setModelCatalog(null);
                     setModelCatalogSummary(
@@ -2373,6 +2840,73 @@ export function App(): JSX.Element {
           </div>
         </header>
         <p className="meta">{autosaveStatus}</p>
+        <p className="meta">{formatLiveDeployment(liveDeployment)}</p>
+        {saveConflict && (
+          <div className="validation-filters">
+            <span className="meta">
+              Save conflict:{" "}
+              {saveConflict.latest
+                ? `server version ${saveConflict.latest.id} (saved ${saveConflict.latest.savedAt}${saveConflict.latest.savedBy ? ` by ${saveConflict.latest.savedBy}` : ""}) replaced ${saveConflict.baseVersionId}.`
+                : "the project was removed on the server."}
+            </span>
+            <button
+              disabled={!saveConflict.latest}
+              onClick={() => {
+                const latest = saveConflict.latest;
+                if (!latest) {
+                  return;
+                }
+                const merged = mergeAppDefinitions({
+                  base: saveConflict.base?.appDefinition ?? null,
+                  mine: schema,
+                  theirs: latest.appDefinition,
+                });
+                const unsupported = findUnsupportedAppFeatures(merged.app);
+                if (unsupported.length > 0) {
+                  setCompileSummary(`Merge failed: ${formatUnsupportedAppFeatures(unsupported)}`);
+                  return;
+                }
+                loadFromAppDefinition(merged.app);
+                setServerVersionId(latest.id);
+                setSaveConflict(null);
+                setCompileSummary(
+                  merged.conflicts.length > 0
+                    ? `Merged server version ${latest.id}; kept your side for ${merged.conflicts.join(", ")}. Review, then Save Server.`
+                    : `Merged server version ${latest.id}. Review, then Save Server.`,
+                );
+              }}
+            >
+              Merge Into Latest
+            </button>
+            <button
+              onClick={() => {
+                void (async () => {
+                  const branchId = `${appId}-branch-${Date.now().toString(36)}`;
+                  try {
+                    const result = await upsertProjectViaApi({
+                      projectId: branchId,
+                      name: `${appId} (branch)`,
+                      note: `branched from ${saveConflict.baseVersionId}`,
+                      appDefinition: schema,
+                      workspaceSnapshot: currentWorkspace,
+                      previewStateDraft,
+                      previewStateDirty,
+                    });
+                    setSaveConflict(null);
+                    setCompileSummary(
+                      `Saved as new project '${result.project.id}' (version ${result.saved.id}).`,
+                    );
+                  } catch (error) {
+                    setCompileSummary(`Save as branch failed: ${(error as Error).message}`);
+                  }
+                })();
+              }}
+            >
+              Save As New Branch
+            </button>
+            <button onClick={() => setSaveConflict(null)}>Dismiss</button>
+          </div>
+        )}
 
         <section className="workspace">
           <Palette />
@@ -2387,6 +2921,26 @@ export function App(): JSX.Element {
 
         <section className="panel">
           <h2>Current App Schema</h2>
+          <label className="meta inline-toggle">
+            Runtime access
+            <select
+              value={security?.runtimeAccess.mode ?? "public"}
+              onChange={(event) => {
+                const mode = event.target.value;
+                setSecurity(
+                  mode === "apiKey"
+                    ? { runtimeAccess: { mode: "apiKey", keyEnv: "APP_ACCESS_KEYS" } }
+                    : mode === "jwt"
+                      ? { runtimeAccess: { mode: "jwt", secretEnv: "APP_JWT_SECRET" } }
+                      : undefined,
+                );
+              }}
+            >
+              <option value="public">Public</option>
+              <option value="apiKey">Static key (APP_ACCESS_KEYS)</option>
+              <option value="jwt">Signed JWT (APP_JWT_SECRET)</option>
+            </select>
+          </label>
           <pre>{JSON.stringify(schema, null, 2)}</pre>
         </section>
 
@@ -2704,9 +3258,123 @@ export function App(): JSX.Element {
             </button>
           </div>
           <pre>{previewSummary}</pre>
+          {previewCostSummary && <p className="meta">{previewCostSummary}</p>}
+          {previewStreamText && !previewOutput && <pre>{previewStreamText}</pre>}
           {previewOutput && <pre>{JSON.stringify(previewOutput, null, 2)}</pre>}
         </section>
 
+        <section className="panel">
+          <h2>Server Projects</h2>
+          <div className="validation-filters">
+            <button onClick={() => void refreshServerProjects()}>Refresh</button>
+            <label className="meta inline-toggle">
+              <input
+                type="checkbox"
+                checked={showArchivedProjects}
+                onChange={(event) => setShowArchivedProjects(event.target.checked)}
+              />
+              Show Archived
+            </label>
+            <label className="import-label">
+              Import .ffproj
+              <input
+                type="file"
+                accept=".ffproj,application/gzip"
+                className="import-input"
+                onChange={(event) => void importServerProject(event)}
+              />
+            </label>
+          </div>
+          {projectPanelStatus && <p className="meta">{projectPanelStatus}</p>}
+          {serverProjects === null ? (
+            <p className="meta">Refresh to load server projects.</p>
+          ) : serverProjects.length === 0 ? (
+            <p className="meta">No server projects.</p>
+          ) : (
+            <ul className="snapshot-list">
+              {serverProjects.map((project) => (
+                <li key={project.id} className="snapshot-item">
+                  <div className="snapshot-meta">
+                    <code>{project.id}</code> {project.name}
+                    {project.archivedAt && <span className="meta"> (archived)</span>}
+                  </div>
+                  <div className="snapshot-actions">
+                    <button
+                      onClick={() => {
+                        const name = window.prompt("New project name", project.name)?.trim();
+                        if (name) {
+                          void applyProjectAction({ kind: "rename", projectId: project.id, name });
+                        }
+                      }}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => {
+                        const targetId = window.prompt("New project id", `${project.id}_copy`)?.trim();
+                        if (targetId) {
+                          void applyProjectAction({
+                            kind: "duplicate",
+                            projectId: project.id,
+                            targetId,
+                          });
+                        }
+                      }}
+                    >
+                      Duplicate
+                    </button>
+                    <button onClick={() => void exportServerProject(project.id)}>Export</button>
+                    <button
+                      onClick={() =>
+                        void applyProjectAction({
+                          kind: "archive",
+                          projectId: project.id,
+                          archived: !project.archivedAt,
+                        })
+                      }
+                    >
+                      {project.archivedAt ? "Unarchive" : "Archive"}
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`Move project '${project.id}' to trash?`)) {
+                          void applyProjectAction({ kind: "delete", projectId: project.id });
+                        }
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          {trashedProjects.length > 0 && (
+            <>
+              <div className="meta">Trash</div>
+              <ul className="snapshot-list">
+                {trashedProjects.map((project) => (
+                  <li key={project.id} className="snapshot-item">
+                    <div className="snapshot-meta">
+                      <code>{project.id}</code> {project.name}
+                      {project.deletedAt && <span className="meta"> (deleted {project.deletedAt})</span>}
+                    </div>
+                    <div className="snapshot-actions">
+                      <button
+                        onClick={() =>
+                          void applyProjectAction({ kind: "restore", projectId: project.id })
+                        }
+                      >
+                        Restore
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </section>
+
         <section className="panel">
           <h2>Snapshot History</h2>
           {snapshotHistory.length === 0 ? (
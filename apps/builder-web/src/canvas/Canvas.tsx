@@ -16,6 +16,8 @@ import {
 import {
   canConnectComponents,
   getPromptDiagnosticsForButton,
+  isDisplayComponentType,
+  isInputComponentType,
   useBuilderStore,
   type BuilderComponent,
 } from "../state/builder-store.js";
@@ -43,7 +45,7 @@ function BuilderNode({ data }: NodeProps<BuilderNodeData>): JSX.Element {
         }
       }}
     >
-      {(component.type === "Button" || component.type === "DataTable") && (
+      {(component.type === "Button" || isDisplayComponentType(component.type)) && (
         <Handle type="target" position={Position.Left} />
       )}
       <div className="meta">{component.type}</div>
@@ -53,7 +55,9 @@ function BuilderNode({ data }: NodeProps<BuilderNodeData>): JSX.Element {
         onChange={(event) => data.onUpdateLabel(component.id, event.target.value)}
         onClick={(event) => event.stopPropagation()}
       />
-      {component.type === "TextArea" && <div className="meta">state: {component.stateKey}</div>}
+      {isInputComponentType(component.type) && (
+        <div className="meta">state: {component.stateKey}</div>
+      )}
       {component.type === "Button" && (
         <>
           <div className="meta">event: {component.eventId}</div>
@@ -65,8 +69,10 @@ function BuilderNode({ data }: NodeProps<BuilderNodeData>): JSX.Element {
           )}
         </>
       )}
-      {component.type === "DataTable" && <div className="meta">data: {component.dataKey}</div>}
-      {(component.type === "Button" || component.type === "TextArea") && (
+      {isDisplayComponentType(component.type) && (
+        <div className="meta">data: {component.dataKey}</div>
+      )}
+      {(component.type === "Button" || isInputComponentType(component.type)) && (
         <Handle type="source" position={Position.Right} />
       )}
     </div>
@@ -1,11 +1,17 @@
 import { useDraggable } from "@dnd-kit/core";
 import { CSS } from "@dnd-kit/utilities";
 import {
+  DISPLAY_COMPONENT_TYPES,
+  INPUT_COMPONENT_TYPES,
   useBuilderStore,
   type BuilderComponentType,
 } from "../state/builder-store.js";
 
-const types: BuilderComponentType[] = ["TextArea", "Button", "DataTable"];
+const types: BuilderComponentType[] = [
+  ...INPUT_COMPONENT_TYPES,
+  "Button",
+  ...DISPLAY_COMPONENT_TYPES,
+];
 
 function PaletteItem(props: { type: BuilderComponentType }): JSX.Element {
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
@@ -0,0 +1,74 @@
+import {
+  getMarkdownOutputField,
+  useBuilderStore,
+  type BuilderComponent,
+} from "../state/builder-store.js";
+import { parseOutputSchemaShape } from "../prompt-schema/output-schema.js";
+
+const STATE_TYPE_BY_COMPONENT: Partial<Record<BuilderComponent["type"], string>> = {
+  DataTable: "array of rows",
+  MarkdownView: "string",
+  KeyValueCard: "object",
+  JsonView: "object",
+};
+
+export function DisplayInspector(props: { component: BuilderComponent }): JSX.Element {
+  const update = useBuilderStore((state) => state.updateComponent);
+  const components = useBuilderStore((state) => state.components);
+  const connections = useBuilderStore((state) => state.connections);
+  const { component } = props;
+  const sourceButton = connections
+    .filter((connection) => connection.targetId === component.id)
+    .map((connection) => components.find((item) => item.id === connection.sourceId))
+    .find((item): item is BuilderComponent => item?.type === "Button");
+  const shape = parseOutputSchemaShape(sourceButton?.outputSchemaJson).shape;
+  const stringFields = Object.entries(shape)
+    .filter(([, field]) => (field as { type?: unknown } | undefined)?.type === "string")
+    .map(([key]) => key);
+  const outputField = getMarkdownOutputField(component, shape);
+
+  return (
+    <aside className="panel">
+      <h2>{component.type}</h2>
+      <p className="meta">
+        Reads <code>{component.dataKey}</code> ({STATE_TYPE_BY_COMPONENT[component.type]})
+        {sourceButton ? <> from {sourceButton.label}</> : null}.
+      </p>
+      <label className="meta">
+        Data key
+        <input
+          className="field-input"
+          value={component.dataKey ?? ""}
+          onChange={(event) => update(component.id, { dataKey: event.target.value })}
+        />
+      </label>
+      {component.type === "MarkdownView" && (
+        <>
+          <label className="meta">
+            Output field
+            <select
+              className="field-input"
+              value={outputField}
+              onChange={(event) => update(component.id, { outputField: event.target.value })}
+            >
+              {[...new Set([outputField, ...stringFields])].map((field) => (
+                <option key={field} value={field}>
+                  {field}
+                </option>
+              ))}
+            </select>
+          </label>
+          {!stringFields.includes(outputField) && (
+            <div className="warning-box">
+              <div className="warning-title">Missing Field</div>
+              <p className="warning-text">
+                The connected button's output schema has no string field named{" "}
+                <code>{outputField}</code>.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </aside>
+  );
+}
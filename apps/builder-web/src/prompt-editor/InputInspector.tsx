@@ -0,0 +1,104 @@
+import {
+  parseSelectOptions,
+  useBuilderStore,
+  type BuilderComponent,
+} from "../state/builder-store.js";
+
+const STATE_TYPE_BY_COMPONENT: Partial<Record<BuilderComponent["type"], string>> = {
+  TextArea: "string",
+  TextInput: "string",
+  NumberInput: "number",
+  Select: "string (enum)",
+  Checkbox: "boolean",
+  FileUpload: "file, sent to prompts as extracted text",
+};
+
+export function InputInspector(props: { component: BuilderComponent }): JSX.Element {
+  const update = useBuilderStore((state) => state.updateComponent);
+  const { component } = props;
+  const options = parseSelectOptions(component.selectOptions);
+  const min = Number(component.minValue);
+  const max = Number(component.maxValue);
+  const invalidRange =
+    component.type === "NumberInput" &&
+    (component.minValue ?? "").trim() !== "" &&
+    (component.maxValue ?? "").trim() !== "" &&
+    min > max;
+
+  return (
+    <aside className="panel">
+      <h2>{component.type}</h2>
+      <p className="meta">
+        Writes <code>{component.stateKey}</code> ({STATE_TYPE_BY_COMPONENT[component.type]}).
+      </p>
+      <label className="meta">
+        State key
+        <input
+          className="field-input"
+          value={component.stateKey ?? ""}
+          onChange={(event) => update(component.id, { stateKey: event.target.value })}
+        />
+      </label>
+      {component.type === "Select" && (
+        <>
+          <label className="meta">
+            Options (comma-separated)
+            <input
+              className="field-input"
+              value={component.selectOptions ?? ""}
+              onChange={(event) => update(component.id, { selectOptions: event.target.value })}
+              placeholder="friendly, formal"
+            />
+          </label>
+          {options.length === 0 && (
+            <div className="warning-box">
+              <div className="warning-title">No Options</div>
+              <p className="warning-text">A Select needs at least one option.</p>
+            </div>
+          )}
+        </>
+      )}
+      {component.type === "FileUpload" && (
+        <label className="meta">
+          Accepted types (comma-separated)
+          <input
+            className="field-input"
+            value={component.acceptTypes ?? ""}
+            onChange={(event) => update(component.id, { acceptTypes: event.target.value })}
+            placeholder=".txt, .csv, .md"
+          />
+        </label>
+      )}
+      {component.type === "NumberInput" && (
+        <>
+          <div className="model-policy-grid">
+            <label className="meta">
+              Min
+              <input
+                className="field-input"
+                inputMode="decimal"
+                value={component.minValue ?? ""}
+                onChange={(event) => update(component.id, { minValue: event.target.value })}
+              />
+            </label>
+            <label className="meta">
+              Max
+              <input
+                className="field-input"
+                inputMode="decimal"
+                value={component.maxValue ?? ""}
+                onChange={(event) => update(component.id, { maxValue: event.target.value })}
+              />
+            </label>
+          </div>
+          {invalidRange && (
+            <div className="warning-box">
+              <div className="warning-title">Invalid Range</div>
+              <p className="warning-text">Min must not be above max.</p>
+            </div>
+          )}
+        </>
+      )}
+    </aside>
+  );
+}
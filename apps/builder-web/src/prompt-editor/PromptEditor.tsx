@@ -2,10 +2,15 @@ import { useEffect, useRef } from "react";
 import {
   getPromptDiagnostics,
   getPromptVariables,
+  isDisplayComponentType,
+  isInputComponentType,
   useBuilderStore,
 } from "../state/builder-store.js";
+import { DisplayInspector } from "./DisplayInspector.js";
+import { InputInspector } from "./InputInspector.js";
 import { DEFAULT_OUTPUT_SCHEMA_JSON } from "../prompt-schema/output-schema.js";
 import {
+  BUILT_IN_MODEL_PROVIDERS,
   DEFAULT_MODEL_POLICY,
   getDefaultModelForProvider,
   getModelPresetsForProvider,
@@ -44,6 +49,13 @@ export function PromptEditor(props: {
       : getModelPresetsForProvider(selectedProvider);
   const defaultModelFromCatalog = props.modelCatalog?.[selectedProvider]?.defaultModel;
   const selectedProviderStatus = props.providerStatus?.[selectedProvider];
+  const providerOptions = [
+    ...new Set([
+      ...BUILT_IN_MODEL_PROVIDERS,
+      ...Object.keys(props.providerStatus ?? {}),
+      selectedProvider,
+    ]),
+  ];
   const editorRef = useRef<HTMLElement | null>(null);
   const textAreaRef = useRef<HTMLTextAreaElement | null>(null);
   const variables = getPromptVariables(selected?.type === "Button" ? selected.id : undefined);
@@ -68,6 +80,14 @@ export function PromptEditor(props: {
     textAreaRef.current?.focus();
   }, [selected?.id, selected?.type, promptEditorFocusToken]);
 
+  if (selected && isInputComponentType(selected.type)) {
+    return <InputInspector component={selected} />;
+  }
+
+  if (selected && isDisplayComponentType(selected.type)) {
+    return <DisplayInspector component={selected} />;
+  }
+
   if (!selected || selected.type !== "Button") {
     return (
       <aside className="panel">
@@ -181,10 +201,7 @@ export function PromptEditor(props: {
               className="field-input"
               value={selectedProvider}
               onChange={(event) => {
-                const nextProvider = event.target.value as
-                  | "openai"
-                  | "anthropic"
-                  | "mock";
+                const nextProvider = event.target.value as SupportedModelProvider;
                 const currentModel = selected.modelName?.trim() ?? "";
                 const nextDefault =
                   props.modelCatalog?.[nextProvider]?.defaultModel ??
@@ -195,9 +212,11 @@ export function PromptEditor(props: {
                 });
               }}
             >
-              <option value="mock">mock</option>
-              <option value="openai">openai</option>
-              <option value="anthropic">anthropic</option>
+              {providerOptions.map((provider) => (
+                <option key={provider} value={provider}>
+                  {provider}
+                </option>
+              ))}
             </select>
           </label>
           <label className="meta">
@@ -248,6 +267,19 @@ export function PromptEditor(props: {
               placeholder={String(DEFAULT_MODEL_POLICY.temperature)}
             />
           </label>
+          <label className="meta">
+            Fallbacks (provider:model, in order)
+            <input
+              className="field-input"
+              value={selected.modelFallbacks ?? ""}
+              onChange={(event) =>
+                update(selected.id, {
+                  modelFallbacks: event.target.value,
+                })
+              }
+              placeholder="anthropic:claude-sonnet-4-0, mock:mock-v1"
+            />
+          </label>
         </div>
       </div>
       {diagnostics.invalidModelPolicy.length > 0 && (
@@ -1,15 +1,23 @@
-export type SupportedModelProvider = "openai" | "anthropic" | "mock";
+/**
+ * Any provider id registered with runtime-api's provider plugins. The ids below are the
+ * built-in plugins; `/builder/providers/status` reports the full list at runtime.
+ */
+export type SupportedModelProvider = string;
 
-const SUPPORTED_MODEL_PROVIDERS: SupportedModelProvider[] = [
+export const BUILT_IN_MODEL_PROVIDERS: SupportedModelProvider[] = [
   "openai",
   "anthropic",
   "mock",
+  "openai-compatible",
 ];
 
+const PROVIDER_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+
 const DEFAULT_MODEL_BY_PROVIDER: Record<SupportedModelProvider, string> = {
   openai: "gpt-5.2",
   anthropic: "claude-sonnet-4-0",
   mock: "mock-v1",
+  "openai-compatible": "llama3.1",
 };
 
 const MODEL_PRESETS_BY_PROVIDER: Record<SupportedModelProvider, string[]> = {
@@ -35,6 +43,8 @@ const MODEL_PRESETS_BY_PROVIDER: Record<SupportedModelProvider, string[]> = {
     "claude-3-5-haiku-latest",
   ],
   mock: ["mock-v1"],
+  // Filled from the server's /v1/models via the model catalog.
+  "openai-compatible": [],
 };
 
 export const DEFAULT_MODEL_POLICY = {
@@ -43,16 +53,24 @@ export const DEFAULT_MODEL_POLICY = {
   temperature: 0.2,
 };
 
+export interface ModelFallbackEntry {
+  provider: SupportedModelProvider;
+  model: string;
+}
+
 export interface ParsedModelPolicy {
   provider: SupportedModelProvider;
   model: string;
   temperature: number;
+  fallbacks?: ModelFallbackEntry[];
 }
 
 export interface ParseModelPolicyArgs {
   provider?: string | undefined;
   model?: string | undefined;
   temperature?: string | undefined;
+  /** Comma-separated `provider:model` entries, tried in order after the primary provider. */
+  fallbacks?: string | undefined;
 }
 
 export interface ParseModelPolicyResult {
@@ -63,20 +81,18 @@ export interface ParseModelPolicyResult {
 export function isSupportedModelProvider(
   value: string | undefined,
 ): value is SupportedModelProvider {
-  return (
-    typeof value === "string" &&
-    SUPPORTED_MODEL_PROVIDERS.includes(value as SupportedModelProvider)
-  );
+  return typeof value === "string" && PROVIDER_ID_PATTERN.test(value);
 }
 
+/** Empty for plugin providers without a built-in default; the model catalog supplies one. */
 export function getDefaultModelForProvider(provider: SupportedModelProvider): string {
-  return DEFAULT_MODEL_BY_PROVIDER[provider];
+  return DEFAULT_MODEL_BY_PROVIDER[provider] ?? "";
 }
 
 export function getModelPresetsForProvider(
   provider: SupportedModelProvider,
 ): string[] {
-  return MODEL_PRESETS_BY_PROVIDER[provider];
+  return MODEL_PRESETS_BY_PROVIDER[provider] ?? [];
 }
 
 export function parseModelPolicyDraft(
@@ -107,12 +123,61 @@ export function parseModelPolicyDraft(
     }
   }
 
+  const fallbacks = parseModelFallbacksDraft(args.fallbacks ?? "", errors);
+
   return {
     policy: {
       provider,
       model: resolvedModel,
       temperature,
+      ...(fallbacks.length > 0 ? { fallbacks } : {}),
     },
     errors,
   };
 }
+
+function parseModelFallbacksDraft(draft: string, errors: string[]): ModelFallbackEntry[] {
+  const fallbacks: ModelFallbackEntry[] = [];
+  for (const entry of draft.split(",")) {
+    const trimmed = entry.trim();
+    if (trimmed.length === 0) {
+      continue;
+    }
+    const separator = trimmed.indexOf(":");
+    const provider = separator >= 0 ? trimmed.slice(0, separator).trim() : trimmed;
+    const model = separator >= 0 ? trimmed.slice(separator + 1).trim() : "";
+    if (!isSupportedModelProvider(provider)) {
+      errors.push(`Fallback '${trimmed}' uses an unsupported provider.`);
+      continue;
+    }
+    const resolvedModel = model.length > 0 ? model : getDefaultModelForProvider(provider);
+    if (resolvedModel.length === 0) {
+      errors.push(`Fallback '${trimmed}' needs a model name.`);
+      continue;
+    }
+    fallbacks.push({ provider, model: resolvedModel });
+  }
+  if (fallbacks.length > 5) {
+    errors.push("At most 5 fallbacks are allowed.");
+    return fallbacks.slice(0, 5);
+  }
+  return fallbacks;
+}
+
+export function formatModelFallbacksDraft(
+  fallbacks: Array<{ provider: string; model: string }> | undefined,
+): string {
+  return (fallbacks ?? []).map((entry) => `${entry.provider}:${entry.model}`).join(", ");
+}
+
+/** Providers a policy may answer from, primary first. */
+export function getModelPolicyProviderChain(args: {
+  provider?: string | undefined;
+  fallbacks?: string | undefined;
+}): SupportedModelProvider[] {
+  const primary = isSupportedModelProvider(args.provider)
+    ? args.provider
+    : DEFAULT_MODEL_POLICY.provider;
+  const fallbacks = parseModelFallbacksDraft(args.fallbacks ?? "", []);
+  return [...new Set([primary, ...fallbacks.map((entry) => entry.provider)])];
+}
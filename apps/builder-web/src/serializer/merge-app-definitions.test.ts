@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import type { AppDefinition } from "@form-builder/contracts";
+import { mergeAppDefinitions } from "./merge-app-definitions.js";
+
+const base: AppDefinition = {
+  appId: "merge_app",
+  version: "1.0.0",
+  ui: {
+    components: [
+      { id: "input_a", type: "TextArea", label: "A", stateKey: "a", props: {} },
+      { id: "input_b", type: "TextArea", label: "B", stateKey: "b", props: {} },
+    ],
+  },
+  stateModel: { a: { type: "string" }, b: { type: "string" } },
+  events: [],
+};
+
+describe("mergeAppDefinitions", () => {
+  it("keeps non-overlapping changes from both sides and reports overlapping ones", () => {
+    const mine: AppDefinition = {
+      ...base,
+      ui: {
+        components: [
+          { id: "input_a", type: "TextArea", label: "A (mine)", stateKey: "a", props: {} },
+          { id: "input_b", type: "TextArea", label: "B (mine)", stateKey: "b", props: {} },
+        ],
+      },
+    };
+    const theirs: AppDefinition = {
+      ...base,
+      version: "1.1.0",
+      ui: {
+        components: [
+          { id: "input_b", type: "TextArea", label: "B (theirs)", stateKey: "b", props: {} },
+          { id: "table_c", type: "DataTable", label: "C", dataKey: "c" },
+        ],
+      },
+    };
+
+    const merged = mergeAppDefinitions({ base, mine, theirs });
+
+    expect(merged.app.version).toBe("1.1.0");
+    expect(merged.app.ui.components.map((item) => [item.id, item.label])).toEqual([
+      ["input_b", "B (mine)"],
+      ["table_c", "C"],
+      ["input_a", "A (mine)"],
+    ]);
+    expect(merged.conflicts).toEqual(["component:input_b", "component:input_a"]);
+  });
+
+  it("merges the runtime access policy and reports conflicting changes to it", () => {
+    const jwt = { runtimeAccess: { mode: "jwt" as const, secretEnv: "APP_JWT_SECRET" } };
+    const apiKey = { runtimeAccess: { mode: "apiKey" as const, keyEnv: "APP_ACCESS_KEYS" } };
+    const protectedBase: AppDefinition = { ...base, security: jwt };
+
+    const kept = mergeAppDefinitions({
+      base: protectedBase,
+      mine: { ...protectedBase, version: "1.0.1" },
+      theirs: { ...protectedBase, version: "1.1.0" },
+    });
+    expect(kept.app.security).toEqual(jwt);
+    expect(kept.conflicts).toEqual(["app:version"]);
+
+    const theirsChanged = mergeAppDefinitions({
+      base: protectedBase,
+      mine: protectedBase,
+      theirs: { ...protectedBase, security: apiKey },
+    });
+    expect(theirsChanged.app.security).toEqual(apiKey);
+
+    const conflicting = mergeAppDefinitions({
+      base,
+      mine: { ...base, security: jwt },
+      theirs: { ...base, security: apiKey },
+    });
+    expect(conflicting.app.security).toEqual(jwt);
+    expect(conflicting.conflicts).toEqual(["app:security"]);
+  });
+});
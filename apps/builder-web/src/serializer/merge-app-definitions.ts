@@ -0,0 +1,106 @@
+import type { AppDefinition } from "@form-builder/contracts";
+
+export interface AppDefinitionMerge {
+  app: AppDefinition;
+  /** `<section>:<id>` entries changed on both sides; the local side was kept. */
+  conflicts: string[];
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function pick<T>(base: T | undefined, mine: T | undefined, theirs: T | undefined): {
+  value: T | undefined;
+  conflict: boolean;
+} {
+  if (same(mine, theirs) || same(base, theirs)) {
+    return { value: mine, conflict: false };
+  }
+  if (same(base, mine)) {
+    return { value: theirs, conflict: false };
+  }
+  return { value: mine, conflict: true };
+}
+
+function mergeById<T>(
+  section: string,
+  base: Map<string, T>,
+  mine: Map<string, T>,
+  theirs: Map<string, T>,
+  conflicts: string[],
+): Array<[string, T]> {
+  const ids = [...new Set([...theirs.keys(), ...mine.keys(), ...base.keys()])];
+  const merged: Array<[string, T]> = [];
+  for (const id of ids) {
+    const result = pick(base.get(id), mine.get(id), theirs.get(id));
+    if (result.conflict) {
+      conflicts.push(`${section}:${id}`);
+    }
+    if (result.value !== undefined) {
+      merged.push([id, result.value]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Three-way merge of a local app definition (`mine`) onto the server's latest (`theirs`),
+ * by component, event and state key, with `security` merged as a whole. `base` is the version
+ * both sides started from.
+ */
+export function mergeAppDefinitions(args: {
+  base: AppDefinition | null;
+  mine: AppDefinition;
+  theirs: AppDefinition;
+}): AppDefinitionMerge {
+  const conflicts: string[] = [];
+  const base = args.base;
+
+  const scalar = <K extends "appId" | "version">(key: K): AppDefinition[K] => {
+    const result = pick(base?.[key], args.mine[key], args.theirs[key]);
+    if (result.conflict) {
+      conflicts.push(`app:${key}`);
+    }
+    return result.value ?? args.mine[key];
+  };
+
+  const security = pick(base?.security, args.mine.security, args.theirs.security);
+  if (security.conflict) {
+    conflicts.push("app:security");
+  }
+
+  const components = mergeById(
+    "component",
+    new Map((base?.ui.components ?? []).map((item) => [item.id, item])),
+    new Map(args.mine.ui.components.map((item) => [item.id, item])),
+    new Map(args.theirs.ui.components.map((item) => [item.id, item])),
+    conflicts,
+  );
+  const events = mergeById(
+    "event",
+    new Map((base?.events ?? []).map((item) => [item.id, item])),
+    new Map(args.mine.events.map((item) => [item.id, item])),
+    new Map(args.theirs.events.map((item) => [item.id, item])),
+    conflicts,
+  );
+  const stateModel = mergeById(
+    "state",
+    new Map(Object.entries(base?.stateModel ?? {})),
+    new Map(Object.entries(args.mine.stateModel)),
+    new Map(Object.entries(args.theirs.stateModel)),
+    conflicts,
+  );
+
+  return {
+    app: {
+      appId: scalar("appId"),
+      version: scalar("version"),
+      ui: { components: components.map(([, item]) => item) },
+      stateModel: Object.fromEntries(stateModel),
+      events: events.map(([, item]) => item),
+      ...(security.value ? { security: security.value } : {}),
+    },
+    conflicts,
+  };
+}
@@ -38,5 +38,134 @@ describe("toAppDefinition", () => {
     expect(promptNode!.promptSpec.template).toContain("{{customerComplaint}}");
     expect(promptNode!.promptSpec.template).not.toContain("{{Customer Complaint}}");
   });
-});
 
+  it("serializes the model fallback chain in order", () => {
+    const app = toAppDefinition({
+      appId: "test_app",
+      version: "1.0.0",
+      components: [
+        {
+          id: "btn_analyze",
+          type: "Button",
+          label: "Analyze",
+          position: { x: 0, y: 0 },
+          eventId: "evt_analyze_click",
+          modelProvider: "openai",
+          modelName: "gpt-5.2",
+          modelFallbacks: "anthropic:claude-sonnet-4-0, mock",
+        },
+      ],
+      connections: [],
+    });
+
+    const promptNode = app.events[0]?.actionGraph.nodes.find((n) => n.kind === "PromptTask");
+    if (!promptNode || promptNode.kind !== "PromptTask") {
+      throw new Error("unreachable");
+    }
+
+    expect(promptNode.promptSpec.modelPolicy.fallbacks).toEqual([
+      { provider: "anthropic", model: "claude-sonnet-4-0" },
+      { provider: "mock", model: "mock-v1" },
+    ]);
+  });
+
+  it("maps typed inputs to matching state fields", () => {
+    const app = toAppDefinition({
+      appId: "test_app",
+      version: "1.0.0",
+      components: [
+        {
+          id: "select_tone",
+          type: "Select",
+          label: "Tone",
+          position: { x: 0, y: 0 },
+          stateKey: "tone",
+          selectOptions: "friendly, formal, friendly",
+        },
+        {
+          id: "number_budget",
+          type: "NumberInput",
+          label: "Budget",
+          position: { x: 0, y: 0 },
+          stateKey: "budget",
+          minValue: "0",
+          maxValue: "",
+        },
+        {
+          id: "checkbox_urgent",
+          type: "Checkbox",
+          label: "Urgent",
+          position: { x: 0, y: 0 },
+          stateKey: "urgent",
+        },
+        {
+          id: "upload_notes",
+          type: "FileUpload",
+          label: "Notes",
+          position: { x: 0, y: 0 },
+          stateKey: "notes",
+          acceptTypes: ".txt, text/csv",
+        },
+      ],
+      connections: [],
+    });
+
+    expect(app.stateModel.tone).toMatchObject({ type: "string", enum: ["friendly", "formal"] });
+    expect(app.stateModel.budget).toMatchObject({ type: "number" });
+    expect(app.stateModel.urgent).toMatchObject({ type: "boolean" });
+    expect(app.stateModel.notes).toEqual({
+      type: "file",
+      source: "ui.upload_notes",
+      accept: [".txt", "text/csv"],
+    });
+    expect(app.ui.components.find((c) => c.id === "number_budget")).toMatchObject({
+      props: { required: true, min: 0 },
+    });
+  });
+
+  it("shapes display state fields from the connected button's output schema", () => {
+    const app = toAppDefinition({
+      appId: "test_app",
+      version: "1.0.0",
+      components: [
+        {
+          id: "btn_summarize",
+          type: "Button",
+          label: "Summarize",
+          position: { x: 0, y: 0 },
+          eventId: "evt_summarize_click",
+          outputSchemaJson: JSON.stringify({
+            score: { type: "number" },
+            summary: { type: "string" },
+          }),
+        },
+        {
+          id: "md_summary",
+          type: "MarkdownView",
+          label: "Summary",
+          position: { x: 0, y: 0 },
+          dataKey: "summaryText",
+        },
+        {
+          id: "card_details",
+          type: "KeyValueCard",
+          label: "Details",
+          position: { x: 0, y: 0 },
+          dataKey: "details",
+        },
+      ],
+      connections: [{ id: "conn_1", sourceId: "btn_summarize", targetId: "md_summary" }],
+    });
+
+    expect(app.stateModel.summaryText).toEqual({ type: "string" });
+    expect(app.stateModel.details).toEqual({ type: "object", shape: {} });
+    expect(app.stateModel.analysisRows).toBeUndefined();
+    const transform = app.events[0]?.actionGraph.nodes.find((n) => n.kind === "Transform");
+    if (!transform || transform.kind !== "Transform") {
+      throw new Error("unreachable");
+    }
+    expect(transform.mapToState).toEqual({
+      summaryText: "$evt_summarize_click_prompt.output.summary",
+    });
+  });
+});
@@ -1,36 +1,83 @@
 import type { AppDefinition } from "@form-builder/contracts";
-import type {
-  BuilderComponent,
-  BuilderConnection,
+import {
+  getMarkdownOutputField,
+  isDisplayComponentType,
+  isInputComponentType,
+  parseSelectOptions,
+  type BuilderComponent,
+  type BuilderConnection,
+  type BuilderDisplayComponentType,
 } from "../state/builder-store.js";
 import { parseOutputSchemaShape } from "../prompt-schema/output-schema.js";
 import { parseModelPolicyDraft } from "../prompt-schema/model-policy.js";
 
 const TEMPLATE_TOKEN_REGEX = /{{\s*([^}]+?)\s*}}/g;
 
-function buildStateModel(components: BuilderComponent[]): AppDefinition["stateModel"] {
+type StateField = AppDefinition["stateModel"][string];
+type OutputShape = Record<string, unknown>;
+
+function displayStateField(type: BuilderDisplayComponentType, shape: OutputShape): StateField {
+  if (type === "DataTable") {
+    return { type: "array", items: { type: "object", shape } };
+  }
+  if (type === "MarkdownView") {
+    return { type: "string" };
+  }
+  return { type: "object", shape };
+}
+
+// Tables get the output as one row, MarkdownView one string field, cards and JSON views the object.
+function outputExpression(
+  target: BuilderComponent | undefined,
+  promptNodeId: string,
+  shape: OutputShape,
+): string {
+  if (!target || target.type === "DataTable") {
+    return `[$${promptNodeId}.output]`;
+  }
+  if (target.type === "MarkdownView") {
+    return `$${promptNodeId}.output.${getMarkdownOutputField(target, shape)}`;
+  }
+  return `$${promptNodeId}.output`;
+}
+
+function buildStateModel(
+  components: BuilderComponent[],
+  displayShapes: Map<string, OutputShape>,
+): AppDefinition["stateModel"] {
   const stateModel: AppDefinition["stateModel"] = {};
 
   for (const component of components) {
-    if (component.type === "TextArea" && component.stateKey) {
+    if (component.type === "FileUpload" && component.stateKey) {
+      const accept = parseSelectOptions(component.acceptTypes);
       stateModel[component.stateKey] = {
-        type: "string",
+        type: "file",
         source: `ui.${component.id}`,
+        ...(accept.length > 0 ? { accept } : {}),
       };
+      continue;
     }
 
-    if (component.type === "DataTable" && component.dataKey) {
-      stateModel[component.dataKey] = {
-        type: "array",
-        items: {
-          type: "object",
-          shape: {
-            sentiment: { type: "string" },
-            reply: { type: "string" },
-          },
-        },
+    if (isInputComponentType(component.type) && component.stateKey) {
+      const options = component.type === "Select" ? parseSelectOptions(component.selectOptions) : [];
+      stateModel[component.stateKey] = {
+        type:
+          component.type === "NumberInput"
+            ? "number"
+            : component.type === "Checkbox"
+              ? "boolean"
+              : "string",
+        source: `ui.${component.id}`,
+        ...(options.length > 0 ? { enum: options } : {}),
       };
     }
+
+    if (isDisplayComponentType(component.type) && component.dataKey) {
+      stateModel[component.dataKey] = displayStateField(
+        component.type,
+        displayShapes.get(component.id) ?? {},
+      );
+    }
   }
 
   return stateModel;
@@ -49,7 +96,7 @@ function buildPromptAliasMap(components: BuilderComponent[]): Map<string, string
   const aliasMap = new Map<string, string>();
 
   for (const component of components) {
-    if (component.type !== "TextArea" || !component.stateKey) {
+    if (!isInputComponentType(component.type) || !component.stateKey) {
       continue;
     }
 
@@ -77,21 +124,46 @@ function canonicalizePromptTemplate(args: {
   });
 }
 
+function parseBound(draft: string | undefined): number | undefined {
+  const trimmed = draft?.trim() ?? "";
+  const value = Number(trimmed);
+  return trimmed.length > 0 && Number.isFinite(value) ? value : undefined;
+}
+
 export function toAppDefinition(args: {
   appId: string;
   version: string;
+  security?: AppDefinition["security"];
   components: BuilderComponent[];
   connections: BuilderConnection[];
 }): AppDefinition {
   const { appId, version, components, connections } = args;
   const uiComponents: AppDefinition["ui"]["components"] = [];
   const events: AppDefinition["events"] = [];
-  const firstDataTable = components.find(
-    (component) => component.type === "DataTable",
-  );
+  const firstDisplay = components.find((component) => isDisplayComponentType(component.type));
   const componentById = new Map(components.map((item) => [item.id, item]));
   const promptAliases = buildPromptAliasMap(components);
 
+  // Each button writes to its connected display (or the first one); that display's state field
+  // takes the shape of the button's output schema.
+  const outputTargets = new Map<string, BuilderComponent | undefined>();
+  const displayShapes = new Map<string, OutputShape>();
+  for (const component of components) {
+    if (component.type !== "Button") {
+      continue;
+    }
+    const target =
+      connections
+        .filter((connection) => connection.sourceId === component.id)
+        .map((connection) => componentById.get(connection.targetId))
+        .find((item): item is BuilderComponent => !!item && isDisplayComponentType(item.type)) ??
+      firstDisplay;
+    outputTargets.set(component.id, target);
+    if (target && !displayShapes.has(target.id)) {
+      displayShapes.set(target.id, parseOutputSchemaShape(component.outputSchemaJson).shape);
+    }
+  }
+
   for (const component of components) {
     if (component.type === "TextArea") {
       uiComponents.push({
@@ -103,29 +175,81 @@ export function toAppDefinition(args: {
       });
     }
 
+    if (component.type === "TextInput") {
+      uiComponents.push({
+        id: component.id,
+        type: "TextInput",
+        label: component.label,
+        stateKey: component.stateKey ?? "fieldValue",
+        props: { required: true, maxLength: 500 },
+      });
+    }
+
+    if (component.type === "NumberInput") {
+      const min = parseBound(component.minValue);
+      const max = parseBound(component.maxValue);
+      uiComponents.push({
+        id: component.id,
+        type: "NumberInput",
+        label: component.label,
+        stateKey: component.stateKey ?? "fieldValue",
+        props: {
+          required: true,
+          ...(min !== undefined ? { min } : {}),
+          ...(max !== undefined ? { max } : {}),
+        },
+      });
+    }
+
+    if (component.type === "Select") {
+      uiComponents.push({
+        id: component.id,
+        type: "Select",
+        label: component.label,
+        stateKey: component.stateKey ?? "fieldValue",
+        props: { required: true },
+      });
+    }
+
+    if (component.type === "Checkbox") {
+      uiComponents.push({
+        id: component.id,
+        type: "Checkbox",
+        label: component.label,
+        stateKey: component.stateKey ?? "fieldValue",
+      });
+    }
+
+    if (component.type === "FileUpload") {
+      uiComponents.push({
+        id: component.id,
+        type: "FileUpload",
+        label: component.label,
+        stateKey: component.stateKey ?? "fieldValue",
+        props: { required: true },
+      });
+    }
+
     if (component.type === "Button") {
       const eventId = component.eventId ?? `evt_${component.id}_click`;
       const connectedInputs = connections
         .filter((connection) => connection.targetId === component.id)
         .map((connection) => componentById.get(connection.sourceId))
         .filter((item): item is BuilderComponent => !!item)
-        .filter((item) => item.type === "TextArea")
+        .filter((item) => isInputComponentType(item.type))
         .map((item) => item.stateKey ?? "")
         .filter(Boolean);
       const inputStateKeys =
         connectedInputs.length > 0
           ? connectedInputs
           : components
-              .filter((item) => item.type === "TextArea")
+              .filter((item) => isInputComponentType(item.type))
               .map((item) => item.stateKey ?? "")
               .filter(Boolean);
 
-      const outputConnection = connections
-        .filter((connection) => connection.sourceId === component.id)
-        .map((connection) => componentById.get(connection.targetId))
-        .find((item): item is BuilderComponent => !!item && item.type === "DataTable");
-      const outputDataKey =
-        outputConnection?.dataKey ?? firstDataTable?.dataKey ?? "analysisRows";
+      const outputTarget = outputTargets.get(component.id);
+      const outputDataKey = outputTarget?.dataKey ?? "analysisRows";
+      const outputShape = parseOutputSchemaShape(component.outputSchemaJson).shape;
 
       uiComponents.push({
         id: component.id,
@@ -162,10 +286,11 @@ export function toAppDefinition(args: {
                   provider: component.modelProvider,
                   model: component.modelName,
                   temperature: component.modelTemperature,
+                  fallbacks: component.modelFallbacks,
                 }).policy,
                 outputSchema: {
                   type: "object",
-                  shape: parseOutputSchemaShape(component.outputSchemaJson).shape,
+                  shape: outputShape,
                 },
               },
             },
@@ -173,7 +298,7 @@ export function toAppDefinition(args: {
               id: `${eventId}_transform`,
               kind: "Transform",
               mapToState: {
-                [outputDataKey]: `[$${eventId}_prompt.output]`,
+                [outputDataKey]: outputExpression(outputTarget, `${eventId}_prompt`, outputShape),
               },
             },
           ],
@@ -185,10 +310,10 @@ export function toAppDefinition(args: {
       });
     }
 
-    if (component.type === "DataTable") {
+    if (isDisplayComponentType(component.type)) {
       uiComponents.push({
         id: component.id,
-        type: "DataTable",
+        type: component.type,
         label: component.label,
         dataKey: component.dataKey ?? "analysisRows",
       });
@@ -202,22 +327,20 @@ export function toAppDefinition(args: {
       components: uiComponents,
     },
     stateModel: {
-      ...buildStateModel(components),
-      ...(components.some((component) => component.type === "DataTable")
+      ...buildStateModel(components, displayShapes),
+      // Without any display component, button outputs land in a table-shaped `analysisRows`.
+      ...(firstDisplay
         ? {}
         : {
-            [firstDataTable?.dataKey ?? "analysisRows"]: {
-              type: "array" as const,
-              items: {
-                type: "object" as const,
-                shape: {
-                  sentiment: { type: "string" },
-                  reply: { type: "string" },
-                },
-              },
-            },
+            analysisRows: displayStateField(
+              "DataTable",
+              parseOutputSchemaShape(
+                components.find((component) => component.type === "Button")?.outputSchemaJson,
+              ).shape,
+            ),
           }),
     },
     events,
+    ...(args.security ? { security: args.security } : {}),
   };
 }
@@ -1,17 +1,42 @@
 import { create } from "zustand";
-import type { AppDefinition } from "@form-builder/contracts";
+import {
+  AppSecuritySchema,
+  type AppDefinition,
+  type AppSecurity,
+  type UIComponent,
+} from "@form-builder/contracts";
 import {
   DEFAULT_OUTPUT_SCHEMA_JSON,
   parseOutputSchemaShape,
 } from "../prompt-schema/output-schema.js";
 import {
   DEFAULT_MODEL_POLICY,
+  formatModelFallbacksDraft,
   isSupportedModelProvider,
   parseModelPolicyDraft,
   type SupportedModelProvider,
 } from "../prompt-schema/model-policy.js";
 
-export type BuilderComponentType = "TextArea" | "Button" | "DataTable";
+export const INPUT_COMPONENT_TYPES = [
+  "TextArea",
+  "TextInput",
+  "NumberInput",
+  "Select",
+  "Checkbox",
+  "FileUpload",
+] as const;
+export const DISPLAY_COMPONENT_TYPES = [
+  "DataTable",
+  "MarkdownView",
+  "KeyValueCard",
+  "JsonView",
+] as const;
+export type BuilderInputComponentType = (typeof INPUT_COMPONENT_TYPES)[number];
+export type BuilderDisplayComponentType = (typeof DISPLAY_COMPONENT_TYPES)[number];
+export type BuilderComponentType =
+  | BuilderInputComponentType
+  | BuilderDisplayComponentType
+  | "Button";
 export interface BuilderPosition {
   x: number;
   y: number;
@@ -23,13 +48,23 @@ export interface BuilderComponent {
   label: string;
   position: BuilderPosition;
   stateKey?: string;
+  /** Comma-separated Select options; they become the state field's `enum`. */
+  selectOptions?: string;
+  /** NumberInput bounds as typed in the inspector. */
+  minValue?: string;
+  maxValue?: string;
+  /** Comma-separated FileUpload types (`.txt`, `text/csv`); they become the state field's `accept`. */
+  acceptTypes?: string;
   dataKey?: string;
+  /** MarkdownView only: the string field of the button output to show. */
+  outputField?: string;
   eventId?: string;
   promptTemplate?: string;
   outputSchemaJson?: string;
   modelProvider?: SupportedModelProvider;
   modelName?: string;
   modelTemperature?: string;
+  modelFallbacks?: string;
 }
 
 export interface BuilderConnection {
@@ -41,6 +76,7 @@ export interface BuilderConnection {
 export interface BuilderWorkspaceSnapshot {
   appId: string;
   version: string;
+  security?: AppSecurity;
   components: BuilderComponent[];
   connections: BuilderConnection[];
 }
@@ -48,6 +84,7 @@ export interface BuilderWorkspaceSnapshot {
 interface BuilderState {
   appId: string;
   version: string;
+  security: AppSecurity | undefined;
   components: BuilderComponent[];
   connections: BuilderConnection[];
   selectedComponentId: string | undefined;
@@ -59,6 +96,7 @@ interface BuilderState {
   moveComponent: (id: string, position: BuilderPosition) => void;
   addConnection: (sourceId: string, targetId: string) => void;
   removeConnection: (connectionId: string) => void;
+  setSecurity: (security: AppSecurity | undefined) => void;
   loadFromAppDefinition: (app: AppDefinition) => void;
   loadWorkspaceSnapshot: (snapshot: BuilderWorkspaceSnapshot) => void;
 }
@@ -67,6 +105,60 @@ let seq = 0;
 const GRID_X = 320;
 const GRID_Y = 120;
 const PROMPT_VAR_REGEX = /{{\s*([^}]+?)\s*}}/g;
+const DEFAULT_SELECT_OPTIONS = "Option A, Option B";
+const DEFAULT_ACCEPT_TYPES = ".txt, .csv, .md";
+
+const INPUT_LABEL_PREFIX: Record<BuilderInputComponentType, string> = {
+  TextArea: "Input",
+  TextInput: "Text",
+  NumberInput: "Number",
+  Select: "Choice",
+  Checkbox: "Flag",
+  FileUpload: "File",
+};
+
+const DISPLAY_DEFAULTS: Record<BuilderDisplayComponentType, { label: string; dataKey: string }> = {
+  DataTable: { label: "Table", dataKey: "tableData" },
+  MarkdownView: { label: "Markdown", dataKey: "markdownText" },
+  KeyValueCard: { label: "Card", dataKey: "cardData" },
+  JsonView: { label: "JSON", dataKey: "jsonData" },
+};
+
+export function isInputComponentType(type: BuilderComponentType): type is BuilderInputComponentType {
+  return (INPUT_COMPONENT_TYPES as readonly string[]).includes(type);
+}
+
+export function isDisplayComponentType(
+  type: BuilderComponentType,
+): type is BuilderDisplayComponentType {
+  return (DISPLAY_COMPONENT_TYPES as readonly string[]).includes(type);
+}
+
+/** Picks the output field a MarkdownView renders: its own choice, else the first string field. */
+export function getMarkdownOutputField(
+  component: BuilderComponent,
+  shape: Record<string, unknown>,
+): string {
+  const chosen = component.outputField?.trim();
+  if (chosen) {
+    return chosen;
+  }
+  const firstString = Object.entries(shape).find(
+    ([, field]) => isRecord(field) && field.type === "string",
+  );
+  return firstString?.[0] ?? "reply";
+}
+
+export function parseSelectOptions(draft: string | undefined): string[] {
+  return [
+    ...new Set(
+      (draft ?? "")
+        .split(",")
+        .map((option) => option.trim())
+        .filter(Boolean),
+    ),
+  ];
+}
 
 function toStateKey(label: string): string {
   const tokens = label
@@ -125,11 +217,11 @@ function collectUsedStateModelKeys(args: {
     if (component.id === args.excludeComponentId) {
       continue;
     }
-    if (component.type === "TextArea" && component.stateKey) {
+    if (isInputComponentType(component.type) && component.stateKey) {
       used.add(component.stateKey);
       continue;
     }
-    if (component.type === "DataTable" && component.dataKey) {
+    if (isDisplayComponentType(component.type) && component.dataKey) {
       used.add(component.dataKey);
     }
   }
@@ -207,7 +299,7 @@ function normalizeLookupKey(input: string): string {
 
 function getStateKeysFromComponents(components: BuilderComponent[]): string[] {
   return components
-    .filter((component) => component.type === "TextArea")
+    .filter((component) => isInputComponentType(component.type))
     .map((component) => component.stateKey ?? "")
     .filter(Boolean);
 }
@@ -231,7 +323,12 @@ function isRecord(value: unknown): value is Record<string, unknown> {
 }
 
 function isBuilderComponentType(value: unknown): value is BuilderComponentType {
-  return value === "TextArea" || value === "Button" || value === "DataTable";
+  return (
+    value === "Button" ||
+    (typeof value === "string" &&
+      (isInputComponentType(value as BuilderComponentType) ||
+        isDisplayComponentType(value as BuilderComponentType)))
+  );
 }
 
 function parseSnapshotComponent(value: unknown): BuilderComponent | null {
@@ -249,17 +346,21 @@ function parseSnapshotComponent(value: unknown): BuilderComponent | null {
     return null;
   }
 
-  if (value.type === "TextArea") {
+  if (isInputComponentType(value.type)) {
     const stateKey =
       typeof value.stateKey === "string" && value.stateKey.length > 0
         ? value.stateKey
         : toStateKey(value.label);
     return {
       id: value.id,
-      type: "TextArea",
+      type: value.type,
       label: value.label,
       position: { x: value.position.x, y: value.position.y },
       stateKey,
+      ...(typeof value.selectOptions === "string" ? { selectOptions: value.selectOptions } : {}),
+      ...(typeof value.acceptTypes === "string" ? { acceptTypes: value.acceptTypes } : {}),
+      ...(typeof value.minValue === "string" ? { minValue: value.minValue } : {}),
+      ...(typeof value.maxValue === "string" ? { maxValue: value.maxValue } : {}),
     };
   }
 
@@ -296,18 +397,24 @@ function parseSnapshotComponent(value: unknown): BuilderComponent | null {
       modelProvider,
       modelName,
       modelTemperature,
+      ...(typeof value.modelFallbacks === "string" && value.modelFallbacks.length > 0
+        ? { modelFallbacks: value.modelFallbacks }
+        : {}),
     };
   }
 
   return {
     id: value.id,
-    type: "DataTable",
+    type: value.type,
     label: value.label,
     position: { x: value.position.x, y: value.position.y },
     dataKey:
       typeof value.dataKey === "string" && value.dataKey.length > 0
         ? value.dataKey
         : `${toStateKey(value.label)}Rows`,
+    ...(value.type === "MarkdownView" && typeof value.outputField === "string"
+      ? { outputField: value.outputField }
+      : {}),
   };
 }
 
@@ -335,7 +442,7 @@ function normalizeBuilderComponentIdentifiers(
   const usedEventIds = new Set<string>();
 
   return components.map((component) => {
-    if (component.type === "TextArea") {
+    if (isInputComponentType(component.type)) {
       const stateKey = nextUniqueIdentifier({
         preferred: component.stateKey ?? toStateKey(component.label),
         fallback: "fieldValue",
@@ -349,7 +456,7 @@ function normalizeBuilderComponentIdentifiers(
       };
     }
 
-    if (component.type === "DataTable") {
+    if (isDisplayComponentType(component.type)) {
       const dataKey = nextUniqueIdentifier({
         preferred: component.dataKey ?? toDataKey(component.label),
         fallback: "analysisRows",
@@ -435,9 +542,11 @@ export function parseBuilderWorkspaceSnapshot(
     connections.push(parsed);
   }
 
+  const security = AppSecuritySchema.safeParse(value.security);
   return {
     appId: value.appId,
     version: value.version,
+    ...(security.success ? { security: security.data } : {}),
     components: normalizedComponents,
     connections: dedupeConnections(connections),
   };
@@ -459,18 +568,56 @@ function dedupeConnections(connections: BuilderConnection[]): BuilderConnection[
   return deduped;
 }
 
+/**
+ * Lists what the builder cannot edit: form containers and events other than a button's onClick
+ * (onChange, onSubmit, onLoad, schedule). Saving such an app from the builder would drop them,
+ * so callers refuse to open it instead of loading it lossily.
+ */
+export function findUnsupportedAppFeatures(app: AppDefinition): string[] {
+  const features: string[] = [];
+  for (const component of app.ui.components) {
+    if (component.type === "Form") {
+      features.push(`Form container '${component.id}'`);
+    }
+  }
+  for (const event of app.events) {
+    const component = app.ui.components.find((item) => item.id === event.trigger.componentId);
+    if (event.trigger.event !== "onClick" || component?.type !== "Button") {
+      features.push(`${event.trigger.event} event '${event.id}'`);
+    }
+  }
+  return features;
+}
+
 function buildBuilderFromAppDefinition(app: AppDefinition): {
   components: BuilderComponent[];
   connections: BuilderConnection[];
 } {
-  const components: BuilderComponent[] = app.ui.components.map((component, index) => {
-    if (component.type === "TextArea") {
+  // Apps with form containers are refused by `findUnsupportedAppFeatures` before they get here.
+  const uiComponents = app.ui.components.filter(
+    (component): component is Exclude<UIComponent, { type: "Form" }> => component.type !== "Form",
+  );
+  const components: BuilderComponent[] = uiComponents.map((component, index) => {
+    if ("stateKey" in component) {
+      const field = app.stateModel[component.stateKey];
       return {
         id: component.id,
-        type: "TextArea",
+        type: component.type,
         label: component.label,
         position: nextPosition(index),
         stateKey: component.stateKey,
+        ...(component.type === "Select" && field?.type === "string"
+          ? { selectOptions: (field.enum ?? []).join(", ") }
+          : {}),
+        ...(component.type === "FileUpload" && field?.type === "file"
+          ? { acceptTypes: (field.accept ?? []).join(", ") }
+          : {}),
+        ...(component.type === "NumberInput" && component.props.min !== undefined
+          ? { minValue: String(component.props.min) }
+          : {}),
+        ...(component.type === "NumberInput" && component.props.max !== undefined
+          ? { maxValue: String(component.props.max) }
+          : {}),
       };
     }
 
@@ -506,12 +653,21 @@ function buildBuilderFromAppDefinition(app: AppDefinition): {
                   DEFAULT_MODEL_POLICY.temperature,
               )
             : String(DEFAULT_MODEL_POLICY.temperature),
+        ...(promptNode &&
+        promptNode.kind === "PromptTask" &&
+        promptNode.promptSpec.modelPolicy.fallbacks
+          ? {
+              modelFallbacks: formatModelFallbacksDraft(
+                promptNode.promptSpec.modelPolicy.fallbacks,
+              ),
+            }
+          : {}),
       };
     }
 
     return {
       id: component.id,
-      type: "DataTable",
+      type: component.type,
       label: component.label,
       position: nextPosition(index),
       dataKey: component.dataKey,
@@ -519,21 +675,23 @@ function buildBuilderFromAppDefinition(app: AppDefinition): {
   });
 
   const componentsById = new Map(components.map((component) => [component.id, component]));
-  const textAreasByStateKey = new Map(
+  const inputsByStateKey = new Map(
     components
-      .filter((component) => component.type === "TextArea")
+      .filter((component) => isInputComponentType(component.type))
       .map((component) => [component.stateKey ?? "", component.id]),
   );
-  const dataTablesByDataKey = new Map(
+  const displaysByDataKey = new Map(
     components
-      .filter((component) => component.type === "DataTable")
-      .map((component) => [component.dataKey ?? "", component.id]),
+      .filter((component) => isDisplayComponentType(component.type))
+      .map((component) => [component.dataKey ?? "", component]),
   );
 
   const connections: BuilderConnection[] = [];
 
   for (const event of app.events) {
-    const button = componentsById.get(event.trigger.componentId);
+    const button = event.trigger.componentId
+      ? componentsById.get(event.trigger.componentId)
+      : undefined;
     if (!button || button.type !== "Button") {
       continue;
     }
@@ -548,6 +706,11 @@ function buildBuilderFromAppDefinition(app: AppDefinition): {
       button.modelTemperature = String(
         promptNode.promptSpec.modelPolicy.temperature ?? DEFAULT_MODEL_POLICY.temperature,
       );
+      if (promptNode.promptSpec.modelPolicy.fallbacks) {
+        button.modelFallbacks = formatModelFallbacksDraft(
+          promptNode.promptSpec.modelPolicy.fallbacks,
+        );
+      }
     }
 
     const inputStateKeys = new Set<string>();
@@ -565,14 +728,19 @@ function buildBuilderFromAppDefinition(app: AppDefinition): {
         }
       }
       if (node.kind === "Transform") {
-        for (const key of Object.keys(node.mapToState)) {
+        for (const [key, expression] of Object.entries(node.mapToState)) {
           outputStateKeys.add(key);
+          const display = displaysByDataKey.get(key);
+          const field = /^\$[A-Za-z0-9_-]+\.output\.([A-Za-z0-9_]+)$/.exec(expression)?.[1];
+          if (display?.type === "MarkdownView" && field) {
+            display.outputField = field;
+          }
         }
       }
     }
 
     for (const stateKey of inputStateKeys) {
-      const sourceId = textAreasByStateKey.get(stateKey);
+      const sourceId = inputsByStateKey.get(stateKey);
       if (!sourceId) {
         continue;
       }
@@ -584,7 +752,7 @@ function buildBuilderFromAppDefinition(app: AppDefinition): {
     }
 
     for (const stateKey of outputStateKeys) {
-      const targetId = dataTablesByDataKey.get(stateKey);
+      const targetId = displaysByDataKey.get(stateKey)?.id;
       if (!targetId) {
         continue;
       }
@@ -617,11 +785,11 @@ export function canConnectComponents(args: {
     return false;
   }
 
-  if (source.type === "TextArea" && target.type === "Button") {
+  if (isInputComponentType(source.type) && target.type === "Button") {
     return true;
   }
 
-  if (source.type === "Button" && target.type === "DataTable") {
+  if (source.type === "Button" && isDisplayComponentType(target.type)) {
     return true;
   }
 
@@ -639,7 +807,7 @@ function resolveConnectedInputKeys(args: {
     .filter((connection) => connection.targetId === args.buttonId)
     .map((connection) => getComponentById(args.components, connection.sourceId))
     .filter((component): component is BuilderComponent => !!component)
-    .filter((component) => component.type === "TextArea")
+    .filter((component) => isInputComponentType(component.type))
     .map((component) => component.stateKey ?? "")
     .filter(Boolean);
 
@@ -650,7 +818,7 @@ function buildPromptAliasMap(components: BuilderComponent[]): Map<string, string
   const aliasMap = new Map<string, string>();
 
   for (const component of components) {
-    if (component.type !== "TextArea" || !component.stateKey) {
+    if (!isInputComponentType(component.type) || !component.stateKey) {
       continue;
     }
 
@@ -711,6 +879,7 @@ export function getPromptDiagnosticsForButton(args: {
           provider: button.modelProvider,
           model: button.modelName,
           temperature: button.modelTemperature,
+          fallbacks: button.modelFallbacks,
         })
       : { policy: DEFAULT_MODEL_POLICY, errors: [] };
 
@@ -740,6 +909,7 @@ export function getPromptDiagnosticsForButton(args: {
 export const useBuilderStore = create<BuilderState>((set) => ({
   appId: "app_customer_support_v1",
   version: "1.0.0",
+  security: undefined,
   selectedComponentId: undefined,
   promptEditorFocusToken: 0,
   components: [
@@ -787,8 +957,8 @@ export const useBuilderStore = create<BuilderState>((set) => ({
     seq += 1;
     const idBase = type.toLowerCase();
     const resolvedPosition = position ?? nextPosition(getStateSnapshot().components.length);
-    if (type === "TextArea") {
-      const label = `Input ${seq}`;
+    if (isInputComponentType(type)) {
+      const label = `${INPUT_LABEL_PREFIX[type]} ${seq}`;
       set((state) => ({
         components: [
           ...state.components,
@@ -802,6 +972,8 @@ export const useBuilderStore = create<BuilderState>((set) => ({
               preferred: toStateKey(label),
               fallback: "fieldValue",
             }),
+            ...(type === "Select" ? { selectOptions: DEFAULT_SELECT_OPTIONS } : {}),
+            ...(type === "FileUpload" ? { acceptTypes: DEFAULT_ACCEPT_TYPES } : {}),
           },
         ],
       }));
@@ -833,17 +1005,18 @@ export const useBuilderStore = create<BuilderState>((set) => ({
       return;
     }
 
+    const defaults = DISPLAY_DEFAULTS[type];
     set((state) => ({
       components: [
         ...state.components,
         {
           id: `${idBase}_${seq}`,
           type,
-          label: `Table ${seq}`,
+          label: `${defaults.label} ${seq}`,
           position: resolvedPosition,
           dataKey: ensureUniqueStateModelKey({
             components: state.components,
-            preferred: `tableData${seq}`,
+            preferred: `${defaults.dataKey}${seq}`,
             fallback: "analysisRows",
           }),
         },
@@ -866,7 +1039,7 @@ export const useBuilderStore = create<BuilderState>((set) => ({
           return item;
         }
 
-        if (item.type === "TextArea") {
+        if (isInputComponentType(item.type)) {
           const nextLabel = patch.label ?? item.label;
           const wantsGeneratedStateKey =
             patch.stateKey === undefined && patch.label !== undefined;
@@ -885,7 +1058,7 @@ export const useBuilderStore = create<BuilderState>((set) => ({
           };
         }
 
-        if (item.type === "DataTable") {
+        if (isDisplayComponentType(item.type)) {
           const preferredDataKey = patch.dataKey ?? item.dataKey ?? toDataKey(item.label);
           return {
             ...item,
@@ -967,13 +1140,15 @@ export const useBuilderStore = create<BuilderState>((set) => ({
 
       let nextConnections = state.connections;
 
-      if (source.type === "Button" && target.type === "DataTable") {
-        nextConnections = nextConnections.filter(
-          (connection) =>
-            !(connection.sourceId === sourceId &&
-              getComponentById(state.components, connection.targetId)?.type ===
-                "DataTable"),
-        );
+      if (source.type === "Button" && isDisplayComponentType(target.type)) {
+        nextConnections = nextConnections.filter((connection) => {
+          const connected = getComponentById(state.components, connection.targetId);
+          return !(
+            connection.sourceId === sourceId &&
+            connected &&
+            isDisplayComponentType(connected.type)
+          );
+        });
       }
 
       return {
@@ -993,6 +1168,7 @@ export const useBuilderStore = create<BuilderState>((set) => ({
         (connection) => connection.id !== connectionId,
       ),
     })),
+  setSecurity: (security) => set({ security }),
   loadFromAppDefinition: (app) => {
     const next = buildBuilderFromAppDefinition(app);
     const normalizedComponents = normalizeBuilderComponentIdentifiers(next.components);
@@ -1000,6 +1176,7 @@ export const useBuilderStore = create<BuilderState>((set) => ({
     set({
       appId: app.appId,
       version: app.version,
+      security: app.security,
       components: normalizedComponents,
       connections: next.connections,
       selectedComponentId: undefined,
@@ -1014,6 +1191,7 @@ export const useBuilderStore = create<BuilderState>((set) => ({
     set({
       appId: snapshot.appId,
       version: snapshot.version,
+      security: snapshot.security,
       components: normalizedComponents,
       connections: snapshot.connections,
       selectedComponentId: undefined,
@@ -1055,6 +1233,7 @@ export function getWorkspaceSnapshot(): BuilderWorkspaceSnapshot {
   return {
     appId: state.appId,
     version: state.version,
+    ...(state.security ? { security: state.security } : {}),
     components: state.components,
     connections: state.connections,
   };
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { createHash } from "node:crypto";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { registerAuthorization, requiredRole } from "./authorization.js";
+import { registerBuilderRoutes } from "./routes/builder.js";
+import { registerDeploymentRoutes } from "./routes/deployments.js";
+import { registerEventRoutes } from "./routes/events.js";
+import { registerProjectVersionRoutes } from "./routes/project-versions.js";
+import { registerRunRoutes } from "./routes/runs.js";
+import { defaultApp } from "../domain/apps/default-app.js";
+import { publishApp, resetAppRegistry } from "../domain/app-registry.js";
+
+const bearer = (key: string) => ({ authorization: `Bearer ${key}` });
+
+describe("API key authorization", () => {
+  let dir: string;
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "form-first-auth-"));
+    process.env.FORM_BUILDER_DATA_DIR = dir;
+    process.env.FORM_BUILDER_RUN_HISTORY = "off";
+    process.env.FORM_BUILDER_API_KEYS = JSON.stringify([
+      { name: "vera", key: "viewer-key", roles: ["viewer"] },
+      { name: "eddie", key: "editor-key", roles: ["editor"] },
+      {
+        name: "pat",
+        keySha256: createHash("sha256").update("publisher-key").digest("hex"),
+        roles: ["publisher"],
+      },
+      { name: "rob", key: "runner-key", roles: ["runner"] },
+    ]);
+    app = Fastify();
+    await registerAuthorization(app);
+    await registerBuilderRoutes(app);
+    await registerProjectVersionRoutes(app);
+    await registerDeploymentRoutes(app);
+    await registerEventRoutes(app);
+    await registerRunRoutes(app);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    await rm(dir, { recursive: true, force: true });
+    delete process.env.FORM_BUILDER_DATA_DIR;
+    delete process.env.FORM_BUILDER_RUN_HISTORY;
+    delete process.env.FORM_BUILDER_API_KEYS;
+    delete process.env.TEST_APP_ACCESS_KEYS;
+    resetAppRegistry();
+  });
+
+  it("maps routes to roles", () => {
+    expect(requiredRole("GET", "/builder/projects/:projectId")).toBe("viewer");
+    expect(requiredRole("POST", "/builder/compile")).toBe("editor");
+    expect(requiredRole("POST", "/builder/projects/:projectId/rollback")).toBe("publisher");
+    expect(requiredRole("POST", "/apps/:appId/events/:eventId/execute")).toBe("runner");
+    expect(requiredRole("GET", "/apps/:appId/events/:eventId/scheduled-result")).toBe("runner");
+    expect(requiredRole("GET", "/health")).toBeNull();
+  });
+
+  it("rejects missing and unknown keys and keys without the route's role", async () => {
+    const compile = { method: "POST" as const, url: "/builder/compile", payload: { app: defaultApp } };
+
+    expect((await app.inject(compile)).statusCode).toBe(401);
+    expect((await app.inject({ ...compile, headers: bearer("nope") })).statusCode).toBe(401);
+
+    const forbidden = await app.inject({ ...compile, headers: bearer("viewer-key") });
+    expect(forbidden.statusCode).toBe(403);
+    expect(forbidden.json()).toMatchObject({ error: "FORBIDDEN", requiredRole: "editor" });
+
+    expect((await app.inject({ ...compile, headers: bearer("editor-key") })).statusCode).toBe(200);
+
+    const execute = {
+      method: "POST" as const,
+      url: `/apps/${defaultApp.appId}/events/evt_analyze_click/execute`,
+      payload: { state: { customerComplaint: "Too slow." } },
+    };
+    expect((await app.inject({ ...execute, headers: bearer("editor-key") })).statusCode).toBe(403);
+    expect((await app.inject({ ...execute, headers: bearer("runner-key") })).statusCode).toBe(200);
+  });
+
+  it("records the acting key on saved versions and deployments", async () => {
+    const url = "/builder/projects/auth_project";
+    const put = await app.inject({
+      method: "PUT",
+      url,
+      headers: bearer("editor-key"),
+      payload: { appDefinition: defaultApp },
+    });
+    const versionId = (put.json() as { saved: { id: string; savedBy: string } }).saved.id;
+    expect(put.json()).toMatchObject({ saved: { savedBy: "eddie" } });
+
+    const versions = await app.inject({
+      method: "GET",
+      url: `${url}/versions`,
+      headers: bearer("viewer-key"),
+    });
+    expect(versions.json()).toMatchObject({ versions: [{ id: versionId, savedBy: "eddie" }] });
+
+    const editorPublish = await app.inject({
+      method: "POST",
+      url: `${url}/versions/${versionId}/publish`,
+      headers: bearer("editor-key"),
+    });
+    expect(editorPublish.statusCode).toBe(403);
+
+    const publish = await app.inject({
+      method: "POST",
+      url: `${url}/versions/${versionId}/publish`,
+      headers: bearer("publisher-key"),
+    });
+    expect(publish.statusCode).toBe(200);
+    expect(publish.json()).toMatchObject({ deployment: { publishedBy: "pat" } });
+  });
+
+  it("applies an app's runtime access policy to event execution", async () => {
+    process.env.TEST_APP_ACCESS_KEYS = "kiosk-key";
+    publishApp({
+      app: {
+        ...defaultApp,
+        appId: "secured_app",
+        security: { runtimeAccess: { mode: "apiKey", keyEnv: "TEST_APP_ACCESS_KEYS" } },
+      },
+      source: "published",
+      diagnostics: [],
+      loadedAt: new Date().toISOString(),
+    });
+    const execute = {
+      method: "POST" as const,
+      url: "/apps/secured_app/events/evt_analyze_click/execute",
+      payload: { state: { customerComplaint: "Too slow." } },
+    };
+
+    const missing = await app.inject(execute);
+    expect(missing.statusCode).toBe(401);
+    expect(missing.json()).toMatchObject({ message: "This app requires an access key." });
+    expect((await app.inject({ ...execute, headers: bearer("kiosk-key") })).statusCode).toBe(200);
+    expect((await app.inject({ ...execute, headers: bearer("runner-key") })).statusCode).toBe(200);
+    expect((await app.inject({ ...execute, headers: bearer("editor-key") })).statusCode).toBe(401);
+  });
+
+  it("applies an app's runtime access policy to its run history and replays", async () => {
+    delete process.env.FORM_BUILDER_API_KEYS;
+    delete process.env.FORM_BUILDER_RUN_HISTORY;
+    process.env.TEST_APP_ACCESS_KEYS = "kiosk-key";
+    publishApp({
+      app: {
+        ...defaultApp,
+        appId: "secured_app",
+        security: { runtimeAccess: { mode: "apiKey", keyEnv: "TEST_APP_ACCESS_KEYS" } },
+      },
+      source: "published",
+      diagnostics: [],
+      loadedAt: new Date().toISOString(),
+    });
+    const execute = await app.inject({
+      method: "POST",
+      url: "/apps/secured_app/events/evt_analyze_click/execute",
+      headers: bearer("kiosk-key"),
+      payload: { state: { customerComplaint: "private complaint" } },
+    });
+    expect(execute.statusCode).toBe(200);
+    const runId = String(execute.headers["x-run-id"]);
+
+    const routes = [
+      { method: "GET" as const, url: "/apps/secured_app/runs" },
+      { method: "GET" as const, url: `/apps/secured_app/runs/${runId}` },
+      { method: "POST" as const, url: `/apps/secured_app/runs/${runId}/replay` },
+    ];
+    for (const route of routes) {
+      const anonymous = await app.inject(route);
+      expect(anonymous.statusCode, route.url).toBe(401);
+      expect(anonymous.body).not.toContain("private complaint");
+    }
+    for (const route of routes) {
+      expect((await app.inject({ ...route, headers: bearer("kiosk-key") })).statusCode).toBe(200);
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { hasRole, type ApiKeyIdentity, type ApiRole } from "../application/api-keys.js";
+import { getAppDefinition } from "../domain/app-registry.js";
+import { getApiKeyStore } from "../infrastructure/api-key-store.js";
+import { checkRuntimeAccess } from "../infrastructure/runtime-access.js";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    /** Set by the authorization hook; null when no API keys are configured. */
+    apiKey: ApiKeyIdentity | null;
+    /** Set when an app's runtime access policy verified the caller; see `RuntimeAccessResult`. */
+    runtimeClientId: string | null;
+  }
+}
+
+// Routes not listed fall back by prefix: reads under /builder and /apps need viewer, builder writes need editor.
+const ROUTE_ROLES: Record<string, ApiRole> = {
+  "POST /builder/projects/:projectId/versions/:versionId/publish": "publisher",
+  "POST /builder/projects/:projectId/rollback": "publisher",
+  "POST /apps/:appId/events/:eventId/execute": "runner",
+  "POST /apps/:appId/events/:eventId/execute/stream": "runner",
+  "GET /apps/:appId/events/:eventId/scheduled-result": "runner",
+  "POST /apps/:appId/runs/:runId/replay": "runner",
+};
+
+// Routes that run an app or expose what its runs saw; they follow the app's runtime access policy.
+const RUNTIME_APP_ROUTES = new Set([
+  "/apps/:appId/events/:eventId/execute",
+  "/apps/:appId/events/:eventId/execute/stream",
+  "/apps/:appId/events/:eventId/scheduled-result",
+  "/apps/:appId/runs",
+  "/apps/:appId/runs/:runId",
+  "/apps/:appId/runs/:runId/replay",
+]);
+
+export function requiredRole(method: string, routeUrl: string): ApiRole | null {
+  const listed = ROUTE_ROLES[`${method} ${routeUrl}`];
+  if (listed) {
+    return listed;
+  }
+  const isBuilder = routeUrl.startsWith("/builder/");
+  if (!isBuilder && routeUrl !== "/apps" && !routeUrl.startsWith("/apps/")) {
+    return null;
+  }
+  if (method === "GET" || method === "HEAD") {
+    return "viewer";
+  }
+  return isBuilder ? "editor" : "admin";
+}
+
+function readBearerToken(request: FastifyRequest): string | null {
+  const auth = request.headers.authorization;
+  const value = Array.isArray(auth) ? auth[0] : auth;
+  if (!value || !value.startsWith("Bearer ")) {
+    return null;
+  }
+  return value.slice("Bearer ".length).trim() || null;
+}
+
+function authorizeApiKey(
+  request: FastifyRequest,
+  role: ApiRole,
+): { identity: ApiKeyIdentity | null } | { status: 401 | 403 | 500; body: Record<string, unknown> } {
+  let store;
+  try {
+    store = getApiKeyStore(process.env);
+  } catch (error) {
+    return { status: 500, body: { error: "AUTH_CONFIG_INVALID", message: (error as Error).message } };
+  }
+  if (!store.enabled) {
+    return { identity: null };
+  }
+
+  const token = readBearerToken(request);
+  if (!token) {
+    return {
+      status: 401,
+      body: { error: "UNAUTHORIZED", message: "Missing Authorization bearer token." },
+    };
+  }
+  const identity = store.authenticate(token);
+  if (!identity) {
+    return {
+      status: 401,
+      body: { error: "UNAUTHORIZED", message: "Invalid Authorization bearer token." },
+    };
+  }
+  if (!hasRole(identity, role)) {
+    return {
+      status: 403,
+      body: {
+        error: "FORBIDDEN",
+        message: `API key '${identity.name}' lacks the '${role}' role.`,
+        requiredRole: role,
+      },
+    };
+  }
+  return { identity };
+}
+
+/**
+ * Checks the bearer key of every builder, app and event request against the role its route
+ * needs: 401 for a missing or unknown key, 403 when the key lacks the role. Event execution,
+ * scheduled results and run history for an app with `security.runtimeAccess` follow that policy
+ * instead; keys with the route's role still pass.
+ */
+export async function registerAuthorization(app: FastifyInstance): Promise<void> {
+  app.decorateRequest("apiKey", null);
+  app.decorateRequest("runtimeClientId", null);
+
+  app.addHook("onRequest", async (request, reply) => {
+    const routeUrl = request.routeOptions.url;
+    const role = routeUrl ? requiredRole(request.method, routeUrl) : null;
+    if (!role) {
+      return;
+    }
+
+    const policy =
+      routeUrl && RUNTIME_APP_ROUTES.has(routeUrl)
+        ? getAppDefinition((request.params as { appId: string }).appId)?.security?.runtimeAccess
+        : undefined;
+    if (policy) {
+      const access = await checkRuntimeAccess(policy, readBearerToken(request), process.env);
+      if (access.ok) {
+        request.runtimeClientId = access.clientId ?? null;
+        return;
+      }
+      const fallback = readBearerToken(request) ? authorizeApiKey(request, role) : null;
+      if (fallback && "identity" in fallback && fallback.identity) {
+        request.apiKey = fallback.identity;
+        return;
+      }
+      return reply.status(access.status).send({ error: access.error, message: access.message });
+    }
+
+    const result = authorizeApiKey(request, role);
+    if (!("identity" in result)) {
+      return reply.status(result.status).send(result.body);
+    }
+    request.apiKey = result.identity;
+  });
+}
@@ -0,0 +1,46 @@
+import type { FastifyReply } from "fastify";
+import type { ExecutionStreamEvent } from "@form-builder/contracts";
+
+export interface EventStream {
+  send(event: ExecutionStreamEvent): void;
+  close(): void;
+  /** Aborted when the client disconnects before the stream is closed; pass it to the run. */
+  signal: AbortSignal;
+}
+
+// Takes over the raw response and writes Server-Sent Events frames, one per execution event.
+export function openEventStream(reply: FastifyReply): EventStream {
+  reply.hijack();
+  // The response, not the request, tells a disconnect apart: the request stream closes as soon as
+  // its body has been read, while the response only closes early when the socket goes away.
+  const disconnected = new AbortController();
+  reply.raw.on("close", () => {
+    if (!reply.raw.writableEnded) {
+      disconnected.abort(new Error("Client disconnected."));
+    }
+  });
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) {
+      headers[name] = Array.isArray(value) ? value.join(", ") : String(value);
+    }
+  }
+  reply.raw.writeHead(200, {
+    ...headers,
+    "content-type": "text/event-stream; charset=utf-8",
+    "cache-control": "no-cache",
+    connection: "keep-alive",
+  });
+
+  return {
+    send(event) {
+      if (!reply.raw.destroyed) {
+        reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    },
+    close() {
+      reply.raw.end();
+    },
+    signal: disconnected.signal,
+  };
+}
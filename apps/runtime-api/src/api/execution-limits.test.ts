@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AppDefinition } from "@form-builder/contracts";
+import { registerAuthorization } from "./authorization.js";
+import { registerExecutionLimits } from "./execution-limits.js";
+import { registerEventRoutes } from "./routes/events.js";
+import { registerRunRoutes } from "./routes/runs.js";
+import { defaultApp } from "../domain/apps/default-app.js";
+import { publishApp, resetAppRegistry } from "../domain/app-registry.js";
+
+const executeUrl = `/apps/${defaultApp.appId}/events/evt_analyze_click/execute`;
+const payload = { state: { customerComplaint: "Too slow." } };
+
+describe("execution limits", () => {
+  let app: FastifyInstance;
+  let nowMs: number;
+
+  beforeEach(async () => {
+    process.env.FORM_BUILDER_RUN_HISTORY = "off";
+    nowMs = Date.parse("2026-03-01T12:00:00Z");
+    app = Fastify();
+    await registerAuthorization(app);
+    await registerExecutionLimits(app, { now: () => nowMs });
+    await registerEventRoutes(app);
+    await registerRunRoutes(app);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    resetAppRegistry();
+    delete process.env.FORM_BUILDER_RUN_HISTORY;
+    delete process.env.FORM_BUILDER_EXECUTION_LIMITS;
+    delete process.env.FORM_BUILDER_MODEL_PRICES;
+  });
+
+  it("rate limits each client with a token bucket", async () => {
+    process.env.FORM_BUILDER_EXECUTION_LIMITS = JSON.stringify({
+      perClient: { requestsPerMinute: 6, burst: 2 },
+    });
+    const send = (ip: string) =>
+      app.inject({ method: "POST", url: executeUrl, payload, remoteAddress: ip });
+
+    expect((await send("10.0.0.1")).statusCode).toBe(200);
+    expect((await send("10.0.0.1")).statusCode).toBe(200);
+    const limited = await send("10.0.0.1");
+    expect(limited.statusCode).toBe(429);
+    expect(limited.headers["retry-after"]).toBe("10");
+    expect(limited.json()).toMatchObject({ error: "RATE_LIMITED", limit: "client" });
+
+    // Another client has its own bucket, and the first one refills over time.
+    expect((await send("10.0.0.2")).statusCode).toBe(200);
+    nowMs += 10_000;
+    expect((await send("10.0.0.1")).statusCode).toBe(200);
+  });
+
+  it("does not charge a client for requests a shared bucket turned away", async () => {
+    process.env.FORM_BUILDER_EXECUTION_LIMITS = JSON.stringify({
+      perApp: { requestsPerMinute: 6, burst: 1 },
+      perClient: { requestsPerMinute: 1, burst: 1 },
+    });
+    const send = (ip: string) =>
+      app.inject({ method: "POST", url: executeUrl, payload, remoteAddress: ip });
+
+    expect((await send("10.0.0.1")).statusCode).toBe(200);
+    const limited = await send("10.0.0.2");
+    expect(limited.statusCode).toBe(429);
+    expect(limited.json()).toMatchObject({ error: "RATE_LIMITED", limit: "app" });
+
+    // Once the app bucket refills, the turned-away client still has its own token.
+    nowMs += 10_000;
+    expect((await send("10.0.0.2")).statusCode).toBe(200);
+  });
+
+  it("stops executing once the daily budget is spent", async () => {
+    process.env.FORM_BUILDER_MODEL_PRICES = JSON.stringify({
+      "mock/mock-v1": { input: 1_000, output: 1_000 },
+    });
+    process.env.FORM_BUILDER_EXECUTION_LIMITS = JSON.stringify({
+      apps: { [defaultApp.appId]: { dailyBudgetUsd: { perApp: 0.01 } } },
+    });
+
+    const first = await app.inject({ method: "POST", url: executeUrl, payload });
+    expect(first.statusCode).toBe(200);
+    expect((first.json() as { estimatedCostUsd: number }).estimatedCostUsd).toBeGreaterThan(0.01);
+
+    const capped = await app.inject({ method: "POST", url: executeUrl, payload });
+    expect(capped.statusCode).toBe(402);
+    expect(capped.headers["retry-after"]).toBe(String(12 * 60 * 60));
+    expect(capped.json()).toMatchObject({ error: "BUDGET_EXCEEDED", limit: "app" });
+
+    nowMs = Date.parse("2026-03-02T00:00:01Z");
+    expect((await app.inject({ method: "POST", url: executeUrl, payload })).statusCode).toBe(200);
+  });
+
+  it("rejects a malformed limit config", async () => {
+    process.env.FORM_BUILDER_EXECUTION_LIMITS = JSON.stringify({ perApp: { requestsPerMinute: 0 } });
+    const response = await app.inject({ method: "POST", url: executeUrl, payload });
+    expect(response.statusCode).toBe(500);
+    expect(response.json()).toMatchObject({ error: "LIMITS_CONFIG_INVALID" });
+  });
+
+  it("counts unverified bearer tokens by remote address", async () => {
+    process.env.FORM_BUILDER_EXECUTION_LIMITS = JSON.stringify({
+      perClient: { requestsPerMinute: 1, burst: 1 },
+    });
+    const send = (token: string) =>
+      app.inject({
+        method: "POST",
+        url: executeUrl,
+        payload,
+        remoteAddress: "10.0.0.1",
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+    expect((await send("random-1")).statusCode).toBe(200);
+    expect((await send("random-2")).statusCode).toBe(429);
+  });
+
+  it("limits replays like executions", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "form-first-limits-"));
+    delete process.env.FORM_BUILDER_RUN_HISTORY;
+    process.env.FORM_BUILDER_DATA_DIR = dir;
+    try {
+      const execute = await app.inject({ method: "POST", url: executeUrl, payload });
+      process.env.FORM_BUILDER_EXECUTION_LIMITS = JSON.stringify({
+        perEvent: { requestsPerMinute: 1, burst: 1 },
+      });
+      const replay = () =>
+        app.inject({
+          method: "POST",
+          url: `/apps/${defaultApp.appId}/runs/${String(execute.headers["x-run-id"])}/replay`,
+          payload: {},
+        });
+
+      expect((await replay()).statusCode).toBe(200);
+      const limited = await replay();
+      expect(limited.statusCode).toBe(429);
+      expect(limited.json()).toMatchObject({ error: "RATE_LIMITED", limit: "event" });
+    } finally {
+      delete process.env.FORM_BUILDER_DATA_DIR;
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("records the spend of runs that fail after calling a model", async () => {
+    const event = defaultApp.events[0]!;
+    const failingApp: AppDefinition = {
+      ...defaultApp,
+      appId: "failing_app",
+      events: [
+        {
+          ...event,
+          actionGraph: {
+            nodes: [
+              ...event.actionGraph.nodes,
+              {
+                id: "n4_notify",
+                kind: "HttpRequest",
+                httpSpec: {
+                  method: "GET",
+                  urlTemplate: "https://blocked.example.com/notify",
+                  headers: {},
+                  outputSchema: { type: "object", shape: {} },
+                },
+              },
+            ],
+            edges: [...event.actionGraph.edges, { from: "n2_prompt", to: "n4_notify" }],
+          },
+        },
+      ],
+    };
+    publishApp({ app: failingApp, source: "published", diagnostics: [], loadedAt: new Date().toISOString() });
+    process.env.FORM_BUILDER_MODEL_PRICES = JSON.stringify({
+      "mock/mock-v1": { input: 1_000, output: 1_000 },
+    });
+    process.env.FORM_BUILDER_EXECUTION_LIMITS = JSON.stringify({ dailyBudgetUsd: { perApp: 0.01 } });
+    const url = "/apps/failing_app/events/evt_analyze_click/execute";
+
+    expect((await app.inject({ method: "POST", url, payload })).statusCode).toBe(500);
+    const capped = await app.inject({ method: "POST", url, payload });
+    expect(capped.statusCode).toBe(402);
+    expect(capped.json()).toMatchObject({ error: "BUDGET_EXCEEDED", limit: "app" });
+  });
+
+  it("refuses budgeted runs that could call an unpriced model", async () => {
+    const event = defaultApp.events[0]!;
+    publishApp({
+      app: {
+        ...defaultApp,
+        appId: "unpriced_app",
+        events: [
+          {
+            ...event,
+            actionGraph: {
+              ...event.actionGraph,
+              nodes: event.actionGraph.nodes.map((node) =>
+                node.kind === "PromptTask"
+                  ? {
+                      ...node,
+                      promptSpec: {
+                        ...node.promptSpec,
+                        modelPolicy: {
+                          ...node.promptSpec.modelPolicy,
+                          fallbacks: [{ provider: "mock", model: "mock-unpriced" }],
+                        },
+                      },
+                    }
+                  : node,
+              ),
+            },
+          },
+        ],
+      },
+      source: "published",
+      diagnostics: [],
+      loadedAt: new Date().toISOString(),
+    });
+    const url = "/apps/unpriced_app/events/evt_analyze_click/execute";
+
+    expect((await app.inject({ method: "POST", url, payload })).statusCode).toBe(200);
+    process.env.FORM_BUILDER_EXECUTION_LIMITS = JSON.stringify({ dailyBudgetUsd: { perClient: 1 } });
+    const refused = await app.inject({ method: "POST", url, payload });
+    expect(refused.statusCode).toBe(402);
+    expect(refused.headers["retry-after"]).toBeUndefined();
+    expect(refused.json()).toMatchObject({ error: "MODEL_UNPRICED", limit: "client" });
+  });
+});
@@ -0,0 +1,154 @@
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { ModelPolicySchema, type AppDefinition } from "@form-builder/contracts";
+import { getAppDefinition, getAppRegistrySnapshot } from "../domain/app-registry.js";
+import {
+  checkExecutionLimits,
+  eventModelKeys,
+  hasExecutionLimits,
+  limitsForApp,
+  recordExecutionSpend,
+  type ExecutionLimits,
+  type ExecutionScope,
+  type UsageCounterStore,
+} from "../application/execution-limits.js";
+import { resolveReplayApp, withModelPolicyOverride } from "../application/run-history.js";
+import { getExecutionLimitConfig } from "../infrastructure/execution-limit-config.js";
+import { getRunStore } from "../infrastructure/file-run-store.js";
+import { createMemoryUsageCounters } from "../infrastructure/memory-usage-counters.js";
+import { getModelPriceTable } from "../infrastructure/model-prices.js";
+import { getDeploymentStore, getProjectStore } from "../infrastructure/project-stores.js";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    /** Set by the execution limits hook when the app has limits, so routes can record spend. */
+    executionLimits: {
+      counters: UsageCounterStore;
+      limits: ExecutionLimits;
+      scope: ExecutionScope;
+      now: () => number;
+    } | null;
+  }
+}
+
+const EXECUTE_ROUTES = new Set([
+  "/apps/:appId/events/:eventId/execute",
+  "/apps/:appId/events/:eventId/execute/stream",
+]);
+const REPLAY_ROUTE = "/apps/:appId/runs/:runId/replay";
+
+// Only identities the authorization hook verified name a client: a named API key or a caller the
+// app's runtime access policy accepted. Anyone else is counted by remote address, so unverified
+// bearer tokens cannot mint a fresh bucket per request.
+function clientIdOf(request: FastifyRequest): string {
+  if (request.apiKey) {
+    return `key:${request.apiKey.name}`;
+  }
+  if (request.runtimeClientId) {
+    return request.runtimeClientId;
+  }
+  return `ip:${request.ip}`;
+}
+
+// The app and event a limited route is about to run. A replay runs the recorded run's event and
+// app version, with the request's model policy override when it has one. Null when the route
+// will answer 404 or 409 anyway.
+async function resolveLimitedRun(
+  request: FastifyRequest,
+  routeUrl: string,
+): Promise<{ appId: string; eventId: string; app: AppDefinition | undefined } | null> {
+  if (EXECUTE_ROUTES.has(routeUrl)) {
+    const { appId, eventId } = request.params as { appId: string; eventId: string };
+    return { appId, eventId, app: getAppDefinition(appId) };
+  }
+  if (routeUrl !== REPLAY_ROUTE) {
+    return null;
+  }
+
+  const { appId, runId } = request.params as { appId: string; runId: string };
+  const run = await getRunStore(process.env)?.get(appId, runId).catch(() => null);
+  if (!run) {
+    return null;
+  }
+  const app = await resolveReplayApp(
+    run,
+    getAppRegistrySnapshot().apps.get(appId),
+    getDeploymentStore(process.env),
+    async (projectId, versionId) =>
+      (await getProjectStore(process.env).getVersion(projectId, versionId))?.appDefinition ?? null,
+  ).catch(() => null);
+  if (!app) {
+    return null;
+  }
+  const override = ModelPolicySchema.safeParse((request.body as { modelPolicy?: unknown } | undefined)?.modelPolicy);
+  return {
+    appId,
+    eventId: run.eventId,
+    app: override.success ? withModelPolicyOverride(app, run.eventId, override.data) : app,
+  };
+}
+
+/**
+ * Applies `FORM_BUILDER_EXECUTION_LIMITS` to event execution and run replays: 429 `RATE_LIMITED`
+ * when a token bucket is empty, 402 `BUDGET_EXCEEDED` when a daily spend cap is reached, both
+ * with `Retry-After`, and 402 `MODEL_UNPRICED` when a budgeted run could call a model without a
+ * price. Registered after authorization so verified identities can name clients.
+ */
+export async function registerExecutionLimits(
+  app: FastifyInstance,
+  options: { counters?: UsageCounterStore; now?: () => number } = {},
+): Promise<void> {
+  const counters = options.counters ?? createMemoryUsageCounters();
+  const now = options.now ?? Date.now;
+  app.decorateRequest("executionLimits", null);
+
+  app.addHook("preHandler", async (request, reply) => {
+    const routeUrl = request.routeOptions.url;
+    const target = routeUrl ? await resolveLimitedRun(request, routeUrl) : null;
+    if (!target) {
+      return;
+    }
+
+    let limits: ExecutionLimits;
+    const { appId, eventId } = target;
+    try {
+      limits = limitsForApp(getExecutionLimitConfig(process.env), appId);
+    } catch (error) {
+      return reply
+        .status(500)
+        .send({ error: "LIMITS_CONFIG_INVALID", message: (error as Error).message });
+    }
+    if (!hasExecutionLimits(limits)) {
+      return;
+    }
+
+    const event = target.app?.events.find((item) => item.id === eventId);
+    const scope: ExecutionScope = { appId, eventId, clientId: clientIdOf(request) };
+    const decision = await checkExecutionLimits(counters, limits, scope, now(), {
+      models: event ? eventModelKeys(event) : [],
+      prices: getModelPriceTable(process.env),
+    });
+    if (!decision.ok) {
+      if (decision.retryAfterSeconds !== undefined) {
+        reply.header("retry-after", String(decision.retryAfterSeconds));
+      }
+      return reply.status(decision.status).send({
+        error: decision.error,
+        limit: decision.limit,
+        message: decision.message,
+        ...(decision.retryAfterSeconds !== undefined
+          ? { retryAfterSeconds: decision.retryAfterSeconds }
+          : {}),
+      });
+    }
+    request.executionLimits = { counters, limits, scope, now };
+  });
+}
+
+/** Adds a run's estimated cost, finished or failed, to the daily budgets the request was checked against. */
+export async function recordRequestSpend(request: FastifyRequest, costUsd: number): Promise<void> {
+  const tracked = request.executionLimits;
+  if (!tracked) {
+    return;
+  }
+  await recordExecutionSpend(tracked.counters, tracked.limits, tracked.scope, costUsd, tracked.now());
+}
@@ -0,0 +1,34 @@
+import type { AppDefinition } from "@form-builder/contracts";
+import { extractFileState, FileExtractionError } from "../application/file-text.js";
+import { FILE_EXTRACTORS, getFileLimits } from "../infrastructure/file-extractors.js";
+
+export type RequestFileStateResult =
+  | { ok: true; state: Record<string, unknown> }
+  | { ok: false; status: number; body: { error: string; message: string } };
+
+/** Swaps uploaded files in an execute request's state for their text, before the run starts. */
+export async function extractRequestFileState(
+  app: AppDefinition,
+  state: Record<string, unknown>,
+): Promise<RequestFileStateResult> {
+  try {
+    return {
+      ok: true,
+      state: await extractFileState({
+        app,
+        state,
+        extractors: FILE_EXTRACTORS,
+        limits: getFileLimits(process.env),
+      }),
+    };
+  } catch (error) {
+    if (error instanceof FileExtractionError) {
+      return {
+        ok: false,
+        status: error.statusCode,
+        body: { error: error.code, message: error.message },
+      };
+    }
+    throw error;
+  }
+}
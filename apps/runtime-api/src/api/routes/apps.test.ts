@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { registerAppRoutes } from "./apps.js";
+import { registerEventRoutes } from "./events.js";
+import { defaultApp } from "../../domain/apps/default-app.js";
+import { getAppDefinition, resetAppRegistry } from "../../domain/app-registry.js";
+import { reloadAppDirectory, watchAppDirectory } from "../../infrastructure/app-directory.js";
+
+function writeApp(dir: string, file: string, app: unknown): Promise<void> {
+  return writeFile(join(dir, file), JSON.stringify(app), "utf8");
+}
+
+describe("app directory registry", () => {
+  let dir: string;
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "form-first-apps-"));
+    process.env.FORM_BUILDER_RUN_HISTORY = "off";
+    app = Fastify();
+    await registerAppRoutes(app);
+    await registerEventRoutes(app);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    await rm(dir, { recursive: true, force: true });
+    delete process.env.FORM_BUILDER_RUN_HISTORY;
+    resetAppRegistry();
+  });
+
+  it("serves valid apps from the directory and lists diagnostics of rejected files", async () => {
+    await writeApp(dir, "second.json", { ...defaultApp, appId: "second_app" });
+    await writeApp(dir, "broken.json", { ...defaultApp, appId: "broken_app", events: "nope" });
+    await writeFile(join(dir, "garbage.json"), "{ not json", "utf8");
+    await reloadAppDirectory(dir);
+
+    const list = await app.inject({ method: "GET", url: "/apps" });
+    const body = list.json() as {
+      apps: Array<{ appId: string; source: string; file?: string }>;
+      rejected: Array<{ file: string; diagnostics: Array<{ code: string; severity: string }> }>;
+    };
+    expect(body.apps.map((entry) => entry.appId).sort()).toEqual(
+      [defaultApp.appId, "second_app"].sort(),
+    );
+    expect(body.apps.find((entry) => entry.appId === "second_app")).toMatchObject({
+      source: "directory",
+      file: "second.json",
+    });
+    expect(body.rejected.map((entry) => entry.file)).toEqual(["broken.json", "garbage.json"]);
+    expect(body.rejected[1]?.diagnostics[0]?.code).toBe("APP_FILE_UNREADABLE");
+
+    const execute = await app.inject({
+      method: "POST",
+      url: "/apps/second_app/events/evt_analyze_click/execute",
+      payload: { state: { customerComplaint: "Too slow." } },
+    });
+    expect(execute.statusCode).toBe(200);
+  });
+
+  it("keeps the last valid definition when a file stops validating", async () => {
+    await writeApp(dir, "second.json", { ...defaultApp, appId: "second_app", version: "1.0.0" });
+    await reloadAppDirectory(dir);
+
+    await writeApp(dir, "second.json", { ...defaultApp, appId: "second_app", version: "" });
+    await reloadAppDirectory(dir);
+
+    expect(getAppDefinition("second_app")?.version).toBe("1.0.0");
+    const list = await app.inject({ method: "GET", url: "/apps" });
+    expect(list.json()).toMatchObject({ rejected: [{ file: "second.json" }] });
+  });
+
+  it("rejects a second file declaring an existing appId", async () => {
+    await writeApp(dir, "a.json", { ...defaultApp, appId: "dup_app" });
+    await writeApp(dir, "b.json", { ...defaultApp, appId: "dup_app" });
+    await reloadAppDirectory(dir);
+
+    const list = await app.inject({ method: "GET", url: "/apps" });
+    expect(list.json()).toMatchObject({
+      rejected: [{ file: "b.json", diagnostics: [{ code: "APP_DUPLICATE_ID" }] }],
+    });
+  });
+
+  it("swaps in changed definitions when the directory changes", async () => {
+    await reloadAppDirectory(dir);
+    const watcher = watchAppDirectory(dir);
+    try {
+      await writeApp(dir, "second.json", { ...defaultApp, appId: "second_app", version: "2.0.0" });
+      const deadline = Date.now() + 5000;
+      while (!getAppDefinition("second_app") && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      expect(getAppDefinition("second_app")?.version).toBe("2.0.0");
+    } finally {
+      watcher.close();
+    }
+  });
+});
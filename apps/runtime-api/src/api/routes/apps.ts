@@ -0,0 +1,20 @@
+import type { FastifyInstance } from "fastify";
+import { getAppRegistrySnapshot } from "../../domain/app-registry.js";
+
+export async function registerAppRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/apps", async () => {
+    const snapshot = getAppRegistrySnapshot();
+    return {
+      apps: [...snapshot.apps.values()].map((entry) => ({
+        appId: entry.app.appId,
+        version: entry.app.version,
+        source: entry.source,
+        ...(entry.file ? { file: entry.file } : {}),
+        ...(entry.deployment ? { deployment: entry.deployment } : {}),
+        loadedAt: entry.loadedAt,
+        diagnostics: entry.diagnostics,
+      })),
+      rejected: snapshot.rejected,
+    };
+  });
+}
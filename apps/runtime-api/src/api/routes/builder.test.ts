@@ -1,4 +1,5 @@
 import { describe, expect, it } from "vitest";
+import type { AddressInfo } from "node:net";
 import Fastify from "fastify";
 import { registerBuilderRoutes } from "./builder.js";
 import { defaultApp } from "../../domain/apps/default-app.js";
@@ -57,6 +58,40 @@ describe("builder compile route", () => {
     await app.close();
   });
 
+  it("lists openai-compatible models from the configured server", async () => {
+    const server = Fastify();
+    server.get("/v1/models", async () => ({
+      object: "list",
+      data: [
+        { id: "llama3.1:8b", object: "model", created: 0, owned_by: "local" },
+        { id: "qwen2.5:7b", object: "model", created: 0, owned_by: "local" },
+      ],
+    }));
+    await server.listen({ host: "127.0.0.1", port: 0 });
+    process.env.OPENAI_COMPATIBLE_BASE_URL = `http://127.0.0.1:${(server.server.address() as AddressInfo).port}/v1`;
+
+    const app = Fastify();
+    await registerBuilderRoutes(app);
+
+    try {
+      const response = await app.inject({ method: "GET", url: "/builder/models/catalog" });
+      const body = response.json() as {
+        providers: Record<string, { defaultModel: string; models: string[] }>;
+        source: Record<string, string>;
+      };
+
+      expect(body.providers["openai-compatible"]).toEqual({
+        defaultModel: "llama3.1:8b",
+        models: ["llama3.1:8b", "qwen2.5:7b"],
+      });
+      expect(body.source["openai-compatible"]).toBe("server");
+    } finally {
+      delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+      await app.close();
+      await server.close();
+    }
+  });
+
   it("compiles app schema and returns file metadata", async () => {
     const app = Fastify();
     await registerBuilderRoutes(app);
@@ -84,6 +119,56 @@ describe("builder compile route", () => {
     await app.close();
   });
 
+  it("reports model providers that are not registered", async () => {
+    const app = Fastify();
+    await registerBuilderRoutes(app);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/builder/compile",
+      payload: {
+        app: {
+          ...defaultApp,
+          events: defaultApp.events.map((event) => ({
+            ...event,
+            actionGraph: {
+              ...event.actionGraph,
+              nodes: event.actionGraph.nodes.map((node) =>
+                node.kind === "PromptTask"
+                  ? {
+                      ...node,
+                      promptSpec: {
+                        ...node.promptSpec,
+                        modelPolicy: {
+                          provider: "mock",
+                          model: "mock-v1",
+                          fallbacks: [{ provider: "anthropc", model: "claude-sonnet-4-0" }],
+                        },
+                      },
+                    }
+                  : node,
+              ),
+            },
+          })),
+        },
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json() as {
+      diagnostics: Array<{ code: string; severity: string; message: string }>;
+    };
+    expect(body.diagnostics).toContainEqual(
+      expect.objectContaining({
+        code: "MODEL_PROVIDER_UNKNOWN",
+        severity: "error",
+        message: expect.stringContaining("'anthropc'"),
+      }),
+    );
+
+    await app.close();
+  });
+
   it("returns generated file contents when requested", async () => {
     const app = Fastify();
     await registerBuilderRoutes(app);
@@ -201,4 +286,36 @@ describe("builder compile route", () => {
 
     await app.close();
   });
+
+  it("streams preview execution as server-sent events", async () => {
+    const app = Fastify();
+    await registerBuilderRoutes(app);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/builder/preview/events/evt_analyze_click/execute/stream",
+      payload: {
+        app: defaultApp,
+        state: {
+          customerComplaint: "The response time was too slow.",
+        },
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers["content-type"]).toContain("text/event-stream");
+    const events = response.body
+      .split("\n\n")
+      .map((frame) => frame.split("\n").find((line) => line.startsWith("data: ")))
+      .filter((line): line is string => !!line)
+      .map((line) => JSON.parse(line.slice("data: ".length)) as { type: string });
+
+    expect(events.some((event) => event.type === "node-start")).toBe(true);
+    expect(events.some((event) => event.type === "token")).toBe(true);
+    expect(events.some((event) => event.type === "state-patch")).toBe(true);
+    expect(events.at(-1)?.type).toBe("result");
+
+    await app.close();
+  });
 });
+
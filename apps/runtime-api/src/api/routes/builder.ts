@@ -1,17 +1,29 @@
 import type { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { AppCompiler } from "@form-builder/compiler";
-import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import { readFile, readdir } from "node:fs/promises";
 import { join, relative, resolve } from "node:path";
 import {
   AppDefinitionSchema,
   ExecuteEventResponseSchema,
   type AppDefinition,
 } from "@form-builder/contracts";
+import { openEventStream } from "../event-stream.js";
+import { extractRequestFileState } from "../file-state.js";
 import { executeEvent } from "../../application/execute-event.js";
+import { unknownProviderDiagnostics } from "../../application/provider-diagnostics.js";
 import { createTarGz } from "../../application/tar.js";
+import { getExecutionEnvOptions } from "../../infrastructure/execution-env.js";
+import { getExecuteBodyLimit } from "../../infrastructure/file-extractors.js";
+import {
+  isSafeProjectId,
+  ProjectVersionConflictError,
+} from "../../application/project-store.js";
+import { getDeploymentStore, getProjectStore } from "../../infrastructure/project-stores.js";
+import { PROVIDER_PLUGINS } from "../../infrastructure/provider-plugins.js";
 import {
   createProviderRegistry,
+  getModelCatalog,
   getProviderStatusSnapshot,
 } from "../../infrastructure/provider-registry.js";
 
@@ -39,26 +51,20 @@ const ProjectUpsertRequestSchema = z.object({
   workspaceSnapshot: z.unknown().optional(),
   previewStateDraft: z.string().optional(),
   previewStateDirty: z.boolean().optional(),
+  baseVersionId: z.string().min(1).optional(),
 });
 
-function requireApiKey(request: { headers: Record<string, string | string[] | undefined> }): void {
-  const expected = process.env.FORM_BUILDER_API_KEY?.trim();
-  if (!expected) {
-    return;
-  }
-  const auth = request.headers.authorization;
-  const value = Array.isArray(auth) ? auth[0] : auth;
-  if (!value || !value.startsWith("Bearer ")) {
-    throw new Error("Missing Authorization bearer token.");
-  }
-  const token = value.slice("Bearer ".length).trim();
-  if (token !== expected) {
-    throw new Error("Invalid Authorization bearer token.");
-  }
+function providerIds(): string[] {
+  return PROVIDER_PLUGINS.map((plugin) => plugin.id);
 }
 
-function isSafeProjectId(projectId: string): boolean {
-  return /^[a-zA-Z0-9_-]{3,80}$/.test(projectId);
+/** Project ETags are the quoted `latestVersionId`; `*` (any existing version) imposes no check here. */
+function parseIfMatch(header: string | string[] | undefined): string | undefined {
+  const value = (Array.isArray(header) ? header[0] : header)?.trim();
+  if (!value || value === "*") {
+    return undefined;
+  }
+  return value.replace(/^W\//, "").replace(/^"(.*)"$/, "$1");
 }
 
 async function fileExists(path: string): Promise<boolean> {
@@ -88,55 +94,6 @@ async function findRepoRoot(startDir: string): Promise<string> {
   );
 }
 
-function resolveDataDir(): string {
-  const configured = process.env.FORM_BUILDER_DATA_DIR?.trim();
-  if (configured) {
-    return resolve(configured);
-  }
-  // Default: alongside runtime-api when running from apps/runtime-api.
-  return resolve(process.cwd(), "data");
-}
-
-async function writeJsonFile(path: string, payload: unknown): Promise<void> {
-  await mkdir(resolve(path, ".."), { recursive: true });
-  await writeFile(path, JSON.stringify(payload, null, 2), "utf8");
-}
-
-async function readJsonFile(path: string): Promise<unknown> {
-  const raw = await readFile(path, "utf8");
-  return JSON.parse(raw) as unknown;
-}
-
-interface ProjectIndexEntry {
-  id: string;
-  name: string;
-  createdAt: string;
-  updatedAt: string;
-  latestVersionId: string;
-}
-
-interface ProjectVersionIndexEntry {
-  id: string;
-  savedAt: string;
-  note?: string | undefined;
-}
-
-interface ProjectMetaV1 extends ProjectIndexEntry {
-  kind: "form-first-builder-project-v1";
-  versions: ProjectVersionIndexEntry[];
-}
-
-interface ProjectVersionV1 {
-  kind: "form-first-builder-project-version-v1";
-  id: string;
-  savedAt: string;
-  appDefinition: AppDefinition;
-  workspaceSnapshot?: unknown | undefined;
-  previewStateDraft?: string | undefined;
-  previewStateDirty?: boolean | undefined;
-  note?: string | undefined;
-}
-
 async function collectTextFiles(args: {
   baseDir: string;
   include: string;
@@ -287,32 +244,6 @@ async function buildDeployableBundleFiles(args: {
   return fileContents;
 }
 
-function parseModelCatalogEnv(value: string | undefined): string[] {
-  const raw = (value ?? "").trim();
-  if (!raw) {
-    return [];
-  }
-
-  if (raw.startsWith("[")) {
-    try {
-      const parsed = JSON.parse(raw) as unknown;
-      if (Array.isArray(parsed)) {
-        return parsed
-          .filter((item): item is string => typeof item === "string")
-          .map((item) => item.trim())
-          .filter(Boolean);
-      }
-    } catch {
-      // fall through to delimiter parsing
-    }
-  }
-
-  return raw
-    .split(/[\n,]+/g)
-    .map((item) => item.trim())
-    .filter(Boolean);
-}
-
 export async function registerBuilderRoutes(app: FastifyInstance): Promise<void> {
   app.get("/builder/providers/status", async (_request, reply) => {
     return reply.send({
@@ -322,92 +253,29 @@ export async function registerBuilderRoutes(app: FastifyInstance): Promise<void>
   });
 
   app.get("/builder/models/catalog", async (_request, reply) => {
-    const openaiModels = parseModelCatalogEnv(process.env.FORM_BUILDER_OPENAI_MODELS);
-    const anthropicModels = parseModelCatalogEnv(
-      process.env.FORM_BUILDER_ANTHROPIC_MODELS,
-    );
-
-    const openaiDefault =
-      process.env.FORM_BUILDER_OPENAI_DEFAULT_MODEL?.trim() ||
-      openaiModels[0] ||
-      "gpt-5.2";
-    const anthropicDefault =
-      process.env.FORM_BUILDER_ANTHROPIC_DEFAULT_MODEL?.trim() ||
-      anthropicModels[0] ||
-      "claude-sonnet-4-0";
+    const catalog = await getModelCatalog(process.env);
+    const providers: Record<string, { defaultModel: string; models: string[] }> = {};
+    const source: Record<string, string> = {};
+    for (const [id, entry] of Object.entries(catalog)) {
+      providers[id] = { defaultModel: entry.defaultModel, models: entry.models };
+      source[id] = entry.source;
+    }
 
     return reply.send({
-      providers: {
-        mock: { defaultModel: "mock-v1", models: ["mock-v1"] },
-        openai: {
-          defaultModel: openaiDefault,
-          models: openaiModels.length > 0 ? openaiModels : [openaiDefault],
-        },
-        anthropic: {
-          defaultModel: anthropicDefault,
-          models: anthropicModels.length > 0 ? anthropicModels : [anthropicDefault],
-        },
-      },
+      providers,
       fetchedAt: new Date().toISOString(),
-      source: {
-        openai: openaiModels.length > 0 ? "env" : "default",
-        anthropic: anthropicModels.length > 0 ? "env" : "default",
-      },
+      source,
     });
   });
 
   app.get("/builder/projects", async (request, reply) => {
     try {
-      requireApiKey(request);
-      const dataDir = resolveDataDir();
-      const root = join(dataDir, "projects");
-      await mkdir(root, { recursive: true });
-
-      const entries = await readdir(root, { withFileTypes: true });
-      const projects: ProjectIndexEntry[] = [];
-      for (const entry of entries) {
-        if (!entry.isDirectory()) {
-          continue;
-        }
-        const projectId = entry.name;
-        if (!isSafeProjectId(projectId)) {
-          continue;
-        }
-        const metaPath = join(root, projectId, "project.json");
-        try {
-          const meta = (await readJsonFile(metaPath)) as unknown;
-          if (!meta || typeof meta !== "object") {
-            continue;
-          }
-          const record = meta as Record<string, unknown>;
-          if (record.kind !== "form-first-builder-project-v1") {
-            continue;
-          }
-          if (
-            typeof record.id !== "string" ||
-            typeof record.name !== "string" ||
-            typeof record.createdAt !== "string" ||
-            typeof record.updatedAt !== "string" ||
-            typeof record.latestVersionId !== "string"
-          ) {
-            continue;
-          }
-          projects.push({
-            id: record.id,
-            name: record.name,
-            createdAt: record.createdAt,
-            updatedAt: record.updatedAt,
-            latestVersionId: record.latestVersionId,
-          });
-        } catch {
-          continue;
-        }
-      }
-
+      const includeArchived = (request.query as { includeArchived?: string }).includeArchived === "true";
+      const projects = await getProjectStore(process.env).list({ includeArchived });
       return reply.send({ projects, at: new Date().toISOString() });
     } catch (error) {
-      return reply.status(401).send({
-        error: "UNAUTHORIZED",
+      return reply.status(500).send({
+        error: "PROJECT_READ_FAILED",
         message: (error as Error).message,
       });
     }
@@ -415,47 +283,36 @@ export async function registerBuilderRoutes(app: FastifyInstance): Promise<void>
 
   app.get("/builder/projects/:projectId", async (request, reply) => {
     try {
-      requireApiKey(request);
       const params = request.params as { projectId?: string };
       const projectId = params.projectId;
       if (!projectId || !isSafeProjectId(projectId)) {
         return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
       }
 
-      const dataDir = resolveDataDir();
-      const metaPath = join(dataDir, "projects", projectId, "project.json");
-      const meta = (await readJsonFile(metaPath)) as ProjectMetaV1;
-      if (!meta || meta.kind !== "form-first-builder-project-v1") {
+      const store = getProjectStore(process.env);
+      const meta = await store.getMeta(projectId);
+      if (!meta) {
         return reply.status(404).send({ error: "PROJECT_NOT_FOUND" });
       }
 
-      const latest = meta.latestVersionId;
-      const versionPath = join(
-        dataDir,
-        "projects",
-        projectId,
-        "versions",
-        `${latest}.json`,
-      );
-      const version = (await readJsonFile(versionPath)) as ProjectVersionV1;
-      if (!version || version.kind !== "form-first-builder-project-version-v1") {
+      const version = await store.getVersion(projectId, meta.latestVersionId);
+      if (!version) {
         return reply.status(500).send({ error: "PROJECT_VERSION_CORRUPT" });
       }
 
-      return reply.send({ project: meta, latest: version });
+      const deployments = await getDeploymentStore(process.env).get(projectId);
+      reply.header("etag", `"${meta.latestVersionId}"`);
+      return reply.send({ project: meta, latest: version, live: deployments.live });
     } catch (error) {
-      const message = (error as Error).message;
-      const code = message.includes("Authorization") ? 401 : 500;
-      return reply.status(code).send({
-        error: code === 401 ? "UNAUTHORIZED" : "PROJECT_READ_FAILED",
-        message,
+      return reply.status(500).send({
+        error: "PROJECT_READ_FAILED",
+        message: (error as Error).message,
       });
     }
   });
 
   app.put("/builder/projects/:projectId", async (request, reply) => {
     try {
-      requireApiKey(request);
       const params = request.params as { projectId?: string };
       const projectId = params.projectId;
       if (!projectId || !isSafeProjectId(projectId)) {
@@ -478,67 +335,46 @@ export async function registerBuilderRoutes(app: FastifyInstance): Promise<void>
         });
       }
 
-      const dataDir = resolveDataDir();
-      const projectDir = join(dataDir, "projects", projectId);
-      const versionsDir = join(projectDir, "versions");
-      await mkdir(versionsDir, { recursive: true });
-
-      const metaPath = join(projectDir, "project.json");
-      const now = new Date().toISOString();
-      const versionId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-
-      let meta: ProjectMetaV1 | null = null;
+      const store = getProjectStore(process.env);
+      const baseVersionId =
+        parseIfMatch(request.headers["if-match"]) ?? payload.data.baseVersionId;
       try {
-        const loaded = (await readJsonFile(metaPath)) as ProjectMetaV1;
-        if (loaded && loaded.kind === "form-first-builder-project-v1") {
-          meta = loaded;
+        const { project, saved } = await store.appendVersion(projectId, {
+          name: payload.data.name,
+          note: payload.data.note,
+          appDefinition: parsedApp.data,
+          workspaceSnapshot: payload.data.workspaceSnapshot,
+          previewStateDraft: payload.data.previewStateDraft,
+          previewStateDirty: payload.data.previewStateDirty,
+          baseVersionId,
+          savedBy: request.apiKey?.name,
+        });
+
+        reply.header("etag", `"${project.latestVersionId}"`);
+        return reply.send({ project, saved });
+      } catch (error) {
+        if (!(error instanceof ProjectVersionConflictError)) {
+          throw error;
         }
-      } catch {
-        meta = null;
+        const [base, latest] = await Promise.all([
+          store.getVersion(projectId, error.baseVersionId),
+          error.latestVersionId
+            ? store.getVersion(projectId, error.latestVersionId)
+            : Promise.resolve(null),
+        ]);
+        return reply.status(409).send({
+          error: "VERSION_CONFLICT",
+          message: error.message,
+          baseVersionId: error.baseVersionId,
+          latestVersionId: error.latestVersionId,
+          base,
+          latest,
+        });
       }
-
-      const nextMeta: ProjectMetaV1 = meta
-        ? {
-            ...meta,
-            name: payload.data.name?.trim() || meta.name,
-            updatedAt: now,
-            latestVersionId: versionId,
-            versions: [
-              { id: versionId, savedAt: now, note: payload.data.note },
-              ...meta.versions,
-            ].slice(0, 50),
-          }
-        : {
-            kind: "form-first-builder-project-v1",
-            id: projectId,
-            name: payload.data.name?.trim() || projectId,
-            createdAt: now,
-            updatedAt: now,
-            latestVersionId: versionId,
-            versions: [{ id: versionId, savedAt: now, note: payload.data.note }],
-          };
-
-      const version: ProjectVersionV1 = {
-        kind: "form-first-builder-project-version-v1",
-        id: versionId,
-        savedAt: now,
-        appDefinition: parsedApp.data,
-        workspaceSnapshot: payload.data.workspaceSnapshot,
-        previewStateDraft: payload.data.previewStateDraft,
-        previewStateDirty: payload.data.previewStateDirty,
-        note: payload.data.note,
-      };
-
-      await writeJsonFile(metaPath, nextMeta);
-      await writeJsonFile(join(versionsDir, `${versionId}.json`), version);
-
-      return reply.send({ project: nextMeta, saved: version });
     } catch (error) {
-      const message = (error as Error).message;
-      const code = message.includes("Authorization") ? 401 : 500;
-      return reply.status(code).send({
-        error: code === 401 ? "UNAUTHORIZED" : "PROJECT_WRITE_FAILED",
-        message,
+      return reply.status(500).send({
+        error: "PROJECT_WRITE_FAILED",
+        message: (error as Error).message,
       });
     }
   });
@@ -566,11 +402,15 @@ export async function registerBuilderRoutes(app: FastifyInstance): Promise<void>
         app: parsed.data,
         target: payload.data.target ?? "node-fastify-react",
       });
+      const diagnostics = [
+        ...result.diagnostics,
+        ...unknownProviderDiagnostics(parsed.data, providerIds()),
+      ];
 
-      if (result.diagnostics.some((item) => item.severity === "error")) {
+      if (diagnostics.some((item) => item.severity === "error")) {
         return reply.status(400).send({
           error: "COMPILE_FAILED",
-          diagnostics: result.diagnostics,
+          diagnostics,
         });
       }
 
@@ -613,6 +453,13 @@ export async function registerBuilderRoutes(app: FastifyInstance): Promise<void>
         app: payload.data.app,
         target: payload.data.target ?? "node-fastify-react",
       });
+      const parsedDefinition = AppDefinitionSchema.safeParse(payload.data.app);
+      const diagnostics = [
+        ...result.diagnostics,
+        ...(parsedDefinition.success
+          ? unknownProviderDiagnostics(parsedDefinition.data, providerIds())
+          : []),
+      ];
 
       if (mode === "bundle") {
         const includeContents = payload.data.includeFileContents ?? false;
@@ -637,7 +484,7 @@ export async function registerBuilderRoutes(app: FastifyInstance): Promise<void>
         });
 
         return reply.send({
-          diagnostics: result.diagnostics,
+          diagnostics,
           docker: { imageName: `app-${parsedApp.data.appId}`, tags: ["latest"] },
           files: fileContents.map((file) => ({
             path: file.path,
@@ -649,7 +496,7 @@ export async function registerBuilderRoutes(app: FastifyInstance): Promise<void>
       }
 
       return reply.send({
-        diagnostics: result.diagnostics,
+        diagnostics,
         docker: result.docker,
         files: result.files.map((file) => ({
           path: file.path,
@@ -671,7 +518,9 @@ export async function registerBuilderRoutes(app: FastifyInstance): Promise<void>
     }
   });
 
-  app.post("/builder/preview/events/:eventId/execute", async (request, reply) => {
+  const bodyLimit = getExecuteBodyLimit(process.env);
+
+  app.post("/builder/preview/events/:eventId/execute", { bodyLimit }, async (request, reply) => {
     const payload = PreviewExecuteRequestSchema.safeParse(request.body);
     if (!payload.success) {
       return reply.status(400).send({
@@ -694,13 +543,19 @@ export async function registerBuilderRoutes(app: FastifyInstance): Promise<void>
       return reply.status(400).send({ error: "MISSING_EVENT_ID" });
     }
 
+    const files = await extractRequestFileState(parsedApp.data, payload.data.state);
+    if (!files.ok) {
+      return reply.status(files.status).send(files.body);
+    }
+
     try {
       const providers = createProviderRegistry(process.env);
       const result = await executeEvent(
         parsedApp.data,
         eventId,
-        payload.data.state,
+        files.state,
         providers,
+        getExecutionEnvOptions(process.env),
       );
       const validated = ExecuteEventResponseSchema.parse(result);
       return reply.send(validated);
@@ -711,4 +566,52 @@ export async function registerBuilderRoutes(app: FastifyInstance): Promise<void>
       });
     }
   });
+
+  app.post("/builder/preview/events/:eventId/execute/stream", { bodyLimit }, async (request, reply) => {
+    const payload = PreviewExecuteRequestSchema.safeParse(request.body);
+    if (!payload.success) {
+      return reply.status(400).send({
+        error: "INVALID_REQUEST",
+        details: payload.error.issues,
+      });
+    }
+
+    const parsedApp = AppDefinitionSchema.safeParse(payload.data.app);
+    if (!parsedApp.success) {
+      return reply.status(400).send({
+        error: "INVALID_APP_DEFINITION",
+        details: parsedApp.error.issues,
+      });
+    }
+
+    const params = request.params as { eventId?: string };
+    const eventId = params.eventId;
+    if (!eventId) {
+      return reply.status(400).send({ error: "MISSING_EVENT_ID" });
+    }
+
+    const files = await extractRequestFileState(parsedApp.data, payload.data.state);
+    if (!files.ok) {
+      return reply.status(files.status).send(files.body);
+    }
+
+    const providers = createProviderRegistry(process.env);
+    const stream = openEventStream(reply);
+    try {
+      const result = await executeEvent(parsedApp.data, eventId, files.state, providers, {
+        ...getExecutionEnvOptions(process.env),
+        onEvent: (event) => stream.send(event),
+        signal: stream.signal,
+      });
+      stream.send({ type: "result", result: ExecuteEventResponseSchema.parse(result) });
+    } catch (error) {
+      stream.send({
+        type: "error",
+        error: "PREVIEW_EXECUTION_FAILED",
+        message: (error as Error).message,
+      });
+    } finally {
+      stream.close();
+    }
+  });
 }
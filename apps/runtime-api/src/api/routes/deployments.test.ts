@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { registerAppRoutes } from "./apps.js";
+import { registerBuilderRoutes } from "./builder.js";
+import { registerDeploymentRoutes } from "./deployments.js";
+import { registerProjectLifecycleRoutes } from "./project-lifecycle.js";
+import { defaultApp } from "../../domain/apps/default-app.js";
+import { getAppDefinition, resetAppRegistry } from "../../domain/app-registry.js";
+import { restorePublishedApps } from "../../application/deployments.js";
+import { createFileDeploymentStore } from "../../infrastructure/file-deployment-store.js";
+import { getProjectStore } from "../../infrastructure/project-stores.js";
+
+const projectId = "published_project";
+const liveAppId = "published_app";
+
+describe("deployment routes", () => {
+  let dir: string;
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "form-first-deploy-"));
+    process.env.FORM_BUILDER_DATA_DIR = dir;
+    app = Fastify();
+    await registerAppRoutes(app);
+    await registerBuilderRoutes(app);
+    await registerDeploymentRoutes(app);
+    await registerProjectLifecycleRoutes(app);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    await rm(dir, { recursive: true, force: true });
+    delete process.env.FORM_BUILDER_DATA_DIR;
+    resetAppRegistry();
+  });
+
+  async function saveVersion(version: string): Promise<string> {
+    const put = await app.inject({
+      method: "PUT",
+      url: `/builder/projects/${projectId}`,
+      payload: { appDefinition: { ...defaultApp, appId: liveAppId, version } },
+    });
+    return (put.json() as { saved: { id: string } }).saved.id;
+  }
+
+  it("publishes versions live and rolls back to the previous one", async () => {
+    const first = await saveVersion("1.0.0");
+    const second = await saveVersion("2.0.0");
+
+    const publishFirst = await app.inject({
+      method: "POST",
+      url: `/builder/projects/${projectId}/versions/${first}/publish`,
+    });
+    expect(publishFirst.statusCode).toBe(200);
+    expect(getAppDefinition(liveAppId)?.version).toBe("1.0.0");
+
+    await app.inject({
+      method: "POST",
+      url: `/builder/projects/${projectId}/versions/${second}/publish`,
+    });
+    expect(getAppDefinition(liveAppId)?.version).toBe("2.0.0");
+
+    const listed = await app.inject({ method: "GET", url: "/apps" });
+    expect(
+      (listed.json() as { apps: Array<{ appId: string; source: string }> }).apps.find(
+        (entry) => entry.appId === liveAppId,
+      ),
+    ).toMatchObject({ source: "published", deployment: { projectId, versionId: second } });
+
+    const rollback = await app.inject({
+      method: "POST",
+      url: `/builder/projects/${projectId}/rollback`,
+      payload: {},
+    });
+    expect(rollback.statusCode).toBe(200);
+    expect(rollback.json()).toMatchObject({
+      deployment: { action: "rollback", versionId: first },
+    });
+    expect(getAppDefinition(liveAppId)?.version).toBe("1.0.0");
+
+    const history = await app.inject({
+      method: "GET",
+      url: `/builder/projects/${projectId}/deployments`,
+    });
+    const body = history.json() as {
+      live: { versionId: string };
+      history: Array<{ versionId: string; action: string }>;
+    };
+    expect(body.live.versionId).toBe(first);
+    expect(body.history.map((entry) => [entry.versionId, entry.action])).toEqual([
+      [first, "rollback"],
+      [second, "publish"],
+      [first, "publish"],
+    ]);
+
+    const project = await app.inject({ method: "GET", url: `/builder/projects/${projectId}` });
+    expect(project.json()).toMatchObject({ live: { versionId: first } });
+  });
+
+  it("restores live deployments after a restart", async () => {
+    const versionId = await saveVersion("3.0.0");
+    await app.inject({
+      method: "POST",
+      url: `/builder/projects/${projectId}/versions/${versionId}/publish`,
+    });
+    resetAppRegistry();
+    expect(getAppDefinition(liveAppId)).toBeUndefined();
+
+    await restorePublishedApps(createFileDeploymentStore(dir), async (id, version) => {
+      return (await getProjectStore(process.env).getVersion(id, version))?.appDefinition ?? null;
+    });
+    expect(getAppDefinition(liveAppId)?.version).toBe("3.0.0");
+  });
+
+  it("refuses to trash a published project", async () => {
+    const versionId = await saveVersion("1.0.0");
+    await app.inject({
+      method: "POST",
+      url: `/builder/projects/${projectId}/versions/${versionId}/publish`,
+    });
+
+    const trash = await app.inject({ method: "DELETE", url: `/builder/projects/${projectId}` });
+    expect(trash.statusCode).toBe(409);
+    expect(trash.json()).toMatchObject({ error: "PROJECT_PUBLISHED", live: { versionId } });
+    expect(getAppDefinition(liveAppId)?.version).toBe("1.0.0");
+  });
+
+  it("refuses to replace a published project on import", async () => {
+    const versionId = await saveVersion("1.0.0");
+    await app.inject({
+      method: "POST",
+      url: `/builder/projects/${projectId}/versions/${versionId}/publish`,
+    });
+    const exported = await app.inject({ method: "GET", url: `/builder/projects/${projectId}/export` });
+
+    const replace = await app.inject({
+      method: "POST",
+      url: "/builder/projects/import?onConflict=replace",
+      headers: { "content-type": "application/gzip" },
+      payload: exported.rawPayload,
+    });
+    expect(replace.statusCode).toBe(409);
+    expect(replace.json()).toMatchObject({ error: "PROJECT_PUBLISHED", live: { versionId } });
+    expect(await getProjectStore(process.env).getVersion(projectId, versionId)).not.toBeNull();
+  });
+
+  it("refuses to publish versions that name an unknown model provider", async () => {
+    const put = await app.inject({
+      method: "PUT",
+      url: `/builder/projects/${projectId}`,
+      payload: {
+        appDefinition: {
+          ...defaultApp,
+          appId: liveAppId,
+          events: defaultApp.events.map((event) => ({
+            ...event,
+            actionGraph: {
+              ...event.actionGraph,
+              nodes: event.actionGraph.nodes.map((node) =>
+                node.kind === "PromptTask"
+                  ? {
+                      ...node,
+                      promptSpec: {
+                        ...node.promptSpec,
+                        modelPolicy: { provider: "openia", model: "gpt-5.2" },
+                      },
+                    }
+                  : node,
+              ),
+            },
+          })),
+        },
+      },
+    });
+    const versionId = (put.json() as { saved: { id: string } }).saved.id;
+
+    const publish = await app.inject({
+      method: "POST",
+      url: `/builder/projects/${projectId}/versions/${versionId}/publish`,
+    });
+    expect(publish.statusCode).toBe(400);
+    expect(publish.json()).toMatchObject({
+      error: "COMPILE_FAILED",
+      diagnostics: [expect.objectContaining({ code: "MODEL_PROVIDER_UNKNOWN" })],
+    });
+    expect(getAppDefinition(liveAppId)).toBeUndefined();
+  });
+
+  it("rejects rollback when nothing is live and publish of unknown versions", async () => {
+    const rollback = await app.inject({
+      method: "POST",
+      url: `/builder/projects/${projectId}/rollback`,
+      payload: {},
+    });
+    expect(rollback.statusCode).toBe(404);
+
+    const publish = await app.inject({
+      method: "POST",
+      url: `/builder/projects/${projectId}/versions/missing/publish`,
+    });
+    expect(publish.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,119 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import {
+  findRollbackTarget,
+  publishVersion,
+  PublishCompileError,
+  type DeploymentStore,
+} from "../../application/deployments.js";
+import { createDeploymentId } from "../../infrastructure/file-deployment-store.js";
+import { PROVIDER_PLUGINS } from "../../infrastructure/provider-plugins.js";
+import {
+  isSafeProjectId,
+  isSafeVersionId,
+  type ProjectStore,
+} from "../../application/project-store.js";
+import { getDeploymentStore, getProjectStore } from "../../infrastructure/project-stores.js";
+
+const RollbackRequestSchema = z.object({
+  deploymentId: z.string().min(1).optional(),
+});
+
+async function publishProjectVersion(args: {
+  projects: ProjectStore;
+  store: DeploymentStore;
+  projectId: string;
+  versionId: string;
+  rollbackOf?: string | undefined;
+  publishedBy?: string | undefined;
+}): Promise<
+  | { status: 200; body: unknown }
+  | { status: 400 | 404 | 500; body: { error: string; [key: string]: unknown } }
+> {
+  const version = await args.projects.getVersion(args.projectId, args.versionId);
+  if (!version) {
+    return { status: 404, body: { error: "PROJECT_VERSION_NOT_FOUND" } };
+  }
+
+  try {
+    const result = await publishVersion({
+      store: args.store,
+      projectId: args.projectId,
+      versionId: version.id,
+      app: version.appDefinition,
+      deploymentId: createDeploymentId(),
+      rollbackOf: args.rollbackOf,
+      publishedBy: args.publishedBy,
+      providerIds: PROVIDER_PLUGINS.map((plugin) => plugin.id),
+    });
+    return { status: 200, body: result };
+  } catch (error) {
+    if (error instanceof PublishCompileError) {
+      return { status: 400, body: { error: "COMPILE_FAILED", diagnostics: error.diagnostics } };
+    }
+    return {
+      status: 500,
+      body: { error: "PUBLISH_FAILED", message: (error as Error).message },
+    };
+  }
+}
+
+export async function registerDeploymentRoutes(app: FastifyInstance): Promise<void> {
+  app.post("/builder/projects/:projectId/versions/:versionId/publish", async (request, reply) => {
+    const { projectId, versionId } = request.params as { projectId: string; versionId: string };
+    if (!isSafeProjectId(projectId) || !isSafeVersionId(versionId)) {
+      return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
+    }
+
+    const result = await publishProjectVersion({
+      projects: getProjectStore(process.env),
+      store: getDeploymentStore(process.env),
+      projectId,
+      versionId,
+      publishedBy: request.apiKey?.name,
+    });
+    return reply.status(result.status).send(result.body);
+  });
+
+  app.get("/builder/projects/:projectId/deployments", async (request, reply) => {
+    const { projectId } = request.params as { projectId: string };
+    if (!isSafeProjectId(projectId)) {
+      return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
+    }
+
+    const history = await getDeploymentStore(process.env).get(projectId);
+    return reply.send({ live: history.live, history: history.history });
+  });
+
+  app.post("/builder/projects/:projectId/rollback", async (request, reply) => {
+    const payload = RollbackRequestSchema.safeParse(request.body ?? {});
+    if (!payload.success) {
+      return reply.status(400).send({
+        error: "INVALID_REQUEST",
+        details: payload.error.issues,
+      });
+    }
+
+    const { projectId } = request.params as { projectId: string };
+    if (!isSafeProjectId(projectId)) {
+      return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
+    }
+
+    const store = getDeploymentStore(process.env);
+    const history = await store.get(projectId);
+    const target = findRollbackTarget(history, payload.data.deploymentId);
+    if (!target || !history.live) {
+      return reply.status(404).send({ error: "ROLLBACK_TARGET_NOT_FOUND" });
+    }
+
+    const result = await publishProjectVersion({
+      projects: getProjectStore(process.env),
+      store,
+      projectId,
+      versionId: target.versionId,
+      rollbackOf: history.live.id,
+      publishedBy: request.apiKey?.name,
+    });
+    return reply.status(result.status).send(result.body);
+  });
+}
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { AddressInfo } from "node:net";
+import Fastify from "fastify";
+import { registerEventRoutes } from "./events.js";
+import { publishApp, resetAppRegistry } from "../../domain/app-registry.js";
+import { defaultApp } from "../../domain/apps/default-app.js";
+
+function parseEventStream(body: string): Array<{ type: string; [key: string]: unknown }> {
+  return body
+    .split("\n\n")
+    .map((frame) => frame.split("\n").find((line) => line.startsWith("data: ")))
+    .filter((line): line is string => !!line)
+    .map((line) => JSON.parse(line.slice("data: ".length)) as { type: string });
+}
+
+describe("event routes", () => {
+  // Keep recorded runs out of the working tree.
+  beforeEach(() => {
+    process.env.FORM_BUILDER_RUN_HISTORY = "off";
+  });
+
+  afterEach(() => {
+    delete process.env.FORM_BUILDER_RUN_HISTORY;
+  });
+
+  it("executes an event and returns the state patch", async () => {
+    const app = Fastify();
+    await registerEventRoutes(app);
+
+    const response = await app.inject({
+      method: "POST",
+      url: `/apps/${defaultApp.appId}/events/evt_analyze_click/execute`,
+      payload: { state: { customerComplaint: "Too slow." } },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json() as { statePatch: Record<string, unknown> };
+    expect(Array.isArray(body.statePatch.analysisRows)).toBe(true);
+
+    await app.close();
+  });
+
+  it("streams logs, node lifecycle and the final result", async () => {
+    const app = Fastify();
+    await registerEventRoutes(app);
+
+    const response = await app.inject({
+      method: "POST",
+      url: `/apps/${defaultApp.appId}/events/evt_analyze_click/execute/stream`,
+      payload: { state: { customerComplaint: "Too slow." } },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const events = parseEventStream(response.body);
+    const types = events.map((event) => event.type);
+    expect(types).toContain("log");
+    expect(types).toContain("node-finish");
+    expect(types).toContain("token");
+    expect(types.at(-1)).toBe("result");
+
+    const tokens = events
+      .filter((event) => event.type === "token")
+      .map((event) => String(event.text))
+      .join("");
+    expect(JSON.parse(tokens)).toMatchObject({ sentiment: "neutral" });
+
+    await app.close();
+  });
+
+  it("reports execution failures as an error event", async () => {
+    const app = Fastify();
+    await registerEventRoutes(app);
+
+    const response = await app.inject({
+      method: "POST",
+      url: `/apps/${defaultApp.appId}/events/evt_analyze_click/execute/stream`,
+      payload: { state: { customerComplaint: "" } },
+    });
+
+    const events = parseEventStream(response.body);
+    expect(events.at(-1)).toMatchObject({ type: "error", error: "EVENT_EXECUTION_FAILED" });
+
+    await app.close();
+  });
+
+  it("aborts the run when the streaming client disconnects", async () => {
+    let upstreamClosed!: () => void;
+    const closed = new Promise<void>((resolve) => {
+      upstreamClosed = resolve;
+    });
+    const stub = Fastify({ forceCloseConnections: true });
+    // Never answers; the request only ends when the runtime gives up on it.
+    stub.get("/slow", (request) => {
+      request.raw.socket.on("close", upstreamClosed);
+    });
+    await stub.listen({ host: "127.0.0.1", port: 0 });
+    const stubPort = (stub.server.address() as AddressInfo).port;
+
+    const event = defaultApp.events[0]!;
+    publishApp({
+      app: {
+        ...defaultApp,
+        appId: "slow_app",
+        events: [
+          {
+            ...event,
+            actionGraph: {
+              nodes: [
+                {
+                  id: "n0_slow",
+                  kind: "HttpRequest",
+                  httpSpec: {
+                    method: "GET",
+                    urlTemplate: `http://127.0.0.1:${stubPort}/slow`,
+                    headers: {},
+                    outputSchema: { type: "object", shape: {} },
+                  },
+                },
+              ],
+              edges: [],
+            },
+          },
+        ],
+      },
+      source: "directory",
+      diagnostics: [],
+      loadedAt: new Date().toISOString(),
+    });
+    process.env.FORM_BUILDER_HTTP_ALLOWED_HOSTS = "127.0.0.1";
+
+    const app = Fastify({ forceCloseConnections: true });
+    await registerEventRoutes(app);
+    await app.listen({ host: "127.0.0.1", port: 0 });
+    const port = (app.server.address() as AddressInfo).port;
+
+    try {
+      const client = new AbortController();
+      const response = await fetch(
+        `http://127.0.0.1:${port}/apps/slow_app/events/${event.id}/execute/stream`,
+        {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ state: {} }),
+          signal: client.signal,
+        },
+      );
+      const first = await response.body?.getReader().read();
+      expect(new TextDecoder().decode(first?.value)).toContain("node-start");
+
+      client.abort();
+      await closed;
+    } finally {
+      delete process.env.FORM_BUILDER_HTTP_ALLOWED_HOSTS;
+      resetAppRegistry();
+      await app.close();
+      await stub.close();
+    }
+  });
+});
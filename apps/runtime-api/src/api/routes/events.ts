@@ -3,12 +3,21 @@ import {
   ExecuteEventRequestSchema,
   ExecuteEventResponseSchema,
 } from "@form-builder/contracts";
+import { openEventStream } from "../event-stream.js";
+import { extractRequestFileState } from "../file-state.js";
+import { recordRequestSpend } from "../execution-limits.js";
 import { getAppDefinition } from "../../domain/app-registry.js";
-import { executeEvent } from "../../application/execute-event.js";
+import { executeAndRecordRun } from "../../application/run-history.js";
+import { getExecutionEnvOptions } from "../../infrastructure/execution-env.js";
+import { getExecuteBodyLimit } from "../../infrastructure/file-extractors.js";
+import { createRunId, getRunStore } from "../../infrastructure/file-run-store.js";
+import { getScheduledResultStore } from "../../infrastructure/file-scheduled-result-store.js";
 import { createProviderRegistry } from "../../infrastructure/provider-registry.js";
 
 export async function registerEventRoutes(app: FastifyInstance): Promise<void> {
-  app.post("/apps/:appId/events/:eventId/execute", async (request, reply) => {
+  const bodyLimit = getExecuteBodyLimit(process.env);
+
+  app.post("/apps/:appId/events/:eventId/execute", { bodyLimit }, async (request, reply) => {
     const payload = ExecuteEventRequestSchema.safeParse(request.body);
     if (!payload.success) {
       return reply.status(400).send({
@@ -30,9 +39,25 @@ export async function registerEventRoutes(app: FastifyInstance): Promise<void> {
       return reply.status(404).send({ error: `App '${appId}' not found.` });
     }
 
+    const files = await extractRequestFileState(appDef, payload.data.state);
+    if (!files.ok) {
+      return reply.status(files.status).send(files.body);
+    }
+
     const providers = createProviderRegistry(process.env);
+    const runId = createRunId();
+    reply.header("x-run-id", runId);
     try {
-      const result = await executeEvent(appDef, eventId, payload.data.state, providers);
+      const result = await executeAndRecordRun({
+        app: appDef,
+        eventId,
+        state: files.state,
+        providers,
+        options: getExecutionEnvOptions(process.env),
+        store: getRunStore(process.env),
+        runId,
+        onRecord: (record) => recordRequestSpend(request, record.estimatedCostUsd ?? 0),
+      });
       const response = ExecuteEventResponseSchema.parse(result);
       return reply.send(response);
     } catch (error) {
@@ -42,4 +67,81 @@ export async function registerEventRoutes(app: FastifyInstance): Promise<void> {
       });
     }
   });
+
+  app.post("/apps/:appId/events/:eventId/execute/stream", { bodyLimit }, async (request, reply) => {
+    const payload = ExecuteEventRequestSchema.safeParse(request.body);
+    if (!payload.success) {
+      return reply.status(400).send({
+        error: "INVALID_REQUEST",
+        details: payload.error.issues,
+      });
+    }
+
+    const params = request.params as { appId?: string; eventId?: string };
+    const appId = params.appId;
+    const eventId = params.eventId;
+
+    if (!appId || !eventId) {
+      return reply.status(400).send({ error: "MISSING_ROUTE_PARAMS" });
+    }
+
+    const appDef = getAppDefinition(appId);
+    if (!appDef) {
+      return reply.status(404).send({ error: `App '${appId}' not found.` });
+    }
+
+    const files = await extractRequestFileState(appDef, payload.data.state);
+    if (!files.ok) {
+      return reply.status(files.status).send(files.body);
+    }
+
+    const providers = createProviderRegistry(process.env);
+    const runId = createRunId();
+    reply.header("x-run-id", runId);
+    const stream = openEventStream(reply);
+    try {
+      const result = await executeAndRecordRun({
+        app: appDef,
+        eventId,
+        state: files.state,
+        providers,
+        options: {
+          ...getExecutionEnvOptions(process.env),
+          onEvent: (event) => stream.send(event),
+          signal: stream.signal,
+        },
+        store: getRunStore(process.env),
+        runId,
+        onRecord: (record) => recordRequestSpend(request, record.estimatedCostUsd ?? 0),
+      });
+      stream.send({ type: "result", result: ExecuteEventResponseSchema.parse(result) });
+    } catch (error) {
+      stream.send({
+        type: "error",
+        error: "EVENT_EXECUTION_FAILED",
+        message: (error as Error).message,
+      });
+    } finally {
+      stream.close();
+    }
+  });
+
+  app.get("/apps/:appId/events/:eventId/scheduled-result", async (request, reply) => {
+    const { appId, eventId } = request.params as { appId: string; eventId: string };
+    const event = getAppDefinition(appId)?.events.find((item) => item.id === eventId);
+    if (!event || event.trigger.event !== "schedule") {
+      return reply
+        .status(404)
+        .send({ error: `Scheduled event '${eventId}' not found in app '${appId}'.` });
+    }
+
+    const result = await getScheduledResultStore().get(appId, eventId);
+    if (!result) {
+      return reply.status(404).send({
+        error: "SCHEDULED_RESULT_NOT_FOUND",
+        message: `Scheduled event '${eventId}' has not run yet.`,
+      });
+    }
+    return reply.send(result);
+  });
 }
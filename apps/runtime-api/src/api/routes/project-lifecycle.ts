@@ -0,0 +1,239 @@
+import type { FastifyInstance, FastifyReply } from "fastify";
+import { z } from "zod";
+import {
+  createProjectArchive,
+  findFreeProjectId,
+  PROJECT_ARCHIVE_EXTENSION,
+  ProjectArchiveError,
+  readProjectArchive,
+} from "../../application/project-archive.js";
+import {
+  isSafeProjectId,
+  ProjectExistsError,
+  ProjectNotFoundError,
+  type ProjectExport,
+} from "../../application/project-store.js";
+import { getDeploymentStore, getProjectStore } from "../../infrastructure/project-stores.js";
+
+const UpdateProjectRequestSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    archived: z.boolean().optional(),
+  })
+  .refine((value) => value.name !== undefined || value.archived !== undefined, {
+    message: "Provide 'name' and/or 'archived'.",
+  });
+
+const DuplicateProjectRequestSchema = z.object({
+  projectId: z.string().refine(isSafeProjectId, "Invalid project id."),
+  name: z.string().trim().min(1).optional(),
+});
+
+const ImportProjectQuerySchema = z.object({
+  projectId: z.string().refine(isSafeProjectId, "Invalid project id.").optional(),
+  onConflict: z.enum(["fail", "rename", "replace"]).optional(),
+});
+
+const PROJECT_ARCHIVE_BODY_LIMIT = 25 * 1024 * 1024;
+
+function sendProjectError(reply: FastifyReply, error: unknown): FastifyReply {
+  if (error instanceof ProjectNotFoundError) {
+    return reply.status(404).send({ error: "PROJECT_NOT_FOUND", message: error.message });
+  }
+  if (error instanceof ProjectExistsError) {
+    return reply.status(409).send({ error: "PROJECT_EXISTS", message: error.message });
+  }
+  return reply.status(500).send({
+    error: "PROJECT_WRITE_FAILED",
+    message: (error as Error).message,
+  });
+}
+
+// There is no unpublish: a live project must be rolled back or published elsewhere before it is
+// trashed or replaced, or its deployment would keep serving (or point at) versions that are gone.
+// Answers 409 and returns true when the project is live; a returned reply would be awaited as a
+// thenable.
+async function refusePublished(
+  reply: FastifyReply,
+  projectId: string,
+  action: string,
+): Promise<boolean> {
+  const { live } = await getDeploymentStore(process.env).get(projectId);
+  if (!live) {
+    return false;
+  }
+  reply.status(409).send({
+    error: "PROJECT_PUBLISHED",
+    message: `Project '${projectId}' is live as '${live.appId}' ${live.appVersion} and cannot be ${action}.`,
+    live,
+  });
+  return true;
+}
+
+export async function registerProjectLifecycleRoutes(app: FastifyInstance): Promise<void> {
+  // Project archives are uploaded as raw gzip bodies.
+  app.addContentTypeParser(
+    ["application/gzip", "application/octet-stream"],
+    { parseAs: "buffer", bodyLimit: PROJECT_ARCHIVE_BODY_LIMIT },
+    (_request, body, done) => done(null, body),
+  );
+
+  app.patch("/builder/projects/:projectId", async (request, reply) => {
+    const { projectId } = request.params as { projectId: string };
+    if (!isSafeProjectId(projectId)) {
+      return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
+    }
+
+    const payload = UpdateProjectRequestSchema.safeParse(request.body ?? {});
+    if (!payload.success) {
+      return reply.status(400).send({
+        error: "INVALID_REQUEST",
+        details: payload.error.issues,
+      });
+    }
+
+    try {
+      const project = await getProjectStore(process.env).updateMeta(projectId, payload.data);
+      return reply.send({ project });
+    } catch (error) {
+      return sendProjectError(reply, error);
+    }
+  });
+
+  app.post("/builder/projects/:projectId/duplicate", async (request, reply) => {
+    const { projectId } = request.params as { projectId: string };
+    if (!isSafeProjectId(projectId)) {
+      return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
+    }
+
+    const payload = DuplicateProjectRequestSchema.safeParse(request.body ?? {});
+    if (!payload.success) {
+      return reply.status(400).send({
+        error: "INVALID_REQUEST",
+        details: payload.error.issues,
+      });
+    }
+
+    try {
+      const project = await getProjectStore(process.env).duplicate(
+        projectId,
+        payload.data.projectId,
+        payload.data.name,
+      );
+      return reply.send({ project });
+    } catch (error) {
+      return sendProjectError(reply, error);
+    }
+  });
+
+  app.delete("/builder/projects/:projectId", async (request, reply) => {
+    const { projectId } = request.params as { projectId: string };
+    if (!isSafeProjectId(projectId)) {
+      return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
+    }
+
+    if (await refusePublished(reply, projectId, "trashed")) {
+      return reply;
+    }
+
+    try {
+      const project = await getProjectStore(process.env).trash(projectId);
+      return reply.send({ project });
+    } catch (error) {
+      return sendProjectError(reply, error);
+    }
+  });
+
+  app.get("/builder/trash/projects", async (request, reply) => {
+    return reply.send({ projects: await getProjectStore(process.env).listTrash() });
+  });
+
+  app.post("/builder/trash/projects/:projectId/restore", async (request, reply) => {
+    const { projectId } = request.params as { projectId: string };
+    if (!isSafeProjectId(projectId)) {
+      return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
+    }
+
+    try {
+      const project = await getProjectStore(process.env).restoreFromTrash(projectId);
+      return reply.send({ project });
+    } catch (error) {
+      return sendProjectError(reply, error);
+    }
+  });
+
+  app.get("/builder/projects/:projectId/export", async (request, reply) => {
+    const { projectId } = request.params as { projectId: string };
+    if (!isSafeProjectId(projectId)) {
+      return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
+    }
+
+    const project = await getProjectStore(process.env).exportProject(projectId);
+    if (!project) {
+      return reply.status(404).send({ error: "PROJECT_NOT_FOUND" });
+    }
+
+    reply.header("content-type", "application/gzip");
+    reply.header(
+      "content-disposition",
+      `attachment; filename="${projectId}${PROJECT_ARCHIVE_EXTENSION}"`,
+    );
+    return reply.send(createProjectArchive(project));
+  });
+
+  app.post("/builder/projects/import", async (request, reply) => {
+    const query = ImportProjectQuerySchema.safeParse(request.query ?? {});
+    if (!query.success) {
+      return reply.status(400).send({
+        error: "INVALID_REQUEST",
+        details: query.error.issues,
+      });
+    }
+    if (!Buffer.isBuffer(request.body)) {
+      return reply.status(415).send({
+        error: "INVALID_ARCHIVE",
+        message: "Send the archive as an application/gzip body.",
+      });
+    }
+
+    let archived: ProjectExport;
+    try {
+      archived = readProjectArchive(request.body);
+    } catch (error) {
+      if (error instanceof ProjectArchiveError) {
+        return reply.status(400).send({ error: "INVALID_ARCHIVE", message: error.message });
+      }
+      throw error;
+    }
+
+    const store = getProjectStore(process.env);
+    const exists = async (projectId: string): Promise<boolean> =>
+      (await store.getMeta(projectId)) !== null;
+    const requestedId = query.data.projectId ?? archived.meta.id;
+    const onConflict = query.data.onConflict ?? "fail";
+
+    try {
+      let projectId = requestedId;
+      if (await exists(requestedId)) {
+        if (onConflict === "fail") {
+          throw new ProjectExistsError(requestedId);
+        }
+        if (onConflict === "rename") {
+          projectId = await findFreeProjectId(requestedId, exists);
+        } else if (await refusePublished(reply, requestedId, "replaced")) {
+          return reply;
+        }
+      }
+
+      const meta = { ...archived.meta, id: projectId };
+      await store.importProject({ meta, versions: archived.versions });
+      return reply.send({
+        project: meta,
+        importedFrom: archived.meta.id,
+        versions: archived.versions.length,
+      });
+    } catch (error) {
+      return sendProjectError(reply, error);
+    }
+  });
+}
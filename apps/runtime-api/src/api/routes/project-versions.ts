@@ -0,0 +1,110 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { diffAppDefinitions } from "../../application/diff-app-definitions.js";
+import { isSafeProjectId, isSafeVersionId } from "../../application/project-store.js";
+import { getProjectStore } from "../../infrastructure/project-stores.js";
+
+const RestoreVersionRequestSchema = z.object({
+  note: z.string().optional(),
+});
+
+export async function registerProjectVersionRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/builder/projects/:projectId/versions", async (request, reply) => {
+    const { projectId } = request.params as { projectId: string };
+    if (!isSafeProjectId(projectId)) {
+      return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
+    }
+
+    const meta = await getProjectStore(process.env).getMeta(projectId);
+    if (!meta) {
+      return reply.status(404).send({ error: "PROJECT_NOT_FOUND" });
+    }
+    return reply.send({ latestVersionId: meta.latestVersionId, versions: meta.versions });
+  });
+
+  app.get("/builder/projects/:projectId/versions/:versionId", async (request, reply) => {
+    const { projectId, versionId } = request.params as { projectId: string; versionId: string };
+    if (!isSafeProjectId(projectId) || !isSafeVersionId(versionId)) {
+      return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
+    }
+
+    const version = await getProjectStore(process.env).getVersion(projectId, versionId);
+    if (!version) {
+      return reply.status(404).send({ error: "PROJECT_VERSION_NOT_FOUND" });
+    }
+    return reply.send({ version });
+  });
+
+  app.get("/builder/projects/:projectId/diff", async (request, reply) => {
+    const { projectId } = request.params as { projectId: string };
+    const query = request.query as { from?: string; to?: string };
+    if (!isSafeProjectId(projectId)) {
+      return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
+    }
+    if (!query.from) {
+      return reply.status(400).send({ error: "INVALID_REQUEST", message: "Query 'from' is required." });
+    }
+
+    const store = getProjectStore(process.env);
+    const meta = await store.getMeta(projectId);
+    if (!meta) {
+      return reply.status(404).send({ error: "PROJECT_NOT_FOUND" });
+    }
+
+    const toId = query.to ?? meta.latestVersionId;
+    if (!isSafeVersionId(query.from) || !isSafeVersionId(toId)) {
+      return reply.status(400).send({ error: "INVALID_VERSION_ID" });
+    }
+    const [from, to] = await Promise.all([
+      store.getVersion(projectId, query.from),
+      store.getVersion(projectId, toId),
+    ]);
+    if (!from || !to) {
+      return reply.status(404).send({ error: "PROJECT_VERSION_NOT_FOUND" });
+    }
+
+    return reply.send({
+      from: from.id,
+      to: to.id,
+      diff: diffAppDefinitions(from.appDefinition, to.appDefinition),
+    });
+  });
+
+  app.post("/builder/projects/:projectId/versions/:versionId/restore", async (request, reply) => {
+    const payload = RestoreVersionRequestSchema.safeParse(request.body ?? {});
+    if (!payload.success) {
+      return reply.status(400).send({
+        error: "INVALID_REQUEST",
+        details: payload.error.issues,
+      });
+    }
+
+    const { projectId, versionId } = request.params as { projectId: string; versionId: string };
+    if (!isSafeProjectId(projectId) || !isSafeVersionId(versionId)) {
+      return reply.status(400).send({ error: "INVALID_PROJECT_ID" });
+    }
+
+    const store = getProjectStore(process.env);
+    const source = await store.getVersion(projectId, versionId);
+    if (!source) {
+      return reply.status(404).send({ error: "PROJECT_VERSION_NOT_FOUND" });
+    }
+
+    try {
+      const { project, saved } = await store.appendVersion(projectId, {
+        note: payload.data.note ?? `restored from ${source.id}`,
+        appDefinition: source.appDefinition,
+        workspaceSnapshot: source.workspaceSnapshot,
+        previewStateDraft: source.previewStateDraft,
+        previewStateDirty: source.previewStateDirty,
+        savedBy: request.apiKey?.name,
+      });
+      return reply.send({ project, saved, restoredFrom: source.id });
+    } catch (error) {
+      return reply.status(500).send({
+        error: "PROJECT_WRITE_FAILED",
+        message: (error as Error).message,
+      });
+    }
+  });
+}
@@ -3,7 +3,10 @@ import Fastify from "fastify";
 import { mkdtemp, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { gzipSync } from "node:zlib";
 import { registerBuilderRoutes } from "./builder.js";
+import { registerProjectVersionRoutes } from "./project-versions.js";
+import { registerProjectLifecycleRoutes } from "./project-lifecycle.js";
 import { defaultApp } from "../../domain/apps/default-app.js";
 
 describe("builder project routes", () => {
@@ -52,5 +55,301 @@ describe("builder project routes", () => {
     await rm(dir, { recursive: true, force: true });
     delete process.env.FORM_BUILDER_DATA_DIR;
   });
-});
 
+  it("lists, fetches, diffs and restores project versions", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "form-first-builder-"));
+    process.env.FORM_BUILDER_DATA_DIR = dir;
+
+    const app = Fastify();
+    await registerBuilderRoutes(app);
+    await registerProjectVersionRoutes(app);
+
+    const projectId = "app_test_project_versions";
+    const save = async (appDefinition: unknown): Promise<string> => {
+      const put = await app.inject({
+        method: "PUT",
+        url: `/builder/projects/${projectId}`,
+        payload: { appDefinition },
+      });
+      return (put.json() as { saved: { id: string } }).saved.id;
+    };
+
+    const firstId = await save(defaultApp);
+    const event = defaultApp.events[0]!;
+    const secondId = await save({
+      ...defaultApp,
+      version: "2.0.0",
+      ui: {
+        components: defaultApp.ui.components.map((component, index) =>
+          index === 0 ? { ...component, label: "Renamed" } : component,
+        ),
+      },
+      events: [
+        {
+          ...event,
+          actionGraph: {
+            ...event.actionGraph,
+            nodes: event.actionGraph.nodes.map((node) =>
+              node.kind === "PromptTask"
+                ? { ...node, promptSpec: { ...node.promptSpec, template: "Changed {{customerComplaint}}" } }
+                : node,
+            ),
+          },
+        },
+      ],
+    });
+
+    const list = await app.inject({ method: "GET", url: `/builder/projects/${projectId}/versions` });
+    expect(list.json()).toMatchObject({
+      latestVersionId: secondId,
+      versions: [{ id: secondId }, { id: firstId }],
+    });
+
+    const get = await app.inject({
+      method: "GET",
+      url: `/builder/projects/${projectId}/versions/${firstId}`,
+    });
+    expect(get.json()).toMatchObject({ version: { id: firstId, appDefinition: { version: defaultApp.version } } });
+
+    const diff = await app.inject({
+      method: "GET",
+      url: `/builder/projects/${projectId}/diff?from=${firstId}`,
+    });
+    const promptNode = event.actionGraph.nodes.find((node) => node.kind === "PromptTask")!;
+    expect(diff.json()).toMatchObject({
+      from: firstId,
+      to: secondId,
+      diff: {
+        versionChanged: true,
+        components: { added: [], removed: [], changed: [defaultApp.ui.components[0]!.id] },
+        events: { changed: [event.id] },
+        nodes: { changed: [`${event.id}/${promptNode.id}`] },
+        prompts: [{ eventId: event.id, nodeId: promptNode.id, fields: ["template"] }],
+      },
+    });
+
+    const restore = await app.inject({
+      method: "POST",
+      url: `/builder/projects/${projectId}/versions/${firstId}/restore`,
+      payload: {},
+    });
+    const restored = restore.json() as {
+      project: { latestVersionId: string };
+      saved: { id: string; note: string; appDefinition: { version: string } };
+    };
+    expect(restored.project.latestVersionId).toBe(restored.saved.id);
+    expect(restored.saved.note).toBe(`restored from ${firstId}`);
+    expect(restored.saved.appDefinition.version).toBe(defaultApp.version);
+
+    await app.close();
+    await rm(dir, { recursive: true, force: true });
+    delete process.env.FORM_BUILDER_DATA_DIR;
+  });
+
+  it("renames, archives, duplicates, trashes and restores projects", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "form-first-builder-"));
+    process.env.FORM_BUILDER_DATA_DIR = dir;
+
+    const app = Fastify();
+    await registerBuilderRoutes(app);
+    await registerProjectLifecycleRoutes(app);
+
+    const projectId = "app_test_lifecycle";
+    const put = await app.inject({
+      method: "PUT",
+      url: `/builder/projects/${projectId}`,
+      payload: { name: "Original", appDefinition: defaultApp },
+    });
+    const latestVersionId = (put.json() as { project: { latestVersionId: string } }).project
+      .latestVersionId;
+    const listIds = async (query = ""): Promise<string[]> => {
+      const list = await app.inject({ method: "GET", url: `/builder/projects${query}` });
+      return (list.json() as { projects: Array<{ id: string }> }).projects.map((p) => p.id).sort();
+    };
+
+    const renamed = await app.inject({
+      method: "PATCH",
+      url: `/builder/projects/${projectId}`,
+      payload: { name: "Renamed" },
+    });
+    expect(renamed.json()).toMatchObject({ project: { name: "Renamed", latestVersionId } });
+
+    await app.inject({
+      method: "PATCH",
+      url: `/builder/projects/${projectId}`,
+      payload: { archived: true },
+    });
+    expect(await listIds()).toEqual([]);
+    expect(await listIds("?includeArchived=true")).toEqual([projectId]);
+
+    const copy = await app.inject({
+      method: "POST",
+      url: `/builder/projects/${projectId}/duplicate`,
+      payload: { projectId: "app_test_lifecycle_copy" },
+    });
+    expect(copy.json()).toMatchObject({
+      project: { id: "app_test_lifecycle_copy", name: "Renamed (copy)", latestVersionId },
+    });
+    expect(await listIds()).toEqual(["app_test_lifecycle_copy"]);
+
+    const clash = await app.inject({
+      method: "POST",
+      url: `/builder/projects/${projectId}/duplicate`,
+      payload: { projectId: "app_test_lifecycle_copy" },
+    });
+    expect(clash.statusCode).toBe(409);
+
+    const removed = await app.inject({
+      method: "DELETE",
+      url: "/builder/projects/app_test_lifecycle_copy",
+    });
+    expect(removed.statusCode).toBe(200);
+    expect(await listIds()).toEqual([]);
+
+    const trash = await app.inject({ method: "GET", url: "/builder/trash/projects" });
+    expect(trash.json()).toMatchObject({ projects: [{ id: "app_test_lifecycle_copy" }] });
+
+    const restored = await app.inject({
+      method: "POST",
+      url: "/builder/trash/projects/app_test_lifecycle_copy/restore",
+    });
+    expect(restored.statusCode).toBe(200);
+    expect(await listIds()).toEqual(["app_test_lifecycle_copy"]);
+
+    const get = await app.inject({ method: "GET", url: "/builder/projects/app_test_lifecycle_copy" });
+    expect(get.json()).toMatchObject({ latest: { id: latestVersionId } });
+
+    await app.close();
+    await rm(dir, { recursive: true, force: true });
+    delete process.env.FORM_BUILDER_DATA_DIR;
+  });
+
+  it("rejects saves based on a stale version with 409", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "form-first-builder-"));
+    process.env.FORM_BUILDER_DATA_DIR = dir;
+
+    const app = Fastify();
+    await registerBuilderRoutes(app);
+
+    const projectId = "app_test_concurrency";
+    const url = `/builder/projects/${projectId}`;
+    const first = await app.inject({ method: "PUT", url, payload: { appDefinition: defaultApp } });
+    const baseVersionId = (first.json() as { saved: { id: string } }).saved.id;
+
+    const get = await app.inject({ method: "GET", url });
+    expect(get.headers.etag).toBe(`"${baseVersionId}"`);
+
+    const mine = await app.inject({
+      method: "PUT",
+      url,
+      headers: { "if-match": `"${baseVersionId}"` },
+      payload: { appDefinition: { ...defaultApp, version: "mine" } },
+    });
+    expect(mine.statusCode).toBe(200);
+    const mineId = (mine.json() as { saved: { id: string } }).saved.id;
+    expect(mine.headers.etag).toBe(`"${mineId}"`);
+
+    const theirs = await app.inject({
+      method: "PUT",
+      url,
+      payload: { appDefinition: { ...defaultApp, version: "theirs" }, baseVersionId },
+    });
+    expect(theirs.statusCode).toBe(409);
+    expect(theirs.json()).toMatchObject({
+      error: "VERSION_CONFLICT",
+      baseVersionId,
+      latestVersionId: mineId,
+      base: { id: baseVersionId },
+      latest: { id: mineId, appDefinition: { version: "mine" } },
+    });
+
+    const after = await app.inject({ method: "GET", url });
+    expect(after.json()).toMatchObject({ project: { latestVersionId: mineId } });
+
+    await app.close();
+    await rm(dir, { recursive: true, force: true });
+    delete process.env.FORM_BUILDER_DATA_DIR;
+  });
+
+  it("exports a project archive and imports it with id collision handling", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "form-first-builder-"));
+    process.env.FORM_BUILDER_DATA_DIR = dir;
+
+    const app = Fastify();
+    await registerBuilderRoutes(app);
+    await registerProjectVersionRoutes(app);
+    await registerProjectLifecycleRoutes(app);
+
+    const projectId = "app_test_archive";
+    const url = `/builder/projects/${projectId}`;
+    await app.inject({ method: "PUT", url, payload: { name: "Archive", appDefinition: defaultApp } });
+    await app.inject({
+      method: "PUT",
+      url,
+      payload: { appDefinition: { ...defaultApp, version: "2.0.0" }, note: "second" },
+    });
+
+    const exported = await app.inject({ method: "GET", url: `${url}/export` });
+    expect(exported.statusCode).toBe(200);
+    expect(exported.headers["content-disposition"]).toContain(`${projectId}.ffproj`);
+    const archive = exported.rawPayload;
+
+    const importArchive = (query: string) =>
+      app.inject({
+        method: "POST",
+        url: `/builder/projects/import${query}`,
+        headers: { "content-type": "application/gzip" },
+        payload: archive,
+      });
+
+    const collision = await importArchive("");
+    expect(collision.statusCode).toBe(409);
+    expect(collision.json()).toMatchObject({ error: "PROJECT_EXISTS" });
+
+    const renamed = await importArchive("?onConflict=rename");
+    expect(renamed.statusCode).toBe(200);
+    expect(renamed.json()).toMatchObject({
+      project: { id: `${projectId}_imported`, name: "Archive" },
+      importedFrom: projectId,
+      versions: 2,
+    });
+    const versions = await app.inject({
+      method: "GET",
+      url: `/builder/projects/${projectId}_imported/versions`,
+    });
+    expect((versions.json() as { versions: unknown[] }).versions).toHaveLength(2);
+
+    const again = await importArchive("?onConflict=rename");
+    expect(again.json()).toMatchObject({ project: { id: `${projectId}_imported_2` } });
+
+    const named = await importArchive("?projectId=app_test_restored");
+    const restored = await app.inject({ method: "GET", url: "/builder/projects/app_test_restored" });
+    expect(named.statusCode).toBe(200);
+    expect(restored.json()).toMatchObject({ latest: { appDefinition: { version: "2.0.0" } } });
+
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/builder/projects/import",
+      headers: { "content-type": "application/gzip" },
+      payload: Buffer.from("not an archive"),
+    });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json()).toMatchObject({ error: "INVALID_ARCHIVE" });
+
+    const bomb = await app.inject({
+      method: "POST",
+      url: "/builder/projects/import",
+      headers: { "content-type": "application/gzip" },
+      payload: gzipSync(Buffer.alloc(101 * 1024 * 1024)),
+    });
+    expect(bomb.statusCode).toBe(400);
+    expect(bomb.json()).toMatchObject({
+      error: "INVALID_ARCHIVE",
+      message: expect.stringContaining("unpacks to more than"),
+    });
+
+    await app.close();
+    await rm(dir, { recursive: true, force: true });
+    delete process.env.FORM_BUILDER_DATA_DIR;
+  });
+});
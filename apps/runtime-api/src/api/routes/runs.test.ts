@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { registerEventRoutes } from "./events.js";
+import { registerRunRoutes } from "./runs.js";
+import { publishVersion } from "../../application/deployments.js";
+import { publishApp, resetAppRegistry } from "../../domain/app-registry.js";
+import { defaultApp } from "../../domain/apps/default-app.js";
+import { getDeploymentStore, getProjectStore } from "../../infrastructure/project-stores.js";
+
+describe("run history routes", () => {
+  let dir: string;
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "form-first-runs-"));
+    process.env.FORM_BUILDER_DATA_DIR = dir;
+    app = Fastify();
+    await registerEventRoutes(app);
+    await registerRunRoutes(app);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    resetAppRegistry();
+    await rm(dir, { recursive: true, force: true });
+    delete process.env.FORM_BUILDER_DATA_DIR;
+  });
+
+  it("records executions and returns them by id", async () => {
+    const execute = await app.inject({
+      method: "POST",
+      url: `/apps/${defaultApp.appId}/events/evt_analyze_click/execute`,
+      payload: { state: { customerComplaint: "Too slow." } },
+    });
+    const runId = String(execute.headers["x-run-id"]);
+
+    const list = await app.inject({ method: "GET", url: `/apps/${defaultApp.appId}/runs` });
+    expect(list.json()).toMatchObject({ runs: [{ id: runId, status: "ok" }] });
+
+    const get = await app.inject({
+      method: "GET",
+      url: `/apps/${defaultApp.appId}/runs/${runId}`,
+    });
+    const { run } = get.json() as {
+      run: {
+        state: Record<string, unknown>;
+        nodes: Array<{ nodeId: string; prompt?: { prompt: string; rawText: string } }>;
+        statePatch: Record<string, unknown>;
+      };
+    };
+    expect(run.state).toEqual({ customerComplaint: "Too slow." });
+    const promptNode = run.nodes.find((node) => node.prompt);
+    expect(promptNode?.prompt?.prompt).toContain("Too slow.");
+    expect(JSON.parse(promptNode?.prompt?.rawText ?? "")).toMatchObject({ sentiment: "neutral" });
+    expect(Array.isArray(run.statePatch.analysisRows)).toBe(true);
+  });
+
+  it("records failed executions with their error", async () => {
+    const execute = await app.inject({
+      method: "POST",
+      url: `/apps/${defaultApp.appId}/events/evt_analyze_click/execute`,
+      payload: { state: { customerComplaint: "" } },
+    });
+    expect(execute.statusCode).toBe(500);
+
+    const get = await app.inject({
+      method: "GET",
+      url: `/apps/${defaultApp.appId}/runs/${String(execute.headers["x-run-id"])}`,
+    });
+    expect(get.json()).toMatchObject({
+      run: { status: "error", error: "Validation failed: state key 'customerComplaint' is empty." },
+    });
+  });
+
+  it("replays a run with an overridden model policy", async () => {
+    const execute = await app.inject({
+      method: "POST",
+      url: `/apps/${defaultApp.appId}/events/evt_analyze_click/execute`,
+      payload: { state: { customerComplaint: "Too slow." } },
+    });
+    const runId = String(execute.headers["x-run-id"]);
+
+    const replay = await app.inject({
+      method: "POST",
+      url: `/apps/${defaultApp.appId}/runs/${runId}/replay`,
+      payload: { modelPolicy: { provider: "mock", model: "mock-v2" } },
+    });
+    expect(replay.statusCode).toBe(200);
+    const body = replay.json() as {
+      run: { replayOf: string; state: unknown; nodes: Array<{ prompt?: { model: string } }> };
+    };
+    expect(body.run.replayOf).toBe(runId);
+    expect(body.run.state).toEqual({ customerComplaint: "Too slow." });
+    expect(body.run.nodes.find((node) => node.prompt)?.prompt?.model).toBe("mock-v2");
+
+    const missing = await app.inject({
+      method: "POST",
+      url: `/apps/${defaultApp.appId}/runs/run_missing/replay`,
+    });
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it("replays the recorded app version after a newer one is published", async () => {
+    const projects = getProjectStore(process.env);
+    const deployments = getDeploymentStore(process.env);
+    const first = await projects.appendVersion("replay_project", { appDefinition: defaultApp });
+    await publishVersion({
+      store: deployments,
+      projectId: "replay_project",
+      versionId: first.saved.id,
+      app: defaultApp,
+      deploymentId: "dep_first",
+    });
+    const execute = await app.inject({
+      method: "POST",
+      url: `/apps/${defaultApp.appId}/events/evt_analyze_click/execute`,
+      payload: { state: { customerComplaint: "Too slow." } },
+    });
+    const runId = String(execute.headers["x-run-id"]);
+
+    const newer = { ...defaultApp, version: "2.0.0" };
+    const second = await projects.appendVersion("replay_project", { appDefinition: newer });
+    await publishVersion({
+      store: deployments,
+      projectId: "replay_project",
+      versionId: second.saved.id,
+      app: newer,
+      deploymentId: "dep_second",
+    });
+
+    const replay = await app.inject({
+      method: "POST",
+      url: `/apps/${defaultApp.appId}/runs/${runId}/replay`,
+    });
+    expect(replay.statusCode).toBe(200);
+    expect(replay.json()).toMatchObject({ run: { replayOf: runId, appVersion: "1.0.0" } });
+  });
+
+  it("refuses to replay a run whose app version is no longer available", async () => {
+    const execute = await app.inject({
+      method: "POST",
+      url: `/apps/${defaultApp.appId}/events/evt_analyze_click/execute`,
+      payload: { state: { customerComplaint: "Too slow." } },
+    });
+    const runId = String(execute.headers["x-run-id"]);
+
+    publishApp({
+      app: { ...defaultApp, version: "2.0.0" },
+      source: "directory",
+      diagnostics: [],
+      loadedAt: new Date().toISOString(),
+    });
+
+    const replay = await app.inject({
+      method: "POST",
+      url: `/apps/${defaultApp.appId}/runs/${runId}/replay`,
+    });
+    expect(replay.statusCode).toBe(409);
+    expect(replay.json()).toMatchObject({
+      error: "APP_VERSION_UNAVAILABLE",
+      appVersion: "1.0.0",
+      liveVersion: "2.0.0",
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { ModelPolicySchema } from "@form-builder/contracts";
+import { recordRequestSpend } from "../execution-limits.js";
+import { getAppRegistrySnapshot } from "../../domain/app-registry.js";
+import {
+  executeAndRecordRun,
+  resolveReplayApp,
+  summarizeRun,
+  withModelPolicyOverride,
+} from "../../application/run-history.js";
+import { getExecutionEnvOptions } from "../../infrastructure/execution-env.js";
+import { createRunId, getRunStore } from "../../infrastructure/file-run-store.js";
+import { getDeploymentStore, getProjectStore } from "../../infrastructure/project-stores.js";
+import { createProviderRegistry } from "../../infrastructure/provider-registry.js";
+
+const ReplayRunRequestSchema = z.object({
+  modelPolicy: ModelPolicySchema.optional(),
+});
+
+export async function registerRunRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/apps/:appId/runs", async (request, reply) => {
+    const { appId } = request.params as { appId: string };
+    const query = request.query as { limit?: string };
+    const store = getRunStore(process.env);
+    if (!store) {
+      return reply.status(404).send({ error: "RUN_HISTORY_DISABLED" });
+    }
+
+    const limit = Math.min(Math.max(Number(query.limit ?? 50) || 50, 1), 200);
+    try {
+      return reply.send({ runs: await store.list(appId, limit) });
+    } catch (error) {
+      return reply.status(500).send({
+        error: "RUN_HISTORY_READ_FAILED",
+        message: (error as Error).message,
+      });
+    }
+  });
+
+  app.get("/apps/:appId/runs/:runId", async (request, reply) => {
+    const { appId, runId } = request.params as { appId: string; runId: string };
+    const store = getRunStore(process.env);
+    if (!store) {
+      return reply.status(404).send({ error: "RUN_HISTORY_DISABLED" });
+    }
+
+    try {
+      const run = await store.get(appId, runId);
+      if (!run) {
+        return reply.status(404).send({ error: "RUN_NOT_FOUND" });
+      }
+      return reply.send({ run });
+    } catch (error) {
+      return reply.status(500).send({
+        error: "RUN_HISTORY_READ_FAILED",
+        message: (error as Error).message,
+      });
+    }
+  });
+
+  app.post("/apps/:appId/runs/:runId/replay", async (request, reply) => {
+    const payload = ReplayRunRequestSchema.safeParse(request.body ?? {});
+    if (!payload.success) {
+      return reply.status(400).send({
+        error: "INVALID_REQUEST",
+        details: payload.error.issues,
+      });
+    }
+
+    const { appId, runId } = request.params as { appId: string; runId: string };
+    const store = getRunStore(process.env);
+    if (!store) {
+      return reply.status(404).send({ error: "RUN_HISTORY_DISABLED" });
+    }
+
+    const original = await store.get(appId, runId).catch(() => null);
+    if (!original) {
+      return reply.status(404).send({ error: "RUN_NOT_FOUND" });
+    }
+
+    const registered = getAppRegistrySnapshot().apps.get(appId);
+    if (!registered) {
+      return reply.status(404).send({ error: `App '${appId}' not found.` });
+    }
+    const appDef = await resolveReplayApp(
+      original,
+      registered,
+      getDeploymentStore(process.env),
+      async (projectId, versionId) =>
+        (await getProjectStore(process.env).getVersion(projectId, versionId))?.appDefinition ?? null,
+    );
+    if (!appDef) {
+      return reply.status(409).send({
+        error: "APP_VERSION_UNAVAILABLE",
+        message: `Run '${runId}' was recorded against version '${original.appVersion}' of app '${appId}', which is no longer available.`,
+        appVersion: original.appVersion,
+        liveVersion: registered.app.version,
+      });
+    }
+
+    const modelPolicy = payload.data.modelPolicy;
+    const replayId = createRunId();
+    try {
+      await executeAndRecordRun({
+        app: modelPolicy ? withModelPolicyOverride(appDef, original.eventId, modelPolicy) : appDef,
+        eventId: original.eventId,
+        state: original.state,
+        providers: createProviderRegistry(process.env),
+        options: getExecutionEnvOptions(process.env),
+        store,
+        runId: replayId,
+        replayOf: original.id,
+        modelPolicyOverride: modelPolicy,
+        onRecord: (record) => recordRequestSpend(request, record.estimatedCostUsd ?? 0),
+      });
+    } catch {
+      // The failed replay is recorded like any other run; return it below.
+    }
+
+    const replay = await store.get(appId, replayId);
+    if (!replay) {
+      return reply.status(500).send({ error: "RUN_HISTORY_WRITE_FAILED" });
+    }
+    return reply.status(replay.status === "ok" ? 200 : 500).send({
+      run: replay,
+      summary: summarizeRun(replay),
+    });
+  });
+}
@@ -0,0 +1,28 @@
+export const API_ROLES = ["viewer", "editor", "publisher", "runner", "admin"] as const;
+
+export type ApiRole = (typeof API_ROLES)[number];
+
+/** The key a request authenticated with; its name is recorded on saved versions and deployments. */
+export interface ApiKeyIdentity {
+  name: string;
+  roles: ApiRole[];
+}
+
+export interface ApiKeyStore {
+  /** False when no keys are configured; every route is open then. */
+  enabled: boolean;
+  authenticate(token: string): ApiKeyIdentity | null;
+}
+
+// Editors and publishers can read what they change; admin can do everything.
+const IMPLIED_ROLES: Record<ApiRole, ApiRole[]> = {
+  viewer: [],
+  editor: ["viewer"],
+  publisher: ["viewer"],
+  runner: [],
+  admin: ["viewer", "editor", "publisher", "runner"],
+};
+
+export function hasRole(identity: ApiKeyIdentity, role: ApiRole): boolean {
+  return identity.roles.some((granted) => granted === role || IMPLIED_ROLES[granted].includes(role));
+}
@@ -0,0 +1,144 @@
+import type { AppDefinition } from "@form-builder/contracts";
+import { AppCompiler, type Diagnostic } from "@form-builder/compiler";
+import { publishApp } from "../domain/app-registry.js";
+import { unknownProviderDiagnostics } from "./provider-diagnostics.js";
+
+const DEPLOYMENT_HISTORY_LIMIT = 50;
+
+export interface DeploymentRecord {
+  id: string;
+  projectId: string;
+  versionId: string;
+  appId: string;
+  appVersion: string;
+  action: "publish" | "rollback";
+  publishedAt: string;
+  rollbackOf?: string | undefined;
+  /** Name of the API key that published, when keys are configured. */
+  publishedBy?: string | undefined;
+}
+
+export interface DeploymentHistoryV1 {
+  kind: "form-builder-deployments-v1";
+  projectId: string;
+  live: DeploymentRecord | null;
+  /** Newest first. */
+  history: DeploymentRecord[];
+}
+
+export interface DeploymentStore {
+  get(projectId: string): Promise<DeploymentHistoryV1>;
+  save(history: DeploymentHistoryV1): Promise<void>;
+  listLive(): Promise<DeploymentRecord[]>;
+}
+
+export class PublishCompileError extends Error {
+  constructor(readonly diagnostics: Diagnostic[]) {
+    super("App definition failed to compile.");
+    this.name = "PublishCompileError";
+  }
+}
+
+export function emptyDeploymentHistory(projectId: string): DeploymentHistoryV1 {
+  return { kind: "form-builder-deployments-v1", projectId, live: null, history: [] };
+}
+
+function registerDeployment(app: AppDefinition, deployment: DeploymentRecord): void {
+  publishApp({
+    app,
+    source: "published",
+    deployment: {
+      projectId: deployment.projectId,
+      versionId: deployment.versionId,
+      deploymentId: deployment.id,
+    },
+    diagnostics: [],
+    loadedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Compiles a saved project version and swaps it into the app registry under its appId.
+ * Throws `PublishCompileError` when the compiler reports errors, or a model policy names a
+ * provider outside `providerIds` when given; nothing is registered then.
+ */
+export async function publishVersion(args: {
+  store: DeploymentStore;
+  projectId: string;
+  versionId: string;
+  app: AppDefinition;
+  deploymentId: string;
+  rollbackOf?: string | undefined;
+  publishedBy?: string | undefined;
+  providerIds?: readonly string[] | undefined;
+}): Promise<{ deployment: DeploymentRecord; diagnostics: Diagnostic[] }> {
+  const compiled = await new AppCompiler().compile({ app: args.app, target: "node-fastify-react" });
+  const diagnostics = [
+    ...compiled.diagnostics,
+    ...(args.providerIds ? unknownProviderDiagnostics(args.app, args.providerIds) : []),
+  ];
+  if (diagnostics.some((item) => item.severity === "error")) {
+    throw new PublishCompileError(diagnostics);
+  }
+
+  const deployment: DeploymentRecord = {
+    id: args.deploymentId,
+    projectId: args.projectId,
+    versionId: args.versionId,
+    appId: args.app.appId,
+    appVersion: args.app.version,
+    action: args.rollbackOf ? "rollback" : "publish",
+    publishedAt: new Date().toISOString(),
+    ...(args.rollbackOf ? { rollbackOf: args.rollbackOf } : {}),
+    ...(args.publishedBy ? { publishedBy: args.publishedBy } : {}),
+  };
+
+  const history = await args.store.get(args.projectId);
+  await args.store.save({
+    ...history,
+    live: deployment,
+    history: [deployment, ...history.history].slice(0, DEPLOYMENT_HISTORY_LIMIT),
+  });
+  registerDeployment(args.app, deployment);
+
+  return { deployment, diagnostics };
+}
+
+/**
+ * Picks the deployment a rollback re-publishes: `deploymentId` when given, otherwise the newest
+ * earlier deployment of a different version than the live one. Undefined while nothing is live.
+ */
+export function findRollbackTarget(
+  history: DeploymentHistoryV1,
+  deploymentId?: string,
+): DeploymentRecord | undefined {
+  const live = history.live;
+  if (!live) {
+    return undefined;
+  }
+  if (deploymentId) {
+    return history.history.find((entry) => entry.id === deploymentId);
+  }
+  return history.history.find(
+    (entry) => entry.id !== live.id && entry.versionId !== live.versionId,
+  );
+}
+
+/** Re-registers every live deployment after a restart; later publishes win on appId clashes. */
+export async function restorePublishedApps(
+  store: DeploymentStore,
+  loadApp: (projectId: string, versionId: string) => Promise<AppDefinition | null>,
+): Promise<DeploymentRecord[]> {
+  const live = [...(await store.listLive())].sort((a, b) =>
+    a.publishedAt.localeCompare(b.publishedAt),
+  );
+  const restored: DeploymentRecord[] = [];
+  for (const deployment of live) {
+    const app = await loadApp(deployment.projectId, deployment.versionId);
+    if (app) {
+      registerDeployment(app, deployment);
+      restored.push(deployment);
+    }
+  }
+  return restored;
+}
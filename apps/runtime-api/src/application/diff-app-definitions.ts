@@ -0,0 +1,113 @@
+import type { AppDefinition } from "@form-builder/contracts";
+
+type ActionNode = AppDefinition["events"][number]["actionGraph"]["nodes"][number];
+type PromptSpec = Extract<ActionNode, { kind: "PromptTask" }>["promptSpec"];
+
+const PROMPT_FIELDS = [
+  "template",
+  "variables",
+  "modelPolicy",
+  "outputSchema",
+  "retryPolicy",
+] as const satisfies ReadonlyArray<keyof PromptSpec>;
+
+export interface IdSetDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface PromptDiff {
+  eventId: string;
+  nodeId: string;
+  fields: Array<(typeof PROMPT_FIELDS)[number]>;
+}
+
+export interface AppDefinitionDiff {
+  appIdChanged: boolean;
+  versionChanged: boolean;
+  components: IdSetDiff;
+  stateModel: IdSetDiff;
+  events: IdSetDiff;
+  /** Node keys are `<eventId>/<nodeId>`. */
+  nodes: IdSetDiff;
+  /** Edge keys are `<eventId>/<from> -> <to>`, with `[branch]` appended on Condition edges. */
+  edges: { added: string[]; removed: string[] };
+  prompts: PromptDiff[];
+}
+
+function signature(value: unknown): string {
+  return JSON.stringify(value ?? null);
+}
+
+function diffById<T>(from: Map<string, T>, to: Map<string, T>): IdSetDiff {
+  return {
+    added: [...to.keys()].filter((id) => !from.has(id)),
+    removed: [...from.keys()].filter((id) => !to.has(id)),
+    changed: [...to.keys()].filter(
+      (id) => from.has(id) && signature(from.get(id)) !== signature(to.get(id)),
+    ),
+  };
+}
+
+function nodesByKey(app: AppDefinition): Map<string, ActionNode> {
+  return new Map(
+    app.events.flatMap((event) =>
+      event.actionGraph.nodes.map((node) => [`${event.id}/${node.id}`, node] as const),
+    ),
+  );
+}
+
+function edgeKeys(app: AppDefinition): Set<string> {
+  return new Set(
+    app.events.flatMap((event) =>
+      event.actionGraph.edges.map(
+        (edge) => `${event.id}/${edge.from} -> ${edge.to}${edge.branch ? ` [${edge.branch}]` : ""}`,
+      ),
+    ),
+  );
+}
+
+/** Structural diff of two app definitions, reading `from` as the older side. */
+export function diffAppDefinitions(from: AppDefinition, to: AppDefinition): AppDefinitionDiff {
+  const fromNodes = nodesByKey(from);
+  const toNodes = nodesByKey(to);
+  const fromEdges = edgeKeys(from);
+  const toEdges = edgeKeys(to);
+
+  const prompts: PromptDiff[] = [];
+  for (const event of to.events) {
+    for (const toNode of event.actionGraph.nodes) {
+      const fromNode = fromNodes.get(`${event.id}/${toNode.id}`);
+      if (fromNode?.kind !== "PromptTask" || toNode.kind !== "PromptTask") {
+        continue;
+      }
+      const fields = PROMPT_FIELDS.filter(
+        (field) => signature(fromNode.promptSpec[field]) !== signature(toNode.promptSpec[field]),
+      );
+      if (fields.length > 0) {
+        prompts.push({ eventId: event.id, nodeId: toNode.id, fields });
+      }
+    }
+  }
+
+  return {
+    appIdChanged: from.appId !== to.appId,
+    versionChanged: from.version !== to.version,
+    components: diffById(
+      new Map(from.ui.components.map((component) => [component.id, component])),
+      new Map(to.ui.components.map((component) => [component.id, component])),
+    ),
+    stateModel: diffById(new Map(Object.entries(from.stateModel)), new Map(Object.entries(to.stateModel))),
+    events: diffById(
+      new Map(from.events.map((event) => [event.id, event])),
+      new Map(to.events.map((event) => [event.id, event])),
+    ),
+    nodes: diffById(fromNodes, toNodes),
+    edges: {
+      added: [...toEdges].filter((key) => !fromEdges.has(key)),
+      removed: [...fromEdges].filter((key) => !toEdges.has(key)),
+    },
+    prompts,
+  };
+}
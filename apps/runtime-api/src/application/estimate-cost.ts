@@ -0,0 +1,20 @@
+import type { TokenUsage } from "../orchestrator/types.js";
+
+/** USD per million tokens. `cachedInput` defaults to `input` when a provider has no discount. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cachedInput?: number | undefined;
+}
+
+/** Keyed by `provider/model`. */
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+export function estimateCostUsd(usage: TokenUsage, price: ModelPrice): number {
+  const uncachedInput = Math.max(0, usage.inputTokens - usage.cachedInputTokens);
+  const cost =
+    uncachedInput * price.input +
+    usage.cachedInputTokens * (price.cachedInput ?? price.input) +
+    usage.outputTokens * price.output;
+  return cost / 1_000_000;
+}
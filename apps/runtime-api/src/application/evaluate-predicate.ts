@@ -0,0 +1,30 @@
+import type { ConditionPredicate } from "@form-builder/contracts";
+import { resolveReference } from "./resolve-reference.js";
+
+export function evaluatePredicate(
+  predicate: ConditionPredicate,
+  state: Record<string, unknown>,
+  nodeOutputs: Record<string, unknown>,
+): boolean {
+  const left = resolveReference(predicate.left, state, nodeOutputs);
+  const right = predicate.right;
+
+  switch (predicate.operator) {
+    case "exists":
+      return left !== undefined && left !== null && left !== "";
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case "in":
+      return Array.isArray(right) && right.some((item) => item === left);
+    case "contains":
+      if (typeof left === "string") {
+        return typeof right === "string" && left.includes(right);
+      }
+      if (Array.isArray(left)) {
+        return left.some((item) => item === right);
+      }
+      return false;
+  }
+}
@@ -1,7 +1,13 @@
 import { describe, expect, it } from "vitest";
+import type { AddressInfo } from "node:net";
+import Fastify from "fastify";
+import type { AppDefinition, ModelPolicy, PromptRetryPolicy } from "@form-builder/contracts";
 import { executeEvent } from "./execute-event.js";
 import { defaultApp } from "../domain/apps/default-app.js";
 import { MockProvider } from "../infrastructure/providers/mock-provider.js";
+import { OpenAICompatibleProvider } from "../infrastructure/providers/openai-compatible-provider.js";
+import { ScriptedProvider } from "../infrastructure/providers/scripted-provider.js";
+import type { LlmProvider } from "../orchestrator/types.js";
 
 describe("executeEvent", () => {
   it("runs prompt flow and returns state patch", async () => {
@@ -16,9 +22,705 @@ describe("executeEvent", () => {
     expect(result.logs.length).toBeGreaterThan(0);
   });
 
+  it("reports token usage and estimated cost per node and in total", async () => {
+    const result = await executeEvent(
+      defaultApp,
+      "evt_analyze_click",
+      { customerComplaint: "Your support response was slow." },
+      { mock: new MockProvider() },
+      { modelPrices: { "mock/mock-v1": { input: 1, output: 2 } } },
+    );
+
+    expect(result.nodeUsage).toHaveLength(1);
+    const [node] = result.nodeUsage;
+    expect(node).toMatchObject({ nodeId: "n2_prompt", provider: "mock", model: "mock-v1" });
+    expect(node!.usage.inputTokens).toBeGreaterThan(0);
+    expect(result.usage).toEqual(node!.usage);
+    expect(result.estimatedCostUsd).toBeCloseTo(
+      (node!.usage.inputTokens + 2 * node!.usage.outputTokens) / 1_000_000,
+    );
+    expect(node!.estimatedCostUsd).toBe(result.estimatedCostUsd);
+  });
+
+  it("reports usage without a cost for unpriced models", async () => {
+    const result = await executeEvent(
+      defaultApp,
+      "evt_analyze_click",
+      { customerComplaint: "Your support response was slow." },
+      { mock: new MockProvider() },
+    );
+
+    expect(result.nodeUsage[0]?.estimatedCostUsd).toBeNull();
+    expect(result.estimatedCostUsd).toBe(0);
+  });
+
+  it("maps a whole output object or a single field without wrapping it in rows", async () => {
+    const event = defaultApp.events[0]!;
+    const app: AppDefinition = {
+      ...defaultApp,
+      events: [
+        {
+          ...event,
+          actionGraph: {
+            ...event.actionGraph,
+            nodes: event.actionGraph.nodes.map((node) =>
+              node.kind === "Transform"
+                ? { ...node, mapToState: { replyText: "$n2_prompt.output.reply", result: "$n2_prompt.output" } }
+                : node,
+            ),
+          },
+        },
+      ],
+    };
+
+    const result = await executeEvent(
+      app,
+      "evt_analyze_click",
+      { customerComplaint: "Your support response was slow." },
+      { mock: new MockProvider() },
+    );
+
+    expect(typeof result.statePatch.replyText).toBe("string");
+    expect(result.statePatch.result).toMatchObject({ sentiment: "neutral" });
+  });
+
   it("fails validation when required input is empty", async () => {
     await expect(
       executeEvent(defaultApp, "evt_analyze_click", { customerComplaint: "" }, { mock: new MockProvider() }),
     ).rejects.toThrow("Validation failed");
   });
+
+  it("only runs the nodes on the matching condition branch", async () => {
+    const event = defaultApp.events[0]!;
+    const app: AppDefinition = {
+      ...defaultApp,
+      stateModel: {
+        ...defaultApp.stateModel,
+        escalation: { type: "string" },
+      },
+      events: [
+        {
+          ...event,
+          actionGraph: {
+            nodes: [
+              ...event.actionGraph.nodes,
+              {
+                id: "n4_condition",
+                kind: "Condition",
+                predicate: { left: "$n2_prompt.output.sentiment", operator: "==", right: "negative" },
+              },
+              { id: "n5_escalate", kind: "Transform", mapToState: { escalation: "yes" } },
+            ],
+            edges: [
+              { from: "n1_validate", to: "n2_prompt" },
+              { from: "n2_prompt", to: "n4_condition" },
+              { from: "n4_condition", to: "n3_transform", branch: "false" },
+              { from: "n4_condition", to: "n5_escalate", branch: "true" },
+            ],
+          },
+        },
+      ],
+    };
+
+    const result = await executeEvent(
+      app,
+      "evt_analyze_click",
+      { customerComplaint: "Fine, I guess." },
+      { mock: new MockProvider() },
+    );
+
+    expect(Array.isArray(result.statePatch.analysisRows)).toBe(true);
+    expect(result.statePatch.escalation).toBeUndefined();
+    expect(result.logs.some((item) => item.stage === "skip")).toBe(true);
+  });
+
+  describe("parallel branches", () => {
+    const event = defaultApp.events[0]!;
+    const promptNode = event.actionGraph.nodes.find((node) => node.id === "n2_prompt")!;
+    const fanOutApp = (maxConcurrency?: number): AppDefinition => ({
+      ...defaultApp,
+      stateModel: {
+        ...defaultApp.stateModel,
+        translationRows: defaultApp.stateModel.analysisRows!,
+      },
+      events: [
+        {
+          ...event,
+          ...(maxConcurrency !== undefined ? { maxConcurrency } : {}),
+          actionGraph: {
+            nodes: [
+              event.actionGraph.nodes[0]!,
+              { ...promptNode, id: "n2_sentiment" },
+              { ...promptNode, id: "n2_translate" },
+              { id: "n3_sentiment", kind: "Transform", mapToState: { analysisRows: "[$n2_sentiment.output]" } },
+              { id: "n3_translate", kind: "Transform", mapToState: { translationRows: "[$n2_translate.output]" } },
+            ],
+            edges: [
+              { from: "n1_validate", to: "n2_sentiment" },
+              { from: "n1_validate", to: "n2_translate" },
+              { from: "n2_sentiment", to: "n3_sentiment" },
+              { from: "n2_translate", to: "n3_translate" },
+            ],
+          },
+        },
+      ],
+    });
+
+    function createSlowProvider(delays: number[]): LlmProvider & { maxInFlight: number } {
+      const mock = new MockProvider();
+      let inFlight = 0;
+      let calls = 0;
+      const provider = {
+        maxInFlight: 0,
+        async execute() {
+          const delay = delays[calls] ?? 0;
+          calls += 1;
+          inFlight += 1;
+          provider.maxInFlight = Math.max(provider.maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          inFlight -= 1;
+          return mock.execute();
+        },
+      };
+      return provider;
+    }
+
+    it("runs independent prompt nodes concurrently with deterministic logs", async () => {
+      const provider = createSlowProvider([40, 5]);
+      const result = await executeEvent(
+        fanOutApp(),
+        "evt_analyze_click",
+        { customerComplaint: "Slow support." },
+        { mock: provider },
+      );
+
+      expect(provider.maxInFlight).toBe(2);
+      expect(Object.keys(result.statePatch)).toEqual(["analysisRows", "translationRows"]);
+      expect(result.logs.map((item) => item.message)).toEqual([
+        "Validated 1 state keys.",
+        "PromptTask 'n2_sentiment' executed via 'mock'.",
+        "PromptTask 'n2_translate' executed via 'mock'.",
+        "Mapped 1 outputs into state patch.",
+        "Mapped 1 outputs into state patch.",
+      ]);
+    });
+
+    it("honours the per-event concurrency limit", async () => {
+      const provider = createSlowProvider([10, 10]);
+      await executeEvent(
+        fanOutApp(1),
+        "evt_analyze_click",
+        { customerComplaint: "Slow support." },
+        { mock: provider },
+      );
+
+      expect(provider.maxInFlight).toBe(1);
+    });
+
+    it("waits for nodes whose output is read even without an edge between them", async () => {
+      const provider = createSlowProvider([20]);
+      const result = await executeEvent(
+        {
+          ...defaultApp,
+          events: [
+            {
+              ...event,
+              actionGraph: {
+                nodes: [
+                  event.actionGraph.nodes[0]!,
+                  promptNode,
+                  { id: "n3_transform", kind: "Transform", mapToState: { analysisRows: "[$n2_prompt.output]" } },
+                ],
+                edges: [
+                  { from: "n1_validate", to: "n2_prompt" },
+                  { from: "n1_validate", to: "n3_transform" },
+                ],
+              },
+            },
+          ],
+        },
+        "evt_analyze_click",
+        { customerComplaint: "Slow support." },
+        { mock: provider },
+      );
+
+      expect(result.statePatch.analysisRows).toEqual([
+        expect.objectContaining({ sentiment: "neutral" }),
+      ]);
+    });
+  });
+
+  describe("PromptTask retry policy", () => {
+    const event = defaultApp.events[0]!;
+    const validReply = JSON.stringify({ sentiment: "negative", reply: "Sorry about the wait." });
+
+    function withRetryPolicy(retryPolicy: PromptRetryPolicy): AppDefinition {
+      return {
+        ...defaultApp,
+        events: [
+          {
+            ...event,
+            actionGraph: {
+              ...event.actionGraph,
+              nodes: event.actionGraph.nodes.map((node) =>
+                node.kind === "PromptTask"
+                  ? {
+                      ...node,
+                      promptSpec: {
+                        ...node.promptSpec,
+                        retryPolicy,
+                      },
+                    }
+                  : node,
+              ),
+            },
+          },
+        ],
+      };
+    }
+
+    it("re-prompts with validation errors in repair mode", async () => {
+      const provider = new ScriptedProvider([
+        JSON.stringify({ sentiment: "furious", reply: "" }),
+        validReply,
+      ]);
+      const result = await executeEvent(
+        withRetryPolicy({ maxRetries: 2, mode: "repair" }),
+        "evt_analyze_click",
+        { customerComplaint: "Slow support." },
+        { mock: provider },
+      );
+
+      expect(result.statePatch.analysisRows).toEqual([
+        { sentiment: "negative", reply: "Sorry about the wait." },
+      ]);
+      expect(provider.requests).toHaveLength(2);
+      expect(provider.requests[1]?.prompt).toContain("sentiment: ");
+      expect(provider.requests[1]?.prompt).toContain("reply: ");
+      expect(provider.requests[1]?.prompt).toContain("Reply again with corrected JSON only.");
+      expect(
+        result.logs.filter((item) => item.stage === "prompt-attempt").map((item) => item.message),
+      ).toEqual([
+        expect.stringMatching(/^PromptTask 'n2_prompt' initial attempt 1\/3 failed: /),
+        "PromptTask 'n2_prompt' repair attempt 2/3 succeeded.",
+      ]);
+    });
+
+    it("resends the original prompt in retry mode", async () => {
+      const provider = new ScriptedProvider(["not json", validReply]);
+      await executeEvent(
+        withRetryPolicy({ maxRetries: 1 }),
+        "evt_analyze_click",
+        { customerComplaint: "Slow support." },
+        { mock: provider },
+      );
+
+      expect(provider.requests).toHaveLength(2);
+      expect(provider.requests[1]?.prompt).toBe(provider.requests[0]?.prompt);
+    });
+
+    it("retries after a provider timeout", async () => {
+      const provider = new ScriptedProvider([{ delayMs: 200, text: validReply }, validReply]);
+      const result = await executeEvent(
+        withRetryPolicy({ timeoutMs: 20, maxRetries: 1 }),
+        "evt_analyze_click",
+        { customerComplaint: "Slow support." },
+        { mock: provider },
+      );
+
+      expect(provider.requests).toHaveLength(2);
+      expect(provider.requests[0]?.signal?.aborted).toBe(true);
+      expect(provider.requests[1]?.signal?.aborted).toBe(false);
+      expect(result.logs.map((item) => item.message)).toContain(
+        "PromptTask 'n2_prompt' initial attempt 1/2 failed: Provider did not respond within 20ms.",
+      );
+    });
+
+    it("stops without retrying when the run is aborted", async () => {
+      const provider = new ScriptedProvider([{ delayMs: 200, text: validReply }]);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(new Error("Client disconnected.")), 20);
+
+      await expect(
+        executeEvent(
+          withRetryPolicy({ maxRetries: 2 }),
+          "evt_analyze_click",
+          { customerComplaint: "Slow support." },
+          { mock: provider },
+          { signal: controller.signal },
+        ),
+      ).rejects.toThrow("Client disconnected.");
+      expect(provider.requests).toHaveLength(1);
+      expect(provider.requests[0]?.signal?.aborted).toBe(true);
+    });
+
+    it("tells stream consumers to drop the tokens of a failed attempt", async () => {
+      const scripted = new ScriptedProvider(["not json", validReply]);
+      const provider: LlmProvider = {
+        execute: (req) => scripted.execute(req),
+        stream: async (req, onToken) => {
+          const reply = await scripted.execute(req);
+          onToken(reply.text);
+          return reply;
+        },
+      };
+      const events: string[] = [];
+      await executeEvent(
+        withRetryPolicy({ maxRetries: 1 }),
+        "evt_analyze_click",
+        { customerComplaint: "Slow support." },
+        { mock: provider },
+        {
+          onEvent: (item) => {
+            if (item.type === "token") {
+              events.push(item.text);
+            } else if (item.type === "token-reset") {
+              events.push("<reset>");
+            }
+          },
+        },
+      );
+
+      expect(events).toEqual(["not json", "<reset>", validReply]);
+    });
+
+    it("fails with the last error once retries are exhausted", async () => {
+      const provider = new ScriptedProvider([new Error("upstream 503")]);
+      await expect(
+        executeEvent(
+          withRetryPolicy({ maxRetries: 2, backoffMs: 1 }),
+          "evt_analyze_click",
+          { customerComplaint: "Slow support." },
+          { mock: provider },
+        ),
+      ).rejects.toThrow("upstream 503");
+      expect(provider.requests).toHaveLength(3);
+    });
+  });
+
+  describe("model policy fallbacks", () => {
+    const event = defaultApp.events[0]!;
+    const validReply = JSON.stringify({ sentiment: "positive", reply: "Glad to help." });
+
+    function withModelPolicy(modelPolicy: ModelPolicy): AppDefinition {
+      return {
+        ...defaultApp,
+        events: [
+          {
+            ...event,
+            actionGraph: {
+              ...event.actionGraph,
+              nodes: event.actionGraph.nodes.map((node) =>
+                node.kind === "PromptTask"
+                  ? { ...node, promptSpec: { ...node.promptSpec, modelPolicy } }
+                  : node,
+              ),
+            },
+          },
+        ],
+      };
+    }
+
+    it("falls back when the primary provider is not configured", async () => {
+      const result = await executeEvent(
+        withModelPolicy({
+          provider: "openai",
+          model: "gpt-5.2",
+          fallbacks: [{ provider: "mock", model: "mock-v1" }],
+        }),
+        "evt_analyze_click",
+        { customerComplaint: "Great service." },
+        { mock: new MockProvider() },
+      );
+
+      expect(result.logs.map((item) => item.message)).toContain(
+        "PromptTask 'n2_prompt' falling back from 'openai' to 'mock' after unavailable: Unknown provider 'openai'.",
+      );
+      expect(result.logs.map((item) => item.message)).toContain(
+        "PromptTask 'n2_prompt' executed via 'mock'.",
+      );
+    });
+
+    it("falls back on rate limits and records the answering provider", async () => {
+      const anthropic = new ScriptedProvider([
+        Object.assign(new Error("Too many requests"), { status: 429 }),
+      ]);
+      const mock = new ScriptedProvider([validReply]);
+      const result = await executeEvent(
+        withModelPolicy({
+          provider: "anthropic",
+          model: "claude-sonnet-4-0",
+          fallbacks: [{ provider: "mock", model: "mock-v1" }],
+        }),
+        "evt_analyze_click",
+        { customerComplaint: "Great service." },
+        { anthropic, mock },
+      );
+
+      expect(anthropic.requests).toHaveLength(1);
+      expect(mock.requests[0]?.model).toBe("mock-v1");
+      expect(result.logs.map((item) => item.message)).toContain(
+        "PromptTask 'n2_prompt' executed via 'mock'.",
+      );
+    });
+
+    it("does not fall back on error classes outside fallbackOn", async () => {
+      const anthropic = new ScriptedProvider([
+        Object.assign(new Error("Too many requests"), { status: 429 }),
+      ]);
+      const mock = new ScriptedProvider([validReply]);
+      await expect(
+        executeEvent(
+          withModelPolicy({
+            provider: "anthropic",
+            model: "claude-sonnet-4-0",
+            fallbacks: [{ provider: "mock", model: "mock-v1" }],
+            fallbackOn: ["unavailable"],
+          }),
+          "evt_analyze_click",
+          { customerComplaint: "Great service." },
+          { anthropic, mock },
+        ),
+      ).rejects.toThrow("Too many requests");
+      expect(mock.requests).toHaveLength(0);
+    });
+  });
+
+  describe("openai-compatible provider", () => {
+    it("runs a prompt against a local chat completions server", async () => {
+      const server = Fastify();
+      const seen: Array<{ model: string; content: string }> = [];
+      server.post("/v1/chat/completions", async (request) => {
+        const body = request.body as { model: string; messages: Array<{ content: string }> };
+        seen.push({ model: body.model, content: body.messages[0]?.content ?? "" });
+        return {
+          id: "cmpl_1",
+          object: "chat.completion",
+          created: 0,
+          model: body.model,
+          choices: [
+            {
+              index: 0,
+              finish_reason: "stop",
+              message: {
+                role: "assistant",
+                content: JSON.stringify({ sentiment: "negative", reply: "We are on it." }),
+              },
+            },
+          ],
+        };
+      });
+      await server.listen({ host: "127.0.0.1", port: 0 });
+      const port = (server.server.address() as AddressInfo).port;
+      const event = defaultApp.events[0]!;
+      const app: AppDefinition = {
+        ...defaultApp,
+        events: [
+          {
+            ...event,
+            actionGraph: {
+              ...event.actionGraph,
+              nodes: event.actionGraph.nodes.map((node) =>
+                node.kind === "PromptTask"
+                  ? {
+                      ...node,
+                      promptSpec: {
+                        ...node.promptSpec,
+                        modelPolicy: { provider: "openai-compatible", model: "llama3.1:8b" },
+                      },
+                    }
+                  : node,
+              ),
+            },
+          },
+        ],
+      };
+
+      try {
+        const result = await executeEvent(
+          app,
+          "evt_analyze_click",
+          { customerComplaint: "Slow support." },
+          { "openai-compatible": new OpenAICompatibleProvider(`http://127.0.0.1:${port}/v1`) },
+        );
+
+        expect(seen[0]?.model).toBe("llama3.1:8b");
+        expect(seen[0]?.content).toContain("Slow support.");
+        expect(result.statePatch.analysisRows).toEqual([
+          { sentiment: "negative", reply: "We are on it." },
+        ]);
+      } finally {
+        await server.close();
+      }
+    });
+  });
+
+  describe("HttpRequest nodes", () => {
+    const event = defaultApp.events[0]!;
+    const stubApp: AppDefinition = {
+      ...defaultApp,
+      stateModel: {
+        ...defaultApp.stateModel,
+        orderId: { type: "string" },
+      },
+      events: [
+        {
+          ...event,
+          actionGraph: {
+            nodes: [
+              {
+                id: "n0_lookup",
+                kind: "HttpRequest",
+                httpSpec: {
+                  method: "GET",
+                  urlTemplate: "http://127.0.0.1:{{port}}/orders/{{orderId}}",
+                  headers: { "x-order": "{{orderId}}" },
+                  outputSchema: {
+                    type: "object",
+                    shape: { status: { type: "string" } },
+                  },
+                },
+              },
+              { id: "n1_transform", kind: "Transform", mapToState: { analysisRows: "[$n0_lookup.output]" } },
+            ],
+            edges: [{ from: "n0_lookup", to: "n1_transform" }],
+          },
+        },
+      ],
+    };
+
+    it("stores the parsed response as node output", async () => {
+      const stub = Fastify();
+      stub.get("/orders/:orderId", async (request) => ({
+        status: `shipped:${(request.params as { orderId: string }).orderId}:${String(request.headers["x-order"])}`,
+      }));
+      await stub.listen({ host: "127.0.0.1", port: 0 });
+      const port = (stub.server.address() as AddressInfo).port;
+
+      try {
+        const result = await executeEvent(
+          stubApp,
+          "evt_analyze_click",
+          { orderId: "A 1", port },
+          { mock: new MockProvider() },
+          { httpAllowedHosts: ["127.0.0.1"] },
+        );
+
+        expect(result.statePatch.analysisRows).toEqual([{ status: "shipped:A 1:A 1" }]);
+        expect(result.logs.some((item) => item.stage === "http")).toBe(true);
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it("refuses redirects to hosts outside the allowlist", async () => {
+      const stub = Fastify();
+      let port = 0;
+      stub.get("/orders/:orderId", async (_request, reply) =>
+        reply.redirect(`http://localhost:${port}/internal`, 302),
+      );
+      stub.get("/internal", async () => ({ status: "leaked" }));
+      await stub.listen({ host: "127.0.0.1", port: 0 });
+      port = (stub.server.address() as AddressInfo).port;
+
+      try {
+        await expect(
+          executeEvent(
+            stubApp,
+            "evt_analyze_click",
+            { orderId: "A1", port },
+            { mock: new MockProvider() },
+            { httpAllowedHosts: ["127.0.0.1"] },
+          ),
+        ).rejects.toThrow("Host 'localhost:");
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it("JSON-encodes variables in JSON bodies", async () => {
+      const postApp: AppDefinition = {
+        ...stubApp,
+        events: [
+          {
+            ...stubApp.events[0]!,
+            actionGraph: {
+              ...stubApp.events[0]!.actionGraph,
+              nodes: [
+                {
+                  id: "n0_lookup",
+                  kind: "HttpRequest",
+                  httpSpec: {
+                    method: "POST",
+                    urlTemplate: "http://127.0.0.1:{{port}}/orders/{{orderId}}",
+                    headers: {},
+                    bodyTemplate: '{"q":"{{orderId}}","port":{{port}}}',
+                    outputSchema: {
+                      type: "object",
+                      shape: { status: { type: "string" } },
+                    },
+                  },
+                },
+                ...stubApp.events[0]!.actionGraph.nodes.slice(1),
+              ],
+            },
+          },
+        ],
+      };
+      const stub = Fastify();
+      stub.post("/orders/:orderId", async (request) => ({ status: JSON.stringify(request.body) }));
+      await stub.listen({ host: "127.0.0.1", port: 0 });
+      const port = (stub.server.address() as AddressInfo).port;
+
+      try {
+        const result = await executeEvent(
+          postApp,
+          "evt_analyze_click",
+          { orderId: 'x","admin":true', port },
+          { mock: new MockProvider() },
+          { httpAllowedHosts: ["127.0.0.1"] },
+        );
+
+        expect(result.statePatch.analysisRows).toEqual([
+          { status: JSON.stringify({ q: 'x","admin":true', port }) },
+        ]);
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it("rejects oversized responses", async () => {
+      const stub = Fastify();
+      stub.get("/orders/:orderId", async () => ({ status: "x".repeat(2_000_000) }));
+      await stub.listen({ host: "127.0.0.1", port: 0 });
+      const port = (stub.server.address() as AddressInfo).port;
+
+      try {
+        await expect(
+          executeEvent(
+            stubApp,
+            "evt_analyze_click",
+            { orderId: "A1", port },
+            { mock: new MockProvider() },
+            { httpAllowedHosts: ["127.0.0.1"] },
+          ),
+        ).rejects.toThrow("exceeds");
+      } finally {
+        await stub.close();
+      }
+    });
+
+    it("rejects hosts outside the allowlist", async () => {
+      await expect(
+        executeEvent(
+          stubApp,
+          "evt_analyze_click",
+          { orderId: "A1", port: 9 },
+          { mock: new MockProvider() },
+          { httpAllowedHosts: ["api.example.com"] },
+        ),
+      ).rejects.toThrow("not allowed");
+    });
+  });
 });
+
@@ -1,14 +1,26 @@
 import type {
+  ActionEdge,
   ActionNode,
   AppDefinition,
   EventLog,
   EventDefinition,
+  ExecuteEventResponse,
+  ExecutionStreamEvent,
+  NodeUsage,
+  TokenUsage,
 } from "@form-builder/contracts";
+import { executeHttpRequest } from "../orchestrator/execute-http-request.js";
 import { executePromptTask } from "../orchestrator/execute-prompt-task.js";
-import type { LlmProvider } from "../orchestrator/types.js";
+import type { LlmProvider, ModelUsage } from "../orchestrator/types.js";
+import { estimateCostUsd, type ModelPriceTable } from "./estimate-cost.js";
+import { evaluatePredicate } from "./evaluate-predicate.js";
+import { resolveReference } from "./resolve-reference.js";
+import { scheduleGraph } from "./schedule-graph.js";
 import { shapeToZod } from "./shape-to-zod.js";
 import { topologicalSort } from "./topological-sort.js";
 
+const DEFAULT_EVENT_CONCURRENCY = 4;
+
 function resolveEvent(app: AppDefinition, eventId: string): EventDefinition {
   const event = app.events.find((item) => item.id === eventId);
   if (!event) {
@@ -23,7 +35,10 @@ function parseTransformExpression(
 ): unknown {
   const match = expression.match(/^\[\$(.+?)\.output\]$/);
   if (!match) {
-    return expression;
+    // `$node.output` and `$node.output.field` map the value itself, for non-table targets.
+    return /^\s*\$[^.]+\.output(?:\..+)?\s*$/.test(expression)
+      ? resolveReference(expression, {}, nodeOutputs)
+      : expression;
   }
 
   const nodeId = match[1];
@@ -33,15 +48,137 @@ function parseTransformExpression(
   return [nodeOutputs[nodeId]];
 }
 
-async function runNode(
-  node: ActionNode,
-  state: Record<string, unknown>,
+function isEdgeActive(
+  edge: ActionEdge,
+  nodeMap: Map<string, ActionNode>,
   nodeOutputs: Record<string, unknown>,
-  providers: Record<string, LlmProvider>,
-  logs: EventLog[],
-  eventId: string,
-  statePatch: Record<string, unknown>,
-): Promise<void> {
+  skipped: Set<string>,
+): boolean {
+  if (skipped.has(edge.from)) {
+    return false;
+  }
+  if (nodeMap.get(edge.from)?.kind !== "Condition") {
+    return true;
+  }
+  return edge.branch === String(nodeOutputs[edge.from] === true);
+}
+
+export interface NodeTrace {
+  nodeId: string;
+  kind: ActionNode["kind"];
+  output: unknown;
+  prompt?: {
+    provider: string;
+    model: string;
+    prompt: string;
+    rawText: string;
+    attempts: number;
+  };
+}
+
+export type RunUsage = Pick<ExecuteEventResponse, "usage" | "estimatedCostUsd" | "nodeUsage">;
+
+/** Thrown when an event fails; carries the tokens its prompts were billed before the failure. */
+export class EventExecutionError extends Error {
+  constructor(
+    cause: Error,
+    readonly runUsage: RunUsage,
+  ) {
+    super(cause.message, { cause });
+    this.name = "EventExecutionError";
+  }
+}
+
+export interface ExecuteEventOptions {
+  httpAllowedHosts?: string[] | undefined;
+  /** Used when the event does not set `maxConcurrency`. */
+  defaultConcurrency?: number | undefined;
+  /** Prices used for `estimatedCostUsd`; usage of unlisted models is reported without a cost. */
+  modelPrices?: ModelPriceTable | undefined;
+  /** Receives the output of every node that ran, plus prompt details for PromptTask nodes. */
+  onTrace?: ((trace: NodeTrace) => void) | undefined;
+  /** Receives progress events (logs, node lifecycle, partial patches, tokens) as they happen. */
+  onEvent?: ((event: ExecutionStreamEvent) => void) | undefined;
+  /** Aborting it cancels in-flight provider and HTTP calls and starts no further nodes. */
+  signal?: AbortSignal | undefined;
+}
+
+interface NodeRunContext {
+  eventId: string;
+  state: Record<string, unknown>;
+  nodeOutputs: Record<string, unknown>;
+  statePatch: Record<string, unknown>;
+  log: (entry: EventLog) => void;
+  usage: ModelUsage[];
+  providers: Record<string, LlmProvider>;
+  options: ExecuteEventOptions;
+}
+
+function resolveVariables(
+  names: Iterable<string>,
+  ctx: NodeRunContext,
+): Record<string, unknown> {
+  const variableMap: Record<string, unknown> = {};
+  for (const name of names) {
+    variableMap[name] = resolveReference(name, ctx.state, ctx.nodeOutputs);
+  }
+  return variableMap;
+}
+
+function collectTemplateTokens(templates: string[]): Set<string> {
+  const tokens = new Set<string>();
+  for (const template of templates) {
+    for (const match of template.matchAll(/{{\s*([^}]+?)\s*}}/g)) {
+      if (match[1]) {
+        tokens.add(match[1].trim());
+      }
+    }
+  }
+  return tokens;
+}
+
+function referencedNodeId(expression: string): string | null {
+  return expression.match(/^\s*\[?\$([^.\]]+)\.output\b/)?.[1]?.trim() ?? null;
+}
+
+function readExpressions(node: ActionNode): Iterable<string> {
+  switch (node.kind) {
+    case "PromptTask":
+      return node.promptSpec.variables;
+    case "HttpRequest":
+      return collectTemplateTokens([
+        node.httpSpec.urlTemplate,
+        node.httpSpec.bodyTemplate ?? "",
+        ...Object.values(node.httpSpec.headers),
+      ]);
+    case "Condition":
+      return [node.predicate.left];
+    case "Transform":
+      return Object.values(node.mapToState);
+    case "Validate":
+      return [];
+  }
+}
+
+// Every `$node.output` a node reads, as an edge from that node. The scheduler waits on these as
+// well as on the drawn edges, so a node never runs before a node whose output it uses.
+function dataReferenceEdges(nodes: ActionNode[]): Array<{ from: string; to: string }> {
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const edges: Array<{ from: string; to: string }> = [];
+  for (const node of nodes) {
+    for (const expression of readExpressions(node)) {
+      const from = referencedNodeId(expression);
+      if (from && from !== node.id && nodeIds.has(from)) {
+        edges.push({ from, to: node.id });
+      }
+    }
+  }
+  return edges;
+}
+
+async function runNode(node: ActionNode, ctx: NodeRunContext): Promise<void> {
+  const { eventId, state, nodeOutputs, statePatch, log, providers, options } = ctx;
+
   if (node.kind === "Validate") {
     for (const key of node.input.stateKeys) {
       const value = state[key];
@@ -49,7 +186,7 @@ async function runNode(
         throw new Error(`Validation failed: state key '${key}' is empty.`);
       }
     }
-    logs.push({
+    log({
       at: new Date().toISOString(),
       eventId,
       stage: "validate",
@@ -59,10 +196,7 @@ async function runNode(
   }
 
   if (node.kind === "PromptTask") {
-    const variableMap: Record<string, unknown> = {};
-    for (const variable of node.promptSpec.variables) {
-      variableMap[variable] = state[variable];
-    }
+    const variableMap = resolveVariables(node.promptSpec.variables, ctx);
 
     const outputSchema = shapeToZod(node.promptSpec.outputSchema.shape);
     const result = await executePromptTask<Record<string, unknown>, Record<string, unknown>>(
@@ -71,25 +205,110 @@ async function runNode(
         variables: variableMap,
         outputSchema,
         modelPolicy: node.promptSpec.modelPolicy,
+        retryPolicy: node.promptSpec.retryPolicy,
       },
       providers,
+      {
+        onToken: options.onEvent
+          ? (text) => options.onEvent?.({ type: "token", nodeId: node.id, text })
+          : undefined,
+        onTokenReset: () => options.onEvent?.({ type: "token-reset", nodeId: node.id }),
+        // Without a retry policy there is a single attempt, already covered by the "prompt" log.
+        onAttempt: node.promptSpec.retryPolicy
+          ? (attempt) =>
+              log({
+                at: new Date().toISOString(),
+                eventId,
+                stage: "prompt-attempt",
+                message: attempt.ok
+                  ? `PromptTask '${node.id}' ${attempt.kind} attempt ${attempt.attempt}/${attempt.maxAttempts} succeeded.`
+                  : `PromptTask '${node.id}' ${attempt.kind} attempt ${attempt.attempt}/${attempt.maxAttempts} failed: ${attempt.error ?? "unknown error"}`,
+              })
+          : undefined,
+        usage: ctx.usage,
+        signal: options.signal,
+        onFallback: (fallback) =>
+          log({
+            at: new Date().toISOString(),
+            eventId,
+            stage: "prompt-fallback",
+            message: `PromptTask '${node.id}' falling back from '${fallback.from.provider}' to '${fallback.to.provider}' after ${fallback.errorClass}: ${fallback.error}`,
+          }),
+      },
     );
 
     nodeOutputs[node.id] = result.output;
-    logs.push({
+    options.onTrace?.({
+      nodeId: node.id,
+      kind: node.kind,
+      output: result.output,
+      prompt: {
+        provider: result.answeredBy.provider,
+        model: result.answeredBy.model,
+        prompt: result.prompt,
+        rawText: result.rawText,
+        attempts: result.attempts,
+      },
+    });
+    log({
       at: new Date().toISOString(),
       eventId,
       stage: "prompt",
-      message: `PromptTask '${node.id}' executed via '${node.promptSpec.modelPolicy.provider}'.`,
+      message: `PromptTask '${node.id}' executed via '${result.answeredBy.provider}'.`,
+    });
+    return;
+  }
+
+  if (node.kind === "HttpRequest") {
+    const spec = node.httpSpec;
+    const variables = resolveVariables(
+      collectTemplateTokens([spec.urlTemplate, spec.bodyTemplate ?? "", ...Object.values(spec.headers)]),
+      ctx,
+    );
+    const result = await executeHttpRequest<Record<string, unknown>, Record<string, unknown>>(
+      {
+        method: spec.method,
+        urlTemplate: spec.urlTemplate,
+        headers: spec.headers,
+        bodyTemplate: spec.bodyTemplate,
+        variables,
+        outputSchema: shapeToZod(spec.outputSchema.shape),
+      },
+      { allowedHosts: ctx.options.httpAllowedHosts ?? [], signal: ctx.options.signal },
+    );
+
+    nodeOutputs[node.id] = result.output;
+    options.onTrace?.({ nodeId: node.id, kind: node.kind, output: result.output });
+    log({
+      at: new Date().toISOString(),
+      eventId,
+      stage: "http",
+      message: `HttpRequest '${node.id}' ${spec.method} ${new URL(result.url).host} returned ${result.status}.`,
+    });
+    return;
+  }
+
+  if (node.kind === "Condition") {
+    const result = evaluatePredicate(node.predicate, state, nodeOutputs);
+    nodeOutputs[node.id] = result;
+    options.onTrace?.({ nodeId: node.id, kind: node.kind, output: result });
+    log({
+      at: new Date().toISOString(),
+      eventId,
+      stage: "condition",
+      message: `Condition '${node.id}' evaluated to '${String(result)}'.`,
     });
     return;
   }
 
   if (node.kind === "Transform") {
+    const partial: Record<string, unknown> = {};
     for (const [key, expression] of Object.entries(node.mapToState)) {
-      statePatch[key] = parseTransformExpression(expression, nodeOutputs);
+      partial[key] = parseTransformExpression(expression, nodeOutputs);
     }
-    logs.push({
+    Object.assign(statePatch, partial);
+    options.onTrace?.({ nodeId: node.id, kind: node.kind, output: partial });
+    log({
       at: new Date().toISOString(),
       eventId,
       stage: "transform",
@@ -103,26 +322,130 @@ export async function executeEvent(
   eventId: string,
   state: Record<string, unknown>,
   providers: Record<string, LlmProvider>,
-): Promise<{ statePatch: Record<string, unknown>; logs: EventLog[] }> {
+  options: ExecuteEventOptions = {},
+): Promise<ExecuteEventResponse> {
   const event = resolveEvent(app, eventId);
+  const scheduleEdges = [
+    ...event.actionGraph.edges,
+    ...dataReferenceEdges(event.actionGraph.nodes),
+  ];
   const order = topologicalSort(
     event.actionGraph.nodes.map((node) => node.id),
-    event.actionGraph.edges,
+    scheduleEdges,
   );
 
   const nodeMap = new Map(event.actionGraph.nodes.map((node) => [node.id, node]));
   const logs: EventLog[] = [];
   const statePatch: Record<string, unknown> = {};
   const nodeOutputs: Record<string, unknown> = {};
+  const skipped = new Set<string>();
 
-  for (const nodeId of order) {
-    const node = nodeMap.get(nodeId);
-    if (!node) {
-      throw new Error(`Node '${nodeId}' not found during execution.`);
+  // Nodes may finish in any order; their logs and patches are buffered and committed in
+  // topological order so the response is identical to a sequential run.
+  const buffered = new Map<
+    string,
+    { logs: EventLog[]; statePatch: Record<string, unknown>; usage: ModelUsage[] }
+  >();
+  const nodeUsage: NodeUsage[] = [];
+  const failedUsage: NodeUsage[] = [];
+  const priceUsage = (nodeId: string, records: ModelUsage[]): NodeUsage[] =>
+    records.map((record) => {
+      const price = options.modelPrices?.[`${record.provider}/${record.model}`];
+      return {
+        nodeId,
+        ...record,
+        estimatedCostUsd: price ? estimateCostUsd(record.usage, price) : null,
+      };
+    });
+  let committed = 0;
+  const commitReady = (): void => {
+    while (committed < order.length) {
+      const nodeId = order[committed];
+      const result = nodeId ? buffered.get(nodeId) : undefined;
+      if (!result) {
+        return;
+      }
+      for (const entry of result.logs) {
+        logs.push(entry);
+        options.onEvent?.({ type: "log", log: entry });
+      }
+      if (Object.keys(result.statePatch).length > 0) {
+        Object.assign(statePatch, result.statePatch);
+        options.onEvent?.({ type: "state-patch", statePatch: result.statePatch });
+      }
+      nodeUsage.push(...priceUsage(nodeId ?? "", result.usage));
+      buffered.delete(nodeId ?? "");
+      committed += 1;
     }
+  };
+
+  try {
+    await scheduleGraph({
+      order,
+      edges: scheduleEdges,
+      concurrency: event.maxConcurrency ?? options.defaultConcurrency ?? DEFAULT_EVENT_CONCURRENCY,
+      run: async (nodeId) => {
+        options.signal?.throwIfAborted();
+        const node = nodeMap.get(nodeId);
+        if (!node) {
+          throw new Error(`Node '${nodeId}' not found during execution.`);
+        }
 
-    await runNode(node, state, nodeOutputs, providers, logs, eventId, statePatch);
+        const nodeLogs: EventLog[] = [];
+        const nodePatch: Record<string, unknown> = {};
+        const usage: ModelUsage[] = [];
+        const incoming = event.actionGraph.edges.filter((edge) => edge.to === nodeId);
+        const inactive = incoming.find((edge) => !isEdgeActive(edge, nodeMap, nodeOutputs, skipped));
+        if (inactive) {
+          skipped.add(nodeId);
+          nodeLogs.push({
+            at: new Date().toISOString(),
+            eventId,
+            stage: "skip",
+            message: `Skipped '${nodeId}' because edge '${inactive.from}' -> '${nodeId}' is inactive.`,
+          });
+          options.onEvent?.({ type: "node-finish", nodeId, kind: node.kind, status: "skipped" });
+        } else {
+          options.onEvent?.({ type: "node-start", nodeId, kind: node.kind });
+          try {
+            await runNode(node, {
+              eventId,
+              state,
+              nodeOutputs,
+              statePatch: nodePatch,
+              log: (entry) => nodeLogs.push(entry),
+              usage,
+              providers,
+              options,
+            });
+          } catch (error) {
+            failedUsage.push(...priceUsage(nodeId, usage));
+            throw error;
+          }
+          options.onEvent?.({ type: "node-finish", nodeId, kind: node.kind, status: "ok" });
+        }
+
+        buffered.set(nodeId, { logs: nodeLogs, statePatch: nodePatch, usage });
+        commitReady();
+      },
+    });
+  } catch (error) {
+    // Nodes that finished but were not committed yet, and the one that failed, were billed too.
+    const uncommitted = [...buffered].flatMap(([nodeId, result]) => priceUsage(nodeId, result.usage));
+    throw new EventExecutionError(error as Error, summarizeUsage([...nodeUsage, ...uncommitted, ...failedUsage]));
   }
 
-  return { statePatch, logs };
+  return { statePatch, logs, ...summarizeUsage(nodeUsage) };
+}
+
+function summarizeUsage(nodeUsage: NodeUsage[]): RunUsage {
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0 };
+  let estimatedCostUsd = 0;
+  for (const record of nodeUsage) {
+    usage.inputTokens += record.usage.inputTokens;
+    usage.outputTokens += record.usage.outputTokens;
+    usage.cachedInputTokens += record.usage.cachedInputTokens;
+    estimatedCostUsd += record.estimatedCostUsd ?? 0;
+  }
+  return { usage, estimatedCostUsd, nodeUsage };
 }
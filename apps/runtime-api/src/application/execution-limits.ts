@@ -0,0 +1,217 @@
+import type { EventDefinition } from "@form-builder/contracts";
+import type { ModelPriceTable } from "./estimate-cost.js";
+
+/** Token bucket refilled at `requestsPerMinute`; holds up to `burst` (default: one minute's worth). */
+export interface TokenBucketLimit {
+  requestsPerMinute: number;
+  burst?: number | undefined;
+}
+
+export interface ExecutionLimits {
+  perApp?: TokenBucketLimit | undefined;
+  perEvent?: TokenBucketLimit | undefined;
+  perClient?: TokenBucketLimit | undefined;
+  /** Estimated USD per UTC day, summed from the `estimatedCostUsd` of finished runs. */
+  dailyBudgetUsd?: { perApp?: number | undefined; perClient?: number | undefined } | undefined;
+}
+
+/** Defaults for every app, with per-app overrides under `apps`. */
+export interface ExecutionLimitConfig extends ExecutionLimits {
+  apps?: Record<string, ExecutionLimits> | undefined;
+}
+
+/**
+ * Where buckets and spend live. The in-memory implementation counts per process; a shared
+ * store (e.g. Redis) implementing the same calls would make the limits hold across instances.
+ */
+export interface UsageCounterStore {
+  /** Takes one token from the bucket at `key`. Returns 0 when taken, otherwise ms until one is available. */
+  take(key: string, limit: TokenBucketLimit, nowMs: number): Promise<number>;
+  /** Puts back a token taken by `take`, up to the bucket's capacity. */
+  refund(key: string, limit: TokenBucketLimit): Promise<void>;
+  getSpend(key: string, day: string): Promise<number>;
+  addSpend(key: string, day: string, amountUsd: number): Promise<void>;
+}
+
+export interface ExecutionScope {
+  appId: string;
+  eventId: string;
+  /** `key:<api key name>`, a verified runtime caller (`access-key:<hash>`, `jwt:<subject>`), `ip:<address>` or `scheduler`. */
+  clientId: string;
+}
+
+export type ExecutionLimitDecision =
+  | { ok: true }
+  | {
+      ok: false;
+      status: 429 | 402;
+      error: "RATE_LIMITED" | "BUDGET_EXCEEDED";
+      limit: "app" | "event" | "client";
+      message: string;
+      retryAfterSeconds: number;
+    }
+  | {
+      ok: false;
+      status: 402;
+      error: "MODEL_UNPRICED";
+      limit: "app" | "client";
+      message: string;
+      retryAfterSeconds?: undefined;
+    };
+
+/** The models a run may call, checked against the price table when a daily budget applies. */
+export interface ExecutionPricing {
+  /** `provider/model` keys, fallbacks included. */
+  models: string[];
+  prices: ModelPriceTable | undefined;
+}
+
+export function limitsForApp(config: ExecutionLimitConfig, appId: string): ExecutionLimits {
+  const { apps, ...defaults } = config;
+  const override = apps?.[appId];
+  if (!override) {
+    return defaults;
+  }
+  return {
+    ...defaults,
+    ...override,
+    dailyBudgetUsd: { ...defaults.dailyBudgetUsd, ...override.dailyBudgetUsd },
+  };
+}
+
+export function hasExecutionLimits(limits: ExecutionLimits): boolean {
+  return (
+    Boolean(limits.perApp ?? limits.perEvent ?? limits.perClient) ||
+    limits.dailyBudgetUsd?.perApp !== undefined ||
+    limits.dailyBudgetUsd?.perClient !== undefined
+  );
+}
+
+/** `provider/model` of every model the event's prompts may call, fallbacks included. */
+export function eventModelKeys(event: EventDefinition): string[] {
+  const keys = new Set<string>();
+  for (const node of event.actionGraph.nodes) {
+    if (node.kind !== "PromptTask") {
+      continue;
+    }
+    const policy = node.promptSpec.modelPolicy;
+    for (const target of [policy, ...(policy.fallbacks ?? [])]) {
+      keys.add(`${target.provider}/${target.model}`);
+    }
+  }
+  return [...keys];
+}
+
+function utcDay(nowMs: number): string {
+  return new Date(nowMs).toISOString().slice(0, 10);
+}
+
+function secondsUntilNextUtcDay(nowMs: number): number {
+  const next = new Date(nowMs);
+  next.setUTCHours(24, 0, 0, 0);
+  return Math.max(1, Math.ceil((next.getTime() - nowMs) / 1000));
+}
+
+function spendKeys(limits: ExecutionLimits, scope: ExecutionScope) {
+  return [
+    {
+      limit: "client" as const,
+      key: `client:${scope.appId}:${scope.clientId}`,
+      cap: limits.dailyBudgetUsd?.perClient,
+    },
+    { limit: "app" as const, key: `app:${scope.appId}`, cap: limits.dailyBudgetUsd?.perApp },
+  ];
+}
+
+/**
+ * Checks daily budgets, then takes one token from the client, event and app buckets in that
+ * order, so a client over its own limit is turned away before it drains the shared buckets.
+ * When a bucket denies, the tokens already taken for this request are refunded.
+ * Budgets count estimated USD, so a run that may call a model without a price is refused
+ * rather than let through uncapped.
+ */
+export async function checkExecutionLimits(
+  store: UsageCounterStore,
+  limits: ExecutionLimits,
+  scope: ExecutionScope,
+  nowMs: number,
+  pricing?: ExecutionPricing | undefined,
+): Promise<ExecutionLimitDecision> {
+  const day = utcDay(nowMs);
+  for (const { limit, key, cap } of spendKeys(limits, scope)) {
+    if (cap === undefined) {
+      continue;
+    }
+    const unpriced = pricing?.models.find((model) => !pricing.prices?.[model]);
+    if (unpriced) {
+      return {
+        ok: false,
+        status: 402,
+        error: "MODEL_UNPRICED",
+        limit,
+        message: `Model '${unpriced}' has no price in FORM_BUILDER_MODEL_PRICES, so it cannot run under a daily ${limit} budget.`,
+      };
+    }
+    const spent = await store.getSpend(key, day);
+    if (spent >= cap) {
+      return {
+        ok: false,
+        status: 402,
+        error: "BUDGET_EXCEEDED",
+        limit,
+        message: `Daily ${limit} budget of $${cap} is used up ($${spent.toFixed(4)} spent today).`,
+        retryAfterSeconds: secondsUntilNextUtcDay(nowMs),
+      };
+    }
+  }
+
+  const buckets = [
+    {
+      limit: "client" as const,
+      key: `client:${scope.appId}:${scope.clientId}`,
+      bucket: limits.perClient,
+    },
+    { limit: "event" as const, key: `event:${scope.appId}:${scope.eventId}`, bucket: limits.perEvent },
+    { limit: "app" as const, key: `app:${scope.appId}`, bucket: limits.perApp },
+  ];
+  const taken: Array<{ key: string; bucket: TokenBucketLimit }> = [];
+  for (const { limit, key, bucket } of buckets) {
+    if (!bucket) {
+      continue;
+    }
+    const waitMs = await store.take(key, bucket, nowMs);
+    if (waitMs > 0) {
+      for (const entry of taken) {
+        await store.refund(entry.key, entry.bucket);
+      }
+      return {
+        ok: false,
+        status: 429,
+        error: "RATE_LIMITED",
+        limit,
+        message: `Too many requests for this ${limit} (${bucket.requestsPerMinute}/min).`,
+        retryAfterSeconds: Math.max(1, Math.ceil(waitMs / 1000)),
+      };
+    }
+    taken.push({ key, bucket });
+  }
+  return { ok: true };
+}
+
+export async function recordExecutionSpend(
+  store: UsageCounterStore,
+  limits: ExecutionLimits,
+  scope: ExecutionScope,
+  costUsd: number,
+  nowMs: number,
+): Promise<void> {
+  if (!(costUsd > 0)) {
+    return;
+  }
+  const day = utcDay(nowMs);
+  for (const { key, cap } of spendKeys(limits, scope)) {
+    if (cap !== undefined) {
+      await store.addSpend(key, day, costUsd);
+    }
+  }
+}
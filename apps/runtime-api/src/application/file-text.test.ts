@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { AppDefinition } from "@form-builder/contracts";
+import { extractFileState, FileExtractionError } from "./file-text.js";
+import { defaultApp } from "../domain/apps/default-app.js";
+import { FILE_EXTRACTORS } from "../infrastructure/file-extractors.js";
+
+const app: AppDefinition = {
+  ...defaultApp,
+  stateModel: {
+    ...defaultApp.stateModel,
+    attachment: { type: "file", source: "ui.upload_attachment", accept: [".txt", ".csv"] },
+  },
+};
+const limits = { maxBytes: 1024, maxTextChars: 200 };
+
+function upload(name: string, mimeType: string, content: string | Buffer) {
+  return { name, mimeType, contentBase64: Buffer.from(content).toString("base64") };
+}
+
+describe("extractFileState", () => {
+  it("replaces uploaded files with their text and leaves other state alone", async () => {
+    const state = await extractFileState({
+      app,
+      state: {
+        customerComplaint: "See attached.",
+        attachment: upload("orders.csv", "text/csv", "\uFEFFid,status\r\n1,late\r\n"),
+      },
+      extractors: FILE_EXTRACTORS,
+      limits,
+    });
+
+    expect(state).toEqual({ customerComplaint: "See attached.", attachment: "id,status\n1,late\n" });
+
+    const replayed = await extractFileState({
+      app,
+      state,
+      extractors: FILE_EXTRACTORS,
+      limits,
+    });
+    expect(replayed).toEqual(state);
+  });
+
+  it("rejects files outside the accept list, unknown formats and oversized uploads", async () => {
+    const attempt = (attachment: unknown, extractors = FILE_EXTRACTORS) =>
+      extractFileState({ app, state: { attachment }, extractors, limits }).catch(
+        (error: FileExtractionError) => ({ code: error.code, statusCode: error.statusCode }),
+      );
+
+    expect(await attempt(upload("notes.md", "text/markdown", "# Notes"))).toEqual({
+      code: "FILE_TYPE_NOT_ACCEPTED",
+      statusCode: 415,
+    });
+    expect(await attempt(upload("notes.txt", "text/plain", "hi"), [])).toEqual({
+      code: "UNSUPPORTED_FILE_TYPE",
+      statusCode: 415,
+    });
+    expect(await attempt(upload("big.txt", "text/plain", "x".repeat(2048)))).toEqual({
+      code: "FILE_TOO_LARGE",
+      statusCode: 413,
+    });
+    expect(await attempt(upload("long.txt", "text/plain", "x".repeat(500)))).toEqual({
+      code: "FILE_TEXT_TOO_LARGE",
+      statusCode: 413,
+    });
+    expect(await attempt(upload("binary.txt", "text/plain", Buffer.from([0xff, 0xfe, 0x00])))).toEqual({
+      code: "FILE_NOT_TEXT",
+      statusCode: 422,
+    });
+    expect(await attempt({ name: "missing-content.txt" })).toEqual({
+      code: "INVALID_FILE",
+      statusCode: 400,
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  UploadedFileSchema,
+  type AppDefinition,
+  type StateField,
+  type UploadedFile,
+} from "@form-builder/contracts";
+
+/**
+ * Turns one kind of uploaded file into prompt text. Register extractors in
+ * `infrastructure/file-extractors.ts`; the first one matching the file's extension or MIME type wins.
+ */
+export interface FileTextExtractor {
+  id: string;
+  /** Lower-case extensions including the dot, e.g. `.txt`. */
+  extensions: string[];
+  mimeTypes: string[];
+  extract(bytes: Buffer, file: UploadedFile): Promise<string>;
+}
+
+export interface FileLimits {
+  /** Largest accepted upload, after base64 decoding. A field's own `maxBytes` may lower it. */
+  maxBytes: number;
+  /** Longest extracted text handed to prompts. */
+  maxTextChars: number;
+}
+
+export class FileExtractionError extends Error {
+  constructor(
+    readonly code: string,
+    readonly statusCode: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "FileExtractionError";
+  }
+}
+
+type FileStateField = Extract<StateField, { type: "file" }>;
+
+function fileExtension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot).toLowerCase() : "";
+}
+
+function baseMimeType(mimeType: string): string {
+  return mimeType.split(";", 1)[0]?.trim().toLowerCase() ?? "";
+}
+
+// Same matching rules as the HTML `accept` attribute: `.ext`, `type/subtype` or `type/*`.
+function isAccepted(file: UploadedFile, accept: string[]): boolean {
+  const extension = fileExtension(file.name);
+  const mimeType = baseMimeType(file.mimeType);
+  return accept.some((entry) => {
+    const rule = entry.trim().toLowerCase();
+    if (rule.startsWith(".")) {
+      return rule === extension;
+    }
+    if (rule.endsWith("/*")) {
+      return mimeType.startsWith(rule.slice(0, -1));
+    }
+    return rule === mimeType;
+  });
+}
+
+export function findFileExtractor(
+  file: UploadedFile,
+  extractors: FileTextExtractor[],
+): FileTextExtractor | undefined {
+  const extension = fileExtension(file.name);
+  const mimeType = baseMimeType(file.mimeType);
+  return (
+    extractors.find((extractor) => extension && extractor.extensions.includes(extension)) ??
+    extractors.find((extractor) => mimeType && extractor.mimeTypes.includes(mimeType))
+  );
+}
+
+/** Decodes UTF-8 text, dropping a leading byte-order mark and normalizing line endings. */
+export function decodeUtf8Text(bytes: Buffer, fileName: string): string {
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    throw new FileExtractionError(
+      "FILE_NOT_TEXT",
+      422,
+      `File '${fileName}' is not valid UTF-8 text.`,
+    );
+  }
+  return text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+async function extractFile(
+  stateKey: string,
+  field: FileStateField,
+  value: unknown,
+  extractors: FileTextExtractor[],
+  limits: FileLimits,
+): Promise<string> {
+  const parsed = UploadedFileSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new FileExtractionError(
+      "INVALID_FILE",
+      400,
+      `State key '${stateKey}' must be an uploaded file ({ name, mimeType, contentBase64 }).`,
+    );
+  }
+
+  const file = parsed.data;
+  if (field.accept && field.accept.length > 0 && !isAccepted(file, field.accept)) {
+    throw new FileExtractionError(
+      "FILE_TYPE_NOT_ACCEPTED",
+      415,
+      `File '${file.name}' does not match ${field.accept.join(", ")}.`,
+    );
+  }
+
+  const extractor = findFileExtractor(file, extractors);
+  if (!extractor) {
+    throw new FileExtractionError(
+      "UNSUPPORTED_FILE_TYPE",
+      415,
+      `No text extractor handles '${file.name}' (${file.mimeType || "unknown type"}).`,
+    );
+  }
+
+  const maxBytes = Math.min(limits.maxBytes, field.maxBytes ?? Number.POSITIVE_INFINITY);
+  const bytes = Buffer.from(file.contentBase64, "base64");
+  if (bytes.length > maxBytes) {
+    throw new FileExtractionError(
+      "FILE_TOO_LARGE",
+      413,
+      `File '${file.name}' is ${bytes.length} bytes; the limit is ${maxBytes}.`,
+    );
+  }
+
+  return extractor.extract(bytes, file);
+}
+
+/**
+ * Replaces every uploaded file in `state` with its extracted text, so prompts can use file
+ * fields as ordinary `{{variables}}`. Strings are taken as already-extracted text, which keeps
+ * recorded runs replayable.
+ */
+export async function extractFileState(args: {
+  app: AppDefinition;
+  state: Record<string, unknown>;
+  extractors: FileTextExtractor[];
+  limits: FileLimits;
+}): Promise<Record<string, unknown>> {
+  const next = { ...args.state };
+
+  for (const [stateKey, field] of Object.entries(args.app.stateModel)) {
+    const value = next[stateKey];
+    if (field.type !== "file" || value === undefined || value === null) {
+      continue;
+    }
+
+    const text =
+      typeof value === "string"
+        ? value
+        : await extractFile(stateKey, field, value, args.extractors, args.limits);
+    if (text.length > args.limits.maxTextChars) {
+      throw new FileExtractionError(
+        "FILE_TEXT_TOO_LARGE",
+        413,
+        `State key '${stateKey}' holds ${text.length} characters of text; the limit is ${args.limits.maxTextChars}.`,
+      );
+    }
+    next[stateKey] = text;
+  }
+
+  return next;
+}
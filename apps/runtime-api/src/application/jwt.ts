@@ -0,0 +1,137 @@
+import {
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+  type JsonWebKey,
+} from "node:crypto";
+
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+const HASH_BY_SIZE: Record<string, string> = {
+  "256": "sha256",
+  "384": "sha384",
+  "512": "sha512",
+};
+
+export interface JwtKeys {
+  /** Shared secret for HS256/HS384/HS512. */
+  secret?: string | undefined;
+  /** Public keys for RS* and ES* tokens, matched by `kid` when the token names one. */
+  jwks?: { keys: Array<JsonWebKey & { kid?: string }> } | undefined;
+}
+
+export interface JwtExpectations {
+  issuer?: string | undefined;
+  audience?: string | undefined;
+  /** Accept tokens without an `exp` claim; by default they are rejected. */
+  allowMissingExpiry?: boolean | undefined;
+  nowMs?: number | undefined;
+}
+
+export type JwtClaims = Record<string, unknown>;
+
+export class JwtVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JwtVerificationError";
+  }
+}
+
+function decodeSegment(segment: string, label: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as unknown;
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+  } catch {
+    // Reported below.
+  }
+  throw new JwtVerificationError(`Token ${label} is not a JSON object.`);
+}
+
+function verifySignature(
+  alg: string,
+  kid: string | undefined,
+  signingInput: string,
+  signature: Buffer,
+  keys: JwtKeys,
+): boolean {
+  const family = alg.slice(0, 2);
+  const hash = HASH_BY_SIZE[alg.slice(2)];
+  if (!hash) {
+    throw new JwtVerificationError(`Unsupported token algorithm '${alg}'.`);
+  }
+
+  if (family === "HS") {
+    if (!keys.secret) {
+      throw new JwtVerificationError(`No secret configured for '${alg}' tokens.`);
+    }
+    const expected = createHmac(hash, keys.secret).update(signingInput).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+  }
+
+  const kty = family === "RS" ? "RSA" : family === "ES" ? "EC" : null;
+  if (!kty) {
+    throw new JwtVerificationError(`Unsupported token algorithm '${alg}'.`);
+  }
+  const candidates = (keys.jwks?.keys ?? []).filter(
+    (key) => key.kty === kty && (!kid || key.kid === kid) && (!key.alg || key.alg === alg),
+  );
+  if (candidates.length === 0) {
+    throw new JwtVerificationError(`No ${kty} key${kid ? ` with kid '${kid}'` : ""} for '${alg}' tokens.`);
+  }
+  return candidates.some((jwk) => {
+    let key;
+    try {
+      key = createPublicKey({ key: jwk, format: "jwk" });
+    } catch (error) {
+      throw new JwtVerificationError(
+        `Key${jwk.kid ? ` '${jwk.kid}'` : ""} is not a valid ${kty} JWK: ${(error as Error).message}`,
+      );
+    }
+    return verify(hash, Buffer.from(signingInput), { key, dsaEncoding: "ieee-p1363" }, signature);
+  });
+}
+
+/**
+ * Verifies a compact JWS and its registered time, issuer and audience claims.
+ * Returns the claims; throws `JwtVerificationError` for anything it does not accept.
+ */
+export function verifyJwt(token: string, keys: JwtKeys, expectations: JwtExpectations = {}): JwtClaims {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new JwtVerificationError("Token is not a JWT.");
+  }
+  const [headerSegment = "", payloadSegment = "", signatureSegment = ""] = parts;
+  const header = decodeSegment(headerSegment, "header");
+  const claims = decodeSegment(payloadSegment, "payload");
+
+  const alg = typeof header.alg === "string" ? header.alg : "";
+  const kid = typeof header.kid === "string" ? header.kid : undefined;
+  const signature = Buffer.from(signatureSegment, "base64url");
+  if (!verifySignature(alg, kid, `${headerSegment}.${payloadSegment}`, signature, keys)) {
+    throw new JwtVerificationError("Token signature is invalid.");
+  }
+
+  const now = Math.floor((expectations.nowMs ?? Date.now()) / 1000);
+  if (typeof claims.exp !== "number" && !expectations.allowMissingExpiry) {
+    throw new JwtVerificationError("Token has no expiry ('exp' claim).");
+  }
+  if (typeof claims.exp === "number" && now - CLOCK_TOLERANCE_SECONDS >= claims.exp) {
+    throw new JwtVerificationError("Token has expired.");
+  }
+  if (typeof claims.nbf === "number" && now + CLOCK_TOLERANCE_SECONDS < claims.nbf) {
+    throw new JwtVerificationError("Token is not valid yet.");
+  }
+  if (expectations.issuer && claims.iss !== expectations.issuer) {
+    throw new JwtVerificationError(`Token issuer must be '${expectations.issuer}'.`);
+  }
+  if (expectations.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(expectations.audience)) {
+      throw new JwtVerificationError(`Token audience must include '${expectations.audience}'.`);
+    }
+  }
+  return claims;
+}
@@ -0,0 +1,38 @@
+import type { DeploymentStore } from "./deployments.js";
+import type { ProjectStore } from "./project-store.js";
+
+export interface ProjectMigrationResult {
+  projects: number;
+  versions: number;
+  deployments: number;
+}
+
+/**
+ * Copies every project, archived ones included, with all stored versions and, when deployment
+ * stores are given, its deploy history; existing targets are replaced.
+ */
+export async function migrateProjects(
+  source: ProjectStore,
+  target: ProjectStore,
+  onProject?: (projectId: string, versions: number) => void,
+  deployments?: { source: DeploymentStore; target: DeploymentStore },
+): Promise<ProjectMigrationResult> {
+  const result: ProjectMigrationResult = { projects: 0, versions: 0, deployments: 0 };
+  for (const entry of await source.list({ includeArchived: true })) {
+    const project = await source.exportProject(entry.id);
+    if (!project) {
+      continue;
+    }
+    await target.importProject(project);
+    onProject?.(entry.id, project.versions.length);
+    result.projects += 1;
+    result.versions += project.versions.length;
+
+    const history = await deployments?.source.get(entry.id);
+    if (deployments && history && history.history.length > 0) {
+      await deployments.target.save(history);
+      result.deployments += history.history.length;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,129 @@
+import { AppDefinitionSchema } from "@form-builder/contracts";
+import {
+  isProjectMeta,
+  isSafeProjectId,
+  isSafeVersionId,
+  type ProjectExport,
+  type ProjectMetaV1,
+  type ProjectVersionV1,
+} from "./project-store.js";
+import { createTarGz, readTarGz } from "./tar.js";
+
+export const PROJECT_ARCHIVE_KIND = "form-first-builder-project-archive-v1";
+export const PROJECT_ARCHIVE_EXTENSION = ".ffproj";
+const MAX_PROJECT_ARCHIVE_UNPACKED_BYTES = 100 * 1024 * 1024;
+
+export interface ProjectArchiveManifestV1 {
+  kind: typeof PROJECT_ARCHIVE_KIND;
+  projectId: string;
+  exportedAt: string;
+  versionCount: number;
+}
+
+export class ProjectArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectArchiveError";
+  }
+}
+
+/**
+ * Packs a project as a gzipped tar: `manifest.json`, `project.json` and one
+ * `versions/<versionId>.json` per stored version. Deploy history is instance-specific and not included.
+ */
+export function createProjectArchive(project: ProjectExport): Buffer {
+  const manifest: ProjectArchiveManifestV1 = {
+    kind: PROJECT_ARCHIVE_KIND,
+    projectId: project.meta.id,
+    exportedAt: new Date().toISOString(),
+    versionCount: project.versions.length,
+  };
+  const meta: ProjectMetaV1 = { ...project.meta, deletedAt: undefined };
+
+  return createTarGz([
+    { path: "manifest.json", content: JSON.stringify(manifest, null, 2) },
+    { path: "project.json", content: JSON.stringify(meta, null, 2) },
+    ...project.versions.map((version) => ({
+      path: `versions/${version.id}.json`,
+      content: JSON.stringify(version, null, 2),
+    })),
+  ]);
+}
+
+function parseJsonEntry(path: string, content: string): unknown {
+  try {
+    return JSON.parse(content) as unknown;
+  } catch {
+    throw new ProjectArchiveError(`'${path}' is not valid JSON.`);
+  }
+}
+
+/** Unpacks and checks an archive written by `createProjectArchive`. */
+export function readProjectArchive(archive: Buffer): ProjectExport {
+  let entries: Array<{ path: string; content: string }>;
+  try {
+    entries = readTarGz(archive, MAX_PROJECT_ARCHIVE_UNPACKED_BYTES);
+  } catch (error) {
+    throw new ProjectArchiveError(`Not a project archive: ${(error as Error).message}`);
+  }
+  const files = new Map(entries.map((entry) => [entry.path, entry.content]));
+
+  const manifestRaw = files.get("manifest.json");
+  const manifest = manifestRaw
+    ? (parseJsonEntry("manifest.json", manifestRaw) as Partial<ProjectArchiveManifestV1> | null)
+    : null;
+  if (manifest?.kind !== PROJECT_ARCHIVE_KIND) {
+    throw new ProjectArchiveError(
+      `Unsupported archive format '${String(manifest?.kind ?? "unknown")}' (expected ${PROJECT_ARCHIVE_KIND}).`,
+    );
+  }
+
+  const metaRaw = files.get("project.json");
+  const meta = metaRaw ? parseJsonEntry("project.json", metaRaw) : null;
+  if (!isProjectMeta(meta) || !isSafeProjectId(meta.id)) {
+    throw new ProjectArchiveError("Archive has no valid project.json.");
+  }
+
+  const versions: ProjectVersionV1[] = [];
+  for (const [path, content] of [...files].sort(([a], [b]) => a.localeCompare(b))) {
+    const match = /^versions\/([^/]+)\.json$/.exec(path);
+    if (!match) {
+      continue;
+    }
+    const version = parseJsonEntry(path, content) as ProjectVersionV1 | null;
+    if (
+      version?.kind !== "form-first-builder-project-version-v1" ||
+      version.id !== match[1] ||
+      !isSafeVersionId(version.id)
+    ) {
+      throw new ProjectArchiveError(`'${path}' is not a project version.`);
+    }
+    const parsedApp = AppDefinitionSchema.safeParse(version.appDefinition);
+    if (!parsedApp.success) {
+      throw new ProjectArchiveError(`'${path}' has an invalid appDefinition.`);
+    }
+    versions.push({ ...version, appDefinition: parsedApp.data });
+  }
+
+  if (!versions.some((version) => version.id === meta.latestVersionId)) {
+    throw new ProjectArchiveError(
+      `Archive is missing the latest version '${meta.latestVersionId}'.`,
+    );
+  }
+
+  return { meta: { ...meta, deletedAt: undefined }, versions };
+}
+
+/** First free id among `<projectId>_imported`, `<projectId>_imported_2`, ... */
+export async function findFreeProjectId(
+  projectId: string,
+  exists: (candidateId: string) => Promise<boolean>,
+): Promise<string> {
+  const base = `${projectId.slice(0, 70)}_imported`;
+  for (let attempt = 1; ; attempt += 1) {
+    const candidate = attempt === 1 ? base : `${base}_${attempt}`;
+    if (!(await exists(candidate))) {
+      return candidate;
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import type { AppDefinition } from "@form-builder/contracts";
+
+const PROJECT_VERSION_INDEX_LIMIT = 50;
+
+export interface ProjectIndexEntry {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  latestVersionId: string;
+  archivedAt?: string | undefined;
+}
+
+export interface ProjectVersionIndexEntry {
+  id: string;
+  savedAt: string;
+  note?: string | undefined;
+  /** Name of the API key that saved the version, when keys are configured. */
+  savedBy?: string | undefined;
+}
+
+export interface ProjectMetaV1 extends ProjectIndexEntry {
+  kind: "form-first-builder-project-v1";
+  versions: ProjectVersionIndexEntry[];
+  deletedAt?: string | undefined;
+}
+
+export interface ProjectVersionV1 {
+  kind: "form-first-builder-project-version-v1";
+  id: string;
+  savedAt: string;
+  appDefinition: AppDefinition;
+  workspaceSnapshot?: unknown | undefined;
+  previewStateDraft?: string | undefined;
+  previewStateDirty?: boolean | undefined;
+  note?: string | undefined;
+  savedBy?: string | undefined;
+}
+
+export interface ProjectVersionInput {
+  name?: string | undefined;
+  note?: string | undefined;
+  appDefinition: AppDefinition;
+  workspaceSnapshot?: unknown | undefined;
+  previewStateDraft?: string | undefined;
+  previewStateDirty?: boolean | undefined;
+  /** When set, the save fails with `ProjectVersionConflictError` unless this is still the latest version. */
+  baseVersionId?: string | undefined;
+  savedBy?: string | undefined;
+}
+
+export interface ProjectMetaChanges {
+  name?: string | undefined;
+  archived?: boolean | undefined;
+}
+
+/** A project with every stored version (not only the indexed newest 50), used for migration and export. */
+export interface ProjectExport {
+  meta: ProjectMetaV1;
+  versions: ProjectVersionV1[];
+}
+
+export interface ProjectStore {
+  list(options: { includeArchived: boolean }): Promise<ProjectIndexEntry[]>;
+  getMeta(projectId: string): Promise<ProjectMetaV1 | null>;
+  getVersion(projectId: string, versionId: string): Promise<ProjectVersionV1 | null>;
+  appendVersion(
+    projectId: string,
+    input: ProjectVersionInput,
+  ): Promise<{ project: ProjectMetaV1; saved: ProjectVersionV1 }>;
+  updateMeta(projectId: string, changes: ProjectMetaChanges): Promise<ProjectMetaV1>;
+  duplicate(projectId: string, targetId: string, name?: string | undefined): Promise<ProjectMetaV1>;
+  trash(projectId: string): Promise<ProjectMetaV1>;
+  listTrash(): Promise<ProjectMetaV1[]>;
+  restoreFromTrash(projectId: string): Promise<ProjectMetaV1>;
+  exportProject(projectId: string): Promise<ProjectExport | null>;
+  /** Writes a project as-is, replacing any existing project with the same id. */
+  importProject(project: ProjectExport): Promise<void>;
+}
+
+export class ProjectNotFoundError extends Error {
+  constructor(projectId: string) {
+    super(`Project '${projectId}' not found.`);
+    this.name = "ProjectNotFoundError";
+  }
+}
+
+export class ProjectVersionConflictError extends Error {
+  constructor(
+    readonly baseVersionId: string,
+    readonly latestVersionId: string | null,
+  ) {
+    super(
+      latestVersionId
+        ? `Project was saved as '${latestVersionId}' since version '${baseVersionId}'.`
+        : `Project no longer exists; version '${baseVersionId}' is stale.`,
+    );
+    this.name = "ProjectVersionConflictError";
+  }
+}
+
+export class ProjectExistsError extends Error {
+  constructor(projectId: string) {
+    super(`Project '${projectId}' already exists.`);
+    this.name = "ProjectExistsError";
+  }
+}
+
+export function isSafeProjectId(projectId: string): boolean {
+  return /^[a-zA-Z0-9_-]{3,80}$/.test(projectId);
+}
+
+export function isSafeVersionId(versionId: string): boolean {
+  return /^[a-zA-Z0-9_-]{1,80}$/.test(versionId);
+}
+
+export function isProjectMeta(value: unknown): value is ProjectMetaV1 {
+  const record = value as Record<string, unknown> | null;
+  return (
+    !!record &&
+    typeof record === "object" &&
+    record.kind === "form-first-builder-project-v1" &&
+    typeof record.id === "string" &&
+    typeof record.name === "string" &&
+    typeof record.createdAt === "string" &&
+    typeof record.updatedAt === "string" &&
+    typeof record.latestVersionId === "string"
+  );
+}
+
+export function toProjectIndexEntry(meta: ProjectMetaV1): ProjectIndexEntry {
+  return {
+    id: meta.id,
+    name: meta.name,
+    createdAt: meta.createdAt,
+    updatedAt: meta.updatedAt,
+    latestVersionId: meta.latestVersionId,
+    ...(meta.archivedAt ? { archivedAt: meta.archivedAt } : {}),
+  };
+}
+
+/**
+ * Builds the metadata and version record for a save on top of `meta` (null for a new project).
+ * Both stores call this so conflict checks and the version index behave the same.
+ */
+export function prepareProjectVersion(
+  projectId: string,
+  meta: ProjectMetaV1 | null,
+  input: ProjectVersionInput,
+): { project: ProjectMetaV1; saved: ProjectVersionV1 } {
+  if (input.baseVersionId && input.baseVersionId !== meta?.latestVersionId) {
+    throw new ProjectVersionConflictError(input.baseVersionId, meta?.latestVersionId ?? null);
+  }
+
+  const now = new Date().toISOString();
+  const versionId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const indexEntry: ProjectVersionIndexEntry = {
+    id: versionId,
+    savedAt: now,
+    note: input.note,
+    savedBy: input.savedBy,
+  };
+  const project: ProjectMetaV1 = meta
+    ? {
+        ...meta,
+        name: input.name?.trim() || meta.name,
+        updatedAt: now,
+        latestVersionId: versionId,
+        versions: [
+          indexEntry,
+          ...meta.versions,
+        ].slice(0, PROJECT_VERSION_INDEX_LIMIT),
+      }
+    : {
+        kind: "form-first-builder-project-v1",
+        id: projectId,
+        name: input.name?.trim() || projectId,
+        createdAt: now,
+        updatedAt: now,
+        latestVersionId: versionId,
+        versions: [indexEntry],
+      };
+
+  const saved: ProjectVersionV1 = {
+    kind: "form-first-builder-project-version-v1",
+    id: versionId,
+    savedAt: now,
+    appDefinition: input.appDefinition,
+    workspaceSnapshot: input.workspaceSnapshot,
+    previewStateDraft: input.previewStateDraft,
+    previewStateDirty: input.previewStateDirty,
+    note: input.note,
+    savedBy: input.savedBy,
+  };
+
+  return { project, saved };
+}
+
+export function applyProjectMetaChanges(
+  meta: ProjectMetaV1,
+  changes: ProjectMetaChanges,
+): ProjectMetaV1 {
+  const now = new Date().toISOString();
+  return {
+    ...meta,
+    name: changes.name?.trim() || meta.name,
+    updatedAt: now,
+    archivedAt:
+      changes.archived === undefined
+        ? meta.archivedAt
+        : changes.archived
+          ? (meta.archivedAt ?? now)
+          : undefined,
+  };
+}
+
+export function duplicateProjectMeta(
+  meta: ProjectMetaV1,
+  targetId: string,
+  name?: string | undefined,
+): ProjectMetaV1 {
+  const now = new Date().toISOString();
+  return {
+    ...meta,
+    id: targetId,
+    name: name?.trim() || `${meta.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+    archivedAt: undefined,
+  };
+}
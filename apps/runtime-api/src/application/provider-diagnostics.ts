@@ -0,0 +1,33 @@
+import type { AppDefinition } from "@form-builder/contracts";
+import type { Diagnostic } from "@form-builder/compiler";
+
+/**
+ * Errors for PromptTask model policies, fallbacks included, that name a provider outside
+ * `providerIds`. The app schema accepts any well-formed slug, so a typo would otherwise only
+ * surface as `Unknown provider` when the event first runs.
+ */
+export function unknownProviderDiagnostics(
+  app: AppDefinition,
+  providerIds: readonly string[],
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const event of app.events) {
+    for (const node of event.actionGraph.nodes) {
+      if (node.kind !== "PromptTask") {
+        continue;
+      }
+      const { modelPolicy } = node.promptSpec;
+      for (const target of [modelPolicy, ...(modelPolicy.fallbacks ?? [])]) {
+        if (!providerIds.includes(target.provider)) {
+          diagnostics.push({
+            code: "MODEL_PROVIDER_UNKNOWN",
+            severity: "error",
+            path: `events.${event.id}.actionGraph.nodes.${node.id}.promptSpec.modelPolicy`,
+            message: `PromptTask '${node.id}' in event '${event.id}' uses unknown provider '${target.provider}' (known: ${providerIds.join(", ")}).`,
+          });
+        }
+      }
+    }
+  }
+  return diagnostics;
+}
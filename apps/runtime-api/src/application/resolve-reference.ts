@@ -0,0 +1,26 @@
+function readPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (!current || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+// Resolves either a plain state key or a `$nodeId.output[.path]` reference.
+export function resolveReference(
+  expression: string,
+  state: Record<string, unknown>,
+  nodeOutputs: Record<string, unknown>,
+): unknown {
+  const match = expression.trim().match(/^\$([^.]+)\.output(?:\.(.+))?$/);
+  if (!match) {
+    return state[expression.trim()];
+  }
+
+  const nodeId = match[1] ?? "";
+  const path = match[2] ? match[2].split(".") : [];
+  return readPath(nodeOutputs[nodeId], path);
+}
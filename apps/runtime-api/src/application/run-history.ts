@@ -0,0 +1,210 @@
+import type {
+  AppDefinition,
+  EventLog,
+  ExecuteEventResponse,
+  ModelPolicy,
+  NodeUsage,
+  TokenUsage,
+} from "@form-builder/contracts";
+import type { RegisteredApp } from "../domain/app-registry.js";
+import type { LlmProvider } from "../orchestrator/types.js";
+import type { DeploymentStore } from "./deployments.js";
+import {
+  EventExecutionError,
+  executeEvent,
+  type ExecuteEventOptions,
+  type NodeTrace,
+} from "./execute-event.js";
+
+export interface RunNodeRecord extends NodeTrace {
+  durationMs?: number | undefined;
+}
+
+export interface RunRecordV1 {
+  kind: "form-builder-run-v1";
+  id: string;
+  appId: string;
+  appVersion: string;
+  eventId: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  status: "ok" | "error";
+  state: Record<string, unknown>;
+  replayOf?: string | undefined;
+  modelPolicyOverride?: ModelPolicy | undefined;
+  nodes: RunNodeRecord[];
+  statePatch: Record<string, unknown>;
+  logs: EventLog[];
+  usage?: TokenUsage | undefined;
+  estimatedCostUsd?: number | undefined;
+  nodeUsage?: NodeUsage[] | undefined;
+  error?: string | undefined;
+}
+
+export type RunSummary = Pick<
+  RunRecordV1,
+  "id" | "eventId" | "startedAt" | "durationMs" | "status" | "replayOf"
+> & { estimatedCostUsd: number | null };
+
+export interface RunStore {
+  save(record: RunRecordV1): Promise<void>;
+  list(appId: string, limit: number): Promise<RunSummary[]>;
+  get(appId: string, runId: string): Promise<RunRecordV1 | null>;
+}
+
+export function summarizeRun(record: RunRecordV1): RunSummary {
+  return {
+    id: record.id,
+    eventId: record.eventId,
+    startedAt: record.startedAt,
+    durationMs: record.durationMs,
+    status: record.status,
+    ...(record.replayOf ? { replayOf: record.replayOf } : {}),
+    estimatedCostUsd: record.estimatedCostUsd ?? null,
+  };
+}
+
+/**
+ * The app definition a replay runs: the registered app while it still has the run's `appVersion`,
+ * otherwise the newest deployment of that version from the publishing project's history.
+ * Null when the recorded version is no longer available.
+ */
+export async function resolveReplayApp(
+  run: Pick<RunRecordV1, "appVersion">,
+  registered: RegisteredApp | undefined,
+  deployments: DeploymentStore,
+  loadApp: (projectId: string, versionId: string) => Promise<AppDefinition | null>,
+): Promise<AppDefinition | null> {
+  if (!registered) {
+    return null;
+  }
+  if (registered.app.version === run.appVersion) {
+    return registered.app;
+  }
+  if (!registered.deployment) {
+    return null;
+  }
+
+  const { history } = await deployments.get(registered.deployment.projectId);
+  const recorded = history.find((entry) => entry.appVersion === run.appVersion);
+  if (!recorded) {
+    return null;
+  }
+  const app = await loadApp(recorded.projectId, recorded.versionId);
+  return app?.version === run.appVersion ? app : null;
+}
+
+/** Replaces the model policy of every PromptTask in `eventId`, leaving the rest of the app intact. */
+export function withModelPolicyOverride(
+  app: AppDefinition,
+  eventId: string,
+  modelPolicy: ModelPolicy,
+): AppDefinition {
+  return {
+    ...app,
+    events: app.events.map((event) =>
+      event.id !== eventId
+        ? event
+        : {
+            ...event,
+            actionGraph: {
+              ...event.actionGraph,
+              nodes: event.actionGraph.nodes.map((node) =>
+                node.kind === "PromptTask"
+                  ? { ...node, promptSpec: { ...node.promptSpec, modelPolicy } }
+                  : node,
+              ),
+            },
+          },
+    ),
+  };
+}
+
+/**
+ * Runs `executeEvent` and, when a store is given, persists what happened: input state, node
+ * outputs with the exact prompts and raw replies, per-node timings, logs, usage and any error.
+ * The execution result or error is passed through unchanged; a failed save never fails the run.
+ * `onRecord` sees the record with or without a store, including the usage of a failed run.
+ */
+export async function executeAndRecordRun(args: {
+  app: AppDefinition;
+  eventId: string;
+  state: Record<string, unknown>;
+  providers: Record<string, LlmProvider>;
+  options: ExecuteEventOptions;
+  store: RunStore | null;
+  runId: string;
+  replayOf?: string | undefined;
+  modelPolicyOverride?: ModelPolicy | undefined;
+  onRecord?: ((record: RunRecordV1) => void | Promise<void>) | undefined;
+}): Promise<ExecuteEventResponse> {
+  const { store, options } = args;
+
+  const startedAt = new Date();
+  const nodes: RunNodeRecord[] = [];
+  const nodeStartedAt = new Map<string, number>();
+  const logs: EventLog[] = [];
+  const statePatch: Record<string, unknown> = {};
+
+  let result: ExecuteEventResponse | undefined;
+  let error: Error | undefined;
+  try {
+    result = await executeEvent(args.app, args.eventId, args.state, args.providers, {
+      ...options,
+      onTrace: (trace) => {
+        const started = nodeStartedAt.get(trace.nodeId);
+        nodes.push({ ...trace, ...(started ? { durationMs: Date.now() - started } : {}) });
+        options.onTrace?.(trace);
+      },
+      onEvent: (event) => {
+        if (event.type === "node-start") {
+          nodeStartedAt.set(event.nodeId, Date.now());
+        } else if (event.type === "log") {
+          logs.push(event.log);
+        } else if (event.type === "state-patch") {
+          Object.assign(statePatch, event.statePatch);
+        }
+        options.onEvent?.(event);
+      },
+    });
+  } catch (caught) {
+    error = caught as Error;
+  }
+
+  const finishedAt = new Date();
+  const runUsage = result ?? (error instanceof EventExecutionError ? error.runUsage : undefined);
+  const record: RunRecordV1 = {
+    kind: "form-builder-run-v1",
+    id: args.runId,
+    appId: args.app.appId,
+    appVersion: args.app.version,
+    eventId: args.eventId,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    status: error ? "error" : "ok",
+    state: args.state,
+    ...(args.replayOf ? { replayOf: args.replayOf } : {}),
+    ...(args.modelPolicyOverride ? { modelPolicyOverride: args.modelPolicyOverride } : {}),
+    nodes,
+    statePatch: result?.statePatch ?? statePatch,
+    logs: result?.logs ?? logs,
+    ...(runUsage
+      ? {
+          usage: runUsage.usage,
+          estimatedCostUsd: runUsage.estimatedCostUsd,
+          nodeUsage: runUsage.nodeUsage,
+        }
+      : {}),
+    ...(error ? { error: error.message } : {}),
+  };
+
+  await args.onRecord?.(record);
+  await store?.save(record).catch(() => undefined);
+
+  if (error || !result) {
+    throw error ?? new Error("Event execution produced no result.");
+  }
+  return result;
+}
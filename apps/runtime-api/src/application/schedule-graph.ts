@@ -0,0 +1,67 @@
+/**
+ * Runs every node of a DAG as soon as all of its predecessors have finished, with at most
+ * `concurrency` nodes in flight. Ready nodes start in `order` (a topological order), so the
+ * schedule is reproducible for a given graph. After the first failure no new nodes start;
+ * in-flight nodes are awaited and the failure of the earliest node in `order` is rethrown.
+ */
+export async function scheduleGraph(args: {
+  order: string[];
+  edges: Array<{ from: string; to: string }>;
+  concurrency: number;
+  run: (nodeId: string) => Promise<void>;
+}): Promise<void> {
+  const position = new Map(args.order.map((id, index) => [id, index]));
+  const indegree = new Map<string, number>(args.order.map((id) => [id, 0]));
+  const outgoing = new Map<string, string[]>(args.order.map((id) => [id, []]));
+  for (const edge of args.edges) {
+    outgoing.get(edge.from)?.push(edge.to);
+    indegree.set(edge.to, (indegree.get(edge.to) ?? 0) + 1);
+  }
+
+  const ready = args.order.filter((id) => indegree.get(id) === 0);
+  const running = new Map<string, Promise<void>>();
+  const failures = new Map<string, unknown>();
+  const limit = Math.max(1, Math.floor(args.concurrency));
+
+  const start = (nodeId: string): void => {
+    const task = args
+      .run(nodeId)
+      .then(() => {
+        for (const next of outgoing.get(nodeId) ?? []) {
+          const remaining = (indegree.get(next) ?? 0) - 1;
+          indegree.set(next, remaining);
+          if (remaining === 0) {
+            ready.push(next);
+          }
+        }
+        ready.sort((a, b) => (position.get(a) ?? 0) - (position.get(b) ?? 0));
+      })
+      .catch((error: unknown) => {
+        failures.set(nodeId, error);
+      })
+      .finally(() => {
+        running.delete(nodeId);
+      });
+    running.set(nodeId, task);
+  };
+
+  while (ready.length > 0 || running.size > 0) {
+    while (failures.size === 0 && ready.length > 0 && running.size < limit) {
+      const nodeId = ready.shift();
+      if (nodeId) {
+        start(nodeId);
+      }
+    }
+    if (running.size === 0) {
+      break;
+    }
+    await Promise.race(running.values());
+  }
+
+  if (failures.size > 0) {
+    const first = [...failures.keys()].sort(
+      (a, b) => (position.get(a) ?? 0) - (position.get(b) ?? 0),
+    )[0];
+    throw first !== undefined ? failures.get(first) : new Error("Graph execution failed.");
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { AppDefinition, ScheduledEventResult } from "@form-builder/contracts";
+import { createEventScheduler, type ScheduledResultStore } from "./scheduled-events.js";
+import { defaultApp } from "../domain/apps/default-app.js";
+
+const [analyze] = defaultApp.events;
+const app: AppDefinition = {
+  ...defaultApp,
+  events: [
+    ...defaultApp.events,
+    {
+      ...analyze!,
+      id: "evt_daily_summary",
+      trigger: {
+        event: "schedule",
+        cron: "0 7 * * *",
+        state: { customerComplaint: "Summarize yesterday." },
+      },
+    },
+  ],
+};
+
+function memoryStore(): ScheduledResultStore & { results: Map<string, ScheduledEventResult> } {
+  const results = new Map<string, ScheduledEventResult>();
+  return {
+    results,
+    async save(result) {
+      results.set(`${result.appId}/${result.eventId}`, result);
+    },
+    async get(appId, eventId) {
+      return results.get(`${appId}/${eventId}`) ?? null;
+    },
+  };
+}
+
+describe("createEventScheduler", () => {
+  it("runs scheduled events with their stored state when due and saves the statePatch", async () => {
+    const store = memoryStore();
+    const calls: Array<{ eventId: string; state: Record<string, unknown> }> = [];
+    let fail = false;
+    let runs = 0;
+    const scheduler = createEventScheduler({
+      apps: () => [app],
+      execute: async (_app, eventId, state) => {
+        calls.push({ eventId, state });
+        if (fail) {
+          throw new Error("provider down");
+        }
+        return {
+          statePatch: { analysisRows: [{ reply: "All quiet." }] },
+          logs: [],
+          usage: { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0 },
+          estimatedCostUsd: 0,
+          nodeUsage: [],
+        };
+      },
+      createRunId: () => `run_${++runs}`,
+      store,
+    });
+
+    // The first tick only schedules; nothing runs before the next occurrence.
+    await scheduler.tick(new Date("2026-10-19T06:59:00Z"));
+    expect(calls).toEqual([]);
+
+    await scheduler.tick(new Date("2026-10-19T07:00:10Z"));
+    await scheduler.tick(new Date("2026-10-19T07:00:25Z"));
+    expect(calls).toEqual([
+      { eventId: "evt_daily_summary", state: { customerComplaint: "Summarize yesterday." } },
+    ]);
+    expect(await store.get(app.appId, "evt_daily_summary")).toMatchObject({
+      runId: "run_1",
+      ranAt: "2026-10-19T07:00:10.000Z",
+      status: "ok",
+      statePatch: { analysisRows: [{ reply: "All quiet." }] },
+    });
+
+    fail = true;
+    await scheduler.tick(new Date("2026-10-20T07:00:00Z"));
+    expect(await store.get(app.appId, "evt_daily_summary")).toMatchObject({
+      runId: "run_2",
+      status: "error",
+      error: "provider down",
+      statePatch: { analysisRows: [{ reply: "All quiet." }] },
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { CronExpressionError, nextCronOccurrence, parseCronExpression } from "@form-builder/compiler";
+import type {
+  AppDefinition,
+  ExecuteEventResponse,
+  ScheduledEventResult,
+} from "@form-builder/contracts";
+
+export interface ScheduledResultStore {
+  save(result: ScheduledEventResult): Promise<void>;
+  get(appId: string, eventId: string): Promise<ScheduledEventResult | null>;
+}
+
+export interface ScheduledEvent {
+  app: AppDefinition;
+  eventId: string;
+  cron: string;
+  state: Record<string, unknown>;
+}
+
+export interface EventScheduler {
+  /** Starts every scheduled event whose next occurrence is at or before `now`. */
+  tick(now: Date): Promise<void>;
+  start(intervalMs: number): void;
+  stop(): void;
+}
+
+interface ScheduleEntry {
+  cron: string;
+  nextRunAt: Date | null;
+}
+
+export function listScheduledEvents(apps: Iterable<AppDefinition>): ScheduledEvent[] {
+  const scheduled: ScheduledEvent[] = [];
+  for (const app of apps) {
+    for (const event of app.events) {
+      if (event.trigger.event === "schedule" && event.trigger.cron) {
+        scheduled.push({
+          app,
+          eventId: event.id,
+          cron: event.trigger.cron,
+          state: event.trigger.state ?? {},
+        });
+      }
+    }
+  }
+  return scheduled;
+}
+
+/**
+ * Runs `schedule` events with their stored state whenever their cron expression comes due, and
+ * saves each run's `statePatch` for clients to fetch. A new or changed schedule waits for its next
+ * occurrence rather than running at once; a run still in progress is never started twice. A
+ * failed run records its error but keeps the last good `statePatch`.
+ */
+export function createEventScheduler(options: {
+  apps: () => Iterable<AppDefinition>;
+  execute: (
+    app: AppDefinition,
+    eventId: string,
+    state: Record<string, unknown>,
+    runId: string,
+  ) => Promise<ExecuteEventResponse>;
+  createRunId: () => string;
+  store: ScheduledResultStore;
+  onError?: (error: Error, appId: string, eventId: string) => void;
+}): EventScheduler {
+  const entries = new Map<string, ScheduleEntry>();
+  const running = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+
+  const nextRunAt = (key: string, job: ScheduledEvent, now: Date): Date | null => {
+    const existing = entries.get(key);
+    if (existing && existing.cron === job.cron) {
+      return existing.nextRunAt;
+    }
+    let next: Date | null = null;
+    try {
+      next = nextCronOccurrence(parseCronExpression(job.cron), now);
+    } catch (error) {
+      if (!(error instanceof CronExpressionError)) {
+        throw error;
+      }
+      options.onError?.(error, job.app.appId, job.eventId);
+    }
+    entries.set(key, { cron: job.cron, nextRunAt: next });
+    return next;
+  };
+
+  const run = async (job: ScheduledEvent, ranAt: Date): Promise<void> => {
+    const runId = options.createRunId();
+    const base = {
+      appId: job.app.appId,
+      appVersion: job.app.version,
+      eventId: job.eventId,
+      runId,
+      ranAt: ranAt.toISOString(),
+    };
+    let result: ScheduledEventResult;
+    try {
+      const response = await options.execute(job.app, job.eventId, job.state, runId);
+      result = { ...base, status: "ok", statePatch: response.statePatch };
+    } catch (error) {
+      options.onError?.(error as Error, job.app.appId, job.eventId);
+      const previous = await options.store.get(job.app.appId, job.eventId).catch(() => null);
+      result = {
+        ...base,
+        status: "error",
+        statePatch: previous?.statePatch ?? {},
+        error: (error as Error).message,
+      };
+    }
+    await options.store.save(result);
+  };
+
+  const tick = async (now: Date): Promise<void> => {
+    const due: Promise<void>[] = [];
+    const seen = new Set<string>();
+
+    for (const job of listScheduledEvents(options.apps())) {
+      const key = `${job.app.appId}/${job.eventId}`;
+      seen.add(key);
+      const next = nextRunAt(key, job, now);
+      if (!next || next.getTime() > now.getTime() || running.has(key)) {
+        continue;
+      }
+
+      entries.set(key, {
+        cron: job.cron,
+        nextRunAt: nextCronOccurrence(parseCronExpression(job.cron), now),
+      });
+      running.add(key);
+      due.push(
+        run(job, now)
+          .catch((error: Error) => options.onError?.(error, job.app.appId, job.eventId))
+          .finally(() => running.delete(key)),
+      );
+    }
+
+    // Forget events that were removed, so re-adding one starts from its next occurrence.
+    for (const key of entries.keys()) {
+      if (!seen.has(key)) {
+        entries.delete(key);
+      }
+    }
+    await Promise.all(due);
+  };
+
+  return {
+    tick,
+    start(intervalMs: number): void {
+      if (timer) {
+        return;
+      }
+      timer = setInterval(() => void tick(new Date()), intervalMs);
+      timer.unref();
+    },
+    stop(): void {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+  };
+}
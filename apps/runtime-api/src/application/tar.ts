@@ -1,4 +1,4 @@
-import { gzipSync } from "node:zlib";
+import { gunzipSync, gzipSync } from "node:zlib";
 
 function pad(value: string, length: number): Buffer {
   const buf = Buffer.alloc(length, 0);
@@ -86,3 +86,55 @@ export function createTarGz(files: Array<{ path: string; content: string }>): Bu
   return gzipSync(tar, { level: 9 });
 }
 
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString("utf8");
+}
+
+/**
+ * Reads regular files from a gzipped ustar archive such as `createTarGz` writes.
+ * Directories and other entry types are skipped. Throws once the archive unpacks to more
+ * than `maxBytes`, so a small upload cannot decompress into unbounded memory.
+ */
+export function readTarGz(
+  archive: Buffer,
+  maxBytes: number,
+): Array<{ path: string; content: string }> {
+  let tar: Buffer;
+  try {
+    tar = gunzipSync(archive, { maxOutputLength: maxBytes });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error(`Archive unpacks to more than ${maxBytes} bytes.`);
+    }
+    throw error;
+  }
+  const files: Array<{ path: string; content: string }> = [];
+  let offset = 0;
+
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const name = readString(header, 0, 100);
+    const prefix = readString(header, 345, 155);
+    const size = Number.parseInt(readString(header, 124, 12).trim() || "0", 8);
+    if (!Number.isFinite(size) || size < 0 || offset + 512 + size > tar.length) {
+      throw new Error(`Corrupt tar entry '${name}'.`);
+    }
+
+    const typeflag = String.fromCharCode(header[156] ?? 0);
+    if (typeflag === "0" || typeflag === "\0") {
+      files.push({
+        path: prefix ? `${prefix}/${name}` : name,
+        content: tar.subarray(offset + 512, offset + 512 + size).toString("utf8"),
+      });
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+
+  return files;
+}
@@ -1,8 +1,80 @@
 import type { AppDefinition } from "@form-builder/contracts";
+import type { Diagnostic } from "@form-builder/compiler";
 import { appDefinition } from "../generated/app-definition.js";
 
-const apps = new Map<string, AppDefinition>([[appDefinition.appId, appDefinition]]);
+export type AppSource = "generated" | "directory" | "published";
+
+export interface RegisteredApp {
+  app: AppDefinition;
+  source: AppSource;
+  file?: string;
+  deployment?: { projectId: string; versionId: string; deploymentId: string };
+  diagnostics: Diagnostic[];
+  loadedAt: string;
+}
+
+export interface RejectedAppFile {
+  file: string;
+  diagnostics: Diagnostic[];
+}
+
+export interface AppRegistrySnapshot {
+  apps: Map<string, RegisteredApp>;
+  rejected: RejectedAppFile[];
+}
+
+const generatedApp: RegisteredApp = {
+  app: appDefinition,
+  source: "generated",
+  diagnostics: [],
+  loadedAt: new Date().toISOString(),
+};
+
+let directoryApps: RegisteredApp[] = [];
+let rejectedFiles: RejectedAppFile[] = [];
+let publishedApps = new Map<string, RegisteredApp>();
+
+// Published versions shadow directory files, which shadow the generated app.
+function buildSnapshot(): AppRegistrySnapshot {
+  const apps = new Map<string, RegisteredApp>([[appDefinition.appId, generatedApp]]);
+  for (const entry of directoryApps) {
+    apps.set(entry.app.appId, entry);
+  }
+  for (const entry of publishedApps.values()) {
+    apps.set(entry.app.appId, entry);
+  }
+  return { apps, rejected: rejectedFiles };
+}
+
+// Replaced as a whole on every change, so readers never see a half-applied directory scan.
+let snapshot: AppRegistrySnapshot = buildSnapshot();
 
 export function getAppDefinition(appId: string): AppDefinition | undefined {
-  return apps.get(appId);
+  return snapshot.apps.get(appId)?.app;
+}
+
+export function getAppRegistrySnapshot(): AppRegistrySnapshot {
+  return snapshot;
+}
+
+export function getDirectoryApps(): RegisteredApp[] {
+  return directoryApps;
+}
+
+export function replaceDirectoryApps(loaded: RegisteredApp[], rejected: RejectedAppFile[]): void {
+  directoryApps = loaded;
+  rejectedFiles = rejected;
+  snapshot = buildSnapshot();
+}
+
+export function publishApp(entry: RegisteredApp): void {
+  publishedApps = new Map(publishedApps).set(entry.app.appId, entry);
+  snapshot = buildSnapshot();
+}
+
+export function resetAppRegistry(): void {
+  directoryApps = [];
+  rejectedFiles = [];
+  publishedApps = new Map();
+  snapshot = buildSnapshot();
 }
@@ -3,8 +3,42 @@ import Fastify, { type FastifyInstance, type FastifyReply, type FastifyRequest }
 import { readFile, stat } from "node:fs/promises";
 import { resolve, dirname, extname } from "node:path";
 import { fileURLToPath } from "node:url";
+import { registerAuthorization } from "./api/authorization.js";
+import { registerExecutionLimits } from "./api/execution-limits.js";
 import { registerEventRoutes } from "./api/routes/events.js";
 import { registerBuilderRoutes } from "./api/routes/builder.js";
+import { registerRunRoutes } from "./api/routes/runs.js";
+import { registerAppRoutes } from "./api/routes/apps.js";
+import { registerDeploymentRoutes } from "./api/routes/deployments.js";
+import { registerProjectVersionRoutes } from "./api/routes/project-versions.js";
+import { registerProjectLifecycleRoutes } from "./api/routes/project-lifecycle.js";
+import { restorePublishedApps } from "./application/deployments.js";
+import {
+  checkExecutionLimits,
+  eventModelKeys,
+  limitsForApp,
+  recordExecutionSpend,
+  type ExecutionScope,
+} from "./application/execution-limits.js";
+import { executeAndRecordRun } from "./application/run-history.js";
+import { createEventScheduler } from "./application/scheduled-events.js";
+import { getAppRegistrySnapshot } from "./domain/app-registry.js";
+import {
+  reloadAppDirectory,
+  resolveAppsDir,
+  watchAppDirectory,
+} from "./infrastructure/app-directory.js";
+import { getApiKeyStore } from "./infrastructure/api-key-store.js";
+import { getExecutionLimitConfig } from "./infrastructure/execution-limit-config.js";
+import { getExecutionEnvOptions } from "./infrastructure/execution-env.js";
+import { createMemoryUsageCounters } from "./infrastructure/memory-usage-counters.js";
+import { createRunId, getRunStore } from "./infrastructure/file-run-store.js";
+import {
+  getScheduledResultStore,
+  getSchedulerIntervalMs,
+} from "./infrastructure/file-scheduled-result-store.js";
+import { createProviderRegistry } from "./infrastructure/provider-registry.js";
+import { getDeploymentStore, getProjectStore } from "./infrastructure/project-stores.js";
 
 const MIME_BY_EXT: Record<string, string> = {
   ".html": "text/html; charset=utf-8",
@@ -80,8 +114,9 @@ async function start(): Promise<void> {
 
   app.addHook("onRequest", async (request, reply) => {
     reply.header("access-control-allow-origin", "*");
-    reply.header("access-control-allow-methods", "GET,POST,OPTIONS");
-    reply.header("access-control-allow-headers", "content-type,authorization");
+    reply.header("access-control-allow-methods", "GET,POST,PUT,PATCH,DELETE,OPTIONS");
+    reply.header("access-control-allow-headers", "content-type,authorization,if-match");
+    reply.header("access-control-expose-headers", "x-run-id,etag");
 
     if (request.method === "OPTIONS") {
       reply.code(204).send();
@@ -89,11 +124,76 @@ async function start(): Promise<void> {
     }
   });
 
+  const appsDir = resolveAppsDir(process.env);
+  if (appsDir) {
+    await reloadAppDirectory(appsDir);
+    const watcher = watchAppDirectory(appsDir, (error) =>
+      app.log.error({ err: error }, "App directory reload failed."),
+    );
+    app.addHook("onClose", async () => watcher.close());
+  }
+
+  const projects = getProjectStore(process.env);
+  await restorePublishedApps(getDeploymentStore(process.env), async (projectId, versionId) => {
+    const version = await projects.getVersion(projectId, versionId);
+    return version?.appDefinition ?? null;
+  });
+
+  // Fail at startup rather than on the first request when the key or limit config is malformed.
+  getApiKeyStore(process.env);
+  getExecutionLimitConfig(process.env);
+  await registerAuthorization(app);
+  const usageCounters = createMemoryUsageCounters();
+  await registerExecutionLimits(app, { counters: usageCounters });
+
   app.get("/health", async () => ({ ok: true, at: new Date().toISOString() }));
+  await registerAppRoutes(app);
   await registerBuilderRoutes(app);
+  await registerProjectVersionRoutes(app);
+  await registerProjectLifecycleRoutes(app);
   await registerEventRoutes(app);
+  await registerRunRoutes(app);
+  await registerDeploymentRoutes(app);
   await registerRuntimeWebStatic(app);
 
+  const schedulerIntervalMs = getSchedulerIntervalMs(process.env);
+  if (schedulerIntervalMs) {
+    const scheduler = createEventScheduler({
+      apps: () => [...getAppRegistrySnapshot().apps.values()].map((entry) => entry.app),
+      // Scheduled runs count against the same app and event limits as requests do.
+      execute: async (appDef, eventId, state, runId) => {
+        const limits = limitsForApp(getExecutionLimitConfig(process.env), appDef.appId);
+        const scope: ExecutionScope = { appId: appDef.appId, eventId, clientId: "scheduler" };
+        const options = getExecutionEnvOptions(process.env);
+        const event = appDef.events.find((item) => item.id === eventId);
+        const decision = await checkExecutionLimits(usageCounters, limits, scope, Date.now(), {
+          models: event ? eventModelKeys(event) : [],
+          prices: options.modelPrices,
+        });
+        if (!decision.ok) {
+          throw new Error(decision.message);
+        }
+        return executeAndRecordRun({
+          app: appDef,
+          eventId,
+          state,
+          providers: createProviderRegistry(process.env),
+          options,
+          store: getRunStore(process.env),
+          runId,
+          onRecord: (record) =>
+            recordExecutionSpend(usageCounters, limits, scope, record.estimatedCostUsd ?? 0, Date.now()),
+        });
+      },
+      createRunId,
+      store: getScheduledResultStore(),
+      onError: (error, appId, eventId) =>
+        app.log.error({ err: error, appId, eventId }, "Scheduled event failed."),
+    });
+    scheduler.start(schedulerIntervalMs);
+    app.addHook("onClose", async () => scheduler.stop());
+  }
+
   const port = Number(process.env.PORT ?? 3000);
   await app.listen({ host: "0.0.0.0", port });
 }
@@ -0,0 +1,86 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import {
+  API_ROLES,
+  type ApiKeyIdentity,
+  type ApiKeyStore,
+} from "../application/api-keys.js";
+
+const ApiKeyEntrySchema = z
+  .object({
+    name: z.string().trim().min(1),
+    key: z.string().min(1).optional(),
+    keySha256: z
+      .string()
+      .regex(/^[0-9a-f]{64}$/i)
+      .optional(),
+    roles: z.array(z.enum(API_ROLES)).min(1),
+  })
+  .refine((entry) => (entry.key === undefined) !== (entry.keySha256 === undefined), {
+    message: "Set exactly one of 'key' or 'keySha256'.",
+  });
+
+const ApiKeysSchema = z.array(ApiKeyEntrySchema).superRefine((entries, ctx) => {
+  const names = new Set<string>();
+  for (const entry of entries) {
+    if (names.has(entry.name)) {
+      ctx.addIssue({ code: "custom", message: `Duplicate API key name '${entry.name}'.` });
+    }
+    names.add(entry.name);
+  }
+});
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value, "utf8").digest();
+}
+
+let cached: { source: string; store: ApiKeyStore } | null = null;
+
+/**
+ * Keys come from `FORM_BUILDER_API_KEYS`, a JSON array of `{ name, key | keySha256, roles }`.
+ * The older single `FORM_BUILDER_API_KEY` still works as an admin key named `default`.
+ * A malformed value throws rather than leaving the API open.
+ */
+export function getApiKeyStore(env: NodeJS.ProcessEnv): ApiKeyStore {
+  const raw = env.FORM_BUILDER_API_KEYS?.trim() ?? "";
+  const legacy = env.FORM_BUILDER_API_KEY?.trim() ?? "";
+  const source = `${raw}\n${legacy}`;
+  if (cached?.source === source) {
+    return cached.store;
+  }
+
+  const keys: Array<{ digest: Buffer; identity: ApiKeyIdentity }> = [];
+  if (raw) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new Error("FORM_BUILDER_API_KEYS is not valid JSON.");
+    }
+    const entries = ApiKeysSchema.safeParse(parsed);
+    if (!entries.success) {
+      throw new Error(
+        `FORM_BUILDER_API_KEYS is invalid: ${entries.error.issues.map((issue) => issue.message).join("; ")}`,
+      );
+    }
+    for (const entry of entries.data) {
+      keys.push({
+        digest: entry.keySha256 ? Buffer.from(entry.keySha256, "hex") : sha256(entry.key ?? ""),
+        identity: { name: entry.name, roles: entry.roles },
+      });
+    }
+  }
+  if (legacy) {
+    keys.push({ digest: sha256(legacy), identity: { name: "default", roles: ["admin"] } });
+  }
+
+  const store: ApiKeyStore = {
+    enabled: keys.length > 0,
+    authenticate(token) {
+      const digest = sha256(token);
+      return keys.find((entry) => timingSafeEqual(entry.digest, digest))?.identity ?? null;
+    },
+  };
+  cached = { source, store };
+  return store;
+}
@@ -0,0 +1,125 @@
+import { watch, type FSWatcher } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { parseAndValidate, type Diagnostic } from "@form-builder/compiler";
+import {
+  getDirectoryApps,
+  replaceDirectoryApps,
+  type RegisteredApp,
+  type RejectedAppFile,
+} from "../domain/app-registry.js";
+
+const RELOAD_DEBOUNCE_MS = 150;
+
+export function resolveAppsDir(env: NodeJS.ProcessEnv): string | undefined {
+  const configured = env.FORM_BUILDER_APPS_DIR?.trim();
+  return configured ? resolve(configured) : undefined;
+}
+
+async function readAppFile(path: string): Promise<{ input?: unknown; diagnostics: Diagnostic[] }> {
+  try {
+    const raw = await readFile(path, "utf8");
+    return { input: JSON.parse(raw) as unknown, diagnostics: [] };
+  } catch (error) {
+    return {
+      diagnostics: [
+        {
+          code: "APP_FILE_UNREADABLE",
+          message: `Could not read app definition: ${(error as Error).message}`,
+          severity: "error",
+        },
+      ],
+    };
+  }
+}
+
+export async function reloadAppDirectory(dir: string): Promise<void> {
+  const files = (await readdir(dir, { withFileTypes: true }))
+    .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
+    .map((entry) => entry.name)
+    .sort();
+
+  // A file that stops validating keeps serving its last valid definition.
+  const previousByFile = new Map<string, RegisteredApp>();
+  for (const entry of getDirectoryApps()) {
+    if (entry.file) {
+      previousByFile.set(entry.file, entry);
+    }
+  }
+
+  const loaded: RegisteredApp[] = [];
+  const rejected: RejectedAppFile[] = [];
+  const fileByAppId = new Map<string, string>();
+  const loadedAt = new Date().toISOString();
+
+  for (const file of files) {
+    const read = await readAppFile(join(dir, file));
+    const parsed = read.input === undefined ? undefined : parseAndValidate(read.input);
+    const app = parsed?.app;
+    const diagnostics = [...(parsed?.diagnostics ?? read.diagnostics)];
+
+    if (app && fileByAppId.has(app.appId)) {
+      diagnostics.push({
+        code: "APP_DUPLICATE_ID",
+        message: `App '${app.appId}' is already defined in '${fileByAppId.get(app.appId)}'.`,
+        severity: "error",
+        path: "appId",
+      });
+    }
+
+    if (!app || diagnostics.some((item) => item.severity === "error")) {
+      rejected.push({ file, diagnostics });
+      const previous = previousByFile.get(file);
+      if (previous && !fileByAppId.has(previous.app.appId)) {
+        fileByAppId.set(previous.app.appId, file);
+        loaded.push(previous);
+      }
+      continue;
+    }
+
+    fileByAppId.set(app.appId, file);
+    const previous = previousByFile.get(file);
+    if (previous && JSON.stringify(previous.app) === JSON.stringify(app)) {
+      loaded.push(previous);
+      continue;
+    }
+    loaded.push({ app, source: "directory", file, diagnostics, loadedAt });
+  }
+
+  replaceDirectoryApps(loaded, rejected);
+}
+
+export interface AppDirectoryWatcher {
+  close(): void;
+}
+
+export function watchAppDirectory(
+  dir: string,
+  onError: (error: unknown) => void = () => undefined,
+): AppDirectoryWatcher {
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  const schedule = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      // Chain reloads so a slow scan never races a newer one.
+      running = running.then(() => reloadAppDirectory(dir)).catch(onError);
+    }, RELOAD_DEBOUNCE_MS);
+  };
+
+  const watcher: FSWatcher = watch(dir, schedule);
+  watcher.on("error", onError);
+
+  return {
+    close() {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      watcher.close();
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+
+export function resolveDataDir(): string {
+  const configured = process.env.FORM_BUILDER_DATA_DIR?.trim();
+  if (configured) {
+    return resolve(configured);
+  }
+  // Default: alongside runtime-api when running from apps/runtime-api.
+  return resolve(process.cwd(), "data");
+}
+
+/** Writes to a sibling temp file and renames it over `path`, so readers never see a partial file. */
+export async function writeJsonFile(path: string, payload: unknown): Promise<void> {
+  await mkdir(resolve(path, ".."), { recursive: true });
+  const tempPath = `${path}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+  try {
+    await writeFile(tempPath, JSON.stringify(payload, null, 2), "utf8");
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+export async function readJsonFile(path: string): Promise<unknown> {
+  const raw = await readFile(path, "utf8");
+  return JSON.parse(raw) as unknown;
+}
@@ -0,0 +1,12 @@
+import type { ExecuteEventOptions } from "../application/execute-event.js";
+import { getHttpAllowedHosts } from "./http-allowlist.js";
+import { getModelPriceTable } from "./model-prices.js";
+
+export function getExecutionEnvOptions(env: NodeJS.ProcessEnv): ExecuteEventOptions {
+  const concurrency = Number(env.FORM_BUILDER_EVENT_CONCURRENCY ?? "");
+  return {
+    httpAllowedHosts: getHttpAllowedHosts(env),
+    modelPrices: getModelPriceTable(env),
+    ...(Number.isInteger(concurrency) && concurrency > 0 ? { defaultConcurrency: concurrency } : {}),
+  };
+}
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import type { ExecutionLimitConfig } from "../application/execution-limits.js";
+
+const TokenBucketLimitSchema = z
+  .object({
+    requestsPerMinute: z.number().positive(),
+    burst: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const ExecutionLimitsSchema = z
+  .object({
+    perApp: TokenBucketLimitSchema.optional(),
+    perEvent: TokenBucketLimitSchema.optional(),
+    perClient: TokenBucketLimitSchema.optional(),
+    dailyBudgetUsd: z
+      .object({
+        perApp: z.number().nonnegative().optional(),
+        perClient: z.number().nonnegative().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const ExecutionLimitConfigSchema = ExecutionLimitsSchema.extend({
+  apps: z.record(ExecutionLimitsSchema).optional(),
+}).strict();
+
+let cached: { source: string; config: ExecutionLimitConfig } | null = null;
+
+/**
+ * Reads `FORM_BUILDER_EXECUTION_LIMITS`, a JSON object of default limits with per-app overrides
+ * under `apps`. Unset means no limits; a malformed value throws rather than silently lifting them.
+ */
+export function getExecutionLimitConfig(env: NodeJS.ProcessEnv): ExecutionLimitConfig {
+  const source = env.FORM_BUILDER_EXECUTION_LIMITS?.trim() ?? "";
+  if (cached?.source === source) {
+    return cached.config;
+  }
+
+  let config: ExecutionLimitConfig = {};
+  if (source) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(source);
+    } catch {
+      throw new Error("FORM_BUILDER_EXECUTION_LIMITS is not valid JSON.");
+    }
+    const result = ExecutionLimitConfigSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new Error(
+        `FORM_BUILDER_EXECUTION_LIMITS is invalid: ${result.error.issues
+          .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+          .join("; ")}`,
+      );
+    }
+    config = result.data;
+  }
+  cached = { source, config };
+  return config;
+}
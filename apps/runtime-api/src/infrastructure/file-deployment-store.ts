@@ -0,0 +1,65 @@
+import { randomBytes } from "node:crypto";
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  emptyDeploymentHistory,
+  type DeploymentHistoryV1,
+  type DeploymentRecord,
+  type DeploymentStore,
+} from "../application/deployments.js";
+import { readJsonFile, writeJsonFile } from "./data-dir.js";
+import { isSafeProjectId } from "../application/project-store.js";
+import { getProjectDir } from "./file-project-store.js";
+
+export function createDeploymentId(): string {
+  return `dep_${Date.now().toString(36).padStart(9, "0")}_${randomBytes(3).toString("hex")}`;
+}
+
+/** Keeps each project's deploy history next to its versions, in `projects/<projectId>/deployments.json`. */
+export function createFileDeploymentStore(dataDir: string): DeploymentStore {
+  const historyPath = (projectId: string): string => {
+    if (!isSafeProjectId(projectId)) {
+      throw new Error(`Invalid project id '${projectId}'.`);
+    }
+    return join(getProjectDir(dataDir, projectId), "deployments.json");
+  };
+
+  const read = async (projectId: string): Promise<DeploymentHistoryV1> => {
+    try {
+      const history = (await readJsonFile(historyPath(projectId))) as DeploymentHistoryV1;
+      return history.kind === "form-builder-deployments-v1"
+        ? history
+        : emptyDeploymentHistory(projectId);
+    } catch {
+      return emptyDeploymentHistory(projectId);
+    }
+  };
+
+  return {
+    get: read,
+
+    async save(history: DeploymentHistoryV1): Promise<void> {
+      await writeJsonFile(historyPath(history.projectId), history);
+    },
+
+    async listLive(): Promise<DeploymentRecord[]> {
+      let projectIds: string[];
+      try {
+        projectIds = (await readdir(join(dataDir, "projects"), { withFileTypes: true }))
+          .filter((entry) => entry.isDirectory() && isSafeProjectId(entry.name))
+          .map((entry) => entry.name);
+      } catch {
+        return [];
+      }
+
+      const live: DeploymentRecord[] = [];
+      for (const projectId of projectIds) {
+        const history = await read(projectId);
+        if (history.live) {
+          live.push(history.live);
+        }
+      }
+      return live;
+    },
+  };
+}
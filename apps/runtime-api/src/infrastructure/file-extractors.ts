@@ -0,0 +1,44 @@
+import {
+  decodeUtf8Text,
+  type FileLimits,
+  type FileTextExtractor,
+} from "../application/file-text.js";
+
+const DEFAULT_MAX_FILE_BYTES = 5 * 1024 * 1024;
+const DEFAULT_MAX_FILE_TEXT_CHARS = 200_000;
+
+function textExtractor(id: string, extensions: string[], mimeTypes: string[]): FileTextExtractor {
+  return {
+    id,
+    extensions,
+    mimeTypes,
+    extract: async (bytes, file) => decodeUtf8Text(bytes, file.name),
+  };
+}
+
+/**
+ * The single place file extractors are registered. Binary formats (PDF, .docx) need an extractor
+ * here before uploads of that type are accepted.
+ */
+export const FILE_EXTRACTORS: FileTextExtractor[] = [
+  textExtractor("plain-text", [".txt", ".text", ".log"], ["text/plain"]),
+  textExtractor("markdown", [".md", ".markdown"], ["text/markdown", "text/x-markdown"]),
+  textExtractor("csv", [".csv"], ["text/csv", "application/csv"]),
+];
+
+function positiveInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number(value ?? "");
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getFileLimits(env: NodeJS.ProcessEnv): FileLimits {
+  return {
+    maxBytes: positiveInteger(env.FORM_BUILDER_MAX_FILE_BYTES, DEFAULT_MAX_FILE_BYTES),
+    maxTextChars: positiveInteger(env.FORM_BUILDER_MAX_FILE_TEXT_CHARS, DEFAULT_MAX_FILE_TEXT_CHARS),
+  };
+}
+
+/** Body limit for execute requests: room for one base64-encoded file at the size limit. */
+export function getExecuteBodyLimit(env: NodeJS.ProcessEnv): number {
+  return Math.max(1024 * 1024, Math.ceil((getFileLimits(env).maxBytes * 4) / 3) + 64 * 1024);
+}
@@ -0,0 +1,225 @@
+import { cp, mkdir, readdir, rename, rm, stat } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  applyProjectMetaChanges,
+  duplicateProjectMeta,
+  isProjectMeta,
+  isSafeProjectId,
+  isSafeVersionId,
+  prepareProjectVersion,
+  ProjectExistsError,
+  ProjectNotFoundError,
+  toProjectIndexEntry,
+  type ProjectExport,
+  type ProjectIndexEntry,
+  type ProjectMetaV1,
+  type ProjectStore,
+  type ProjectVersionV1,
+} from "../application/project-store.js";
+import { readJsonFile, writeJsonFile } from "./data-dir.js";
+
+export function getProjectDir(dataDir: string, projectId: string): string {
+  return join(dataDir, "projects", projectId);
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readMetaFile(path: string): Promise<ProjectMetaV1 | null> {
+  try {
+    const meta = await readJsonFile(path);
+    return isProjectMeta(meta) ? meta : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readVersionFile(path: string): Promise<ProjectVersionV1 | null> {
+  try {
+    const version = (await readJsonFile(path)) as ProjectVersionV1;
+    return version && version.kind === "form-first-builder-project-version-v1" ? version : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores each project as `projects/<projectId>/project.json` plus one file per version under
+ * `versions/`; trashed projects move to `trash/projects/<projectId>`.
+ */
+export function createFileProjectStore(dataDir: string): ProjectStore {
+  const projectsRoot = join(dataDir, "projects");
+  const trashRoot = join(dataDir, "trash", "projects");
+  const metaPath = (projectId: string): string =>
+    join(getProjectDir(dataDir, projectId), "project.json");
+  const versionPath = (projectId: string, versionId: string): string =>
+    join(getProjectDir(dataDir, projectId), "versions", `${versionId}.json`);
+
+  // Serializes read-check-write sequences on one project within this process.
+  const locks = new Map<string, Promise<unknown>>();
+  const withLock = <T>(projectId: string, task: () => Promise<T>): Promise<T> => {
+    const next = (locks.get(projectId) ?? Promise.resolve()).then(task);
+    locks.set(projectId, next.catch(() => undefined));
+    return next;
+  };
+
+  const requireMeta = async (projectId: string): Promise<ProjectMetaV1> => {
+    const meta = await readMetaFile(metaPath(projectId));
+    if (!meta) {
+      throw new ProjectNotFoundError(projectId);
+    }
+    return meta;
+  };
+
+  const listMetaFiles = async (root: string): Promise<ProjectMetaV1[]> => {
+    let entries: string[];
+    try {
+      entries = await readdir(root);
+    } catch {
+      return [];
+    }
+    const projects: ProjectMetaV1[] = [];
+    for (const projectId of entries.filter(isSafeProjectId)) {
+      const meta = await readMetaFile(join(root, projectId, "project.json"));
+      if (meta) {
+        projects.push(meta);
+      }
+    }
+    return projects;
+  };
+
+  return {
+    async list(options): Promise<ProjectIndexEntry[]> {
+      await mkdir(projectsRoot, { recursive: true });
+      return (await listMetaFiles(projectsRoot))
+        .filter((meta) => options.includeArchived || !meta.archivedAt)
+        .map(toProjectIndexEntry);
+    },
+
+    getMeta(projectId) {
+      return readMetaFile(metaPath(projectId));
+    },
+
+    getVersion(projectId, versionId) {
+      return readVersionFile(versionPath(projectId, versionId));
+    },
+
+    appendVersion(projectId, input) {
+      return withLock(projectId, async () => {
+        const { project, saved } = prepareProjectVersion(
+          projectId,
+          await readMetaFile(metaPath(projectId)),
+          input,
+        );
+        // Version first: a crash in between leaves an unreferenced file, not a dangling latestVersionId.
+        await writeJsonFile(versionPath(projectId, saved.id), saved);
+        await writeJsonFile(metaPath(projectId), project);
+        return { project, saved };
+      });
+    },
+
+    updateMeta(projectId, changes) {
+      return withLock(projectId, async () => {
+        const next = applyProjectMetaChanges(await requireMeta(projectId), changes);
+        await writeJsonFile(metaPath(projectId), next);
+        return next;
+      });
+    },
+
+    async duplicate(projectId, targetId, name) {
+      const meta = await requireMeta(projectId);
+      const targetDir = getProjectDir(dataDir, targetId);
+      if (await pathExists(targetDir)) {
+        throw new ProjectExistsError(targetId);
+      }
+
+      // Deploy history stays with the original.
+      await cp(join(getProjectDir(dataDir, projectId), "versions"), join(targetDir, "versions"), {
+        recursive: true,
+      });
+      const copy = duplicateProjectMeta(meta, targetId, name);
+      await writeJsonFile(metaPath(targetId), copy);
+      return copy;
+    },
+
+    trash(projectId) {
+      return withLock(projectId, async () => {
+        const meta = await requireMeta(projectId);
+        const trashDir = join(trashRoot, projectId);
+        // An older trashed copy with the same id is replaced.
+        await rm(trashDir, { recursive: true, force: true });
+        await mkdir(trashRoot, { recursive: true });
+        await rename(getProjectDir(dataDir, projectId), trashDir);
+
+        const trashed: ProjectMetaV1 = { ...meta, deletedAt: new Date().toISOString() };
+        await writeJsonFile(join(trashDir, "project.json"), trashed);
+        return trashed;
+      });
+    },
+
+    listTrash() {
+      return listMetaFiles(trashRoot);
+    },
+
+    async restoreFromTrash(projectId) {
+      const trashDir = join(trashRoot, projectId);
+      const trashed = await readMetaFile(join(trashDir, "project.json"));
+      if (!trashed) {
+        throw new ProjectNotFoundError(projectId);
+      }
+      const projectDir = getProjectDir(dataDir, projectId);
+      if (await pathExists(projectDir)) {
+        throw new ProjectExistsError(projectId);
+      }
+
+      await mkdir(projectsRoot, { recursive: true });
+      await rename(trashDir, projectDir);
+      const meta: ProjectMetaV1 = { ...trashed, deletedAt: undefined };
+      await writeJsonFile(metaPath(projectId), meta);
+      return meta;
+    },
+
+    async exportProject(projectId): Promise<ProjectExport | null> {
+      const meta = await readMetaFile(metaPath(projectId));
+      if (!meta) {
+        return null;
+      }
+      let files: string[];
+      try {
+        files = await readdir(join(getProjectDir(dataDir, projectId), "versions"));
+      } catch {
+        files = [];
+      }
+      const versions: ProjectVersionV1[] = [];
+      for (const file of files.filter((name) => name.endsWith(".json")).sort()) {
+        const versionId = file.slice(0, -".json".length);
+        const version = isSafeVersionId(versionId)
+          ? await readVersionFile(versionPath(projectId, versionId))
+          : null;
+        if (version) {
+          versions.push(version);
+        }
+      }
+      return { meta, versions };
+    },
+
+    importProject(project) {
+      return withLock(project.meta.id, async () => {
+        await rm(join(getProjectDir(dataDir, project.meta.id), "versions"), {
+          recursive: true,
+          force: true,
+        });
+        for (const version of project.versions) {
+          await writeJsonFile(versionPath(project.meta.id, version.id), version);
+        }
+        await writeJsonFile(metaPath(project.meta.id), project.meta);
+      });
+    },
+  };
+}
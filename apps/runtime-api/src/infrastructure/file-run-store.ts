@@ -0,0 +1,91 @@
+import { randomBytes } from "node:crypto";
+import { readdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  summarizeRun,
+  type RunRecordV1,
+  type RunStore,
+  type RunSummary,
+} from "../application/run-history.js";
+import { readJsonFile, resolveDataDir, writeJsonFile } from "./data-dir.js";
+
+const DEFAULT_RUN_HISTORY_LIMIT = 200;
+const SAFE_ID = /^[a-zA-Z0-9_-]{1,80}$/;
+
+/** Sortable by creation time, so a directory listing is already in run order. */
+export function createRunId(): string {
+  return `run_${Date.now().toString(36).padStart(9, "0")}_${randomBytes(3).toString("hex")}`;
+}
+
+export function isSafeRunId(runId: string): boolean {
+  return SAFE_ID.test(runId);
+}
+
+/**
+ * Stores each run as `runs/<appId>/<runId>.json` under the data dir and keeps the newest
+ * `limit` runs per app.
+ */
+export function createFileRunStore(dataDir: string, limit = DEFAULT_RUN_HISTORY_LIMIT): RunStore {
+  const appDir = (appId: string): string => {
+    if (!SAFE_ID.test(appId)) {
+      throw new Error(`Invalid app id '${appId}'.`);
+    }
+    return join(dataDir, "runs", appId);
+  };
+
+  const listIds = async (appId: string): Promise<string[]> => {
+    try {
+      const entries = await readdir(appDir(appId));
+      return entries
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => name.slice(0, -".json".length))
+        .sort()
+        .reverse();
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    async save(record: RunRecordV1): Promise<void> {
+      await writeJsonFile(join(appDir(record.appId), `${record.id}.json`), record);
+      const stale = (await listIds(record.appId)).slice(limit);
+      await Promise.all(
+        stale.map((runId) => rm(join(appDir(record.appId), `${runId}.json`), { force: true })),
+      );
+    },
+
+    async list(appId: string, max: number): Promise<RunSummary[]> {
+      const summaries: RunSummary[] = [];
+      for (const runId of (await listIds(appId)).slice(0, max)) {
+        const record = (await readJsonFile(join(appDir(appId), `${runId}.json`))) as RunRecordV1;
+        summaries.push(summarizeRun(record));
+      }
+      return summaries;
+    },
+
+    async get(appId: string, runId: string): Promise<RunRecordV1 | null> {
+      if (!isSafeRunId(runId)) {
+        return null;
+      }
+      try {
+        const record = (await readJsonFile(join(appDir(appId), `${runId}.json`))) as RunRecordV1;
+        return record.kind === "form-builder-run-v1" ? record : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+/** Run history is on by default; `FORM_BUILDER_RUN_HISTORY=off` disables it. */
+export function getRunStore(env: NodeJS.ProcessEnv): RunStore | null {
+  if (env.FORM_BUILDER_RUN_HISTORY?.trim().toLowerCase() === "off") {
+    return null;
+  }
+  const limit = Number(env.FORM_BUILDER_RUN_HISTORY_LIMIT ?? "");
+  return createFileRunStore(
+    resolveDataDir(),
+    Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_RUN_HISTORY_LIMIT,
+  );
+}
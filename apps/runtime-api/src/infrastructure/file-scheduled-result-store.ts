@@ -0,0 +1,54 @@
+import { join } from "node:path";
+import { ScheduledEventResultSchema, type ScheduledEventResult } from "@form-builder/contracts";
+import type { ScheduledResultStore } from "../application/scheduled-events.js";
+import { readJsonFile, resolveDataDir, writeJsonFile } from "./data-dir.js";
+
+const SAFE_ID = /^[a-zA-Z0-9_-]{1,80}$/;
+const DEFAULT_SCHEDULER_INTERVAL_MS = 15_000;
+
+/** Keeps the latest result of each scheduled event as `scheduled/<appId>/<eventId>.json`. */
+export function createFileScheduledResultStore(dataDir: string): ScheduledResultStore {
+  const resultPath = (appId: string, eventId: string): string | null =>
+    SAFE_ID.test(appId) && SAFE_ID.test(eventId)
+      ? join(dataDir, "scheduled", appId, `${eventId}.json`)
+      : null;
+
+  return {
+    async save(result: ScheduledEventResult): Promise<void> {
+      const path = resultPath(result.appId, result.eventId);
+      if (!path) {
+        throw new Error(`Invalid app or event id '${result.appId}/${result.eventId}'.`);
+      }
+      await writeJsonFile(path, result);
+    },
+
+    async get(appId: string, eventId: string): Promise<ScheduledEventResult | null> {
+      const path = resultPath(appId, eventId);
+      if (!path) {
+        return null;
+      }
+      try {
+        const parsed = ScheduledEventResultSchema.safeParse(await readJsonFile(path));
+        return parsed.success ? parsed.data : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+export function getScheduledResultStore(): ScheduledResultStore {
+  return createFileScheduledResultStore(resolveDataDir());
+}
+
+/**
+ * How often the scheduler checks for due events; `FORM_BUILDER_SCHEDULER=off` disables it (null).
+ * Cron expressions have minute resolution, so the default 15 seconds never skips an occurrence.
+ */
+export function getSchedulerIntervalMs(env: NodeJS.ProcessEnv): number | null {
+  if (env.FORM_BUILDER_SCHEDULER?.trim().toLowerCase() === "off") {
+    return null;
+  }
+  const interval = Number(env.FORM_BUILDER_SCHEDULER_INTERVAL_MS ?? "");
+  return Number.isInteger(interval) && interval > 0 ? interval : DEFAULT_SCHEDULER_INTERVAL_MS;
+}
@@ -0,0 +1,6 @@
+export function getHttpAllowedHosts(env: NodeJS.ProcessEnv): string[] {
+  return (env.FORM_BUILDER_HTTP_ALLOWED_HOSTS ?? "")
+    .split(/[\n,]+/g)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
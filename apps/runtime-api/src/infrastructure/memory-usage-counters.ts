@@ -0,0 +1,44 @@
+import type { UsageCounterStore } from "../application/execution-limits.js";
+
+/** Per-process counters; state is lost on restart and not shared between instances. */
+export function createMemoryUsageCounters(): UsageCounterStore {
+  const buckets = new Map<string, { tokens: number; updatedMs: number }>();
+  const spend = new Map<string, { day: string; amountUsd: number }>();
+
+  return {
+    async take(key, limit, nowMs) {
+      const capacity = limit.burst ?? limit.requestsPerMinute;
+      const refillPerMs = limit.requestsPerMinute / 60_000;
+      const current = buckets.get(key) ?? { tokens: capacity, updatedMs: nowMs };
+      const tokens = Math.min(
+        capacity,
+        current.tokens + Math.max(0, nowMs - current.updatedMs) * refillPerMs,
+      );
+      if (tokens >= 1) {
+        buckets.set(key, { tokens: tokens - 1, updatedMs: nowMs });
+        return 0;
+      }
+      buckets.set(key, { tokens, updatedMs: nowMs });
+      return Math.ceil((1 - tokens) / refillPerMs);
+    },
+
+    async refund(key, limit) {
+      const current = buckets.get(key);
+      if (current) {
+        const capacity = limit.burst ?? limit.requestsPerMinute;
+        buckets.set(key, { ...current, tokens: Math.min(capacity, current.tokens + 1) });
+      }
+    },
+
+    async getSpend(key, day) {
+      const entry = spend.get(key);
+      return entry?.day === day ? entry.amountUsd : 0;
+    },
+
+    async addSpend(key, day, amountUsd) {
+      const entry = spend.get(key);
+      // Only today's total is kept, so yesterday's spend is dropped on the first add of a new day.
+      spend.set(key, { day, amountUsd: (entry?.day === day ? entry.amountUsd : 0) + amountUsd });
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import type { ModelPrice, ModelPriceTable } from "../application/estimate-cost.js";
+
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  "mock/mock-v1": { input: 0, output: 0 },
+  "openai/gpt-5": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "openai/gpt-5-mini": { input: 0.25, output: 2, cachedInput: 0.025 },
+  "openai/gpt-5-nano": { input: 0.05, output: 0.4, cachedInput: 0.005 },
+  "openai/gpt-4.1": { input: 2, output: 8, cachedInput: 0.5 },
+  "openai/gpt-4.1-mini": { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  "openai/gpt-4o-mini": { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  "openai/o3": { input: 2, output: 8, cachedInput: 0.5 },
+  "openai/o3-mini": { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  "anthropic/claude-opus-4-1": { input: 15, output: 75, cachedInput: 1.5 },
+  "anthropic/claude-opus-4-0": { input: 15, output: 75, cachedInput: 1.5 },
+  "anthropic/claude-sonnet-4-0": { input: 3, output: 15, cachedInput: 0.3 },
+  "anthropic/claude-3-7-sonnet-latest": { input: 3, output: 15, cachedInput: 0.3 },
+  "anthropic/claude-3-5-haiku-latest": { input: 0.8, output: 4, cachedInput: 0.08 },
+};
+
+/**
+ * Default prices overlaid with `FORM_BUILDER_MODEL_PRICES`, a JSON object in the same
+ * `provider/model` -> price shape. Malformed entries are ignored.
+ */
+export function getModelPriceTable(env: NodeJS.ProcessEnv): ModelPriceTable {
+  const table: ModelPriceTable = { ...DEFAULT_MODEL_PRICES };
+  const raw = env.FORM_BUILDER_MODEL_PRICES?.trim();
+  if (!raw) {
+    return table;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return table;
+  }
+  if (!parsed || typeof parsed !== "object") {
+    return table;
+  }
+
+  for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+    const price = value as Partial<Record<keyof ModelPrice, unknown>> | null;
+    if (typeof price?.input !== "number" || typeof price.output !== "number") {
+      continue;
+    }
+    table[key] = {
+      input: price.input,
+      output: price.output,
+      ...(typeof price.cachedInput === "number" ? { cachedInput: price.cachedInput } : {}),
+    };
+  }
+  return table;
+}
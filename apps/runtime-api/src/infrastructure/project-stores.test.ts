@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  ProjectExistsError,
+  ProjectVersionConflictError,
+  type ProjectStore,
+} from "../application/project-store.js";
+import { migrateProjects } from "../application/migrate-projects.js";
+import { defaultApp } from "../domain/apps/default-app.js";
+import type { DeploymentRecord, DeploymentStore } from "../application/deployments.js";
+import { createFileDeploymentStore } from "./file-deployment-store.js";
+import { createFileProjectStore } from "./file-project-store.js";
+import { createSqliteDeploymentStore } from "./sqlite-deployment-store.js";
+import { createSqliteProjectStore } from "./sqlite-project-store.js";
+
+function hasNodeSqlite(): boolean {
+  try {
+    createRequire(import.meta.url)("node:sqlite");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const stores: Array<{
+  name: string;
+  skip: boolean;
+  create: (dir: string) => ProjectStore;
+  createDeployments: (dir: string) => DeploymentStore;
+}> = [
+  {
+    name: "file",
+    skip: false,
+    create: (dir) => createFileProjectStore(dir),
+    createDeployments: (dir) => createFileDeploymentStore(dir),
+  },
+  {
+    name: "sqlite",
+    skip: !hasNodeSqlite(),
+    create: (dir) => createSqliteProjectStore(join(dir, "projects.sqlite")),
+    createDeployments: (dir) => createSqliteDeploymentStore(join(dir, "projects.sqlite")),
+  },
+];
+
+function deploymentRecord(projectId: string, versionId: string): DeploymentRecord {
+  return {
+    id: `dep_${versionId}`,
+    projectId,
+    versionId,
+    appId: defaultApp.appId,
+    appVersion: defaultApp.version,
+    action: "publish",
+    publishedAt: new Date().toISOString(),
+  };
+}
+
+for (const { name, skip, create, createDeployments } of stores) {
+  describe.skipIf(skip)(`${name} project store`, () => {
+    let dir: string;
+    let store: ProjectStore;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "form-first-store-"));
+      store = create(dir);
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("saves versions, rejects stale bases and moves projects through the trash", async () => {
+      const first = await store.appendVersion("store_project", {
+        name: "Store",
+        appDefinition: defaultApp,
+      });
+      const second = await store.appendVersion("store_project", {
+        appDefinition: { ...defaultApp, version: "2.0.0" },
+        baseVersionId: first.saved.id,
+      });
+      await expect(
+        store.appendVersion("store_project", {
+          appDefinition: defaultApp,
+          baseVersionId: first.saved.id,
+        }),
+      ).rejects.toBeInstanceOf(ProjectVersionConflictError);
+
+      expect((await store.getMeta("store_project"))?.latestVersionId).toBe(second.saved.id);
+      expect((await store.getVersion("store_project", first.saved.id))?.appDefinition.version).toBe(
+        defaultApp.version,
+      );
+
+      await store.updateMeta("store_project", { archived: true });
+      expect(await store.list({ includeArchived: false })).toEqual([]);
+      expect((await store.list({ includeArchived: true })).map((entry) => entry.id)).toEqual([
+        "store_project",
+      ]);
+
+      await store.duplicate("store_project", "store_copy");
+      await expect(store.duplicate("store_project", "store_copy")).rejects.toBeInstanceOf(
+        ProjectExistsError,
+      );
+      expect((await store.exportProject("store_copy"))?.versions).toHaveLength(2);
+
+      await store.trash("store_project");
+      expect(await store.getMeta("store_project")).toBeNull();
+      expect((await store.listTrash()).map((meta) => meta.id)).toEqual(["store_project"]);
+      const restored = await store.restoreFromTrash("store_project");
+      expect(restored.deletedAt).toBeUndefined();
+      expect(await store.getVersion("store_project", second.saved.id)).not.toBeNull();
+    });
+
+    it("keeps deploy history next to the projects and lists what is live", async () => {
+      const { saved } = await store.appendVersion("store_project", { appDefinition: defaultApp });
+      const deployments = createDeployments(dir);
+      const live = deploymentRecord("store_project", saved.id);
+
+      expect(await deployments.get("store_project")).toMatchObject({ live: null, history: [] });
+      await deployments.save({
+        kind: "form-builder-deployments-v1",
+        projectId: "store_project",
+        live,
+        history: [live],
+      });
+      expect((await deployments.get("store_project")).live).toEqual(live);
+      expect(await deployments.listLive()).toEqual([live]);
+    });
+  });
+}
+
+describe("file project store", () => {
+  it("leaves no temp files behind after saving", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "form-first-store-"));
+    const store = createFileProjectStore(dir);
+    await store.appendVersion("atomic_project", { appDefinition: defaultApp });
+    await store.appendVersion("atomic_project", { appDefinition: defaultApp });
+
+    const projectDir = join(dir, "projects", "atomic_project");
+    const files = [...(await readdir(projectDir)), ...(await readdir(join(projectDir, "versions")))];
+    expect(files.filter((file) => file.endsWith(".tmp"))).toEqual([]);
+    await rm(dir, { recursive: true, force: true });
+  });
+});
+
+describe.skipIf(!hasNodeSqlite())("migrateProjects", () => {
+  it("imports a data/projects tree into SQLite with every version", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "form-first-store-"));
+    const source = createFileProjectStore(dir);
+    await source.appendVersion("migrated_project", { appDefinition: defaultApp });
+    await source.appendVersion("migrated_project", { appDefinition: defaultApp, note: "second" });
+    await source.appendVersion("archived_project", { appDefinition: defaultApp });
+    await source.updateMeta("archived_project", { archived: true });
+
+    const sourceDeployments = createFileDeploymentStore(dir);
+    const live = deploymentRecord("migrated_project", "v1");
+    await sourceDeployments.save({
+      kind: "form-builder-deployments-v1",
+      projectId: "migrated_project",
+      live,
+      history: [live],
+    });
+
+    const target = createSqliteProjectStore(join(dir, "projects.sqlite"));
+    const targetDeployments = createSqliteDeploymentStore(join(dir, "projects.sqlite"));
+    const result = await migrateProjects(source, target, undefined, {
+      source: sourceDeployments,
+      target: targetDeployments,
+    });
+
+    expect(result).toEqual({ projects: 2, versions: 3, deployments: 1 });
+    expect(await targetDeployments.listLive()).toEqual([live]);
+    expect(await target.exportProject("migrated_project")).toEqual(
+      await source.exportProject("migrated_project"),
+    );
+    expect((await target.list({ includeArchived: false })).map((entry) => entry.id)).toEqual([
+      "migrated_project",
+    ]);
+    await rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,50 @@
+import { join, resolve } from "node:path";
+import type { DeploymentStore } from "../application/deployments.js";
+import type { ProjectStore } from "../application/project-store.js";
+import { resolveDataDir } from "./data-dir.js";
+import { createFileDeploymentStore } from "./file-deployment-store.js";
+import { createFileProjectStore } from "./file-project-store.js";
+import { createSqliteDeploymentStore } from "./sqlite-deployment-store.js";
+import { createSqliteProjectStore } from "./sqlite-project-store.js";
+
+// One instance per location, so per-project locks and database handles are shared across requests.
+const stores = new Map<string, ProjectStore>();
+const deploymentStores = new Map<string, DeploymentStore>();
+
+export function resolveSqlitePath(env: NodeJS.ProcessEnv): string {
+  const configured = env.FORM_BUILDER_SQLITE_PATH?.trim();
+  return configured ? resolve(configured) : join(resolveDataDir(), "projects.sqlite");
+}
+
+function resolveStoreLocation(env: NodeJS.ProcessEnv): { kind: "fs" | "sqlite"; location: string } {
+  const kind = env.FORM_BUILDER_PROJECT_STORE?.trim().toLowerCase() || "fs";
+  if (kind !== "fs" && kind !== "sqlite") {
+    throw new Error(`Unknown FORM_BUILDER_PROJECT_STORE '${kind}' (expected 'fs' or 'sqlite').`);
+  }
+  return { kind, location: kind === "sqlite" ? resolveSqlitePath(env) : resolveDataDir() };
+}
+
+/** `FORM_BUILDER_PROJECT_STORE=sqlite` selects the SQLite store; the directory tree is the default. */
+export function getProjectStore(env: NodeJS.ProcessEnv): ProjectStore {
+  const { kind, location } = resolveStoreLocation(env);
+  const key = `${kind}:${location}`;
+  let store = stores.get(key);
+  if (!store) {
+    store = kind === "sqlite" ? createSqliteProjectStore(location) : createFileProjectStore(location);
+    stores.set(key, store);
+  }
+  return store;
+}
+
+/** Deploy history lives in the same backend as the projects, so the two cannot drift apart. */
+export function getDeploymentStore(env: NodeJS.ProcessEnv): DeploymentStore {
+  const { kind, location } = resolveStoreLocation(env);
+  const key = `${kind}:${location}`;
+  let store = deploymentStores.get(key);
+  if (!store) {
+    store =
+      kind === "sqlite" ? createSqliteDeploymentStore(location) : createFileDeploymentStore(location);
+    deploymentStores.set(key, store);
+  }
+  return store;
+}
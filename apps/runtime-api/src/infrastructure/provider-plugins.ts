@@ -0,0 +1,13 @@
+import { anthropicPlugin } from "./providers/anthropic-provider.js";
+import { mockPlugin } from "./providers/mock-provider.js";
+import { openaiCompatiblePlugin } from "./providers/openai-compatible-provider.js";
+import { openaiPlugin } from "./providers/openai-provider.js";
+import type { ProviderPlugin } from "./providers/provider-plugin.js";
+
+/** The single place providers are registered. Order is the order the builder lists them. */
+export const PROVIDER_PLUGINS: ProviderPlugin[] = [
+  mockPlugin,
+  openaiPlugin,
+  anthropicPlugin,
+  openaiCompatiblePlugin,
+];
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { AppDefinitionSchema } from "@form-builder/contracts";
+import { executeEvent } from "../application/execute-event.js";
+import { defaultApp } from "../domain/apps/default-app.js";
+import { PROVIDER_PLUGINS } from "./provider-plugins.js";
+import {
+  createProviderRegistry,
+  getModelCatalog,
+  getProviderStatusSnapshot,
+} from "./provider-registry.js";
+import { ScriptedProvider } from "./providers/scripted-provider.js";
+import type { ProviderPlugin } from "./providers/provider-plugin.js";
+
+const echoPlugin: ProviderPlugin = {
+  id: "echo",
+  capabilities: { jsonMode: true, streaming: false, tools: false },
+  status: (env) =>
+    env.ECHO_ENABLED
+      ? { available: true, reason: null }
+      : { available: false, reason: "ECHO_ENABLED is not set." },
+  create: (env) =>
+    env.ECHO_ENABLED
+      ? new ScriptedProvider([JSON.stringify({ sentiment: "neutral", reply: "echo" })])
+      : null,
+  catalog: async () => ({ defaultModel: "echo-1", models: ["echo-1"], source: "default" }),
+};
+
+describe("provider registry", () => {
+  const plugins = [...PROVIDER_PLUGINS, echoPlugin];
+
+  it("reports status, capabilities and catalog for every plugin", async () => {
+    const status = getProviderStatusSnapshot({}, plugins);
+    expect(Object.keys(status)).toEqual(["mock", "openai", "anthropic", "openai-compatible", "echo"]);
+    expect(status.echo).toEqual({
+      available: false,
+      reason: "ECHO_ENABLED is not set.",
+      capabilities: { jsonMode: true, streaming: false, tools: false },
+    });
+
+    const catalog = await getModelCatalog({}, plugins);
+    expect(catalog.echo?.models).toEqual(["echo-1"]);
+    expect(catalog.openai?.source).toBe("default");
+  });
+
+  it("only instantiates configured providers", () => {
+    expect(Object.keys(createProviderRegistry({}, plugins))).toEqual(["mock"]);
+    expect(Object.keys(createProviderRegistry({ ECHO_ENABLED: "1" }, plugins))).toEqual([
+      "mock",
+      "echo",
+    ]);
+  });
+
+  it("runs model policies that reference a plugin provider", async () => {
+    const event = defaultApp.events[0]!;
+    const app = AppDefinitionSchema.parse({
+      ...defaultApp,
+      events: [
+        {
+          ...event,
+          actionGraph: {
+            ...event.actionGraph,
+            nodes: event.actionGraph.nodes.map((node) =>
+              node.kind === "PromptTask"
+                ? {
+                    ...node,
+                    promptSpec: {
+                      ...node.promptSpec,
+                      modelPolicy: { provider: "echo", model: "echo-1" },
+                    },
+                  }
+                : node,
+            ),
+          },
+        },
+      ],
+    });
+
+    const result = await executeEvent(
+      app,
+      "evt_analyze_click",
+      { customerComplaint: "Hello?" },
+      createProviderRegistry({ ECHO_ENABLED: "1" }, plugins),
+    );
+    expect(result.statePatch.analysisRows).toEqual([{ sentiment: "neutral", reply: "echo" }]);
+  });
+});
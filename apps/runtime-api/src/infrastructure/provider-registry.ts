@@ -1,45 +1,50 @@
-import { AnthropicProvider } from "./providers/anthropic-provider.js";
-import { MockProvider } from "./providers/mock-provider.js";
-import { OpenAIProvider } from "./providers/openai-provider.js";
 import type { LlmProvider } from "../orchestrator/types.js";
+import { PROVIDER_PLUGINS } from "./provider-plugins.js";
+import type {
+  ProviderCapabilities,
+  ProviderModelCatalog,
+  ProviderPlugin,
+  ProviderStatus,
+} from "./providers/provider-plugin.js";
 
-export interface ProviderStatus {
-  available: boolean;
-  reason: string | null;
-}
-
-export interface ProviderStatusSnapshot {
-  mock: ProviderStatus;
-  openai: ProviderStatus;
-  anthropic: ProviderStatus;
-}
+export type { ProviderStatus } from "./providers/provider-plugin.js";
 
-export function createProviderRegistry(env: NodeJS.ProcessEnv): Record<string, LlmProvider> {
-  const providers: Record<string, LlmProvider> = {
-    mock: new MockProvider(),
-  };
+export type ProviderStatusSnapshot = Record<
+  string,
+  ProviderStatus & { capabilities: ProviderCapabilities }
+>;
 
-  if (env.OPENAI_API_KEY) {
-    providers.openai = new OpenAIProvider(env.OPENAI_API_KEY);
-  }
-
-  if (env.ANTHROPIC_API_KEY) {
-    providers.anthropic = new AnthropicProvider(env.ANTHROPIC_API_KEY);
+export function createProviderRegistry(
+  env: NodeJS.ProcessEnv,
+  plugins: ProviderPlugin[] = PROVIDER_PLUGINS,
+): Record<string, LlmProvider> {
+  const providers: Record<string, LlmProvider> = {};
+  for (const plugin of plugins) {
+    const provider = plugin.create(env);
+    if (provider) {
+      providers[plugin.id] = provider;
+    }
   }
-
   return providers;
 }
 
 export function getProviderStatusSnapshot(
   env: NodeJS.ProcessEnv,
+  plugins: ProviderPlugin[] = PROVIDER_PLUGINS,
 ): ProviderStatusSnapshot {
-  return {
-    mock: { available: true, reason: null },
-    openai: env.OPENAI_API_KEY
-      ? { available: true, reason: null }
-      : { available: false, reason: "OPENAI_API_KEY is not set." },
-    anthropic: env.ANTHROPIC_API_KEY
-      ? { available: true, reason: null }
-      : { available: false, reason: "ANTHROPIC_API_KEY is not set." },
-  };
+  const snapshot: ProviderStatusSnapshot = {};
+  for (const plugin of plugins) {
+    snapshot[plugin.id] = { ...plugin.status(env), capabilities: plugin.capabilities };
+  }
+  return snapshot;
+}
+
+export async function getModelCatalog(
+  env: NodeJS.ProcessEnv,
+  plugins: ProviderPlugin[] = PROVIDER_PLUGINS,
+): Promise<Record<string, ProviderModelCatalog>> {
+  const entries = await Promise.all(
+    plugins.map(async (plugin) => [plugin.id, await plugin.catalog(env)] as const),
+  );
+  return Object.fromEntries(entries);
 }
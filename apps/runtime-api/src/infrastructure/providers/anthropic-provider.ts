@@ -1,5 +1,23 @@
 import Anthropic from "@anthropic-ai/sdk";
-import type { LlmProvider } from "../../orchestrator/types.js";
+import type {
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  TokenUsage,
+} from "../../orchestrator/types.js";
+import { catalogFromEnv, type ProviderPlugin } from "./provider-plugin.js";
+
+// Anthropic reports cache reads and writes separately from `input_tokens`; fold them in so
+// `inputTokens` is the full prompt size, as with the other providers.
+function toTokenUsage(usage: Anthropic.Messages.Usage): TokenUsage {
+  const cacheRead = usage.cache_read_input_tokens ?? 0;
+  const cacheWrite = usage.cache_creation_input_tokens ?? 0;
+  return {
+    inputTokens: usage.input_tokens + cacheRead + cacheWrite,
+    outputTokens: usage.output_tokens,
+    cachedInputTokens: cacheRead,
+  };
+}
 
 export class AnthropicProvider implements LlmProvider {
   private readonly client: Anthropic;
@@ -8,17 +26,16 @@ export class AnthropicProvider implements LlmProvider {
     this.client = new Anthropic({ apiKey });
   }
 
-  async execute(req: {
-    prompt: string;
-    model: string;
-    temperature?: number | undefined;
-  }): Promise<{ text: string; meta: Record<string, unknown> }> {
-    const completion = await this.client.messages.create({
-      model: req.model,
-      max_tokens: 600,
-      ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
-      messages: [{ role: "user", content: req.prompt }],
-    });
+  async execute(req: LlmRequest): Promise<LlmResponse> {
+    const completion = await this.client.messages.create(
+      {
+        model: req.model,
+        max_tokens: 600,
+        ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
+        messages: [{ role: "user", content: req.prompt }],
+      },
+      { signal: req.signal },
+    );
 
     const first = completion.content[0];
     const text = first && first.type === "text" ? first.text : "{}";
@@ -29,6 +46,52 @@ export class AnthropicProvider implements LlmProvider {
         id: completion.id,
         model: completion.model,
       },
+      usage: toTokenUsage(completion.usage),
+    };
+  }
+
+  async stream(req: LlmRequest, onToken: (text: string) => void): Promise<LlmResponse> {
+    const stream = this.client.messages.stream(
+      {
+        model: req.model,
+        max_tokens: 600,
+        ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
+        messages: [{ role: "user", content: req.prompt }],
+      },
+      { signal: req.signal },
+    );
+    stream.on("text", (delta) => onToken(delta));
+
+    const completion = await stream.finalMessage();
+    const first = completion.content[0];
+    const text = first && first.type === "text" ? first.text : "{}";
+
+    return {
+      text,
+      meta: {
+        id: completion.id,
+        model: completion.model,
+      },
+      usage: toTokenUsage(completion.usage),
     };
   }
 }
+
+export const anthropicPlugin: ProviderPlugin = {
+  id: "anthropic",
+  capabilities: { jsonMode: false, streaming: true, tools: true },
+  status: (env) =>
+    env.ANTHROPIC_API_KEY
+      ? { available: true, reason: null }
+      : { available: false, reason: "ANTHROPIC_API_KEY is not set." },
+  create: (env) => (env.ANTHROPIC_API_KEY ? new AnthropicProvider(env.ANTHROPIC_API_KEY) : null),
+  catalog: async (env) =>
+    catalogFromEnv(
+      env,
+      {
+        models: "FORM_BUILDER_ANTHROPIC_MODELS",
+        defaultModel: "FORM_BUILDER_ANTHROPIC_DEFAULT_MODEL",
+      },
+      "claude-sonnet-4-0",
+    ),
+};
@@ -1,14 +1,43 @@
-import type { LlmProvider } from "../../orchestrator/types.js";
+import type { LlmProvider, LlmRequest, LlmResponse } from "../../orchestrator/types.js";
+import type { ProviderPlugin } from "./provider-plugin.js";
+
+// Rough token estimate (~4 characters per token) so usage accounting has something to show.
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
 
 export class MockProvider implements LlmProvider {
-  async execute(): Promise<{ text: string; meta: Record<string, unknown> }> {
+  async execute(req?: LlmRequest): Promise<LlmResponse> {
+    const text = JSON.stringify({
+      sentiment: "neutral",
+      reply:
+        "Thank you for sharing this feedback. We are reviewing your concern and will follow up shortly.",
+    });
     return {
-      text: JSON.stringify({
-        sentiment: "neutral",
-        reply:
-          "Thank you for sharing this feedback. We are reviewing your concern and will follow up shortly.",
-      }),
+      text,
       meta: { provider: "mock" },
+      usage: {
+        inputTokens: estimateTokens(req?.prompt ?? ""),
+        outputTokens: estimateTokens(text),
+        cachedInputTokens: 0,
+      },
     };
   }
+
+  async stream(req: LlmRequest, onToken: (text: string) => void): Promise<LlmResponse> {
+    const result = await this.execute(req);
+    // Emit fixed-size chunks so streaming consumers can be exercised without a real model.
+    for (let index = 0; index < result.text.length; index += 16) {
+      onToken(result.text.slice(index, index + 16));
+    }
+    return result;
+  }
 }
+
+export const mockPlugin: ProviderPlugin = {
+  id: "mock",
+  capabilities: { jsonMode: true, streaming: true, tools: false },
+  status: () => ({ available: true, reason: null }),
+  create: () => new MockProvider(),
+  catalog: async () => ({ defaultModel: "mock-v1", models: ["mock-v1"], source: "default" }),
+};
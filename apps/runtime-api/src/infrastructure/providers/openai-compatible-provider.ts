@@ -0,0 +1,129 @@
+import OpenAI from "openai";
+import type {
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  TokenUsage,
+} from "../../orchestrator/types.js";
+import type { ProviderPlugin } from "./provider-plugin.js";
+
+const LIST_MODELS_TIMEOUT_MS = 5_000;
+
+function toTokenUsage(
+  usage: OpenAI.Completions.CompletionUsage | null | undefined,
+): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    cachedInputTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+  };
+}
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API (Ollama, llama.cpp, vLLM, ...).
+ * Uses `/chat/completions` rather than the Responses API, which most local servers lack.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  private readonly client: OpenAI;
+
+  constructor(baseURL: string, apiKey?: string) {
+    // The SDK insists on a key; local servers usually ignore it.
+    this.client = new OpenAI({ baseURL, apiKey: apiKey || "not-needed" });
+  }
+
+  async execute(req: LlmRequest): Promise<LlmResponse> {
+    const completion = await this.client.chat.completions.create(
+      {
+        model: req.model,
+        messages: [{ role: "user", content: req.prompt }],
+        ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
+      },
+      { signal: req.signal },
+    );
+
+    return {
+      text: completion.choices[0]?.message.content ?? "",
+      meta: {
+        id: completion.id,
+        model: completion.model,
+      },
+      usage: toTokenUsage(completion.usage),
+    };
+  }
+
+  async stream(req: LlmRequest, onToken: (text: string) => void): Promise<LlmResponse> {
+    const chunks = await this.client.chat.completions.create(
+      {
+        model: req.model,
+        messages: [{ role: "user", content: req.prompt }],
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
+      },
+      { signal: req.signal },
+    );
+
+    let text = "";
+    let usage: TokenUsage | undefined;
+    const meta: Record<string, unknown> = {};
+    for await (const chunk of chunks) {
+      meta.id = chunk.id;
+      meta.model = chunk.model;
+      usage = toTokenUsage(chunk.usage) ?? usage;
+      const delta = chunk.choices[0]?.delta.content;
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+    }
+
+    return { text, meta, usage };
+  }
+
+  async listModels(): Promise<string[]> {
+    const models: string[] = [];
+    for await (const model of this.client.models.list({ timeout: LIST_MODELS_TIMEOUT_MS })) {
+      models.push(model.id);
+    }
+    return models;
+  }
+}
+
+function createFromEnv(env: NodeJS.ProcessEnv): OpenAICompatibleProvider | null {
+  const baseUrl = env.OPENAI_COMPATIBLE_BASE_URL?.trim();
+  return baseUrl ? new OpenAICompatibleProvider(baseUrl, env.OPENAI_COMPATIBLE_API_KEY) : null;
+}
+
+export const openaiCompatiblePlugin: ProviderPlugin = {
+  id: "openai-compatible",
+  capabilities: { jsonMode: false, streaming: true, tools: false },
+  status: (env) =>
+    env.OPENAI_COMPATIBLE_BASE_URL
+      ? { available: true, reason: null }
+      : { available: false, reason: "OPENAI_COMPATIBLE_BASE_URL is not set." },
+  create: createFromEnv,
+  // Self-hosted servers report what they have loaded, so ask them instead of reading env.
+  catalog: async (env) => {
+    const provider = createFromEnv(env);
+    if (!provider) {
+      return { defaultModel: "", models: [], source: "unconfigured" };
+    }
+    try {
+      const models = await provider.listModels();
+      return {
+        defaultModel: env.OPENAI_COMPATIBLE_DEFAULT_MODEL?.trim() || models[0] || "",
+        models,
+        source: "server",
+      };
+    } catch {
+      return {
+        defaultModel: env.OPENAI_COMPATIBLE_DEFAULT_MODEL?.trim() ?? "",
+        models: [],
+        source: "unreachable",
+      };
+    }
+  },
+};
@@ -1,5 +1,22 @@
 import OpenAI from "openai";
-import type { LlmProvider } from "../../orchestrator/types.js";
+import type {
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  TokenUsage,
+} from "../../orchestrator/types.js";
+import { catalogFromEnv, type ProviderPlugin } from "./provider-plugin.js";
+
+function toTokenUsage(usage: OpenAI.Responses.ResponseUsage | undefined): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cachedInputTokens: usage.input_tokens_details?.cached_tokens ?? 0,
+  };
+}
 
 export class OpenAIProvider implements LlmProvider {
   private readonly client: OpenAI;
@@ -8,16 +25,15 @@ export class OpenAIProvider implements LlmProvider {
     this.client = new OpenAI({ apiKey });
   }
 
-  async execute(req: {
-    prompt: string;
-    model: string;
-    temperature?: number | undefined;
-  }): Promise<{ text: string; meta: Record<string, unknown> }> {
-    const completion = await this.client.responses.create({
-      model: req.model,
-      input: req.prompt,
-      ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
-    });
+  async execute(req: LlmRequest): Promise<LlmResponse> {
+    const completion = await this.client.responses.create(
+      {
+        model: req.model,
+        input: req.prompt,
+        ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
+      },
+      { signal: req.signal },
+    );
 
     const text = completion.output_text;
     return {
@@ -26,6 +42,52 @@ export class OpenAIProvider implements LlmProvider {
         id: completion.id,
         model: completion.model,
       },
+      usage: toTokenUsage(completion.usage),
     };
   }
+
+  async stream(req: LlmRequest, onToken: (text: string) => void): Promise<LlmResponse> {
+    const events = await this.client.responses.create(
+      {
+        model: req.model,
+        input: req.prompt,
+        stream: true,
+        ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
+      },
+      { signal: req.signal },
+    );
+
+    let text = "";
+    let usage: TokenUsage | undefined;
+    const meta: Record<string, unknown> = {};
+    for await (const event of events) {
+      if (event.type === "response.output_text.delta") {
+        text += event.delta;
+        onToken(event.delta);
+      }
+      if (event.type === "response.completed") {
+        meta.id = event.response.id;
+        meta.model = event.response.model;
+        usage = toTokenUsage(event.response.usage);
+      }
+    }
+
+    return { text, meta, usage };
+  }
 }
+
+export const openaiPlugin: ProviderPlugin = {
+  id: "openai",
+  capabilities: { jsonMode: true, streaming: true, tools: true },
+  status: (env) =>
+    env.OPENAI_API_KEY
+      ? { available: true, reason: null }
+      : { available: false, reason: "OPENAI_API_KEY is not set." },
+  create: (env) => (env.OPENAI_API_KEY ? new OpenAIProvider(env.OPENAI_API_KEY) : null),
+  catalog: async (env) =>
+    catalogFromEnv(
+      env,
+      { models: "FORM_BUILDER_OPENAI_MODELS", defaultModel: "FORM_BUILDER_OPENAI_DEFAULT_MODEL" },
+      "gpt-5.2",
+    ),
+};
@@ -0,0 +1,72 @@
+import type { LlmProvider } from "../../orchestrator/types.js";
+
+export interface ProviderCapabilities {
+  jsonMode: boolean;
+  streaming: boolean;
+  tools: boolean;
+}
+
+export interface ProviderStatus {
+  available: boolean;
+  reason: string | null;
+}
+
+export interface ProviderModelCatalog {
+  defaultModel: string;
+  models: string[];
+  source: string;
+}
+
+/**
+ * Everything the runtime and builder need to know about one model provider. Register new
+ * plugins in `provider-plugins.ts`; model policies may then reference `id` directly.
+ */
+export interface ProviderPlugin {
+  id: string;
+  capabilities: ProviderCapabilities;
+  status(env: NodeJS.ProcessEnv): ProviderStatus;
+  /** Returns null when the provider is not configured in `env`. */
+  create(env: NodeJS.ProcessEnv): LlmProvider | null;
+  catalog(env: NodeJS.ProcessEnv): Promise<ProviderModelCatalog>;
+}
+
+export function parseModelCatalogEnv(value: string | undefined): string[] {
+  const raw = (value ?? "").trim();
+  if (!raw) {
+    return [];
+  }
+
+  if (raw.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      if (Array.isArray(parsed)) {
+        return parsed
+          .filter((item): item is string => typeof item === "string")
+          .map((item) => item.trim())
+          .filter(Boolean);
+      }
+    } catch {
+      // fall through to delimiter parsing
+    }
+  }
+
+  return raw
+    .split(/[\n,]+/g)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/** Catalog for hosted providers: models come from `<modelsVar>`, falling back to one default. */
+export function catalogFromEnv(
+  env: NodeJS.ProcessEnv,
+  vars: { models: string; defaultModel: string },
+  fallbackModel: string,
+): ProviderModelCatalog {
+  const models = parseModelCatalogEnv(env[vars.models]);
+  const defaultModel = env[vars.defaultModel]?.trim() || models[0] || fallbackModel;
+  return {
+    defaultModel,
+    models: models.length > 0 ? models : [defaultModel],
+    source: models.length > 0 ? "env" : "default",
+  };
+}
@@ -0,0 +1,35 @@
+import type { LlmProvider, LlmRequest, LlmResponse } from "../../orchestrator/types.js";
+
+export type ScriptedReply = string | Error | { delayMs: number; text: string };
+
+/**
+ * Replays a fixed sequence of replies, one per call, and records every request it receives.
+ * The last reply repeats once the script is exhausted.
+ */
+export class ScriptedProvider implements LlmProvider {
+  readonly requests: LlmRequest[] = [];
+
+  constructor(private readonly script: ScriptedReply[]) {}
+
+  async execute(req: LlmRequest): Promise<LlmResponse> {
+    this.requests.push(req);
+    const reply = this.script[Math.min(this.requests.length, this.script.length) - 1];
+    if (reply === undefined) {
+      throw new Error("ScriptedProvider has no replies.");
+    }
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    if (typeof reply === "string") {
+      return { text: reply, meta: { provider: "scripted", call: this.requests.length } };
+    }
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, reply.delayMs);
+      req.signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(req.signal?.reason as Error);
+      });
+    });
+    return { text: reply.text, meta: { provider: "scripted", call: this.requests.length } };
+  }
+}
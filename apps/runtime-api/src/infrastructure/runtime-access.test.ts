@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createHmac, generateKeyPairSync, sign } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { checkRuntimeAccess } from "./runtime-access.js";
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function signHs256(claims: Record<string, unknown>, secret: string): string {
+  const input = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  return `${input}.${createHmac("sha256", secret).update(input).digest("base64url")}`;
+}
+
+describe("checkRuntimeAccess", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "form-first-access-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("accepts any of the configured static keys and fails closed when none are set", async () => {
+    const policy = { mode: "apiKey" as const, keyEnv: "TEST_KEYS" };
+    const env = { TEST_KEYS: "old-key, new-key" };
+
+    expect(await checkRuntimeAccess(policy, "new-key", env)).toMatchObject({
+      ok: true,
+      clientId: expect.stringMatching(/^access-key:/),
+    });
+    expect(await checkRuntimeAccess(policy, "other", env)).toMatchObject({ ok: false, status: 401 });
+    expect(await checkRuntimeAccess(policy, null, env)).toMatchObject({ ok: false, status: 401 });
+    expect(await checkRuntimeAccess(policy, "new-key", {})).toMatchObject({
+      ok: false,
+      status: 500,
+      error: "RUNTIME_ACCESS_MISCONFIGURED",
+    });
+  });
+
+  it("verifies HS256 tokens with expiry, issuer and audience", async () => {
+    const policy = {
+      mode: "jwt" as const,
+      secretEnv: "TEST_SECRET",
+      issuer: "https://issuer.example.com",
+      audience: "complaints",
+    };
+    const env = { TEST_SECRET: "shh" };
+    const now = Math.floor(Date.now() / 1000);
+    const claims = { sub: "u1", iss: policy.issuer, aud: ["complaints"], exp: now + 60 };
+
+    expect(await checkRuntimeAccess(policy, signHs256(claims, "shh"), env)).toEqual({
+      ok: true,
+      clientId: "jwt:u1",
+    });
+    expect(await checkRuntimeAccess(policy, signHs256(claims, "wrong"), env)).toMatchObject({
+      ok: false,
+      message: "Token signature is invalid.",
+    });
+    expect(
+      await checkRuntimeAccess(policy, signHs256({ ...claims, exp: now - 120 }, "shh"), env),
+    ).toMatchObject({ ok: false, message: "Token has expired." });
+    expect(
+      await checkRuntimeAccess(policy, signHs256({ ...claims, aud: "other" }, "shh"), env),
+    ).toMatchObject({ ok: false, status: 401 });
+
+    const { exp: _exp, ...nonExpiring } = claims;
+    expect(await checkRuntimeAccess(policy, signHs256(nonExpiring, "shh"), env)).toMatchObject({
+      ok: false,
+      status: 401,
+      message: "Token has no expiry ('exp' claim).",
+    });
+    expect(
+      await checkRuntimeAccess(
+        { ...policy, allowNonExpiringTokens: true },
+        signHs256(nonExpiring, "shh"),
+        env,
+      ),
+    ).toMatchObject({ ok: true });
+  });
+
+  it("verifies ES256 tokens against keys from a JWKS file", async () => {
+    const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const jwksPath = join(dir, "jwks.json");
+    await writeFile(
+      jwksPath,
+      JSON.stringify({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: "k1" }] }),
+    );
+    const policy = { mode: "jwt" as const, jwksFileEnv: "TEST_JWKS" };
+    const env = { TEST_JWKS: jwksPath };
+
+    const exp = Math.floor(Date.now() / 1000) + 60;
+    const input = `${encode({ alg: "ES256", kid: "k1" })}.${encode({ sub: "u1", exp })}`;
+    const signature = sign("sha256", Buffer.from(input), {
+      key: privateKey,
+      dsaEncoding: "ieee-p1363",
+    }).toString("base64url");
+
+    expect(await checkRuntimeAccess(policy, `${input}.${signature}`, env)).toEqual({
+      ok: true,
+      clientId: "jwt:u1",
+    });
+    expect(await checkRuntimeAccess(policy, signHs256({ sub: "u1", exp }, "shh"), env)).toMatchObject({
+      ok: false,
+      status: 401,
+    });
+
+    // A malformed key is the token's problem to report, not a server error.
+    const badJwksPath = join(dir, "bad-jwks.json");
+    await writeFile(
+      badJwksPath,
+      JSON.stringify({ keys: [{ kty: "EC", kid: "k1", crv: "P-256", x: "bad" }] }),
+    );
+    expect(
+      await checkRuntimeAccess(policy, `${input}.${signature}`, { TEST_JWKS: badJwksPath }),
+    ).toMatchObject({
+      ok: false,
+      status: 401,
+      message: expect.stringContaining("Key 'k1' is not a valid EC JWK"),
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFile, stat } from "node:fs/promises";
+import { resolve } from "node:path";
+import type { RuntimeAccessPolicy } from "@form-builder/contracts";
+import { JwtVerificationError, verifyJwt, type JwtKeys } from "../application/jwt.js";
+
+export type RuntimeAccessResult =
+  /** `clientId` names the verified caller; public access has none. */
+  | { ok: true; clientId?: string | undefined }
+  | { ok: false; status: 401 | 500; error: string; message: string };
+
+const jwksCache = new Map<string, { mtimeMs: number; jwks: NonNullable<JwtKeys["jwks"]> }>();
+
+// Re-reads the file when it changes, so keys can be rotated without a restart.
+async function loadJwks(path: string): Promise<NonNullable<JwtKeys["jwks"]>> {
+  const fullPath = resolve(path);
+  const { mtimeMs } = await stat(fullPath);
+  const cached = jwksCache.get(fullPath);
+  if (cached?.mtimeMs === mtimeMs) {
+    return cached.jwks;
+  }
+  const parsed = JSON.parse(await readFile(fullPath, "utf8")) as { keys?: unknown };
+  if (!Array.isArray(parsed.keys)) {
+    throw new Error(`JWKS file '${path}' has no 'keys' array.`);
+  }
+  const jwks = { keys: parsed.keys as NonNullable<JwtKeys["jwks"]>["keys"] };
+  jwksCache.set(fullPath, { mtimeMs, jwks });
+  return jwks;
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value, "utf8").digest();
+}
+
+function shortHash(value: string): string {
+  return sha256(value).toString("hex").slice(0, 16);
+}
+
+function misconfigured(message: string): RuntimeAccessResult {
+  return { ok: false, status: 500, error: "RUNTIME_ACCESS_MISCONFIGURED", message };
+}
+
+function denied(message: string): RuntimeAccessResult {
+  return { ok: false, status: 401, error: "UNAUTHORIZED", message };
+}
+
+/**
+ * Checks a bearer token against an app's `security.runtimeAccess` policy. Secrets are read from
+ * the environment variables the policy names; a policy whose variables are unset denies everything.
+ */
+export async function checkRuntimeAccess(
+  policy: RuntimeAccessPolicy,
+  token: string | null,
+  env: NodeJS.ProcessEnv,
+): Promise<RuntimeAccessResult> {
+  if (policy.mode === "public") {
+    return { ok: true };
+  }
+
+  if (policy.mode === "apiKey") {
+    const keys = (env[policy.keyEnv] ?? "")
+      .split(",")
+      .map((key) => key.trim())
+      .filter(Boolean);
+    if (keys.length === 0) {
+      return misconfigured(`Set ${policy.keyEnv} to accept access keys for this app.`);
+    }
+    if (!token) {
+      return denied("This app requires an access key.");
+    }
+    const digest = sha256(token);
+    return keys.some((key) => timingSafeEqual(sha256(key), digest))
+      ? { ok: true, clientId: `access-key:${shortHash(token)}` }
+      : denied("Invalid access key.");
+  }
+
+  const secret = policy.secretEnv ? env[policy.secretEnv]?.trim() : undefined;
+  const jwksPath = policy.jwksFileEnv ? env[policy.jwksFileEnv]?.trim() : undefined;
+  if (!secret && !jwksPath) {
+    return misconfigured(
+      `Set ${[policy.secretEnv, policy.jwksFileEnv].filter(Boolean).join(" or ")} to verify tokens for this app.`,
+    );
+  }
+  if (!token) {
+    return denied("This app requires a signed token.");
+  }
+
+  let jwks: JwtKeys["jwks"];
+  try {
+    jwks = jwksPath ? await loadJwks(jwksPath) : undefined;
+  } catch (error) {
+    return misconfigured(`Cannot read JWKS file: ${(error as Error).message}`);
+  }
+
+  try {
+    const claims = verifyJwt(token, { secret, jwks }, {
+      issuer: policy.issuer,
+      audience: policy.audience,
+      allowMissingExpiry: policy.allowNonExpiringTokens,
+    });
+    return {
+      ok: true,
+      clientId: typeof claims.sub === "string" ? `jwt:${claims.sub}` : `jwt:${shortHash(token)}`,
+    };
+  } catch (error) {
+    if (error instanceof JwtVerificationError) {
+      return denied(error.message);
+    }
+    throw error;
+  }
+}
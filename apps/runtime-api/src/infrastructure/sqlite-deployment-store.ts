@@ -0,0 +1,48 @@
+import {
+  emptyDeploymentHistory,
+  type DeploymentHistoryV1,
+  type DeploymentRecord,
+  type DeploymentStore,
+} from "../application/deployments.js";
+import { openDatabase } from "./sqlite-project-store.js";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS deployments (
+    project_id TEXT PRIMARY KEY,
+    live TEXT,
+    history TEXT NOT NULL
+  );
+`;
+
+/** Keeps each project's deploy history in the SQLite project database, one row per project. */
+export function createSqliteDeploymentStore(path: string): DeploymentStore {
+  const db = openDatabase(path);
+  db.exec(SCHEMA);
+
+  return {
+    async get(projectId) {
+      const row = db.prepare("SELECT history FROM deployments WHERE project_id = ?").get(projectId);
+      return row
+        ? (JSON.parse(String(row.history)) as DeploymentHistoryV1)
+        : emptyDeploymentHistory(projectId);
+    },
+
+    async save(history) {
+      db.prepare(
+        `INSERT INTO deployments (project_id, live, history) VALUES (?, ?, ?)
+         ON CONFLICT (project_id) DO UPDATE SET live = excluded.live, history = excluded.history`,
+      ).run(
+        history.projectId,
+        history.live ? JSON.stringify(history.live) : null,
+        JSON.stringify(history),
+      );
+    },
+
+    async listLive() {
+      return db
+        .prepare("SELECT live FROM deployments WHERE live IS NOT NULL ORDER BY project_id")
+        .all()
+        .map((row) => JSON.parse(String(row.live)) as DeploymentRecord);
+    },
+  };
+}
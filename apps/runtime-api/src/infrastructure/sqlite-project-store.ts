@@ -0,0 +1,225 @@
+import { mkdirSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname } from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+import {
+  applyProjectMetaChanges,
+  duplicateProjectMeta,
+  prepareProjectVersion,
+  ProjectExistsError,
+  ProjectNotFoundError,
+  toProjectIndexEntry,
+  type ProjectMetaV1,
+  type ProjectStore,
+  type ProjectVersionV1,
+} from "../application/project-store.js";
+
+const require = createRequire(import.meta.url);
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    archived INTEGER NOT NULL DEFAULT 0,
+    meta TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS projects_archived ON projects (archived);
+  CREATE TABLE IF NOT EXISTS trashed_projects (
+    id TEXT PRIMARY KEY,
+    meta TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS project_versions (
+    project_id TEXT NOT NULL,
+    trashed INTEGER NOT NULL DEFAULT 0,
+    id TEXT NOT NULL,
+    body TEXT NOT NULL,
+    PRIMARY KEY (project_id, trashed, id)
+  );
+`;
+
+/** `node:sqlite` ships with Node.js 22.5+; loading it lazily keeps the file store usable on older runtimes. */
+export function openDatabase(path: string): DatabaseSync {
+  let sqlite: typeof import("node:sqlite");
+  try {
+    sqlite = require("node:sqlite") as typeof import("node:sqlite");
+  } catch {
+    throw new Error("The SQLite project store needs Node.js 22.5 or newer (node:sqlite).");
+  }
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new sqlite.DatabaseSync(path);
+  db.exec("PRAGMA journal_mode = WAL;");
+  db.exec(SCHEMA);
+  return db;
+}
+
+/**
+ * Keeps project metadata and versions in one SQLite file. Each operation runs in its own
+ * transaction, so saves are atomic and conflict checks cannot interleave.
+ */
+export function createSqliteProjectStore(path: string): ProjectStore {
+  const db = openDatabase(path);
+
+  const transaction = <T>(task: () => T): T => {
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = task();
+      db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  };
+
+  const readMeta = (projectId: string): ProjectMetaV1 | null => {
+    const row = db.prepare("SELECT meta FROM projects WHERE id = ?").get(projectId);
+    return row ? (JSON.parse(String(row.meta)) as ProjectMetaV1) : null;
+  };
+
+  const requireMeta = (projectId: string): ProjectMetaV1 => {
+    const meta = readMeta(projectId);
+    if (!meta) {
+      throw new ProjectNotFoundError(projectId);
+    }
+    return meta;
+  };
+
+  const writeMeta = (meta: ProjectMetaV1): void => {
+    db.prepare(
+      `INSERT INTO projects (id, archived, meta) VALUES (?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET archived = excluded.archived, meta = excluded.meta`,
+    ).run(meta.id, meta.archivedAt ? 1 : 0, JSON.stringify(meta));
+  };
+
+  const insertVersion = (projectId: string, version: ProjectVersionV1): void => {
+    db.prepare(
+      "INSERT OR REPLACE INTO project_versions (project_id, trashed, id, body) VALUES (?, 0, ?, ?)",
+    ).run(projectId, version.id, JSON.stringify(version));
+  };
+
+  const readVersions = (projectId: string): ProjectVersionV1[] =>
+    db
+      .prepare("SELECT body FROM project_versions WHERE project_id = ? AND trashed = 0 ORDER BY id")
+      .all(projectId)
+      .map((row) => JSON.parse(String(row.body)) as ProjectVersionV1);
+
+  return {
+    async list(options) {
+      const rows = db
+        .prepare(
+          options.includeArchived
+            ? "SELECT meta FROM projects ORDER BY id"
+            : "SELECT meta FROM projects WHERE archived = 0 ORDER BY id",
+        )
+        .all();
+      return rows.map((row) => toProjectIndexEntry(JSON.parse(String(row.meta)) as ProjectMetaV1));
+    },
+
+    async getMeta(projectId) {
+      return readMeta(projectId);
+    },
+
+    async getVersion(projectId, versionId) {
+      const row = db
+        .prepare("SELECT body FROM project_versions WHERE project_id = ? AND trashed = 0 AND id = ?")
+        .get(projectId, versionId);
+      return row ? (JSON.parse(String(row.body)) as ProjectVersionV1) : null;
+    },
+
+    async appendVersion(projectId, input) {
+      return transaction(() => {
+        const result = prepareProjectVersion(projectId, readMeta(projectId), input);
+        insertVersion(projectId, result.saved);
+        writeMeta(result.project);
+        return result;
+      });
+    },
+
+    async updateMeta(projectId, changes) {
+      return transaction(() => {
+        const next = applyProjectMetaChanges(requireMeta(projectId), changes);
+        writeMeta(next);
+        return next;
+      });
+    },
+
+    async duplicate(projectId, targetId, name) {
+      return transaction(() => {
+        const meta = requireMeta(projectId);
+        if (readMeta(targetId)) {
+          throw new ProjectExistsError(targetId);
+        }
+        db.prepare(
+          `INSERT INTO project_versions (project_id, trashed, id, body)
+           SELECT ?, 0, id, body FROM project_versions WHERE project_id = ? AND trashed = 0`,
+        ).run(targetId, projectId);
+        const copy = duplicateProjectMeta(meta, targetId, name);
+        writeMeta(copy);
+        return copy;
+      });
+    },
+
+    async trash(projectId) {
+      return transaction(() => {
+        const trashed: ProjectMetaV1 = {
+          ...requireMeta(projectId),
+          deletedAt: new Date().toISOString(),
+        };
+        // An older trashed copy with the same id is replaced.
+        db.prepare("DELETE FROM project_versions WHERE project_id = ? AND trashed = 1").run(projectId);
+        db.prepare("UPDATE project_versions SET trashed = 1 WHERE project_id = ?").run(projectId);
+        db.prepare("DELETE FROM projects WHERE id = ?").run(projectId);
+        db.prepare("INSERT OR REPLACE INTO trashed_projects (id, meta) VALUES (?, ?)").run(
+          projectId,
+          JSON.stringify(trashed),
+        );
+        return trashed;
+      });
+    },
+
+    async listTrash() {
+      return db
+        .prepare("SELECT meta FROM trashed_projects ORDER BY id")
+        .all()
+        .map((row) => JSON.parse(String(row.meta)) as ProjectMetaV1);
+    },
+
+    async restoreFromTrash(projectId) {
+      return transaction(() => {
+        const row = db.prepare("SELECT meta FROM trashed_projects WHERE id = ?").get(projectId);
+        if (!row) {
+          throw new ProjectNotFoundError(projectId);
+        }
+        if (readMeta(projectId)) {
+          throw new ProjectExistsError(projectId);
+        }
+        const meta: ProjectMetaV1 = {
+          ...(JSON.parse(String(row.meta)) as ProjectMetaV1),
+          deletedAt: undefined,
+        };
+        db.prepare("UPDATE project_versions SET trashed = 0 WHERE project_id = ?").run(projectId);
+        db.prepare("DELETE FROM trashed_projects WHERE id = ?").run(projectId);
+        writeMeta(meta);
+        return meta;
+      });
+    },
+
+    async exportProject(projectId) {
+      const meta = readMeta(projectId);
+      return meta ? { meta, versions: readVersions(projectId) } : null;
+    },
+
+    async importProject(project) {
+      transaction(() => {
+        db.prepare("DELETE FROM project_versions WHERE project_id = ? AND trashed = 0").run(
+          project.meta.id,
+        );
+        for (const version of project.versions) {
+          insertVersion(project.meta.id, version);
+        }
+        writeMeta(project.meta);
+      });
+    },
+  };
+}
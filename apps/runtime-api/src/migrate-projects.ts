@@ -0,0 +1,34 @@
+import "dotenv/config";
+import { resolve } from "node:path";
+import { migrateProjects } from "./application/migrate-projects.js";
+import { resolveDataDir } from "./infrastructure/data-dir.js";
+import { createFileDeploymentStore } from "./infrastructure/file-deployment-store.js";
+import { createFileProjectStore } from "./infrastructure/file-project-store.js";
+import { resolveSqlitePath } from "./infrastructure/project-stores.js";
+import { createSqliteDeploymentStore } from "./infrastructure/sqlite-deployment-store.js";
+import { createSqliteProjectStore } from "./infrastructure/sqlite-project-store.js";
+
+// Usage: pnpm --filter @form-builder/runtime-api migrate:projects [<data dir>]
+async function main(): Promise<void> {
+  const dataDir = process.argv[2] ? resolve(process.argv[2]) : resolveDataDir();
+  const sqlitePath = resolveSqlitePath(process.env);
+
+  const result = await migrateProjects(
+    createFileProjectStore(dataDir),
+    createSqliteProjectStore(sqlitePath),
+    (projectId, versions) => console.log(`Imported ${projectId} (${versions} versions)`),
+    {
+      source: createFileDeploymentStore(dataDir),
+      target: createSqliteDeploymentStore(sqlitePath),
+    },
+  );
+
+  console.log(
+    `Migrated ${result.projects} projects, ${result.versions} versions and ${result.deployments} deployments from ${dataDir}/projects into ${sqlitePath}`,
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
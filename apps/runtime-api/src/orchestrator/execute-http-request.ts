@@ -0,0 +1,157 @@
+import type { ZodSchema } from "zod";
+import { interpolateJsonTemplate, interpolateTemplate } from "./interpolate-template.js";
+import { safeJsonParse } from "./safe-json-parse.js";
+
+const DEFAULT_HTTP_TIMEOUT_MS = 10_000;
+const MAX_HTTP_REDIRECTS = 5;
+const MAX_HTTP_RESPONSE_BYTES = 1_000_000;
+
+export interface HttpRequestExecution<TVars extends Record<string, unknown>> {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  urlTemplate: string;
+  headers: Record<string, string>;
+  bodyTemplate?: string | undefined;
+  variables: TVars;
+  outputSchema: ZodSchema;
+}
+
+export interface HttpRequestResult<TOut> {
+  output: TOut;
+  status: number;
+  url: string;
+}
+
+export function isHostAllowed(url: URL, allowedHosts: string[]): boolean {
+  return allowedHosts.some((entry) => {
+    const pattern = entry.toLowerCase();
+    const target = pattern.includes(":") ? url.host.toLowerCase() : url.hostname.toLowerCase();
+    if (pattern.startsWith("*.")) {
+      return target.endsWith(pattern.slice(1));
+    }
+    return target === pattern;
+  });
+}
+
+export async function executeHttpRequest<TVars extends Record<string, unknown>, TOut>(
+  req: HttpRequestExecution<TVars>,
+  options: {
+    allowedHosts: string[];
+    timeoutMs?: number | undefined;
+    signal?: AbortSignal | undefined;
+  },
+): Promise<HttpRequestResult<TOut>> {
+  const encodedVariables: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(req.variables)) {
+    encodedVariables[key] = encodeURIComponent(
+      typeof value === "string" ? value : JSON.stringify(value),
+    );
+  }
+
+  let url = new URL(interpolateTemplate(req.urlTemplate, encodedVariables));
+  assertUrlAllowed(url, options.allowedHosts);
+
+  const headers: Record<string, string> = {};
+  for (const [name, template] of Object.entries(req.headers)) {
+    headers[name] = interpolateTemplate(template, req.variables);
+  }
+
+  const sendsBody = req.method !== "GET" && req.bodyTemplate !== undefined;
+  const contentTypeHeader = Object.keys(headers).find((name) => name.toLowerCase() === "content-type");
+  if (sendsBody && contentTypeHeader === undefined) {
+    headers["content-type"] = "application/json";
+  }
+  const sendsJson = (headers[contentTypeHeader ?? "content-type"] ?? "").toLowerCase().includes("json");
+
+  let method: string = req.method;
+  let body: string | undefined =
+    sendsBody && req.bodyTemplate !== undefined
+      ? sendsJson
+        ? interpolateJsonTemplate(req.bodyTemplate, req.variables)
+        : interpolateTemplate(req.bodyTemplate, req.variables)
+      : undefined;
+  const timeout = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS);
+  const signal = options.signal ? AbortSignal.any([timeout, options.signal]) : timeout;
+
+  // Redirects are followed by hand so every hop is checked against the allowlist.
+  let response: Response;
+  for (let redirects = 0; ; redirects += 1) {
+    response = await fetch(url, {
+      method,
+      headers,
+      ...(body !== undefined ? { body } : {}),
+      redirect: "manual",
+      signal,
+    });
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || location === null) {
+      break;
+    }
+    await response.body?.cancel();
+    if (redirects >= MAX_HTTP_REDIRECTS) {
+      throw new Error(`HTTP ${req.method} ${url.host}${url.pathname} exceeded ${MAX_HTTP_REDIRECTS} redirects.`);
+    }
+
+    url = new URL(location, url);
+    assertUrlAllowed(url, options.allowedHosts);
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === "POST")) {
+      method = "GET";
+      body = undefined;
+    }
+  }
+
+  const text = await readLimitedText(response, url, MAX_HTTP_RESPONSE_BYTES);
+  if (!response.ok) {
+    throw new Error(`HTTP ${req.method} ${url.host}${url.pathname} failed with status ${response.status}.`);
+  }
+
+  const json = safeJsonParse(text);
+  const parsed = req.outputSchema.parse(json) as TOut;
+
+  return {
+    output: parsed,
+    status: response.status,
+    url: url.toString(),
+  };
+}
+
+function assertUrlAllowed(url: URL, allowedHosts: string[]): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Unsupported URL protocol '${url.protocol}'.`);
+  }
+  if (!isHostAllowed(url, allowedHosts)) {
+    throw new Error(
+      `Host '${url.host}' is not allowed. Add it to FORM_BUILDER_HTTP_ALLOWED_HOSTS.`,
+    );
+  }
+}
+
+async function readLimitedText(response: Response, url: URL, maxBytes: number): Promise<string> {
+  const tooLarge = () => new Error(`HTTP response from ${url.host}${url.pathname} exceeds ${maxBytes} bytes.`);
+  const declared = Number(response.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return "";
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
@@ -1,23 +1,231 @@
+import { ZodError } from "zod";
 import { interpolateTemplate } from "./interpolate-template.js";
 import { safeJsonParse } from "./safe-json-parse.js";
+import {
+  DEFAULT_FALLBACK_ON,
+  PromptOutputError,
+  ProviderTimeoutError,
+  ProviderUnavailableError,
+  classifyProviderError,
+} from "./provider-errors.js";
 import type {
   LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  ModelTarget,
+  ModelUsage,
+  PromptAttempt,
+  PromptFallback,
   PromptExecutionRequest,
   PromptExecutionResult,
+  TokenUsage,
 } from "./types.js";
 
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_BACKOFF_MULTIPLIER = 2;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Aborts the signal handed to `run` on timeout or when `parent` aborts, so the provider call
+// stops instead of running on (and streaming tokens) behind the next attempt.
+async function withTimeout<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  parent: AbortSignal | undefined,
+): Promise<T> {
+  parent?.throwIfAborted();
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onParentAbort: (() => void) | undefined;
+  try {
+    return await Promise.race([
+      run(controller.signal),
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          const error = new ProviderTimeoutError(`Provider did not respond within ${timeoutMs}ms.`);
+          controller.abort(error);
+          reject(error);
+        }, timeoutMs);
+        onParentAbort = () => {
+          controller.abort(parent?.reason);
+          reject(parent?.reason as Error);
+        };
+        parent?.addEventListener("abort", onParentAbort, { once: true });
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    if (onParentAbort) {
+      parent?.removeEventListener("abort", onParentAbort);
+    }
+  }
+}
+
+function formatZodIssues(error: ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+  );
+}
+
+function buildRepairPrompt(basePrompt: string, failure: PromptOutputError): string {
+  return [
+    basePrompt,
+    "",
+    "Your previous reply was:",
+    failure.rawText,
+    "",
+    "It was rejected for these reasons:",
+    ...failure.issues.map((issue) => `- ${issue}`),
+    "",
+    "Reply again with corrected JSON only.",
+  ].join("\n");
+}
+
+interface PromptTaskOptions {
+  onToken?: ((text: string) => void) | undefined;
+  /** Called before a retry or fallback attempt when tokens of a failed attempt were streamed. */
+  onTokenReset?: (() => void) | undefined;
+  onAttempt?: ((attempt: PromptAttempt) => void) | undefined;
+  onFallback?: ((fallback: PromptFallback) => void) | undefined;
+  /** Collects billed tokens as replies arrive, so the usage of a task that fails is not lost. */
+  usage?: ModelUsage[] | undefined;
+  /** Aborting it cancels the call in flight; no further attempts or fallbacks are made. */
+  signal?: AbortSignal | undefined;
+}
+
+function recordUsage(
+  records: ModelUsage[],
+  target: ModelTarget,
+  usage: TokenUsage | undefined,
+): void {
+  if (!usage) {
+    return;
+  }
+  const existing = records.find(
+    (record) => record.provider === target.provider && record.model === target.model,
+  );
+  if (!existing) {
+    records.push({ provider: target.provider, model: target.model, usage: { ...usage } });
+    return;
+  }
+  existing.usage.inputTokens += usage.inputTokens;
+  existing.usage.outputTokens += usage.outputTokens;
+  existing.usage.cachedInputTokens += usage.cachedInputTokens;
+}
+
+async function runAttempts<TOut>(
+  target: ModelTarget,
+  prompt: string,
+  req: PromptExecutionRequest<Record<string, unknown>>,
+  providers: Record<string, LlmProvider>,
+  options: PromptTaskOptions,
+  usage: ModelUsage[],
+  startAttempt: () => void,
+): Promise<PromptExecutionResult<TOut>> {
+  const provider = providers[target.provider];
+  if (!provider) {
+    throw new ProviderUnavailableError(`Unknown provider '${target.provider}'.`);
+  }
+
+  const policy = req.retryPolicy ?? {};
+  const maxAttempts = (policy.maxRetries ?? 0) + 1;
+  const timeoutMs = policy.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let lastError: Error = new Error("Prompt was not attempted.");
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    if (attempt > 1 && (policy.backoffMs ?? 0) > 0) {
+      const multiplier = policy.backoffMultiplier ?? DEFAULT_BACKOFF_MULTIPLIER;
+      await sleep((policy.backoffMs ?? 0) * multiplier ** (attempt - 2));
+    }
+
+    const repairing = attempt > 1 && policy.mode === "repair" && lastError instanceof PromptOutputError;
+    const kind: PromptAttempt["kind"] = attempt === 1 ? "initial" : repairing ? "repair" : "retry";
+    const llmRequest: LlmRequest = {
+      prompt: repairing ? buildRepairPrompt(prompt, lastError as PromptOutputError) : prompt,
+      model: target.model,
+      temperature: target.temperature ?? 0,
+      responseFormat: "json",
+    };
+    const onToken = options.onToken;
+
+    startAttempt();
+    const startedAt = Date.now();
+    try {
+      const result: LlmResponse = await withTimeout(
+        (signal) =>
+          onToken && provider.stream
+            ? provider.stream({ ...llmRequest, signal }, (text) => {
+                // A timed-out call may still deliver buffered deltas; they belong to no attempt.
+                if (!signal.aborted) {
+                  onToken(text);
+                }
+              })
+            : provider.execute({ ...llmRequest, signal }),
+        timeoutMs,
+        options.signal,
+      );
+      recordUsage(usage, target, result.usage);
+
+      let parsed: TOut;
+      try {
+        parsed = req.outputSchema.parse(safeJsonParse(result.text)) as TOut;
+      } catch (error) {
+        const issues =
+          error instanceof ZodError ? formatZodIssues(error) : [(error as Error).message];
+        throw new PromptOutputError(
+          `Provider response failed validation: ${issues.join("; ")}`,
+          result.text,
+          issues,
+        );
+      }
+
+      options.onAttempt?.({
+        provider: target.provider,
+        attempt,
+        maxAttempts,
+        kind,
+        ok: true,
+        durationMs: Date.now() - startedAt,
+      });
+      return {
+        output: parsed,
+        prompt,
+        rawText: result.text,
+        providerMeta: { ...result.meta, provider: target.provider, model: target.model },
+        attempts: attempt,
+        usage,
+        answeredBy: target,
+      };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      lastError = error as Error;
+      options.onAttempt?.({
+        provider: target.provider,
+        attempt,
+        maxAttempts,
+        kind,
+        ok: false,
+        durationMs: Date.now() - startedAt,
+        error: lastError.message,
+      });
+    }
+  }
+
+  throw lastError;
+}
+
 export async function executePromptTask<
   TVars extends Record<string, unknown>,
   TOut,
 >(
   req: PromptExecutionRequest<TVars>,
   providers: Record<string, LlmProvider>,
+  options: PromptTaskOptions = {},
 ): Promise<PromptExecutionResult<TOut>> {
-  const provider = providers[req.modelPolicy.provider];
-  if (!provider) {
-    throw new Error(`Unknown provider '${req.modelPolicy.provider}'.`);
-  }
-
   const interpolated = interpolateTemplate(req.template, req.variables);
   const prompt = [
     "You are a strict JSON API.",
@@ -25,19 +233,59 @@ export async function executePromptTask<
     interpolated,
   ].join("\n");
 
-  const result = await provider.execute({
-    prompt,
-    model: req.modelPolicy.model,
-    temperature: req.modelPolicy.temperature ?? 0,
-    responseFormat: "json",
-  });
-
-  const json = safeJsonParse(result.text);
-  const parsed = req.outputSchema.parse(json) as TOut;
+  const { fallbacks = [], fallbackOn = DEFAULT_FALLBACK_ON, ...primary } = req.modelPolicy;
+  const chain: ModelTarget[] = [primary, ...fallbacks];
 
-  return {
-    output: parsed,
-    rawText: result.text,
-    providerMeta: result.meta,
+  const usage = options.usage ?? [];
+  let streamed = false;
+  const attemptOptions: PromptTaskOptions = {
+    ...options,
+    onToken:
+      options.onToken &&
+      ((text) => {
+        streamed = true;
+        options.onToken?.(text);
+      }),
   };
+  const startAttempt = () => {
+    if (streamed) {
+      streamed = false;
+      options.onTokenReset?.();
+    }
+  };
+
+  let lastError: unknown = new Error("Model policy has no providers.");
+  for (const [index, target] of chain.entries()) {
+    if (index > 0) {
+      const previous = chain[index - 1] as ModelTarget;
+      const errorClass = classifyProviderError(lastError);
+      if (!errorClass || !fallbackOn.includes(errorClass)) {
+        break;
+      }
+      options.onFallback?.({
+        from: previous,
+        to: target,
+        errorClass,
+        error: (lastError as Error).message,
+      });
+    }
+    try {
+      return await runAttempts<TOut>(
+        target,
+        prompt,
+        req,
+        providers,
+        attemptOptions,
+        usage,
+        startAttempt,
+      );
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      lastError = error;
+    }
+  }
+
+  throw lastError;
 }
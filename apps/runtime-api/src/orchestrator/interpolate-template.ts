@@ -1,16 +1,19 @@
 const TEMPLATE_TOKEN_REGEX = /{{\s*([^}]+?)\s*}}/g;
 
+function resolveVariable(variables: Record<string, unknown>, rawKey: string): unknown {
+  const key = String(rawKey).trim();
+  if (!(key in variables)) {
+    throw new Error(`Missing template variable '${key}'.`);
+  }
+  return variables[key];
+}
+
 export function interpolateTemplate(
   template: string,
   variables: Record<string, unknown>,
 ): string {
   return template.replace(TEMPLATE_TOKEN_REGEX, (_match, rawKey: string) => {
-    const key = String(rawKey).trim();
-    if (!(key in variables)) {
-      throw new Error(`Missing template variable '${key}'.`);
-    }
-
-    const value = variables[key];
+    const value = resolveVariable(variables, rawKey);
     if (typeof value === "string") {
       return value;
     }
@@ -18,3 +21,38 @@ export function interpolateTemplate(
     return JSON.stringify(value);
   });
 }
+
+/**
+ * Interpolates a JSON body template so that variable values can never change
+ * the document structure: a token inside a string literal is inserted as
+ * escaped string content, a token outside one as a JSON value.
+ */
+export function interpolateJsonTemplate(
+  template: string,
+  variables: Record<string, unknown>,
+): string {
+  let inString = false;
+  let escaped = false;
+  let scannedTo = 0;
+
+  return template.replace(TEMPLATE_TOKEN_REGEX, (_match, rawKey: string, offset: number) => {
+    for (; scannedTo < offset; scannedTo += 1) {
+      const char = template[scannedTo];
+      if (escaped) {
+        escaped = false;
+      } else if (inString && char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = !inString;
+      }
+    }
+    scannedTo = offset + _match.length;
+
+    const value = resolveVariable(variables, rawKey);
+    if (!inString) {
+      return JSON.stringify(value ?? null);
+    }
+    const text = typeof value === "string" ? value : JSON.stringify(value ?? null);
+    return JSON.stringify(text).slice(1, -1);
+  });
+}
@@ -0,0 +1,66 @@
+export type ProviderErrorClass =
+  | "unavailable"
+  | "rate_limit"
+  | "timeout"
+  | "server_error"
+  | "invalid_output";
+
+export const DEFAULT_FALLBACK_ON: ProviderErrorClass[] = [
+  "unavailable",
+  "rate_limit",
+  "timeout",
+  "server_error",
+];
+
+export class ProviderUnavailableError extends Error {}
+
+export class ProviderTimeoutError extends Error {}
+
+export class PromptOutputError extends Error {
+  constructor(
+    message: string,
+    readonly rawText: string,
+    readonly issues: string[],
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Maps an error thrown while running a prompt onto the coarse classes a model policy can fall
+ * back on. SDK errors are recognised by their HTTP `status`; anything unrecognised returns null.
+ */
+export function classifyProviderError(error: unknown): ProviderErrorClass | null {
+  if (error instanceof ProviderUnavailableError) {
+    return "unavailable";
+  }
+  if (error instanceof ProviderTimeoutError) {
+    return "timeout";
+  }
+  if (error instanceof PromptOutputError) {
+    return "invalid_output";
+  }
+
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === "number") {
+    if (status === 429) {
+      return "rate_limit";
+    }
+    if (status === 401 || status === 403) {
+      return "unavailable";
+    }
+    if (status === 408) {
+      return "timeout";
+    }
+    if (status >= 500) {
+      return "server_error";
+    }
+  }
+  if (error instanceof Error && error.name === "APIConnectionTimeoutError") {
+    return "timeout";
+  }
+  if (error instanceof Error && error.name === "APIConnectionError") {
+    return "unavailable";
+  }
+  return null;
+}
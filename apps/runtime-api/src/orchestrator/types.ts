@@ -1,27 +1,94 @@
 import type { ZodSchema } from "zod";
+import type { ProviderErrorClass } from "./provider-errors.js";
+
+export interface ModelTarget {
+  provider: string;
+  model: string;
+  temperature?: number | undefined;
+}
 
 export interface PromptExecutionRequest<TVars extends Record<string, unknown>> {
   template: string;
   variables: TVars;
   outputSchema: ZodSchema;
-  modelPolicy: {
-    provider: "openai" | "anthropic" | "mock";
-    model: string;
-    temperature?: number | undefined;
+  modelPolicy: ModelTarget & {
+    fallbacks?: ModelTarget[] | undefined;
+    fallbackOn?: ProviderErrorClass[] | undefined;
   };
+  retryPolicy?:
+    | {
+        timeoutMs?: number | undefined;
+        maxRetries?: number | undefined;
+        backoffMs?: number | undefined;
+        backoffMultiplier?: number | undefined;
+        mode?: "retry" | "repair" | undefined;
+      }
+    | undefined;
 }
 
 export interface PromptExecutionResult<TOut> {
   output: TOut;
+  /** The interpolated prompt sent on the first attempt. */
+  prompt: string;
   rawText: string;
   providerMeta: Record<string, unknown>;
+  attempts: number;
+  /** Tokens billed across every attempt that got a reply, grouped by provider and model. */
+  usage: ModelUsage[];
+  /** The chain entry that produced `output`; differs from `modelPolicy` after a fallback. */
+  answeredBy: ModelTarget;
+}
+
+export interface PromptAttempt {
+  provider: string;
+  attempt: number;
+  maxAttempts: number;
+  kind: "initial" | "retry" | "repair";
+  ok: boolean;
+  durationMs: number;
+  error?: string | undefined;
+}
+
+export interface LlmRequest {
+  prompt: string;
+  model: string;
+  temperature?: number | undefined;
+  responseFormat?: "json";
+  /** Aborted when the attempt times out; providers pass it on so the request is cancelled. */
+  signal?: AbortSignal | undefined;
+}
+
+/** `inputTokens` includes `cachedInputTokens`. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+}
+
+export interface ModelUsage {
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface LlmResponse {
+  text: string;
+  meta: Record<string, unknown>;
+  usage?: TokenUsage | undefined;
 }
 
 export interface LlmProvider {
-  execute(req: {
-    prompt: string;
-    model: string;
-    temperature?: number | undefined;
-    responseFormat?: "json";
-  }): Promise<{ text: string; meta: Record<string, unknown> }>;
+  execute(req: LlmRequest): Promise<LlmResponse>;
+  /**
+   * Optional incremental variant of `execute`. Calls `onToken` for each text delta
+   * as it arrives and resolves with the same shape once the reply is complete.
+   */
+  stream?(req: LlmRequest, onToken: (text: string) => void): Promise<LlmResponse>;
+}
+
+export interface PromptFallback {
+  from: ModelTarget;
+  to: ModelTarget;
+  errorClass: ProviderErrorClass;
+  error: string;
 }
@@ -1,16 +1,71 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  readEventStream,
+  type InputComponent,
+  type ScheduledEventResult,
+  type UIComponent,
+  type UploadedFile,
+} from "@form-builder/contracts";
 import { uiSchema } from "./generated/ui-schema.js";
+import { Markdown } from "./markdown.js";
 import "./styles.css";
 
 // Default to same-origin so the app works out-of-the-box when served by runtime-api on one port.
 const apiBase = import.meta.env.VITE_RUNTIME_API_URL ?? "";
+const apiKey = (import.meta.env.VITE_RUNTIME_API_KEY as string | undefined)?.trim();
+const accessMode = uiSchema.security?.runtimeAccess.mode ?? "public";
+const ACCESS_TOKEN_STORAGE_KEY = `form-builder.runtime-token.${uiSchema.appId}`;
+const DEFAULT_CHANGE_DEBOUNCE_MS = 400;
+
+// A `#token=...` fragment wins and is moved into session storage, out of the address bar.
+function readInitialAccessToken(): string {
+  const fromHash = new URLSearchParams(window.location.hash.slice(1)).get("token")?.trim();
+  if (fromHash) {
+    sessionStorage.setItem(ACCESS_TOKEN_STORAGE_KEY, fromHash);
+    window.history.replaceState(null, "", `${window.location.pathname}${window.location.search}`);
+    return fromHash;
+  }
+  return sessionStorage.getItem(ACCESS_TOKEN_STORAGE_KEY) ?? apiKey ?? "";
+}
+
+// Files travel base64-encoded inside the JSON state; runtime-api swaps them for their text.
+function readUploadedFile(file: File): Promise<UploadedFile> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result ?? "");
+      resolve({
+        name: file.name,
+        mimeType: file.type,
+        contentBase64: dataUrl.slice(dataUrl.indexOf(",") + 1),
+      });
+    };
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read '${file.name}'.`));
+    reader.readAsDataURL(file);
+  });
+}
 
 export function App(): JSX.Element {
-  const [state, setState] = useState<Record<string, unknown>>({});
+  // Checkboxes start unchecked rather than unset, so required-field checks treat them as filled.
+  const [state, setState] = useState<Record<string, unknown>>(() =>
+    Object.fromEntries(
+      uiSchema.ui.components
+        .filter((component) => component.type === "Checkbox")
+        .map((component) => [component.stateKey, false]),
+    ),
+  );
   const [status, setStatus] = useState("idle");
   const [logs, setLogs] = useState<Array<{ at: string; stage: string; message: string }>>(
     [],
   );
+  const [streamText, setStreamText] = useState("");
+  const [accessToken, setAccessToken] = useState(readInitialAccessToken);
+  // Debounced runs read state when they fire, not when the change that scheduled them happened.
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const changeRuns = useRef(
+    new Map<string, { timer?: ReturnType<typeof setTimeout>; controller?: AbortController }>(),
+  );
 
   const appTitle = useMemo(() => uiSchema.appId.replaceAll("_", " "), []);
 
@@ -27,48 +82,477 @@ export function App(): JSX.Element {
 
   const stateShapeByKey = useMemo(() => uiSchema.stateModel, []);
 
-  const runEvent = async (eventId: string): Promise<void> => {
+  const triggerByEventId = useMemo(
+    () => new Map(uiSchema.events.map((event) => [event.id, event.trigger])),
+    [],
+  );
+
+  const componentsById = useMemo(
+    () => new Map(uiSchema.ui.components.map((component) => [component.id, component])),
+    [],
+  );
+
+  // Components inside a form are rendered by the form, not at the top level.
+  const formChildIds = useMemo(
+    () =>
+      new Set(
+        uiSchema.ui.components.flatMap((component) =>
+          component.type === "Form" ? component.componentIds : [],
+        ),
+      ),
+    [],
+  );
+
+  useEffect(() => {
+    const runs = changeRuns.current;
+    return () => {
+      for (const run of runs.values()) {
+        clearTimeout(run.timer);
+        run.controller?.abort();
+      }
+    };
+  }, []);
+
+  // Scheduled events contribute the statePatch of their latest server-side run; page-load events
+  // then run one at a time, since they share the status line and log panel.
+  useEffect(() => {
+    const controller = new AbortController();
+    const headers = accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined;
+    for (const event of uiSchema.events) {
+      if (event.trigger.event !== "schedule") {
+        continue;
+      }
+      void fetch(`${apiBase}/apps/${uiSchema.appId}/events/${event.id}/scheduled-result`, {
+        ...(headers ? { headers } : {}),
+        signal: controller.signal,
+      })
+        .then(async (response) => {
+          // 404 until the first scheduled run has finished.
+          if (response.ok) {
+            const result = (await response.json()) as ScheduledEventResult;
+            setState((prev) => ({ ...prev, ...result.statePatch }));
+          }
+        })
+        .catch(() => undefined);
+    }
+
+    void (async () => {
+      for (const event of uiSchema.events) {
+        if (event.trigger.event === "onLoad" && !controller.signal.aborted) {
+          await runEvent(event.id, controller.signal);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, []);
+
+  const missingStateKeys = (
+    eventId: string | undefined,
+    current: Record<string, unknown>,
+  ): string[] =>
+    (eventId ? validateInputsByEventId.get(eventId) ?? [] : []).filter((key) => {
+      const value = current[key];
+      return value === undefined || value === null || value === "";
+    });
+
+  const runEvent = async (eventId: string, signal?: AbortSignal): Promise<void> => {
     setStatus(`running: ${eventId}`);
+    setLogs([]);
+    setStreamText("");
     try {
       const response = await fetch(
-        `${apiBase}/apps/${uiSchema.appId}/events/${eventId}/execute`,
+        `${apiBase}/apps/${uiSchema.appId}/events/${eventId}/execute/stream`,
         {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ state }),
+          headers: {
+            "Content-Type": "application/json",
+            ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+          },
+          body: JSON.stringify({ state: stateRef.current }),
+          signal: signal ?? null,
         },
       );
 
-      const body = (await response.json()) as
-        | {
-            statePatch: Record<string, unknown>;
-            logs: Array<{ at: string; stage: string; message: string }>;
-          }
-        | { error?: string; message?: string };
-
       if (!response.ok) {
-        const message =
-          "message" in body && body.message
-            ? body.message
-            : "error" in body && body.error
-              ? body.error
-              : "Runtime call failed";
-        throw new Error(message);
+        const body = (await response.json()) as {
+          error?: string;
+          message?: string;
+          retryAfterSeconds?: number;
+        };
+        const message = body.message ?? body.error ?? "Runtime call failed";
+        throw new Error(
+          body.retryAfterSeconds ? `${message} Retry in ${body.retryAfterSeconds}s.` : message,
+        );
       }
 
-      const okBody = body as {
-        statePatch: Record<string, unknown>;
-        logs: Array<{ at: string; stage: string; message: string }>;
-      };
+      let failure: string | null = null;
+      // Length of the current node's streamed reply, dropped again when the attempt is retried.
+      let partialLength = 0;
+      await readEventStream(response, (event) => {
+        if (event.type === "log") {
+          setLogs((prev) => [...prev, event.log]);
+        } else if (event.type === "node-start") {
+          partialLength = 0;
+          setStatus(`running: ${eventId} (${event.nodeId})`);
+        } else if (event.type === "token") {
+          partialLength += event.text.length;
+          setStreamText((prev) => prev + event.text);
+        } else if (event.type === "token-reset") {
+          const dropped = partialLength;
+          partialLength = 0;
+          setStreamText((prev) => prev.slice(0, prev.length - dropped));
+        } else if (event.type === "state-patch") {
+          setState((prev) => ({ ...prev, ...event.statePatch }));
+        } else if (event.type === "result") {
+          setState((prev) => ({ ...prev, ...event.result.statePatch }));
+          setLogs(event.result.logs);
+        } else if (event.type === "error") {
+          failure = event.message;
+        }
+      });
 
-      setState((prev) => ({ ...prev, ...okBody.statePatch }));
-      setLogs(okBody.logs);
+      if (failure) {
+        throw new Error(failure);
+      }
+      setStreamText("");
       setStatus("done");
     } catch (error) {
+      // A newer change superseded this run; that run reports its own status.
+      if (signal?.aborted) {
+        return;
+      }
       setStatus(`error: ${(error as Error).message}`);
     }
   };
 
+  // Each change restarts the event's debounce and cancels its in-flight run, so only the
+  // latest value is classified. Values shorter than `minLength` do not run at all.
+  const scheduleChangeEvent = (component: InputComponent, value: unknown): void => {
+    const eventId = component.events?.onChange;
+    if (!eventId) {
+      return;
+    }
+    const trigger = triggerByEventId.get(eventId);
+    const pending = changeRuns.current.get(eventId);
+    clearTimeout(pending?.timer);
+    pending?.controller?.abort();
+    changeRuns.current.delete(eventId);
+
+    if (typeof value === "string" && value.trim().length < (trigger?.minLength ?? 0)) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      if (missingStateKeys(eventId, stateRef.current).length > 0) {
+        changeRuns.current.delete(eventId);
+        return;
+      }
+      const controller = new AbortController();
+      changeRuns.current.set(eventId, { controller });
+      void runEvent(eventId, controller.signal);
+    }, trigger?.debounceMs ?? DEFAULT_CHANGE_DEBOUNCE_MS);
+    changeRuns.current.set(eventId, { timer });
+  };
+
+  const setField = (component: InputComponent, value: unknown): void => {
+    setState((prev) => ({ ...prev, [component.stateKey]: value }));
+    scheduleChangeEvent(component, value);
+  };
+
+  const renderComponent = (component: UIComponent): JSX.Element | null => {
+    if (component.type === "TextArea") {
+      const value = typeof state[component.stateKey] === "string" ? (state[component.stateKey] as string) : "";
+      return (
+        <label key={component.id} className="runtime-field">
+          <span className="runtime-label">{component.label}</span>
+          <textarea
+            className="runtime-textarea"
+            value={value}
+            onChange={(event) => setField(component, event.target.value)}
+            placeholder={`Enter ${component.label}...`}
+          />
+        </label>
+      );
+    }
+
+    if (component.type === "TextInput") {
+      const value = typeof state[component.stateKey] === "string" ? (state[component.stateKey] as string) : "";
+      return (
+        <label key={component.id} className="runtime-field">
+          <span className="runtime-label">{component.label}</span>
+          <input
+            className="runtime-input"
+            value={value}
+            maxLength={component.props.maxLength}
+            onChange={(event) => setField(component, event.target.value)}
+            placeholder={component.props.placeholder ?? `Enter ${component.label}...`}
+          />
+        </label>
+      );
+    }
+
+    if (component.type === "NumberInput") {
+      const value = typeof state[component.stateKey] === "number" ? String(state[component.stateKey]) : "";
+      return (
+        <label key={component.id} className="runtime-field">
+          <span className="runtime-label">{component.label}</span>
+          <input
+            className="runtime-input"
+            type="number"
+            value={value}
+            min={component.props.min}
+            max={component.props.max}
+            step={component.props.step ?? "any"}
+            onChange={(event) => {
+              const next = event.target.valueAsNumber;
+              // An empty or partial entry clears the field so the required check can flag it.
+              setField(component, Number.isFinite(next) ? next : undefined);
+            }}
+          />
+        </label>
+      );
+    }
+
+    if (component.type === "Select") {
+      const field = stateShapeByKey[component.stateKey];
+      const options = field?.type === "string" ? field.enum ?? [] : [];
+      const value = typeof state[component.stateKey] === "string" ? (state[component.stateKey] as string) : "";
+      return (
+        <label key={component.id} className="runtime-field">
+          <span className="runtime-label">{component.label}</span>
+          <select
+            className="runtime-input"
+            value={value}
+            onChange={(event) => setField(component, event.target.value || undefined)}
+          >
+            <option value="">Choose...</option>
+            {options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+      );
+    }
+
+    if (component.type === "Checkbox") {
+      return (
+        <label key={component.id} className="runtime-field runtime-checkbox">
+          <input
+            type="checkbox"
+            checked={state[component.stateKey] === true}
+            onChange={(event) => setField(component, event.target.checked)}
+          />
+          <span className="runtime-label">{component.label}</span>
+        </label>
+      );
+    }
+
+    if (component.type === "FileUpload") {
+      const field = stateShapeByKey[component.stateKey];
+      const accept = field?.type === "file" ? field.accept?.join(",") : undefined;
+      const current = state[component.stateKey] as UploadedFile | undefined;
+      return (
+        <label key={component.id} className="runtime-field">
+          <span className="runtime-label">{component.label}</span>
+          <input
+            className="runtime-input"
+            type="file"
+            accept={accept}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (!file) {
+                setField(component, undefined);
+                return;
+              }
+              readUploadedFile(file).then(
+                (uploaded) => setField(component, uploaded),
+                (error: Error) => setStatus(`error: ${error.message}`),
+              );
+            }}
+          />
+          {current?.name && <span className="runtime-hint">Selected: {current.name}</span>}
+        </label>
+      );
+    }
+
+    if (component.type === "Button") {
+      const eventId = component.events.onClick;
+      const missing = missingStateKeys(eventId, state);
+      const disabled = !eventId || missing.length > 0 || status.startsWith("running:");
+
+      return (
+        <div key={component.id} className="runtime-button-wrap">
+          <button
+            type="button"
+            className="runtime-button"
+            disabled={disabled}
+            onClick={() => (eventId ? void runEvent(eventId) : undefined)}
+          >
+            {component.label}
+          </button>
+          {missing.length > 0 && (
+            <div className="runtime-hint">
+              Missing: {missing.map((key) => <code key={key}>{key}</code>)}
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    if (component.type === "DataTable") {
+      const rows = Array.isArray(state[component.dataKey]) ? (state[component.dataKey] as unknown[]) : [];
+      const shape =
+        stateShapeByKey[component.dataKey] && stateShapeByKey[component.dataKey]?.type === "array"
+          ? (stateShapeByKey[component.dataKey] as { type: "array"; items: { type: "object"; shape: Record<string, unknown> } })
+          : null;
+
+      const columns = shape
+        ? Object.keys(shape.items.shape)
+        : Array.from(
+            new Set(
+              rows.flatMap((row) =>
+                row && typeof row === "object" ? Object.keys(row as Record<string, unknown>) : [],
+              ),
+            ),
+          );
+
+      return (
+        <div key={component.id} className="runtime-table-wrap">
+          <div className="runtime-table-title">{component.label}</div>
+          {rows.length === 0 ? (
+            <div className="runtime-empty">No rows yet.</div>
+          ) : (
+            <table className="runtime-table">
+              <thead>
+                <tr>
+                  {columns.map((col) => (
+                    <th key={col}>{col}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, idx) => {
+                  const rec = row && typeof row === "object" ? (row as Record<string, unknown>) : {};
+                  return (
+                    <tr key={idx}>
+                      {columns.map((col) => (
+                        <td key={col}>
+                          {typeof rec[col] === "string" || typeof rec[col] === "number" || typeof rec[col] === "boolean"
+                            ? String(rec[col])
+                            : rec[col] === null || rec[col] === undefined
+                              ? ""
+                              : JSON.stringify(rec[col])}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      );
+    }
+
+    if (component.type === "MarkdownView") {
+      const text = state[component.dataKey];
+      return (
+        <div key={component.id} className="runtime-table-wrap">
+          <div className="runtime-table-title">{component.label}</div>
+          {typeof text === "string" && text.length > 0 ? (
+            <Markdown source={text} />
+          ) : (
+            <div className="runtime-empty">Nothing yet.</div>
+          )}
+        </div>
+      );
+    }
+
+    if (component.type === "KeyValueCard") {
+      const value = state[component.dataKey];
+      const entries =
+        value && typeof value === "object" && !Array.isArray(value)
+          ? Object.entries(value as Record<string, unknown>)
+          : [];
+      return (
+        <div key={component.id} className="runtime-table-wrap">
+          <div className="runtime-table-title">{component.label}</div>
+          {entries.length === 0 ? (
+            <div className="runtime-empty">Nothing yet.</div>
+          ) : (
+            <dl className="runtime-card">
+              {entries.map(([key, item]) => (
+                <div key={key} className="runtime-card-row">
+                  <dt>{key}</dt>
+                  <dd>
+                    {typeof item === "string" || typeof item === "number" || typeof item === "boolean"
+                      ? String(item)
+                      : item === null || item === undefined
+                        ? ""
+                        : JSON.stringify(item)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+      );
+    }
+
+    if (component.type === "JsonView") {
+      const value = state[component.dataKey];
+      return (
+        <div key={component.id} className="runtime-table-wrap">
+          <div className="runtime-table-title">{component.label}</div>
+          {value === undefined ? (
+            <div className="runtime-empty">Nothing yet.</div>
+          ) : (
+            <pre className="runtime-json">{JSON.stringify(value, null, 2)}</pre>
+          )}
+        </div>
+      );
+    }
+
+    if (component.type === "Form") {
+      const eventId = component.events.onSubmit;
+      const missing = missingStateKeys(eventId, state);
+      const disabled = !eventId || missing.length > 0 || status.startsWith("running:");
+
+      return (
+        <form
+          key={component.id}
+          className="runtime-form"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (eventId && !disabled) {
+              void runEvent(eventId);
+            }
+          }}
+        >
+          <div className="runtime-table-title">{component.label}</div>
+          {component.componentIds
+            .map((id) => componentsById.get(id))
+            .filter((child): child is UIComponent => !!child && child.type !== "Form")
+            .map(renderComponent)}
+          <div className="runtime-button-wrap">
+            <button type="submit" className="runtime-button" disabled={disabled}>
+              {component.props.submitLabel ?? "Submit"}
+            </button>
+            {missing.length > 0 && (
+              <div className="runtime-hint">
+                Missing: {missing.map((key) => <code key={key}>{key}</code>)}
+              </div>
+            )}
+          </div>
+        </form>
+      );
+    }
+
+    return null;
+  };
+
   return (
     <main className="app">
       <header className="runtime-header">
@@ -81,116 +565,36 @@ export function App(): JSX.Element {
         <div className="runtime-status">
           <span className="runtime-status-label">Status:</span> {status}
         </div>
+        {accessMode !== "public" && (
+          <label className="runtime-token">
+            <span className="runtime-label">{accessMode === "jwt" ? "Access token" : "Access key"}</span>
+            <input
+              type="password"
+              value={accessToken}
+              onChange={(event) => {
+                const next = event.target.value.trim();
+                setAccessToken(next);
+                sessionStorage.setItem(ACCESS_TOKEN_STORAGE_KEY, next);
+              }}
+              placeholder="Paste the token you were given"
+            />
+          </label>
+        )}
       </header>
 
       <section className="runtime-grid">
-        {uiSchema.ui.components.map((component) => {
-          if (component.type === "TextArea") {
-            const value = typeof state[component.stateKey] === "string" ? (state[component.stateKey] as string) : "";
-            return (
-              <label key={component.id} className="runtime-field">
-                <span className="runtime-label">{component.label}</span>
-                <textarea
-                  className="runtime-textarea"
-                  value={value}
-                  onChange={(event) =>
-                    setState((prev) => ({
-                      ...prev,
-                      [component.stateKey]: event.target.value,
-                    }))
-                  }
-                  placeholder={`Enter ${component.label}...`}
-                />
-              </label>
-            );
-          }
-
-          if (component.type === "Button") {
-            const eventId = component.events.onClick;
-            const required = eventId ? validateInputsByEventId.get(eventId) ?? [] : [];
-            const missing = required.filter((key) => {
-              const value = state[key];
-              return value === undefined || value === null || value === "";
-            });
-            const disabled = !eventId || missing.length > 0 || status.startsWith("running:");
-
-            return (
-              <div key={component.id} className="runtime-button-wrap">
-                <button
-                  className="runtime-button"
-                  disabled={disabled}
-                  onClick={() => (eventId ? void runEvent(eventId) : undefined)}
-                >
-                  {component.label}
-                </button>
-                {missing.length > 0 && (
-                  <div className="runtime-hint">
-                    Missing: {missing.map((key) => <code key={key}>{key}</code>)}
-                  </div>
-                )}
-              </div>
-            );
-          }
-
-          if (component.type === "DataTable") {
-            const rows = Array.isArray(state[component.dataKey]) ? (state[component.dataKey] as unknown[]) : [];
-            const shape =
-              stateShapeByKey[component.dataKey] && stateShapeByKey[component.dataKey]?.type === "array"
-                ? (stateShapeByKey[component.dataKey] as { type: "array"; items: { type: "object"; shape: Record<string, unknown> } })
-                : null;
-
-            const columns = shape
-              ? Object.keys(shape.items.shape)
-              : Array.from(
-                  new Set(
-                    rows.flatMap((row) =>
-                      row && typeof row === "object" ? Object.keys(row as Record<string, unknown>) : [],
-                    ),
-                  ),
-                );
-
-            return (
-              <div key={component.id} className="runtime-table-wrap">
-                <div className="runtime-table-title">{component.label}</div>
-                {rows.length === 0 ? (
-                  <div className="runtime-empty">No rows yet.</div>
-                ) : (
-                  <table className="runtime-table">
-                    <thead>
-                      <tr>
-                        {columns.map((col) => (
-                          <th key={col}>{col}</th>
-                        ))}
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {rows.map((row, idx) => {
-                        const rec = row && typeof row === "object" ? (row as Record<string, unknown>) : {};
-                        return (
-                          <tr key={idx}>
-                            {columns.map((col) => (
-                              <td key={col}>
-                                {typeof rec[col] === "string" || typeof rec[col] === "number" || typeof rec[col] === "boolean"
-                                  ? String(rec[col])
-                                  : rec[col] === null || rec[col] === undefined
-                                    ? ""
-                                    : JSON.stringify(rec[col])}
-                              </td>
-                            ))}
-                          </tr>
-                        );
-                      })}
-                    </tbody>
-                  </table>
-                )}
-              </div>
-            );
-          }
-
-          return null;
-        })}
+        {uiSchema.ui.components
+          .filter((component) => !formChildIds.has(component.id))
+          .map(renderComponent)}
       </section>
 
+      {streamText.length > 0 && (
+        <section className="runtime-logs">
+          <h2>Model Output</h2>
+          <pre className="runtime-stream">{streamText}</pre>
+        </section>
+      )}
+
       {logs.length > 0 && (
         <section className="runtime-logs">
           <h2>Execution Logs</h2>
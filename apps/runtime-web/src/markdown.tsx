@@ -0,0 +1,125 @@
+import type { ReactNode } from "react";
+
+// A small Markdown subset rendered as React elements; model output never reaches innerHTML.
+type Block =
+  | { kind: "heading"; level: 1 | 2 | 3; text: string }
+  | { kind: "list"; ordered: boolean; items: string[] }
+  | { kind: "code"; text: string }
+  | { kind: "paragraph"; text: string };
+
+const INLINE_REGEX = /(`[^`]+`|\*\*[^*]+\*\*|\*[^*]+\*|_[^_]+_)/g;
+
+function parseBlocks(source: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = source.replace(/\r\n/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = (): void => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: "paragraph", text: paragraph.join(" ") });
+      paragraph = [];
+    }
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index] ?? "";
+
+    if (line.trimStart().startsWith("```")) {
+      flushParagraph();
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !(lines[index] ?? "").trimStart().startsWith("```")) {
+        code.push(lines[index] ?? "");
+        index += 1;
+      }
+      blocks.push({ kind: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        kind: "heading",
+        level: (heading[1]?.length ?? 1) as 1 | 2 | 3,
+        text: heading[2] ?? "",
+      });
+      continue;
+    }
+
+    const item = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/.exec(line);
+    if (item) {
+      flushParagraph();
+      const ordered = item[2] !== undefined;
+      const previous = blocks[blocks.length - 1];
+      if (previous?.kind === "list" && previous.ordered === ordered) {
+        previous.items.push(item[3] ?? "");
+      } else {
+        blocks.push({ kind: "list", ordered, items: [item[3] ?? ""] });
+      }
+      continue;
+    }
+
+    if (line.trim().length === 0) {
+      flushParagraph();
+      continue;
+    }
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+function renderInline(text: string): ReactNode[] {
+  return text
+    .split(INLINE_REGEX)
+    .filter((part) => part.length > 0)
+    .map((part, index) => {
+      if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+        return <code key={index}>{part.slice(1, -1)}</code>;
+      }
+      if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+        return <strong key={index}>{part.slice(2, -2)}</strong>;
+      }
+      if (
+        ((part.startsWith("*") && part.endsWith("*")) ||
+          (part.startsWith("_") && part.endsWith("_"))) &&
+        part.length > 2
+      ) {
+        return <em key={index}>{part.slice(1, -1)}</em>;
+      }
+      return part;
+    });
+}
+
+export function Markdown(props: { source: string }): JSX.Element {
+  return (
+    <div className="runtime-markdown">
+      {parseBlocks(props.source).map((block, index) => {
+        if (block.kind === "heading") {
+          const Heading = `h${block.level + 2}` as "h3" | "h4" | "h5";
+          return <Heading key={index}>{renderInline(block.text)}</Heading>;
+        }
+        if (block.kind === "list") {
+          const List = block.ordered ? "ol" : "ul";
+          return (
+            <List key={index}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>{renderInline(item)}</li>
+              ))}
+            </List>
+          );
+        }
+        if (block.kind === "code") {
+          return (
+            <pre key={index}>
+              <code>{block.text}</code>
+            </pre>
+          );
+        }
+        return <p key={index}>{renderInline(block.text)}</p>;
+      })}
+    </div>
+  );
+}
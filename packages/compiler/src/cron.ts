@@ -0,0 +1,140 @@
+/**
+ * A parsed five-field cron expression (`minute hour day-of-month month day-of-week`), always
+ * evaluated in UTC. Each set holds the allowed values of its field.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Cron rule: when both day fields are restricted, a day matching either one runs. */
+  matchEitherDay: boolean;
+}
+
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronExpressionError";
+  }
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day-of-week", min: 0, max: 7 },
+];
+
+// Searching further than this means the expression can never match (e.g. `0 0 31 2 *`).
+const MAX_SEARCH_YEARS = 5;
+
+function parseNumber(raw: string, field: CronField): number {
+  const value = /^\d+$/.test(raw) ? Number(raw) : Number.NaN;
+  if (!Number.isInteger(value) || value < field.min || value > field.max) {
+    throw new CronExpressionError(
+      `Invalid ${field.name} value '${raw}' (expected ${field.min}-${field.max}).`,
+    );
+  }
+  return value;
+}
+
+function parseField(raw: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  for (const part of raw.split(",")) {
+    const [range = "", stepText, extra] = part.split("/");
+    if (extra !== undefined || range === "") {
+      throw new CronExpressionError(`Invalid ${field.name} entry '${part}'.`);
+    }
+    const step = stepText === undefined ? 1 : parseNumber(stepText, { ...field, min: 1 });
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else {
+      const [from = "", to] = range.split("-");
+      start = parseNumber(from, field);
+      end = to === undefined ? (stepText === undefined ? start : field.max) : parseNumber(to, field);
+      if (end < start) {
+        throw new CronExpressionError(`Invalid ${field.name} range '${range}'.`);
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/** Parses `expression`, throwing a `CronExpressionError` that names the offending field. */
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new CronExpressionError(
+      `Cron expression '${expression}' must have 5 fields (minute hour day-of-month month day-of-week).`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map((field, index) =>
+    parseField(parts[index] ?? "", field),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    matchEitherDay: parts[2] !== "*" && parts[4] !== "*",
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  return schedule.matchEitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/** The first whole UTC minute strictly after `after` that `schedule` matches, or null if none. */
+export function nextCronOccurrence(schedule: CronSchedule, after: Date): Date | null {
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  while (candidate.getTime() <= limit) {
+    if (!schedule.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+      continue;
+    }
+    return candidate;
+  }
+  return null;
+}
@@ -51,6 +51,30 @@ CMD ["pnpm", "--filter", "@form-builder/runtime-api", "start"]
   };
 }
 
+// Env vars named by `security.runtimeAccess`, with the comment each gets in .env.example.
+function getRuntimeAccessEnv(plan: CompilePlan): Array<{ name: string; comment: string }> {
+  const access = plan.app.security?.runtimeAccess;
+  if (access?.mode === "apiKey") {
+    return [
+      {
+        name: access.keyEnv,
+        comment: "Comma-separated keys accepted as Authorization: Bearer <key> on event execution",
+      },
+    ];
+  }
+  if (access?.mode === "jwt") {
+    return [
+      ...(access.secretEnv
+        ? [{ name: access.secretEnv, comment: "HMAC secret for HS256/HS384/HS512 event execution tokens" }]
+        : []),
+      ...(access.jwksFileEnv
+        ? [{ name: access.jwksFileEnv, comment: "Path to a JWKS file with the public keys for RS256/ES256 tokens" }]
+        : []),
+    ];
+  }
+  return [];
+}
+
 function generateDockerCompose(plan: CompilePlan): GeneratedFile {
   return {
     path: `${plan.outRoot}/docker-compose.yml`,
@@ -63,11 +87,24 @@ function generateDockerCompose(plan: CompilePlan): GeneratedFile {
       PORT: "3000"
       OPENAI_API_KEY: \${OPENAI_API_KEY:-}
       ANTHROPIC_API_KEY: \${ANTHROPIC_API_KEY:-}
-`,
+      OPENAI_COMPATIBLE_BASE_URL: \${OPENAI_COMPATIBLE_BASE_URL:-}
+      OPENAI_COMPATIBLE_API_KEY: \${OPENAI_COMPATIBLE_API_KEY:-}
+      FORM_BUILDER_HTTP_ALLOWED_HOSTS: \${FORM_BUILDER_HTTP_ALLOWED_HOSTS:-}
+${getRuntimeAccessEnv(plan)
+  .map((entry) => `      ${entry.name}: \${${entry.name}:-}\n`)
+  .join("")}`,
   };
 }
 
 function generateEnvExample(plan: CompilePlan): GeneratedFile {
+  const access = plan.app.security?.runtimeAccess;
+  const accessSection = access && access.mode !== "public"
+    ? `
+# Runtime access (${access.mode}) for POST /apps/${plan.app.appId}/events/*/execute
+${getRuntimeAccessEnv(plan)
+  .map((entry) => `# ${entry.comment}\n${entry.name}=\n`)
+  .join("")}`
+    : "";
   return {
     path: `${plan.outRoot}/.env.example`,
     content: `# Copy to .env and fill in what you need.
@@ -76,11 +113,29 @@ PORT=3000
 # Optional: enable real providers (mock works without these)
 OPENAI_API_KEY=
 ANTHROPIC_API_KEY=
-`,
+
+# Optional: OpenAI-compatible server (Ollama, llama.cpp, vLLM), e.g. http://localhost:11434/v1
+OPENAI_COMPATIBLE_BASE_URL=
+OPENAI_COMPATIBLE_API_KEY=
+
+# Comma-separated hosts that HttpRequest nodes may call (e.g. api.example.com,*.internal.example.com)
+FORM_BUILDER_HTTP_ALLOWED_HOSTS=
+${accessSection}`,
   };
 }
 
 function generateDeployReadme(plan: CompilePlan): GeneratedFile {
+  const access = plan.app.security?.runtimeAccess;
+  const envNames = getRuntimeAccessEnv(plan)
+    .map((entry) => `\`${entry.name}\``)
+    .join(" and ");
+  const accessSection = access && access.mode !== "public"
+    ? `
+## Access
+
+Event execution requires ${access.mode === "jwt" ? "a signed JWT" : "an access key"} sent as \`Authorization: Bearer <token>\`. Set ${envNames} in \`.env\`. The UI asks for the token, or reads it from \`#token=<token>\` in the URL.
+`
+    : "";
   return {
     path: `${plan.outRoot}/DEPLOY.md`,
     content: `# Deploy (${plan.app.appId})
@@ -97,7 +152,7 @@ docker compose up --build
 Open:
 - http://localhost:3000/ (UI)
 - http://localhost:3000/health (API health)
-`,
+${accessSection}`,
   };
 }
 
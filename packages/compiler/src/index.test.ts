@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { AppCompiler } from "./index.js";
+import { AppCompiler, nextCronOccurrence, parseCronExpression } from "./index.js";
 
 const validApp = {
   appId: "test_app",
@@ -239,4 +239,437 @@ describe("AppCompiler", () => {
     expect(result.files).toHaveLength(0);
     expect(result.diagnostics.some((item) => item.code === "DUPLICATE_EVENT_ID")).toBe(true);
   });
+
+  it("accepts condition nodes with labelled branches", async () => {
+    const compiler = new AppCompiler();
+    const branching = {
+      ...validApp,
+      events: [
+        {
+          ...validApp.events[0],
+          actionGraph: {
+            nodes: [
+              ...validApp.events[0].actionGraph.nodes,
+              {
+                id: "n4",
+                kind: "Condition",
+                predicate: { left: "$n2.output.sentiment", operator: "==", right: "negative" },
+              },
+              { id: "n5", kind: "Transform", mapToState: { analysisRows: "[$n2.output]" } },
+            ],
+            edges: [
+              { from: "n1", to: "n2" },
+              { from: "n2", to: "n4" },
+              { from: "n4", to: "n3", branch: "false" },
+              { from: "n4", to: "n5", branch: "true" },
+            ],
+          },
+        },
+      ],
+    };
+
+    const result = await compiler.compile({
+      app: branching,
+      target: "node-fastify-react",
+    });
+
+    expect(result.diagnostics.filter((item) => item.severity === "error")).toHaveLength(0);
+  });
+
+  it("returns diagnostics for dangling branches and unreachable nodes", async () => {
+    const compiler = new AppCompiler();
+    const broken = {
+      ...validApp,
+      events: [
+        {
+          ...validApp.events[0],
+          actionGraph: {
+            nodes: [
+              ...validApp.events[0].actionGraph.nodes,
+              {
+                id: "n4",
+                kind: "Condition",
+                predicate: { left: "customerComplaint", operator: "exists" },
+              },
+            ],
+            edges: [
+              { from: "n1", to: "n4", branch: "true" },
+              { from: "n4", to: "n2", branch: "true" },
+              { from: "n4", to: "n3", branch: "false" },
+              { from: "n2", to: "n3" },
+            ],
+          },
+        },
+      ],
+    };
+
+    const result = await compiler.compile({
+      app: broken,
+      target: "node-fastify-react",
+    });
+
+    expect(result.files).toHaveLength(0);
+    expect(result.diagnostics.some((item) => item.code === "GRAPH_DANGLING_BRANCH")).toBe(true);
+    expect(result.diagnostics.some((item) => item.code === "GRAPH_UNREACHABLE_NODE")).toBe(true);
+  });
+
+  it("treats node output references as edges when checking for cycles", async () => {
+    const compiler = new AppCompiler();
+    const [validate, prompt] = validApp.events[0].actionGraph.nodes;
+    const withReferences = (nodes: unknown[], edges: unknown[]) => ({
+      ...validApp,
+      events: [{ ...validApp.events[0], actionGraph: { nodes, edges } }],
+    });
+
+    // n3 reads n2 without an edge between them: valid, the runtime waits for n2.
+    const implicit = await compiler.compile({
+      app: withReferences(
+        [validate, prompt, { id: "n3", kind: "Transform", mapToState: { analysisRows: "[$n2.output]" } }],
+        [
+          { from: "n1", to: "n2" },
+          { from: "n1", to: "n3" },
+        ],
+      ),
+      target: "node-fastify-react",
+    });
+    expect(implicit.diagnostics.filter((item) => item.severity === "error")).toEqual([]);
+
+    const cyclic = await compiler.compile({
+      app: withReferences(
+        [
+          validate,
+          prompt,
+          { id: "n3", kind: "Transform", mapToState: { analysisRows: "[$n4.output]" } },
+          { id: "n4", kind: "Transform", mapToState: { analysisRows: "[$n3.output]" } },
+        ],
+        [
+          { from: "n1", to: "n2" },
+          { from: "n2", to: "n3" },
+        ],
+      ),
+      target: "node-fastify-react",
+    });
+    expect(cyclic.diagnostics.some((item) => item.code === "GRAPH_CYCLE_DETECTED")).toBe(true);
+  });
+
+  it("returns diagnostics for HttpRequest templates with unknown variables", async () => {
+    const compiler = new AppCompiler();
+    const broken = {
+      ...validApp,
+      events: [
+        {
+          ...validApp.events[0],
+          actionGraph: {
+            nodes: [
+              {
+                id: "n0",
+                kind: "HttpRequest",
+                httpSpec: {
+                  method: "GET",
+                  urlTemplate: "https://api.example.com/orders/{{orderNumber}}",
+                  outputSchema: { type: "object", shape: { status: { type: "string" } } },
+                },
+              },
+              ...validApp.events[0].actionGraph.nodes,
+            ],
+            edges: [{ from: "n0", to: "n1" }, ...validApp.events[0].actionGraph.edges],
+          },
+        },
+      ],
+    };
+
+    const result = await compiler.compile({
+      app: broken,
+      target: "node-fastify-react",
+    });
+
+    expect(result.files).toHaveLength(0);
+    expect(result.diagnostics.some((item) => item.code === "HTTP_UNKNOWN_VARIABLE")).toBe(true);
+  });
+
+  it("emits env entries for runtime access policies and rejects JWT policies without keys", async () => {
+    const compiler = new AppCompiler();
+    const secured = await compiler.compile({
+      app: {
+        ...validApp,
+        security: { runtimeAccess: { mode: "jwt", secretEnv: "TEST_APP_JWT_SECRET" } },
+      },
+      target: "node-fastify-react",
+    });
+    const envExample = secured.files.find((file) => file.path.endsWith(".env.example"));
+    const compose = secured.files.find((file) => file.path.endsWith("docker-compose.yml"));
+    expect(envExample?.content).toContain("\nTEST_APP_JWT_SECRET=\n");
+    expect(compose?.content).toContain("TEST_APP_JWT_SECRET: ${TEST_APP_JWT_SECRET:-}");
+
+    const keyed = await compiler.compile({
+      app: { ...validApp, security: { runtimeAccess: { mode: "apiKey" } } },
+      target: "node-fastify-react",
+    });
+    expect(keyed.files.find((file) => file.path.endsWith(".env.example"))?.content).toContain(
+      "\nAPP_ACCESS_KEYS=\n",
+    );
+
+    const broken = await compiler.compile({
+      app: { ...validApp, security: { runtimeAccess: { mode: "jwt" } } },
+      target: "node-fastify-react",
+    });
+    expect(broken.files).toHaveLength(0);
+    expect(broken.diagnostics.some((item) => item.code === "SECURITY_JWT_KEY_MISSING")).toBe(true);
+  });
+
+  it("checks input components against their state field types", async () => {
+    const compiler = new AppCompiler();
+    const inputs = [
+      { id: "in_tone", type: "Select", label: "Tone", stateKey: "tone", props: {} },
+      { id: "in_urgent", type: "Checkbox", label: "Urgent", stateKey: "urgent" },
+      {
+        id: "in_budget",
+        type: "NumberInput",
+        label: "Budget",
+        stateKey: "budget",
+        props: { min: 0, max: 100 },
+      },
+      { id: "in_name", type: "TextInput", label: "Name", stateKey: "name", props: {} },
+      { id: "in_notes", type: "FileUpload", label: "Notes", stateKey: "notes", props: {} },
+    ];
+    const withInputs = {
+      ...validApp,
+      ui: { components: [...validApp.ui.components, ...inputs] },
+      stateModel: {
+        ...validApp.stateModel,
+        tone: { type: "string", enum: ["friendly", "formal"] },
+        urgent: { type: "boolean" },
+        budget: { type: "number" },
+        name: { type: "string" },
+        notes: { type: "file", accept: [".txt", ".csv"] },
+      },
+    };
+
+    const valid = await compiler.compile({ app: withInputs, target: "node-fastify-react" });
+    expect(valid.diagnostics.filter((item) => item.severity === "error")).toEqual([]);
+
+    const broken = await compiler.compile({
+      app: {
+        ...withInputs,
+        ui: {
+          components: withInputs.ui.components.map((component) =>
+            component.id === "in_budget" ? { ...component, props: { min: 10, max: 1 } } : component,
+          ),
+        },
+        stateModel: {
+          ...withInputs.stateModel,
+          tone: { type: "string" },
+          urgent: { type: "string" },
+          notes: { type: "string" },
+        },
+      },
+      target: "node-fastify-react",
+    });
+    const codes = broken.diagnostics.map((item) => item.code);
+    expect(broken.files).toHaveLength(0);
+    expect(codes).toContain("SELECT_MISSING_OPTIONS");
+    expect(codes).toContain("COMPONENT_STATE_TYPE_MISMATCH");
+    expect(codes).toContain("NUMBER_INPUT_INVALID_RANGE");
+  });
+
+  it("checks display components and transform targets against state field types", async () => {
+    const compiler = new AppCompiler();
+    const [event] = validApp.events;
+    const withViews = {
+      ...validApp,
+      ui: {
+        components: [
+          ...validApp.ui.components,
+          { id: "reply_view", type: "MarkdownView", label: "Reply", dataKey: "replyText" },
+          { id: "result_card", type: "KeyValueCard", label: "Result", dataKey: "result" },
+          { id: "raw_view", type: "JsonView", label: "Raw", dataKey: "rawResult" },
+        ],
+      },
+      stateModel: {
+        ...validApp.stateModel,
+        replyText: { type: "string" },
+        result: { type: "object", shape: {} },
+        rawResult: { type: "object", shape: {} },
+      },
+      events: [
+        {
+          ...event,
+          actionGraph: {
+            ...event.actionGraph,
+            nodes: [
+              ...event.actionGraph.nodes.slice(0, 2),
+              {
+                id: "n3",
+                kind: "Transform",
+                mapToState: {
+                  analysisRows: "[$n2.output]",
+                  replyText: "$n2.output.reply",
+                  result: "$n2.output",
+                  rawResult: "$n2.output",
+                },
+              },
+            ],
+          },
+        },
+      ],
+    };
+
+    const valid = await compiler.compile({ app: withViews, target: "node-fastify-react" });
+    expect(valid.diagnostics.filter((item) => item.severity === "error")).toEqual([]);
+
+    const broken = await compiler.compile({
+      app: {
+        ...withViews,
+        stateModel: { ...withViews.stateModel, result: { type: "string" } },
+        events: [
+          {
+            ...withViews.events[0],
+            actionGraph: {
+              ...withViews.events[0]!.actionGraph,
+              nodes: [
+                ...event.actionGraph.nodes.slice(0, 2),
+                {
+                  id: "n3",
+                  kind: "Transform",
+                  mapToState: { replyText: "$n2.output.summary", analysisRows: "$n2.output" },
+                },
+              ],
+            },
+          },
+        ],
+      },
+      target: "node-fastify-react",
+    });
+    const codes = broken.diagnostics.map((item) => item.code);
+    expect(codes).toContain("COMPONENT_STATE_TYPE_MISMATCH");
+    expect(codes).toContain("TRANSFORM_UNKNOWN_OUTPUT_FIELD");
+    expect(codes).toContain("TRANSFORM_TYPE_MISMATCH");
+  });
+
+  it("accepts onChange and onSubmit triggers and rejects unsupported ones", async () => {
+    const compiler = new AppCompiler();
+    const [input, , table] = validApp.ui.components;
+    const [event] = validApp.events;
+    const triggered = {
+      ...validApp,
+      ui: {
+        components: [
+          { ...input, events: { onChange: "evt_live" } },
+          {
+            id: "form_complaint",
+            type: "Form",
+            label: "Complaint",
+            componentIds: ["input_customer_complaint"],
+            events: { onSubmit: "evt_submit" },
+          },
+          table,
+        ],
+      },
+      events: [
+        {
+          ...event,
+          id: "evt_live",
+          trigger: {
+            componentId: "input_customer_complaint",
+            event: "onChange",
+            debounceMs: 500,
+            minLength: 10,
+          },
+        },
+        { ...event, id: "evt_submit", trigger: { componentId: "form_complaint", event: "onSubmit" } },
+      ],
+    };
+
+    const valid = await compiler.compile({ app: triggered, target: "node-fastify-react" });
+    expect(valid.diagnostics.filter((item) => item.severity === "error")).toEqual([]);
+
+    const broken = await compiler.compile({
+      app: {
+        ...triggered,
+        ui: {
+          components: [
+            { ...input, events: { onClick: "evt_live" } },
+            {
+              id: "form_complaint",
+              type: "Form",
+              label: "Complaint",
+              componentIds: ["input_customer_complaint", "missing_input"],
+              events: { onSubmit: "evt_submit" },
+            },
+            table,
+          ],
+        },
+        events: [
+          triggered.events[0],
+          {
+            ...triggered.events[1],
+            trigger: { componentId: "table_results", event: "onSubmit", debounceMs: 100 },
+          },
+        ],
+      },
+      target: "node-fastify-react",
+    });
+    const codes = broken.diagnostics.map((item) => item.code);
+    expect(broken.files).toHaveLength(0);
+    expect(codes.filter((code) => code === "UNSUPPORTED_TRIGGER_EVENT")).toHaveLength(2);
+    expect(codes).toContain("UNSUPPORTED_TRIGGER_OPTION");
+    expect(codes).toContain("UNKNOWN_FORM_COMPONENT");
+  });
+
+  it("accepts onLoad and schedule triggers that need no component", async () => {
+    const compiler = new AppCompiler();
+    const [event] = validApp.events;
+    const scheduled = {
+      ...validApp,
+      events: [
+        ...validApp.events,
+        { ...event, id: "evt_prefill", trigger: { event: "onLoad" } },
+        {
+          ...event,
+          id: "evt_daily",
+          trigger: {
+            event: "schedule",
+            cron: "0 7 * * 1-5",
+            state: { customerComplaint: "Summarize yesterday's complaints." },
+          },
+        },
+      ],
+    };
+
+    const valid = await compiler.compile({ app: scheduled, target: "node-fastify-react" });
+    expect(valid.diagnostics.filter((item) => item.severity === "error")).toEqual([]);
+
+    const broken = await compiler.compile({
+      app: {
+        ...validApp,
+        events: [
+          { ...event, id: "evt_prefill", trigger: { event: "onLoad", cron: "0 7 * * *" } },
+          { ...event, id: "evt_daily", trigger: { event: "schedule", cron: "0 25 * * *" } },
+          { ...event, id: "evt_click", trigger: { event: "onClick" } },
+        ],
+      },
+      target: "node-fastify-react",
+    });
+    const codes = broken.diagnostics.map((item) => item.code);
+    expect(codes).toContain("UNSUPPORTED_TRIGGER_OPTION");
+    expect(codes).toContain("INVALID_SCHEDULE_CRON");
+    expect(codes).toContain("SCHEDULE_STATE_MISSING_KEY");
+    expect(codes).toContain("MISSING_TRIGGER_COMPONENT");
+  });
+
+  it("finds the next UTC occurrence of a cron expression", () => {
+    const weekdayMornings = parseCronExpression("0 7 * * 1-5");
+    // 2026-10-16 is a Friday.
+    expect(nextCronOccurrence(weekdayMornings, new Date("2026-10-16T06:59:30Z"))?.toISOString()).toBe(
+      "2026-10-16T07:00:00.000Z",
+    );
+    expect(nextCronOccurrence(weekdayMornings, new Date("2026-10-16T07:00:00Z"))?.toISOString()).toBe(
+      "2026-10-19T07:00:00.000Z",
+    );
+    expect(
+      nextCronOccurrence(parseCronExpression("*/15 * * * *"), new Date("2026-12-31T23:50:00Z"))?.toISOString(),
+    ).toBe("2027-01-01T00:00:00.000Z");
+    expect(nextCronOccurrence(parseCronExpression("0 0 31 2 *"), new Date("2026-01-01T00:00:00Z"))).toBeNull();
+    expect(() => parseCronExpression("0 7 * *")).toThrow(/5 fields/);
+  });
 });
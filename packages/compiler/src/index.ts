@@ -27,4 +27,6 @@ export class AppCompiler {
   }
 }
 
+export { parseAndValidate };
+export { CronExpressionError, nextCronOccurrence, parseCronExpression, type CronSchedule } from "./cron.js";
 export * from "./types.js";
@@ -14,7 +14,7 @@ function normalizeKey(input: string): string {
 function buildAliasMap(components: UIComponent[]): Map<string, string> {
   const aliases = new Map<string, string>();
   for (const component of components) {
-    if (component.type === "TextArea") {
+    if ("stateKey" in component) {
       aliases.set(component.stateKey, component.stateKey);
       aliases.set(component.label, component.stateKey);
       aliases.set(normalizeKey(component.stateKey), component.stateKey);
@@ -43,6 +43,25 @@ export function normalizeToIR(app: AppDefinition): AppDefinition {
     actionGraph: {
       ...event.actionGraph,
       nodes: event.actionGraph.nodes.map((node) => {
+        if (node.kind === "HttpRequest") {
+          return {
+            ...node,
+            httpSpec: {
+              ...node.httpSpec,
+              urlTemplate: normalizeTemplate(node.httpSpec.urlTemplate, aliases),
+              headers: Object.fromEntries(
+                Object.entries(node.httpSpec.headers).map(([name, value]) => [
+                  name,
+                  normalizeTemplate(value, aliases),
+                ]),
+              ),
+              ...(node.httpSpec.bodyTemplate !== undefined
+                ? { bodyTemplate: normalizeTemplate(node.httpSpec.bodyTemplate, aliases) }
+                : {}),
+            },
+          };
+        }
+
         if (node.kind !== "PromptTask") {
           return node;
         }
@@ -1,9 +1,14 @@
 import {
   AppDefinitionSchema,
   type AppDefinition,
+  type DisplayComponent,
   type EventDefinition,
+  type InputComponent,
+  type StateField,
+  type TriggerEvent,
   type UIComponent,
 } from "@form-builder/contracts";
+import { CronExpressionError, parseCronExpression } from "../cron.js";
 import type { Diagnostic } from "../types.js";
 
 const VAR_TOKEN_REGEX = /{{\s*([^}]+?)\s*}}/g;
@@ -20,7 +25,7 @@ function normalizeKey(input: string): string {
 function buildAliasMap(components: UIComponent[]): Map<string, string> {
   const aliases = new Map<string, string>();
   for (const component of components) {
-    if (component.type === "TextArea") {
+    if ("stateKey" in component) {
       aliases.set(normalizeKey(component.label), component.stateKey);
       aliases.set(normalizeKey(component.stateKey), component.stateKey);
       aliases.set(component.label, component.stateKey);
@@ -47,6 +52,53 @@ function parseNodeOutputReference(expression: string): string | null {
   return nodeId && nodeId.length > 0 ? nodeId : null;
 }
 
+function parseNodeOutputPath(expression: string): string | null {
+  const match = expression.trim().match(/^\$([^.]+)\.output(?:\..+)?$/);
+  const nodeId = match?.[1]?.trim();
+  return nodeId && nodeId.length > 0 ? nodeId : null;
+}
+
+function parseConditionReference(
+  expression: string,
+): { kind: "state"; key: string } | { kind: "node"; nodeId: string } {
+  const nodeId = parseNodeOutputPath(expression);
+  if (nodeId) {
+    return { kind: "node", nodeId };
+  }
+  return { kind: "state", key: expression.trim() };
+}
+
+// Nodes whose output `node` reads. The runtime schedules these as implicit edges, so they take
+// part in cycle detection like drawn edges do.
+function readNodeOutputs(node: EventDefinition["actionGraph"]["nodes"][number]): string[] {
+  let expressions: string[];
+  switch (node.kind) {
+    case "PromptTask":
+      expressions = node.promptSpec.variables;
+      break;
+    case "HttpRequest":
+      expressions = [
+        node.httpSpec.urlTemplate,
+        node.httpSpec.bodyTemplate ?? "",
+        ...Object.values(node.httpSpec.headers),
+      ].flatMap(collectTemplateTokens);
+      break;
+    case "Condition":
+      expressions = [node.predicate.left];
+      break;
+    case "Transform":
+      expressions = Object.values(node.mapToState);
+      break;
+    case "Validate":
+      expressions = [];
+      break;
+  }
+  return expressions.flatMap((expression) => {
+    const nodeId = parseNodeOutputReference(expression) ?? parseNodeOutputPath(expression);
+    return nodeId && nodeId !== node.id ? [nodeId] : [];
+  });
+}
+
 function validateGraph(event: EventDefinition, diagnostics: Diagnostic[]): void {
   const nodeIds = new Set<string>();
   for (const node of event.actionGraph.nodes) {
@@ -72,6 +124,47 @@ function validateGraph(event: EventDefinition, diagnostics: Diagnostic[]): void
     }
   }
 
+  const kindById = new Map(event.actionGraph.nodes.map((node) => [node.id, node.kind]));
+  for (const edge of event.actionGraph.edges) {
+    const sourceKind = kindById.get(edge.from);
+    if (!sourceKind) {
+      continue;
+    }
+    if (sourceKind === "Condition" && !edge.branch) {
+      diagnostics.push({
+        code: "GRAPH_CONDITION_EDGE_MISSING_BRANCH",
+        severity: "error",
+        path: `events.${event.id}.actionGraph.edges`,
+        message: `Edge '${edge.from}' -> '${edge.to}' leaves Condition node '${edge.from}' without a branch label in event '${event.id}'.`,
+      });
+    }
+    if (sourceKind !== "Condition" && edge.branch) {
+      diagnostics.push({
+        code: "GRAPH_DANGLING_BRANCH",
+        severity: "error",
+        path: `events.${event.id}.actionGraph.edges`,
+        message: `Edge '${edge.from}' -> '${edge.to}' has branch '${edge.branch}' but '${edge.from}' is not a Condition node in event '${event.id}'.`,
+      });
+    }
+  }
+
+  for (const node of event.actionGraph.nodes) {
+    if (node.kind !== "Condition") {
+      continue;
+    }
+    const hasBranch = event.actionGraph.edges.some(
+      (edge) => edge.from === node.id && edge.branch !== undefined,
+    );
+    if (!hasBranch) {
+      diagnostics.push({
+        code: "GRAPH_DANGLING_BRANCH",
+        severity: "error",
+        path: `events.${event.id}.actionGraph.nodes.${node.id}`,
+        message: `Condition node '${node.id}' has no labelled outgoing branches in event '${event.id}'.`,
+      });
+    }
+  }
+
   const indegree = new Map<string, number>();
   const outgoing = new Map<string, string[]>();
   for (const id of nodeIds) {
@@ -79,7 +172,10 @@ function validateGraph(event: EventDefinition, diagnostics: Diagnostic[]): void
     outgoing.set(id, []);
   }
 
-  for (const edge of event.actionGraph.edges) {
+  const dataEdges = event.actionGraph.nodes.flatMap((node) =>
+    readNodeOutputs(node).map((from) => ({ from, to: node.id })),
+  );
+  for (const edge of [...event.actionGraph.edges, ...dataEdges]) {
     if (!nodeIds.has(edge.from) || !nodeIds.has(edge.to)) {
       continue;
     }
@@ -88,13 +184,13 @@ function validateGraph(event: EventDefinition, diagnostics: Diagnostic[]): void
   }
 
   const queue = [...[...indegree.entries()].filter(([, count]) => count === 0).map(([id]) => id)];
-  let visited = 0;
+  const order: string[] = [];
   while (queue.length > 0) {
     const current = queue.shift();
     if (!current) {
       break;
     }
-    visited += 1;
+    order.push(current);
     const neighbors = outgoing.get(current) ?? [];
     for (const next of neighbors) {
       indegree.set(next, (indegree.get(next) ?? 0) - 1);
@@ -104,13 +200,305 @@ function validateGraph(event: EventDefinition, diagnostics: Diagnostic[]): void
     }
   }
 
-  if (visited !== nodeIds.size) {
+  if (order.length !== nodeIds.size) {
     diagnostics.push({
       code: "GRAPH_CYCLE_DETECTED",
       severity: "error",
       path: `events.${event.id}.actionGraph`,
       message: `Action graph for event '${event.id}' contains a cycle.`,
     });
+    return;
+  }
+
+  // A node only runs when every incoming edge is active, so it becomes unreachable
+  // once its inputs require both branches of the same Condition node.
+  const requiredBranches = new Map<string, Map<string, string>>();
+  const unreachable = new Set<string>();
+  for (const nodeId of order) {
+    const required = new Map<string, string>();
+    let conflict = false;
+    let inherited = false;
+    for (const edge of event.actionGraph.edges) {
+      if (edge.to !== nodeId || !nodeIds.has(edge.from)) {
+        continue;
+      }
+      if (unreachable.has(edge.from)) {
+        inherited = true;
+        continue;
+      }
+      const upstream = [...(requiredBranches.get(edge.from) ?? new Map<string, string>())];
+      if (edge.branch && kindById.get(edge.from) === "Condition") {
+        upstream.push([edge.from, edge.branch]);
+      }
+      for (const [conditionId, branch] of upstream) {
+        const existing = required.get(conditionId);
+        if (existing && existing !== branch) {
+          conflict = true;
+        }
+        required.set(conditionId, branch);
+      }
+    }
+
+    if (conflict || inherited) {
+      unreachable.add(nodeId);
+    }
+    if (conflict) {
+      diagnostics.push({
+        code: "GRAPH_UNREACHABLE_NODE",
+        severity: "error",
+        path: `events.${event.id}.actionGraph.nodes.${nodeId}`,
+        message: `Action node '${nodeId}' in event '${event.id}' can never run because it depends on conflicting condition branches.`,
+      });
+    }
+    requiredBranches.set(nodeId, required);
+  }
+}
+
+const SUPPORTED_TRIGGER_EVENTS: Record<UIComponent["type"], TriggerEvent[]> = {
+  TextArea: ["onChange"],
+  TextInput: ["onChange"],
+  NumberInput: ["onChange"],
+  Select: ["onChange"],
+  Checkbox: ["onChange"],
+  FileUpload: ["onChange"],
+  Button: ["onClick"],
+  Form: ["onSubmit"],
+  DataTable: [],
+  MarkdownView: [],
+  KeyValueCard: [],
+  JsonView: [],
+};
+
+function isSupportedTrigger(type: UIComponent["type"], event: string): boolean {
+  return (SUPPORTED_TRIGGER_EVENTS[type] as string[]).includes(event);
+}
+
+function unsupportedTriggerMessage(component: UIComponent, event: string): string {
+  const supported = SUPPORTED_TRIGGER_EVENTS[component.type];
+  return `${component.type} component '${component.id}' does not support '${event}' (${
+    supported.length > 0 ? `supported: ${supported.join(", ")}` : "it has no triggers"
+  }).`;
+}
+
+// Page-load and scheduled events are not bound to a component.
+const COMPONENTLESS_TRIGGER_EVENTS: TriggerEvent[] = ["onLoad", "schedule"];
+
+function validateTrigger(
+  event: EventDefinition,
+  componentById: Map<string, UIComponent>,
+  diagnostics: Diagnostic[],
+): void {
+  const { trigger } = event;
+  if (COMPONENTLESS_TRIGGER_EVENTS.includes(trigger.event)) {
+    if (trigger.componentId !== undefined) {
+      diagnostics.push({
+        code: "UNSUPPORTED_TRIGGER_OPTION",
+        severity: "error",
+        path: `events.${event.id}.trigger.componentId`,
+        message: `Event '${event.id}' sets a componentId, which '${trigger.event}' triggers do not use.`,
+      });
+    }
+  } else if (trigger.componentId === undefined) {
+    diagnostics.push({
+      code: "MISSING_TRIGGER_COMPONENT",
+      severity: "error",
+      path: `events.${event.id}.trigger.componentId`,
+      message: `Event '${event.id}' needs a componentId for its '${trigger.event}' trigger.`,
+    });
+  } else {
+    const triggerComponent = componentById.get(trigger.componentId);
+    if (!triggerComponent) {
+      diagnostics.push({
+        code: "UNKNOWN_TRIGGER_COMPONENT",
+        severity: "error",
+        path: `events.${event.id}.trigger.componentId`,
+        message: `Event '${event.id}' references unknown trigger component '${trigger.componentId}'.`,
+      });
+    } else if (!isSupportedTrigger(triggerComponent.type, trigger.event)) {
+      diagnostics.push({
+        code: "UNSUPPORTED_TRIGGER_EVENT",
+        severity: "error",
+        path: `events.${event.id}.trigger.event`,
+        message: unsupportedTriggerMessage(triggerComponent, trigger.event),
+      });
+    }
+  }
+
+  if (
+    trigger.event !== "onChange" &&
+    (trigger.debounceMs !== undefined || trigger.minLength !== undefined)
+  ) {
+    diagnostics.push({
+      code: "UNSUPPORTED_TRIGGER_OPTION",
+      severity: "error",
+      path: `events.${event.id}.trigger`,
+      message: `Event '${event.id}' sets debounceMs/minLength, which only apply to 'onChange' triggers.`,
+    });
+  }
+
+  if (trigger.event !== "schedule") {
+    if (trigger.cron !== undefined || trigger.state !== undefined) {
+      diagnostics.push({
+        code: "UNSUPPORTED_TRIGGER_OPTION",
+        severity: "error",
+        path: `events.${event.id}.trigger`,
+        message: `Event '${event.id}' sets cron/state, which only apply to 'schedule' triggers.`,
+      });
+    }
+    return;
+  }
+
+  if (trigger.cron === undefined) {
+    diagnostics.push({
+      code: "INVALID_SCHEDULE_CRON",
+      severity: "error",
+      path: `events.${event.id}.trigger.cron`,
+      message: `Scheduled event '${event.id}' needs a cron expression.`,
+    });
+  } else {
+    try {
+      parseCronExpression(trigger.cron);
+    } catch (error) {
+      if (!(error instanceof CronExpressionError)) {
+        throw error;
+      }
+      diagnostics.push({
+        code: "INVALID_SCHEDULE_CRON",
+        severity: "error",
+        path: `events.${event.id}.trigger.cron`,
+        message: `Scheduled event '${event.id}': ${error.message}`,
+      });
+    }
+  }
+
+  // Nobody fills in a form before a scheduled run, so whatever it validates must be stored.
+  const storedState = trigger.state ?? {};
+  for (const node of event.actionGraph.nodes) {
+    if (node.kind !== "Validate") {
+      continue;
+    }
+    for (const key of node.input.stateKeys) {
+      if (storedState[key] === undefined) {
+        diagnostics.push({
+          code: "SCHEDULE_STATE_MISSING_KEY",
+          severity: "error",
+          path: `events.${event.id}.trigger.state`,
+          message: `Scheduled event '${event.id}' validates '${key}', but its stored state does not set it.`,
+        });
+      }
+    }
+  }
+}
+
+const INPUT_STATE_TYPES: Record<InputComponent["type"], StateField["type"]> = {
+  TextArea: "string",
+  TextInput: "string",
+  NumberInput: "number",
+  Select: "string",
+  Checkbox: "boolean",
+  FileUpload: "file",
+};
+
+function validateInputComponent(
+  component: InputComponent,
+  field: StateField,
+  diagnostics: Diagnostic[],
+): void {
+  const expected = INPUT_STATE_TYPES[component.type];
+  if (field.type !== expected) {
+    diagnostics.push({
+      code: "COMPONENT_STATE_TYPE_MISMATCH",
+      severity: "error",
+      path: `ui.components.${component.id}.stateKey`,
+      message: `${component.type} component '${component.id}' needs a '${expected}' state field, but '${component.stateKey}' is '${field.type}'.`,
+    });
+    return;
+  }
+
+  if (component.type === "Select" && (field.type !== "string" || !field.enum?.length)) {
+    diagnostics.push({
+      code: "SELECT_MISSING_OPTIONS",
+      severity: "error",
+      path: `stateModel.${component.stateKey}.enum`,
+      message: `Select component '${component.id}' needs a non-empty 'enum' on state field '${component.stateKey}'.`,
+    });
+  }
+
+  if (
+    component.type === "NumberInput" &&
+    component.props.min !== undefined &&
+    component.props.max !== undefined &&
+    component.props.min > component.props.max
+  ) {
+    diagnostics.push({
+      code: "NUMBER_INPUT_INVALID_RANGE",
+      severity: "error",
+      path: `ui.components.${component.id}.props`,
+      message: `NumberInput component '${component.id}' has min ${component.props.min} above max ${component.props.max}.`,
+    });
+  }
+}
+
+// JsonView renders any value, so it has no required type.
+const DISPLAY_STATE_TYPES: Record<DisplayComponent["type"], StateField["type"] | null> = {
+  DataTable: "array",
+  MarkdownView: "string",
+  KeyValueCard: "object",
+  JsonView: null,
+};
+
+/**
+ * What a Transform expression writes: `[$node.output]` a one-row array, `$node.output` the
+ * output object, `$node.output.field` one field of it. Returns null for literals and for
+ * nodes whose output shape is not declared; `missingField` when the shape lacks the field.
+ */
+function transformValueType(
+  expression: string,
+  event: EventDefinition,
+): { type: StateField["type"] } | { missingField: string } | null {
+  if (parseNodeOutputReference(expression)) {
+    return { type: "array" };
+  }
+  const match = expression.trim().match(/^\$([^.]+)\.output(?:\.(.+))?$/);
+  if (!match) {
+    return null;
+  }
+  const source = event.actionGraph.nodes.find((node) => node.id === match[1]);
+  const shape =
+    source?.kind === "PromptTask"
+      ? source.promptSpec.outputSchema.shape
+      : source?.kind === "HttpRequest"
+        ? source.httpSpec.outputSchema.shape
+        : null;
+  const field = match[2];
+  if (!shape) {
+    return null;
+  }
+  if (!field) {
+    return { type: "object" };
+  }
+  if (field.includes(".")) {
+    return null;
+  }
+  const descriptor = shape[field] as { type?: unknown } | undefined;
+  if (!descriptor) {
+    return { missingField: field };
+  }
+  const type = typeof descriptor.type === "string" ? descriptor.type : "string";
+  return ["string", "number", "boolean", "array", "object"].includes(type)
+    ? { type: type as StateField["type"] }
+    : null;
+}
+
+function validateSecurity(app: AppDefinition, diagnostics: Diagnostic[]): void {
+  const access = app.security?.runtimeAccess;
+  if (access?.mode === "jwt" && !access.secretEnv && !access.jwksFileEnv) {
+    diagnostics.push({
+      code: "SECURITY_JWT_KEY_MISSING",
+      severity: "error",
+      path: "security.runtimeAccess",
+      message: "JWT runtime access needs 'secretEnv' (HMAC secret) and/or 'jwksFileEnv' (JWKS file path).",
+    });
   }
 }
 
@@ -151,34 +539,49 @@ export function parseAndValidate(input: unknown): {
     }
     componentIds.add(component.id);
 
-    if (component.type === "TextArea" && !stateKeys.has(component.stateKey)) {
-      diagnostics.push({
-        code: "MISSING_STATE_KEY",
-        severity: "error",
-        path: `ui.components.${component.id}.stateKey`,
-        message: `TextArea component '${component.id}' references missing state key '${component.stateKey}'.`,
-      });
+    if ("stateKey" in component) {
+      const field = stateKeys.has(component.stateKey) ? app.stateModel[component.stateKey] : undefined;
+      if (!field) {
+        diagnostics.push({
+          code: "MISSING_STATE_KEY",
+          severity: "error",
+          path: `ui.components.${component.id}.stateKey`,
+          message: `${component.type} component '${component.id}' references missing state key '${component.stateKey}'.`,
+        });
+      } else {
+        validateInputComponent(component, field, diagnostics);
+      }
     }
 
-    if (component.type === "DataTable" && !stateKeys.has(component.dataKey)) {
-      diagnostics.push({
-        code: "MISSING_STATE_KEY",
-        severity: "error",
-        path: `ui.components.${component.id}.dataKey`,
-        message: `DataTable component '${component.id}' references missing state key '${component.dataKey}'.`,
-      });
+    if ("dataKey" in component) {
+      const field = stateKeys.has(component.dataKey) ? app.stateModel[component.dataKey] : undefined;
+      const expected = DISPLAY_STATE_TYPES[component.type];
+      if (!field) {
+        diagnostics.push({
+          code: "MISSING_STATE_KEY",
+          severity: "error",
+          path: `ui.components.${component.id}.dataKey`,
+          message: `${component.type} component '${component.id}' references missing state key '${component.dataKey}'.`,
+        });
+      } else if (expected && field.type !== expected) {
+        diagnostics.push({
+          code: "COMPONENT_STATE_TYPE_MISMATCH",
+          severity: "error",
+          path: `ui.components.${component.id}.dataKey`,
+          message: `${component.type} component '${component.id}' needs a '${expected}' state field, but '${component.dataKey}' is '${field.type}'.`,
+        });
+      }
     }
 
-    if (component.type === "TextArea" || component.type === "DataTable") {
-      const uiStateKey =
-        component.type === "TextArea" ? component.stateKey : component.dataKey;
+    if ("stateKey" in component || "dataKey" in component) {
+      const uiStateKey = "stateKey" in component ? component.stateKey : component.dataKey;
       const owner = uiStateKeyOwners.get(uiStateKey);
       if (owner && owner !== component.id) {
         diagnostics.push({
           code: "DUPLICATE_UI_STATE_KEY",
           severity: "error",
           path:
-            component.type === "TextArea"
+            "stateKey" in component
               ? `ui.components.${component.id}.stateKey`
               : `ui.components.${component.id}.dataKey`,
           message: `State key '${uiStateKey}' is used by both '${owner}' and '${component.id}'.`,
@@ -188,9 +591,16 @@ export function parseAndValidate(input: unknown): {
       }
     }
 
-    if (component.type === "Button") {
-      const eventId = component.events.onClick;
-      if (!eventId) {
+    for (const [triggerEvent, eventId] of Object.entries(
+      "events" in component ? component.events ?? {} : {},
+    )) {
+      if (!isSupportedTrigger(component.type, triggerEvent)) {
+        diagnostics.push({
+          code: "UNSUPPORTED_TRIGGER_EVENT",
+          severity: "error",
+          path: `ui.components.${component.id}.events.${triggerEvent}`,
+          message: unsupportedTriggerMessage(component, triggerEvent),
+        });
         continue;
       }
       const owner = triggerEventOwners.get(eventId);
@@ -198,8 +608,8 @@ export function parseAndValidate(input: unknown): {
         diagnostics.push({
           code: "DUPLICATE_TRIGGER_EVENT_ID",
           severity: "error",
-          path: `ui.components.${component.id}.events.onClick`,
-          message: `Button event id '${eventId}' is used by both '${owner}' and '${component.id}'.`,
+          path: `ui.components.${component.id}.events.${triggerEvent}`,
+          message: `Trigger event id '${eventId}' is used by both '${owner}' and '${component.id}'.`,
         });
       } else {
         triggerEventOwners.set(eventId, component.id);
@@ -207,6 +617,38 @@ export function parseAndValidate(input: unknown): {
     }
   }
 
+  // A form groups existing components; forms do not nest and a component sits in at most one.
+  const componentById = new Map(app.ui.components.map((component) => [component.id, component]));
+  const formOwners = new Map<string, string>();
+  for (const form of app.ui.components) {
+    if (form.type !== "Form") {
+      continue;
+    }
+    for (const childId of form.componentIds) {
+      const child = componentById.get(childId);
+      if (!child) {
+        diagnostics.push({
+          code: "UNKNOWN_FORM_COMPONENT",
+          severity: "error",
+          path: `ui.components.${form.id}.componentIds`,
+          message: `Form '${form.id}' references unknown component '${childId}'.`,
+        });
+      } else if (child.type === "Form" || formOwners.has(childId)) {
+        diagnostics.push({
+          code: "INVALID_FORM_COMPONENT",
+          severity: "error",
+          path: `ui.components.${form.id}.componentIds`,
+          message:
+            child.type === "Form"
+              ? `Form '${form.id}' cannot contain form '${childId}'.`
+              : `Component '${childId}' is in both '${formOwners.get(childId)}' and '${form.id}'.`,
+        });
+      } else {
+        formOwners.set(childId, form.id);
+      }
+    }
+  }
+
   const aliases = buildAliasMap(app.ui.components);
 
   for (const event of app.events) {
@@ -220,15 +662,7 @@ export function parseAndValidate(input: unknown): {
     }
     eventIds.add(event.id);
 
-    if (!componentIds.has(event.trigger.componentId)) {
-      diagnostics.push({
-        code: "UNKNOWN_TRIGGER_COMPONENT",
-        severity: "error",
-        path: `events.${event.id}.trigger.componentId`,
-        message: `Event '${event.id}' references unknown trigger component '${event.trigger.componentId}'.`,
-      });
-    }
-
+    validateTrigger(event, componentById, diagnostics);
     validateGraph(event, diagnostics);
 
     const nodeIds = new Set(event.actionGraph.nodes.map((node) => node.id));
@@ -247,6 +681,72 @@ export function parseAndValidate(input: unknown): {
         }
       }
 
+      if (node.kind === "Condition") {
+        const ref = parseConditionReference(node.predicate.left);
+        if (ref.kind === "state" && !stateKeys.has(ref.key)) {
+          diagnostics.push({
+            code: "CONDITION_UNKNOWN_STATE_KEY",
+            severity: "error",
+            path: `events.${event.id}.actionGraph.nodes.${node.id}.predicate.left`,
+            message: `Condition node '${node.id}' references unknown state key '${ref.key}'.`,
+          });
+        }
+        if (ref.kind === "node" && !nodeIds.has(ref.nodeId)) {
+          diagnostics.push({
+            code: "CONDITION_UNKNOWN_NODE_OUTPUT",
+            severity: "error",
+            path: `events.${event.id}.actionGraph.nodes.${node.id}.predicate.left`,
+            message: `Condition node '${node.id}' references unknown node output '$${ref.nodeId}.output'.`,
+          });
+        }
+        if (node.predicate.operator !== "exists" && node.predicate.right === undefined) {
+          diagnostics.push({
+            code: "CONDITION_MISSING_OPERAND",
+            severity: "error",
+            path: `events.${event.id}.actionGraph.nodes.${node.id}.predicate.right`,
+            message: `Condition node '${node.id}' uses operator '${node.predicate.operator}' without a right-hand value.`,
+          });
+        }
+      }
+
+      if (node.kind === "HttpRequest") {
+        const spec = node.httpSpec;
+        const templates = [spec.urlTemplate, spec.bodyTemplate ?? "", ...Object.values(spec.headers)];
+        for (const token of templates.flatMap(collectTemplateTokens)) {
+          const ref = parseNodeOutputPath(token);
+          const known = ref
+            ? nodeIds.has(ref)
+            : stateKeys.has(aliases.get(token) ?? aliases.get(normalizeKey(token)) ?? token);
+          if (!known) {
+            diagnostics.push({
+              code: "HTTP_UNKNOWN_VARIABLE",
+              severity: "error",
+              path: `events.${event.id}.actionGraph.nodes.${node.id}.httpSpec`,
+              message: `HttpRequest node '${node.id}' references '{{${token}}}' which is not a known state key or node output.`,
+            });
+          }
+        }
+
+        if (!spec.urlTemplate.startsWith("{{") && !/^https?:\/\//i.test(spec.urlTemplate)) {
+          diagnostics.push({
+            code: "HTTP_INVALID_URL_TEMPLATE",
+            severity: "error",
+            path: `events.${event.id}.actionGraph.nodes.${node.id}.httpSpec.urlTemplate`,
+            message: `HttpRequest node '${node.id}' URL must start with http:// or https://.`,
+          });
+        }
+
+        if (spec.method === "GET" && spec.bodyTemplate) {
+          diagnostics.push({
+            code: "HTTP_BODY_IGNORED",
+            severity: "warning",
+            path: `events.${event.id}.actionGraph.nodes.${node.id}.httpSpec.bodyTemplate`,
+            message: `HttpRequest node '${node.id}' uses GET, so its body template is not sent.`,
+          });
+        }
+        continue;
+      }
+
       if (node.kind !== "PromptTask") {
         if (node.kind === "Transform") {
           for (const [targetKey, expression] of Object.entries(node.mapToState)) {
@@ -259,7 +759,7 @@ export function parseAndValidate(input: unknown): {
               });
             }
 
-            const ref = parseNodeOutputReference(expression);
+            const ref = parseNodeOutputReference(expression) ?? parseNodeOutputPath(expression);
             if (ref && !nodeIds.has(ref)) {
               diagnostics.push({
                 code: "TRANSFORM_UNKNOWN_NODE_OUTPUT",
@@ -267,12 +767,41 @@ export function parseAndValidate(input: unknown): {
                 path: `events.${event.id}.actionGraph.nodes.${node.id}.mapToState`,
                 message: `Transform node '${node.id}' references unknown node output '$${ref}.output'.`,
               });
+              continue;
+            }
+
+            const target = stateKeys.has(targetKey) ? app.stateModel[targetKey] : undefined;
+            const produced = target ? transformValueType(expression, event) : null;
+            if (produced && "missingField" in produced) {
+              diagnostics.push({
+                code: "TRANSFORM_UNKNOWN_OUTPUT_FIELD",
+                severity: "error",
+                path: `events.${event.id}.actionGraph.nodes.${node.id}.mapToState.${targetKey}`,
+                message: `Transform node '${node.id}' reads '${produced.missingField}', which is not in the output schema of '${ref}'.`,
+              });
+            } else if (target && produced && produced.type !== target.type) {
+              diagnostics.push({
+                code: "TRANSFORM_TYPE_MISMATCH",
+                severity: "error",
+                path: `events.${event.id}.actionGraph.nodes.${node.id}.mapToState.${targetKey}`,
+                message: `Transform node '${node.id}' writes a '${produced.type}' into '${targetKey}', which is '${target.type}'.`,
+              });
             }
           }
         }
         continue;
       }
 
+      const retryPolicy = node.promptSpec.retryPolicy;
+      if (retryPolicy?.mode === "repair" && (retryPolicy.maxRetries ?? 0) === 0) {
+        diagnostics.push({
+          code: "PROMPT_REPAIR_WITHOUT_RETRIES",
+          severity: "warning",
+          path: `events.${event.id}.actionGraph.nodes.${node.id}.promptSpec.retryPolicy`,
+          message: `PromptTask '${node.id}' uses repair mode but allows no retries, so no repair attempt is made.`,
+        });
+      }
+
       const tokens = collectTemplateTokens(node.promptSpec.template);
       const declared = new Set(
         node.promptSpec.variables.map(
@@ -281,6 +810,26 @@ export function parseAndValidate(input: unknown): {
         ),
       );
       for (const token of tokens) {
+        const ref = parseNodeOutputPath(token);
+        if (ref) {
+          if (!nodeIds.has(ref)) {
+            diagnostics.push({
+              code: "PROMPT_UNKNOWN_NODE_OUTPUT",
+              severity: "error",
+              path: `events.${event.id}.actionGraph.nodes.${node.id}.promptSpec.template`,
+              message: `Prompt variable '{{${token}}}' references unknown node output '$${ref}.output'.`,
+            });
+          } else if (!declared.has(token)) {
+            diagnostics.push({
+              code: "PROMPT_TOKEN_NOT_DECLARED",
+              severity: "error",
+              path: `events.${event.id}.actionGraph.nodes.${node.id}.promptSpec.variables`,
+              message: `Prompt template references node output '${token}' but it is missing from promptSpec.variables.`,
+            });
+          }
+          continue;
+        }
+
         const canonical = aliases.get(token) ?? aliases.get(normalizeKey(token)) ?? token;
         if (!stateKeys.has(canonical)) {
           diagnostics.push({
@@ -303,6 +852,18 @@ export function parseAndValidate(input: unknown): {
       }
 
       for (const variable of node.promptSpec.variables) {
+        const ref = parseNodeOutputPath(variable);
+        if (ref) {
+          if (!nodeIds.has(ref)) {
+            diagnostics.push({
+              code: "PROMPT_UNKNOWN_NODE_OUTPUT",
+              severity: "error",
+              path: `events.${event.id}.actionGraph.nodes.${node.id}.promptSpec.variables`,
+              message: `Prompt variable '${variable}' references unknown node output '$${ref}.output'.`,
+            });
+          }
+          continue;
+        }
         const canonical = aliases.get(variable) ?? aliases.get(normalizeKey(variable)) ?? variable;
         if (!stateKeys.has(canonical)) {
           diagnostics.push({
@@ -316,5 +877,7 @@ export function parseAndValidate(input: unknown): {
     }
   }
 
+  validateSecurity(app, diagnostics);
+
   return { app, diagnostics };
 }
@@ -21,12 +21,50 @@ const ArrayStateFieldSchema = z.object({
   }),
 });
 
-export const StateFieldSchema = z.union([PrimitiveStateFieldSchema, ArrayStateFieldSchema]);
+const ObjectStateFieldSchema = z.object({
+  type: z.literal("object"),
+  source: z.string().optional(),
+  shape: JsonShapeSchema,
+});
+
+const FileStateFieldSchema = z.object({
+  type: z.literal("file"),
+  source: z.string().optional(),
+  accept: z.array(z.string().min(1)).optional(),
+  maxBytes: z.number().int().positive().optional(),
+});
+
+export const StateFieldSchema = z.union([
+  PrimitiveStateFieldSchema,
+  ArrayStateFieldSchema,
+  ObjectStateFieldSchema,
+  FileStateFieldSchema,
+]);
+
+export const ModelProviderSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9-]*$/, "Provider id must be lowercase letters, digits and dashes.");
+
+export const ModelFallbackSchema = z.object({
+  provider: ModelProviderSchema,
+  model: z.string().min(1),
+  temperature: z.number().min(0).max(2).optional(),
+});
+
+export const ProviderErrorClassSchema = z.enum([
+  "unavailable",
+  "rate_limit",
+  "timeout",
+  "server_error",
+  "invalid_output",
+]);
 
 export const ModelPolicySchema = z.object({
-  provider: z.enum(["openai", "anthropic", "mock"]),
+  provider: ModelProviderSchema,
   model: z.string().min(1),
   temperature: z.number().min(0).max(2).optional(),
+  fallbacks: z.array(ModelFallbackSchema).max(5).optional(),
+  fallbackOn: z.array(ProviderErrorClassSchema).min(1).optional(),
 });
 
 export const PromptOutputSchema = z.object({
@@ -34,13 +72,44 @@ export const PromptOutputSchema = z.object({
   shape: JsonShapeSchema,
 });
 
+export const PromptRetryPolicySchema = z.object({
+  timeoutMs: z.number().int().positive().optional(),
+  maxRetries: z.number().int().min(0).max(5).optional(),
+  backoffMs: z.number().int().nonnegative().optional(),
+  backoffMultiplier: z.number().min(1).max(10).optional(),
+  mode: z.enum(["retry", "repair"]).optional(),
+});
+
 export const PromptSpecSchema = z.object({
   template: z.string().min(1),
   variables: z.array(z.string().min(1)).default([]),
   modelPolicy: ModelPolicySchema,
   outputSchema: PromptOutputSchema,
+  retryPolicy: PromptRetryPolicySchema.optional(),
+});
+
+export const HttpMethodSchema = z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]);
+
+export const HttpRequestSpecSchema = z.object({
+  method: HttpMethodSchema,
+  urlTemplate: z.string().min(1),
+  headers: z.record(z.string(), z.string()).default({}),
+  bodyTemplate: z.string().optional(),
+  outputSchema: PromptOutputSchema,
+});
+
+export const ConditionOperatorSchema = z.enum(["==", "!=", "in", "contains", "exists"]);
+
+export const ConditionPredicateSchema = z.object({
+  left: z.string().min(1),
+  operator: ConditionOperatorSchema,
+  right: z
+    .union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number()]))])
+    .optional(),
 });
 
+export const ConditionBranchSchema = z.enum(["true", "false"]);
+
 export const ActionNodeSchema = z.discriminatedUnion("kind", [
   z.object({
     id: z.string().min(1),
@@ -59,11 +128,22 @@ export const ActionNodeSchema = z.discriminatedUnion("kind", [
     kind: z.literal("Transform"),
     mapToState: z.record(z.string(), z.string()),
   }),
+  z.object({
+    id: z.string().min(1),
+    kind: z.literal("HttpRequest"),
+    httpSpec: HttpRequestSpecSchema,
+  }),
+  z.object({
+    id: z.string().min(1),
+    kind: z.literal("Condition"),
+    predicate: ConditionPredicateSchema,
+  }),
 ]);
 
 export const ActionEdgeSchema = z.object({
   from: z.string().min(1),
   to: z.string().min(1),
+  branch: ConditionBranchSchema.optional(),
 });
 
 export const ActionGraphSchema = z.object({
@@ -71,15 +151,22 @@ export const ActionGraphSchema = z.object({
   edges: z.array(ActionEdgeSchema),
 });
 
+export const TriggerEventSchema = z.enum(["onClick", "onChange", "onSubmit", "onLoad", "schedule"]);
+
 export const TriggerSchema = z.object({
-  componentId: z.string().min(1),
-  event: z.enum(["onClick", "onChange", "onSubmit"]),
+  componentId: z.string().min(1).optional(),
+  event: TriggerEventSchema,
+  debounceMs: z.number().int().min(0).max(10_000).optional(),
+  minLength: z.number().int().min(0).optional(),
+  cron: z.string().min(1).optional(),
+  state: z.record(z.string(), z.unknown()).optional(),
 });
 
 export const EventDefinitionSchema = z.object({
   id: z.string().min(1),
   trigger: TriggerSchema,
   actionGraph: ActionGraphSchema,
+  maxConcurrency: z.number().int().min(1).max(32).optional(),
 });
 
 const BaseComponentSchema = z.object({
@@ -87,27 +174,129 @@ const BaseComponentSchema = z.object({
   label: z.string().min(1),
 });
 
+const ComponentEventsSchema = z.record(z.string(), z.string());
+
 export const UIComponentSchema = z.discriminatedUnion("type", [
   BaseComponentSchema.extend({
     type: z.literal("TextArea"),
     stateKey: z.string().min(1),
+    events: ComponentEventsSchema.optional(),
+    props: z
+      .object({
+        required: z.boolean().optional(),
+        maxLength: z.number().int().positive().optional(),
+      })
+      .default({}),
+  }),
+  BaseComponentSchema.extend({
+    type: z.literal("TextInput"),
+    stateKey: z.string().min(1),
+    events: ComponentEventsSchema.optional(),
     props: z
       .object({
         required: z.boolean().optional(),
         maxLength: z.number().int().positive().optional(),
+        placeholder: z.string().optional(),
+      })
+      .default({}),
+  }),
+  BaseComponentSchema.extend({
+    type: z.literal("NumberInput"),
+    stateKey: z.string().min(1),
+    events: ComponentEventsSchema.optional(),
+    props: z
+      .object({
+        required: z.boolean().optional(),
+        min: z.number().optional(),
+        max: z.number().optional(),
+        step: z.number().positive().optional(),
+      })
+      .default({}),
+  }),
+  BaseComponentSchema.extend({
+    type: z.literal("Select"),
+    stateKey: z.string().min(1),
+    events: ComponentEventsSchema.optional(),
+    props: z
+      .object({
+        required: z.boolean().optional(),
+      })
+      .default({}),
+  }),
+  BaseComponentSchema.extend({
+    type: z.literal("Checkbox"),
+    stateKey: z.string().min(1),
+    events: ComponentEventsSchema.optional(),
+  }),
+  BaseComponentSchema.extend({
+    type: z.literal("FileUpload"),
+    stateKey: z.string().min(1),
+    events: ComponentEventsSchema.optional(),
+    props: z
+      .object({
+        required: z.boolean().optional(),
       })
       .default({}),
   }),
   BaseComponentSchema.extend({
     type: z.literal("Button"),
-    events: z.record(z.string(), z.string()).default({}),
+    events: ComponentEventsSchema.default({}),
+  }),
+  BaseComponentSchema.extend({
+    type: z.literal("Form"),
+    componentIds: z.array(z.string().min(1)),
+    events: ComponentEventsSchema.default({}),
+    props: z
+      .object({
+        submitLabel: z.string().min(1).optional(),
+      })
+      .default({}),
   }),
   BaseComponentSchema.extend({
     type: z.literal("DataTable"),
     dataKey: z.string().min(1),
   }),
+  BaseComponentSchema.extend({
+    type: z.literal("MarkdownView"),
+    dataKey: z.string().min(1),
+  }),
+  BaseComponentSchema.extend({
+    type: z.literal("KeyValueCard"),
+    dataKey: z.string().min(1),
+  }),
+  BaseComponentSchema.extend({
+    type: z.literal("JsonView"),
+    dataKey: z.string().min(1),
+  }),
+]);
+
+export const EnvVarNameSchema = z
+  .string()
+  .regex(/^[A-Z_][A-Z0-9_]*$/, "Environment variable names use uppercase letters, digits and underscores.");
+
+export const RuntimeAccessPolicySchema = z.discriminatedUnion("mode", [
+  z.object({
+    mode: z.literal("public"),
+  }),
+  z.object({
+    mode: z.literal("apiKey"),
+    keyEnv: EnvVarNameSchema.default("APP_ACCESS_KEYS"),
+  }),
+  z.object({
+    mode: z.literal("jwt"),
+    secretEnv: EnvVarNameSchema.optional(),
+    jwksFileEnv: EnvVarNameSchema.optional(),
+    issuer: z.string().min(1).optional(),
+    audience: z.string().min(1).optional(),
+    /** Tokens must carry `exp` unless this is set. */
+    allowNonExpiringTokens: z.boolean().optional(),
+  }),
 ]);
 
+export const AppSecuritySchema = z.object({
+  runtimeAccess: RuntimeAccessPolicySchema,
+});
+
 export const AppDefinitionSchema = z.object({
   appId: z.string().min(1),
   version: z.string().min(1),
@@ -116,10 +305,25 @@ export const AppDefinitionSchema = z.object({
   }),
   stateModel: z.record(z.string(), StateFieldSchema),
   events: z.array(EventDefinitionSchema),
+  security: AppSecuritySchema.optional(),
 });
 
 export type AppDefinition = z.infer<typeof AppDefinitionSchema>;
 export type UIComponent = z.infer<typeof UIComponentSchema>;
+export type InputComponent = Extract<UIComponent, { stateKey: string }>;
+export type DisplayComponent = Extract<UIComponent, { dataKey: string }>;
+export type StateField = z.infer<typeof StateFieldSchema>;
 export type EventDefinition = z.infer<typeof EventDefinitionSchema>;
+export type TriggerEvent = z.infer<typeof TriggerEventSchema>;
 export type ActionNode = z.infer<typeof ActionNodeSchema>;
 export type PromptSpec = z.infer<typeof PromptSpecSchema>;
+export type ModelPolicy = z.infer<typeof ModelPolicySchema>;
+export type ModelFallback = z.infer<typeof ModelFallbackSchema>;
+export type ProviderErrorClass = z.infer<typeof ProviderErrorClassSchema>;
+export type PromptRetryPolicy = z.infer<typeof PromptRetryPolicySchema>;
+export type HttpRequestSpec = z.infer<typeof HttpRequestSpecSchema>;
+export type ActionEdge = z.infer<typeof ActionEdgeSchema>;
+export type ConditionPredicate = z.infer<typeof ConditionPredicateSchema>;
+export type ConditionBranch = z.infer<typeof ConditionBranchSchema>;
+export type RuntimeAccessPolicy = z.infer<typeof RuntimeAccessPolicySchema>;
+export type AppSecurity = z.infer<typeof AppSecuritySchema>;
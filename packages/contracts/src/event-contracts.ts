@@ -5,6 +5,12 @@ export const ExecuteEventRequestSchema = z.object({
   context: z.record(z.string(), z.unknown()).optional(),
 });
 
+export const UploadedFileSchema = z.object({
+  name: z.string().min(1),
+  mimeType: z.string(),
+  contentBase64: z.string(),
+});
+
 export const EventLogSchema = z.object({
   at: z.string(),
   eventId: z.string(),
@@ -12,11 +18,61 @@ export const EventLogSchema = z.object({
   message: z.string(),
 });
 
+export const TokenUsageSchema = z.object({
+  inputTokens: z.number().int().nonnegative(),
+  outputTokens: z.number().int().nonnegative(),
+  cachedInputTokens: z.number().int().nonnegative(),
+});
+
+export const NodeUsageSchema = z.object({
+  nodeId: z.string(),
+  provider: z.string(),
+  model: z.string(),
+  usage: TokenUsageSchema,
+  estimatedCostUsd: z.number().nonnegative().nullable(),
+});
+
 export const ExecuteEventResponseSchema = z.object({
   statePatch: z.record(z.string(), z.unknown()),
   logs: z.array(EventLogSchema),
+  usage: TokenUsageSchema,
+  estimatedCostUsd: z.number().nonnegative(),
+  nodeUsage: z.array(NodeUsageSchema),
 });
 
+export const ScheduledEventResultSchema = z.object({
+  appId: z.string(),
+  appVersion: z.string(),
+  eventId: z.string(),
+  runId: z.string(),
+  ranAt: z.string(),
+  status: z.enum(["ok", "error"]),
+  statePatch: z.record(z.string(), z.unknown()),
+  error: z.string().optional(),
+});
+
+export const ExecutionStreamEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("log"), log: EventLogSchema }),
+  z.object({ type: z.literal("node-start"), nodeId: z.string(), kind: z.string() }),
+  z.object({
+    type: z.literal("node-finish"),
+    nodeId: z.string(),
+    kind: z.string(),
+    status: z.enum(["ok", "skipped"]),
+  }),
+  z.object({ type: z.literal("state-patch"), statePatch: z.record(z.string(), z.unknown()) }),
+  z.object({ type: z.literal("token"), nodeId: z.string(), text: z.string() }),
+  /** The node's streamed tokens so far came from a failed attempt; drop them. */
+  z.object({ type: z.literal("token-reset"), nodeId: z.string() }),
+  z.object({ type: z.literal("result"), result: ExecuteEventResponseSchema }),
+  z.object({ type: z.literal("error"), error: z.string(), message: z.string() }),
+]);
+
 export type ExecuteEventRequest = z.infer<typeof ExecuteEventRequestSchema>;
+export type UploadedFile = z.infer<typeof UploadedFileSchema>;
 export type ExecuteEventResponse = z.infer<typeof ExecuteEventResponseSchema>;
 export type EventLog = z.infer<typeof EventLogSchema>;
+export type TokenUsage = z.infer<typeof TokenUsageSchema>;
+export type NodeUsage = z.infer<typeof NodeUsageSchema>;
+export type ScheduledEventResult = z.infer<typeof ScheduledEventResultSchema>;
+export type ExecutionStreamEvent = z.infer<typeof ExecutionStreamEventSchema>;
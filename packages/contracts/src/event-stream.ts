@@ -0,0 +1,44 @@
+import type { ExecutionStreamEvent } from "./event-contracts.js";
+
+/** Reads a Server-Sent Events response body and hands each decoded frame to `onEvent`. */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: ExecutionStreamEvent) => void,
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Streaming response has no body.");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (frame: string): void => {
+    const data = frame
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice("data:".length).trimStart())
+      .join("\n");
+    if (data.length > 0) {
+      onEvent(JSON.parse(data) as ExecutionStreamEvent);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary >= 0) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  if (buffer.trim().length > 0) {
+    flush(buffer);
+  }
+}
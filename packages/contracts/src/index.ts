@@ -1,2 +1,3 @@
 export * from "./app-schema.js";
 export * from "./event-contracts.js";
+export * from "./event-stream.js";